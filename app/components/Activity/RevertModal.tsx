@@ -0,0 +1,160 @@
+import {
+  Banner,
+  BlockStack,
+  ChoiceList,
+  InlineStack,
+  Badge,
+  Modal,
+  Scrollable,
+  Spinner,
+  Text
+} from "@shopify/polaris";
+import { useEffect, useState } from "react";
+import type { RevertItemStatus, RevertMode, RevertPreview, RevertSelection } from "~/types/revert.types";
+
+interface RevertModalProps {
+  open: boolean;
+  onClose: () => void;
+  onConfirm: (selection: RevertSelection) => void;
+  isLoading: boolean;
+  preview?: RevertPreview;
+  error?: string;
+}
+
+const STATUS_LABELS: Record<RevertItemStatus, string> = {
+  unchanged: "Untouched since job",
+  changed: "Edited since job",
+  unknown: "Not compared",
+  original: "Already original",
+  deleted: "Deleted",
+  reverted: "Already reverted",
+};
+
+const STATUS_TONES: Partial<Record<RevertItemStatus, "success" | "warning" | "critical" | "info">> = {
+  unchanged: "success",
+  changed: "warning",
+  deleted: "critical",
+  reverted: "info",
+};
+
+// Items a revert would still write to
+const isRevertable = (status: RevertItemStatus) => status === "unchanged" || status === "changed" || status === "unknown";
+
+export function RevertModal({
+  open,
+  onClose,
+  onConfirm,
+  isLoading,
+  preview,
+  error
+}: RevertModalProps) {
+  const [mode, setMode] = useState<RevertMode>("all");
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+
+  useEffect(() => {
+    setMode("all");
+    setSelectedIds([]);
+  }, [preview?.jobId]);
+
+  const counts = preview?.counts;
+  const revertableCount = counts ? counts.unchanged + counts.changed + counts.unknown : 0;
+  // Only the listed items are compared; the revert checks the rest when it runs
+  const comparedCount = counts ? revertableCount + counts.original + counts.deleted : 0;
+  const isPartial = !!preview && comparedCount < preview.pending;
+  const selectionCount = mode === "all" ? revertableCount : mode === "untouched" ? counts?.unchanged || 0 : selectedIds.length;
+
+  const modeChoices = [
+    { label: isPartial ? `All items that still differ (up to ${preview.pending})` : `All items that still differ (${revertableCount})`, value: "all" },
+    ...(preview?.canCompare ? [{ label: isPartial ? "Only items untouched since the job" : `Only items untouched since the job (${counts?.unchanged || 0})`, value: "untouched" }] : []),
+    { label: "Only selected items", value: "selected" },
+  ];
+
+  const itemChoices = (preview?.items || [])
+    .filter(item => isRevertable(item.status))
+    .map(item => ({
+      label: item.title || item.resourceId,
+      value: item.resourceId,
+      helpText: item.currentTags
+        ? `${STATUS_LABELS[item.status]}: ${item.currentTags.join(", ") || "(no tags)"} → ${item.originalTags.join(", ") || "(no tags)"}`
+        : STATUS_LABELS[item.status],
+    }));
+
+  return (
+    <Modal
+      open={open}
+      onClose={onClose}
+      title="Revert Bulk Operation"
+      primaryAction={{
+        content: isPartial && mode !== "selected" ? "Revert Items" : `Revert ${selectionCount} Items`,
+        onAction: () => onConfirm({ mode, resourceIds: mode === "selected" ? selectedIds : undefined }),
+        destructive: true,
+        loading: isLoading,
+        disabled: !preview || (isPartial && mode !== "selected" ? preview.pending === 0 : selectionCount === 0),
+      }}
+      secondaryActions={[
+        {
+          content: "Cancel",
+          onAction: onClose,
+        },
+      ]}
+    >
+      <Modal.Section>
+        {error ? (
+          <Banner tone="critical">{error}</Banner>
+        ) : !preview ? (
+          <InlineStack gap="200" blockAlign="center">
+            <Spinner size="small" />
+            <Text as="span">Comparing the backup with current data...</Text>
+          </InlineStack>
+        ) : (
+          <BlockStack gap="400">
+            <Text as="p">
+              This job changed <strong>{preview.total}</strong> {preview.resourceType}. Reverting restores the original tags or values, and can itself be undone from the Activity Log.
+            </Text>
+
+            {isPartial && (
+              <Text as="p" tone="subdued">
+                Showing the first {comparedCount} of {preview.pending} items not reverted yet. The others are compared when the revert runs, and items already original or deleted are skipped.
+              </Text>
+            )}
+
+            <InlineStack gap="200">
+              {(Object.keys(STATUS_LABELS) as RevertItemStatus[])
+                .filter(status => preview.counts[status] > 0)
+                .map(status => (
+                  <Badge key={status} tone={STATUS_TONES[status]}>
+                    {`${STATUS_LABELS[status]}: ${preview.counts[status]}`}
+                  </Badge>
+                ))}
+            </InlineStack>
+
+            {preview.counts.changed > 0 && (
+              <Banner tone="warning">
+                {preview.counts.changed} items were edited after the job ran. Reverting them overwrites those edits.
+              </Banner>
+            )}
+
+            <ChoiceList
+              title="Items to revert"
+              choices={modeChoices}
+              selected={[mode]}
+              onChange={(value) => setMode(value[0] as RevertMode)}
+            />
+
+            {mode === "selected" && (
+              <Scrollable style={{ maxHeight: "300px" }}>
+                <ChoiceList
+                  title={`Showing the first ${preview.items.length} of ${preview.total} items`}
+                  allowMultiple
+                  choices={itemChoices}
+                  selected={selectedIds}
+                  onChange={setSelectedIds}
+                />
+              </Scrollable>
+            )}
+          </BlockStack>
+        )}
+      </Modal.Section>
+    </Modal>
+  );
+}
@@ -0,0 +1,189 @@
+import {
+  Banner,
+  BlockStack,
+  Button,
+  Card,
+  FormLayout,
+  InlineStack,
+  Select,
+  Text,
+  TextField
+} from "@shopify/polaris";
+import { ConditionBuilder } from "~/components/ConditionBuilder";
+import type { BulkTargetConditions } from "~/hooks/useBulkForm";
+import type { MetafieldActionData } from "~/types/bulk.types";
+
+export interface BulkMetafieldFormState {
+  resourceType: string;
+  operation: string;
+  namespace: string;
+  key: string;
+  valueType: string;
+  value: string;
+  targetMode: string;
+  searchQuery: string;
+}
+
+interface BulkMetafieldFormProps {
+  formState: BulkMetafieldFormState;
+  onFormChange: (updates: Partial<BulkMetafieldFormState>) => void;
+  targetConditions: BulkTargetConditions;
+  onTargetConditionsChange: (targetConditions: BulkTargetConditions) => void;
+  onPreview: () => void;
+  isLoading: boolean;
+  actionData?: MetafieldActionData;
+}
+
+const valueTypeOptions = [
+  { label: "Single Line Text", value: "single_line_text_field" },
+  { label: "Integer", value: "number_integer" },
+  { label: "Decimal", value: "number_decimal" },
+  { label: "JSON", value: "json" },
+];
+
+export function BulkMetafieldForm({
+  formState,
+  onFormChange,
+  targetConditions,
+  onTargetConditionsChange,
+  onPreview,
+  isLoading,
+  actionData
+}: BulkMetafieldFormProps) {
+  // Rule conditions are evaluated on product/customer payloads only
+  const targetOptions = [
+    { label: `All ${formState.resourceType}`, value: "tags" },
+    { label: "Items matching a search query", value: "query" },
+    ...(formState.resourceType === "variants" ? [] : [{ label: "Items matching conditions", value: "conditions" }]),
+  ];
+
+  return (
+    <Card>
+      <BlockStack gap="400">
+        <Text variant="headingMd" as="h2">Bulk Edit Metafields</Text>
+        <Text as="p">
+          Set, change or delete a metafield across many items. Original values are backed up so the job can be reverted from the Activity Log.
+        </Text>
+
+        {actionData?.status === "queued" && (
+          <Banner tone="success" onDismiss={() => window.location.reload()}>
+            Bulk metafield job started! Check Activity Log for progress.
+          </Banner>
+        )}
+
+        {actionData?.status === "quota_exceeded" && (
+          <Banner tone="critical">
+            <BlockStack gap="200">
+              <Text as="p">{actionData.message}</Text>
+              <Button url="/app/billing">Upgrade to Pro</Button>
+            </BlockStack>
+          </Banner>
+        )}
+
+        {actionData?.status === "error" && (
+          <Banner tone="critical">
+            Error: {actionData.message}
+          </Banner>
+        )}
+
+        <FormLayout>
+          <FormLayout.Group>
+            <Select
+              label="Resource"
+              options={[
+                { label: "Products", value: "products" },
+                { label: "Variants", value: "variants" },
+                { label: "Customers", value: "customers" },
+              ]}
+              value={formState.resourceType}
+              onChange={(value) => onFormChange({
+                resourceType: value,
+                targetMode: value === "variants" && formState.targetMode === "conditions" ? "tags" : formState.targetMode,
+              })}
+            />
+            <Select
+              label="Operation"
+              options={[
+                { label: "Set value", value: "set" },
+                { label: "Change existing values", value: "update" },
+                { label: "Delete metafield", value: "delete" },
+              ]}
+              value={formState.operation}
+              onChange={(value) => onFormChange({ operation: value })}
+            />
+          </FormLayout.Group>
+
+          <InlineStack gap="300" wrap={false}>
+            <TextField
+              label="Namespace"
+              value={formState.namespace}
+              onChange={(value) => onFormChange({ namespace: value })}
+              autoComplete="off"
+            />
+            <TextField
+              label="Key"
+              value={formState.key}
+              onChange={(value) => onFormChange({ key: value })}
+              autoComplete="off"
+            />
+            {formState.operation !== "delete" && (
+              <Select
+                label="Type"
+                options={valueTypeOptions}
+                value={formState.valueType}
+                onChange={(value) => onFormChange({ valueType: value })}
+              />
+            )}
+          </InlineStack>
+
+          {formState.operation !== "delete" && (
+            <TextField
+              label="Value"
+              value={formState.value}
+              onChange={(value) => onFormChange({ value })}
+              autoComplete="off"
+              multiline={formState.valueType === "json" ? 3 : undefined}
+            />
+          )}
+
+          <Select
+            label="Apply To"
+            options={targetOptions}
+            value={formState.targetMode}
+            onChange={(value) => onFormChange({ targetMode: value })}
+          />
+
+          {formState.targetMode === "query" && (
+            <TextField
+              label="Search Query"
+              value={formState.searchQuery}
+              onChange={(value) => onFormChange({ searchQuery: value })}
+              autoComplete="off"
+              placeholder="vendor:Acme AND product_type:Shoes"
+              helpText="Shopify admin search syntax."
+            />
+          )}
+
+          {formState.targetMode === "conditions" && (
+            <ConditionBuilder
+              conditions={targetConditions.conditions}
+              conditionLogic={targetConditions.conditionLogic}
+              groups={targetConditions.groups}
+              resourceType={formState.resourceType}
+              onChange={(conditions, conditionLogic, groups) => onTargetConditionsChange({ conditions, conditionLogic, groups })}
+            />
+          )}
+
+          <Button
+            variant="primary"
+            onClick={onPreview}
+            loading={isLoading}
+            disabled={!formState.namespace || !formState.key}
+          >
+            Preview Operation
+          </Button>
+        </FormLayout>
+      </BlockStack>
+    </Card>
+  );
+}
@@ -9,18 +9,38 @@ import {
   Text,
   TextField
 } from "@shopify/polaris";
+import { ConditionBuilder } from "~/components/ConditionBuilder";
+import type { BulkTargetConditions } from "~/hooks/useBulkForm";
 import type { BulkActionData } from "~/types/bulk.types";
 
 interface BulkFormState {
   resourceType: string;
   operation: string;
+  matchMode: string;
+  targetMode: string;
+  searchQuery: string;
   findTag: string;
   replaceTag: string;
+  addTags: string;
 }
 
+const FIND_HELP_TEXT: Record<string, string> = {
+  exact: "Separate multiple tags with commas. Start typing to see suggestions.",
+  wildcard: "Use * to match any text, e.g. summer-2024-*. Separate multiple patterns with commas.",
+  regex: "A case-insensitive regular expression, e.g. ^sale-(\\d+)$. Use | to match several patterns.",
+};
+
+const REPLACE_HELP_TEXT: Record<string, string> = {
+  exact: "The new tag value.",
+  wildcard: "Each * is filled with the text matched by the * in the find pattern, e.g. archive-summer-2024-*.",
+  regex: "Use $1, $2… to insert the groups captured by the pattern.",
+};
+
 interface BulkOperationFormProps {
   formState: BulkFormState;
   onFormChange: (updates: Partial<BulkFormState>) => void;
+  targetConditions: BulkTargetConditions;
+  onTargetConditionsChange: (targetConditions: BulkTargetConditions) => void;
   onPreview: () => void;
   isLoading: boolean;
   isQueued: boolean;
@@ -35,6 +55,8 @@ interface BulkOperationFormProps {
 export function BulkOperationForm({
   formState,
   onFormChange,
+  targetConditions,
+  onTargetConditionsChange,
   onPreview,
   isLoading,
   isQueued,
@@ -90,13 +112,66 @@ export function BulkOperationForm({
             label="Operation"
             options={[
               { label: "Find & Replace", value: "replace" },
-              { label: "Add Tag", value: "add" },
-              { label: "Remove Tag", value: "remove" },
+              { label: "Add Tags", value: "add" },
+              { label: "Remove Tags", value: "remove" },
             ]}
             value={formState.operation}
             onChange={(value) => onFormChange({ operation: value })}
           />
 
+          <Select
+            label="Match"
+            options={[
+              { label: "Exact tags", value: "exact" },
+              { label: "Wildcard (*)", value: "wildcard" },
+              { label: "Regular expression", value: "regex" },
+            ]}
+            value={formState.matchMode}
+            onChange={(value) => onFormChange({ matchMode: value })}
+          />
+
+          <Select
+            label="Apply To"
+            options={[
+              { label: "Items with the tags below", value: "tags" },
+              { label: "Items matching a search query", value: "query" },
+              { label: "Items matching conditions", value: "conditions" },
+            ]}
+            value={formState.targetMode}
+            onChange={(value) => onFormChange({ targetMode: value })}
+          />
+
+          {formState.targetMode === "query" && (
+            <TextField
+              label="Search Query"
+              value={formState.searchQuery}
+              onChange={(value) => onFormChange({ searchQuery: value })}
+              autoComplete="off"
+              placeholder="vendor:Acme AND inventory_total:<=0"
+              helpText="Shopify admin search syntax. Only items that also have the find tags (when set) are changed."
+            />
+          )}
+
+          {formState.targetMode === "conditions" && (
+            <ConditionBuilder
+              conditions={targetConditions.conditions}
+              conditionLogic={targetConditions.conditionLogic}
+              groups={targetConditions.groups}
+              resourceType={formState.resourceType}
+              onChange={(conditions, conditionLogic, groups) => onTargetConditionsChange({ conditions, conditionLogic, groups })}
+            />
+          )}
+
+          {formState.operation === "add" && (
+            <TextField
+              label="Tags to Add"
+              value={formState.addTags}
+              onChange={(value) => onFormChange({ addTags: value })}
+              autoComplete="off"
+              helpText="Separate multiple tags with commas."
+            />
+          )}
+
           <Autocomplete
             options={findTagOptions}
             selected={[]}
@@ -106,14 +181,16 @@ export function BulkOperationForm({
             }}
             textField={
               <Autocomplete.TextField
-                label={formState.operation === "add" ? "Tag to Add" : "Find Tag"}
+                label={formState.operation === "add" ? "Only Items Tagged (optional)" : "Find Tags"}
                 value={findTagInputValue}
                 onChange={(value) => {
                   onFindTagInputChange(value);
                   onFormChange({ findTag: value });
                 }}
                 autoComplete="off"
-                helpText={formState.operation === "replace" ? "The tag you want to change. Start typing to see suggestions." : "Start typing to see existing tags."}
+                helpText={formState.operation === "add" && !formState.findTag
+                  ? "Leave empty to add the tags to every targeted item."
+                  : FIND_HELP_TEXT[formState.matchMode]}
               />
             }
           />
@@ -124,7 +201,7 @@ export function BulkOperationForm({
               value={formState.replaceTag}
               onChange={(value) => onFormChange({ replaceTag: value })}
               autoComplete="off"
-              helpText="The new tag value."
+              helpText={REPLACE_HELP_TEXT[formState.matchMode]}
             />
           )}
 
@@ -132,7 +209,7 @@ export function BulkOperationForm({
             variant="primary"
             onClick={onPreview}
             loading={isLoading}
-            disabled={!formState.findTag}
+            disabled={formState.operation === "add" ? !formState.addTags : !formState.findTag}
           >
             Preview Operation
           </Button>
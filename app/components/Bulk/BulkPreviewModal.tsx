@@ -1,12 +1,15 @@
 import {
+  Badge,
   Banner,
   BlockStack,
   Box,
+  InlineStack,
   List,
   Modal,
   Text
 } from "@shopify/polaris";
-import type { BulkActionData } from "~/types/bulk.types";
+import { TagPolicyWarnings } from "~/components/TagPolicyWarnings";
+import type { BulkActionData, BulkPreview } from "~/types/bulk.types";
 
 interface BulkPreviewModalProps {
   open: boolean;
@@ -16,6 +19,24 @@ interface BulkPreviewModalProps {
   actionData?: BulkActionData;
 }
 
+function TagDiff({ item }: { item: BulkPreview }) {
+  const before = new Set(item.before);
+  const after = new Set(item.after);
+  const removed = item.before.filter(tag => !after.has(tag));
+  const added = item.after.filter(tag => !before.has(tag));
+
+  return (
+    <BlockStack gap="100">
+      <Text as="span" tone="subdued">Before: {item.before.join(", ") || "(no tags)"}</Text>
+      <Text as="span" tone="subdued">After: {item.after.join(", ") || "(no tags)"}</Text>
+      <InlineStack gap="100">
+        {removed.map(tag => <Badge key={`-${tag}`} tone="critical">{`- ${tag}`}</Badge>)}
+        {added.map(tag => <Badge key={`+${tag}`} tone="success">{`+ ${tag}`}</Badge>)}
+      </InlineStack>
+    </BlockStack>
+  );
+}
+
 export function BulkPreviewModal({
   open,
   onClose,
@@ -51,11 +72,10 @@ export function BulkPreviewModal({
               <Text variant="headingSm" as="h3">Preview (first 10 items):</Text>
               <Box padding="400" background="bg-surface-secondary" borderRadius="200">
                 <List>
-                  {actionData.preview.map((item: any) => (
+                  {actionData.preview.map((item) => (
                     <List.Item key={item.id}>
                       <strong>{item.title}</strong>
-                      <br />
-                      <Text as="span" tone="subdued">Tags: {item.tags.join(", ")}</Text>
+                      <TagDiff item={item} />
                     </List.Item>
                   ))}
                 </List>
@@ -63,6 +83,8 @@ export function BulkPreviewModal({
             </BlockStack>
           )}
 
+          <TagPolicyWarnings violations={actionData?.policyViolations || []} />
+
           <Banner tone="warning">
             This operation will run in the background and cannot be undone (except via Backup/Revert for Pro users).
           </Banner>
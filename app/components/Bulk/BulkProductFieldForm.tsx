@@ -0,0 +1,190 @@
+import {
+  Banner,
+  BlockStack,
+  Button,
+  Card,
+  FormLayout,
+  Select,
+  Text,
+  TextField
+} from "@shopify/polaris";
+import { ConditionBuilder } from "~/components/ConditionBuilder";
+import type { BulkTargetConditions } from "~/hooks/useBulkForm";
+import type { ProductFieldActionData } from "~/types/bulk.types";
+
+export interface BulkProductFieldFormState {
+  field: string;
+  adjustment: string;
+  value: string;
+  targetMode: string;
+  searchQuery: string;
+}
+
+interface BulkProductFieldFormProps {
+  formState: BulkProductFieldFormState;
+  onFormChange: (updates: Partial<BulkProductFieldFormState>) => void;
+  targetConditions: BulkTargetConditions;
+  onTargetConditionsChange: (targetConditions: BulkTargetConditions) => void;
+  onPreview: () => void;
+  isLoading: boolean;
+  actionData?: ProductFieldActionData;
+}
+
+const fieldOptions = [
+  { label: "Price", value: "price" },
+  { label: "Compare-at price", value: "compare_at_price" },
+  { label: "Vendor", value: "vendor" },
+  { label: "Product type", value: "product_type" },
+  { label: "Status", value: "status" },
+  { label: "SEO title", value: "seo_title" },
+];
+
+const adjustmentOptions = [
+  { label: "Set to", value: "set" },
+  { label: "Increase by %", value: "increase_percent" },
+  { label: "Decrease by %", value: "decrease_percent" },
+  { label: "Increase by amount", value: "increase_amount" },
+  { label: "Decrease by amount", value: "decrease_amount" },
+];
+
+const statusOptions = [
+  { label: "Active", value: "ACTIVE" },
+  { label: "Draft", value: "DRAFT" },
+  { label: "Archived", value: "ARCHIVED" },
+];
+
+const isPriceField = (field: string) => field === "price" || field === "compare_at_price";
+
+export function BulkProductFieldForm({
+  formState,
+  onFormChange,
+  targetConditions,
+  onTargetConditionsChange,
+  onPreview,
+  isLoading,
+  actionData
+}: BulkProductFieldFormProps) {
+  const adjustments = formState.field === "compare_at_price"
+    ? [...adjustmentOptions, { label: "Clear", value: "clear" }]
+    : adjustmentOptions;
+
+  const handleFieldChange = (field: string) => {
+    onFormChange({
+      field,
+      adjustment: "set",
+      value: field === "status" ? "ACTIVE" : "",
+    });
+  };
+
+  return (
+    <Card>
+      <BlockStack gap="400">
+        <Text variant="headingMd" as="h2">Edit Product Fields</Text>
+        <Text as="p">
+          Update prices, vendor, product type, status or SEO titles without exporting a CSV. Original values are backed up for revert.
+        </Text>
+
+        {actionData?.status === "field_queued" && (
+          <Banner tone="success" onDismiss={() => window.location.reload()}>
+            Bulk product update started! Check Activity Log for progress.
+          </Banner>
+        )}
+
+        {actionData?.status === "quota_exceeded" && (
+          <Banner tone="critical">
+            <BlockStack gap="200">
+              <Text as="p">{actionData.message}</Text>
+              <Button url="/app/billing">Upgrade to Pro</Button>
+            </BlockStack>
+          </Banner>
+        )}
+
+        {actionData?.status === "error" && (
+          <Banner tone="critical">
+            Error: {actionData.message}
+          </Banner>
+        )}
+
+        <FormLayout>
+          <FormLayout.Group>
+            <Select
+              label="Field"
+              options={fieldOptions}
+              value={formState.field}
+              onChange={handleFieldChange}
+            />
+            {isPriceField(formState.field) && (
+              <Select
+                label="Change"
+                options={adjustments}
+                value={formState.adjustment}
+                onChange={(value) => onFormChange({ adjustment: value })}
+              />
+            )}
+          </FormLayout.Group>
+
+          {formState.field === "status" ? (
+            <Select
+              label="New Status"
+              options={statusOptions}
+              value={formState.value}
+              onChange={(value) => onFormChange({ value })}
+            />
+          ) : formState.adjustment !== "clear" && (
+            <TextField
+              label={formState.field === "seo_title" ? "SEO Title Template" : "Value"}
+              value={formState.value}
+              onChange={(value) => onFormChange({ value })}
+              autoComplete="off"
+              type={isPriceField(formState.field) ? "number" : "text"}
+              helpText={formState.field === "seo_title"
+                ? "Use {{title}}, {{vendor}} and {{product_type}}, e.g. \"{{title}} | {{vendor}}\"."
+                : isPriceField(formState.field) ? "Applied to every variant of the matching products." : undefined}
+            />
+          )}
+
+          <Select
+            label="Apply To"
+            options={[
+              { label: "All products", value: "tags" },
+              { label: "Products matching a search query", value: "query" },
+              { label: "Products matching conditions", value: "conditions" },
+            ]}
+            value={formState.targetMode}
+            onChange={(value) => onFormChange({ targetMode: value })}
+          />
+
+          {formState.targetMode === "query" && (
+            <TextField
+              label="Search Query"
+              value={formState.searchQuery}
+              onChange={(value) => onFormChange({ searchQuery: value })}
+              autoComplete="off"
+              placeholder="vendor:Acme AND tag:sale"
+              helpText="Shopify admin search syntax."
+            />
+          )}
+
+          {formState.targetMode === "conditions" && (
+            <ConditionBuilder
+              conditions={targetConditions.conditions}
+              conditionLogic={targetConditions.conditionLogic}
+              groups={targetConditions.groups}
+              resourceType="products"
+              onChange={(conditions, conditionLogic, groups) => onTargetConditionsChange({ conditions, conditionLogic, groups })}
+            />
+          )}
+
+          <Button
+            variant="primary"
+            onClick={onPreview}
+            loading={isLoading}
+            disabled={formState.adjustment !== "clear" && !formState.value}
+          >
+            Preview Changes
+          </Button>
+        </FormLayout>
+      </BlockStack>
+    </Card>
+  );
+}
@@ -0,0 +1,83 @@
+import {
+  Banner,
+  BlockStack,
+  Box,
+  List,
+  Modal,
+  Text
+} from "@shopify/polaris";
+import type { ValuePreview } from "~/types/bulk.types";
+
+interface BulkValuePreviewModalProps {
+  open: boolean;
+  onClose: () => void;
+  onConfirm: () => void;
+  isLoading: boolean;
+  title: string;
+  // e.g. "products whose price will change"
+  summary: string;
+  count?: number;
+  preview?: ValuePreview[];
+}
+
+const formatValue = (value: string | null) => value === null || value === "" ? "(not set)" : value;
+
+export function BulkValuePreviewModal({
+  open,
+  onClose,
+  onConfirm,
+  isLoading,
+  title,
+  summary,
+  count = 0,
+  preview = []
+}: BulkValuePreviewModalProps) {
+  return (
+    <Modal
+      open={open}
+      onClose={onClose}
+      title={title}
+      primaryAction={{
+        content: `Update ${count} Items`,
+        onAction: onConfirm,
+        loading: isLoading,
+        disabled: !count,
+      }}
+      secondaryActions={[
+        {
+          content: "Cancel",
+          onAction: onClose,
+        },
+      ]}
+    >
+      <Modal.Section>
+        <BlockStack gap="400">
+          <Text as="p">
+            Found <strong>{count}</strong> {summary}.
+          </Text>
+
+          {preview.length > 0 && (
+            <BlockStack gap="200">
+              <Text variant="headingSm" as="h3">Preview (first 10 items):</Text>
+              <Box padding="400" background="bg-surface-secondary" borderRadius="200">
+                <List>
+                  {preview.map((item) => (
+                    <List.Item key={item.id}>
+                      <strong>{item.title}</strong>
+                      <br />
+                      <Text as="span" tone="subdued">{formatValue(item.before)} → {formatValue(item.after)}</Text>
+                    </List.Item>
+                  ))}
+                </List>
+              </Box>
+            </BlockStack>
+          )}
+
+          <Banner tone="warning">
+            This operation will run in the background. Original values are backed up and can be restored from the Activity Log.
+          </Banner>
+        </BlockStack>
+      </Modal.Section>
+    </Modal>
+  );
+}
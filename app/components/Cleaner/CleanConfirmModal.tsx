@@ -26,6 +26,8 @@ export function CleanConfirmModal({
   selectedTags,
   results
 }: CleanConfirmModalProps) {
+  const affectedCount = selectedTags.reduce((sum, tag) => sum + (results?.usage?.[tag] || 0), 0);
+
   return (
     <Modal
       open={open}
@@ -47,7 +49,7 @@ export function CleanConfirmModal({
       <Modal.Section>
         <BlockStack gap="400">
           <Text as="p">
-            Are you sure you want to remove <strong>{selectedTags.length}</strong> tags from <strong>~{results?.itemsScanned || 0}</strong> scanned items?
+            Are you sure you want to remove <strong>{selectedTags.length}</strong> tags from up to <strong>{affectedCount.toLocaleString()}</strong> items?
           </Text>
 
           {results?.previewItems && results.previewItems.length > 0 && (
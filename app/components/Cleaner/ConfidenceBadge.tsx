@@ -0,0 +1,11 @@
+import { Badge } from "@shopify/polaris";
+
+interface ConfidenceBadgeProps {
+  confidence: number;
+}
+
+// Exact spellings are certain, typo matches deserve a second look
+export function ConfidenceBadge({ confidence }: ConfidenceBadgeProps) {
+  const tone = confidence >= 0.95 ? "success" : confidence >= 0.85 ? "info" : "attention";
+  return <Badge tone={tone}>{`${Math.round(confidence * 100)}% match`}</Badge>;
+}
@@ -0,0 +1,157 @@
+import {
+  Banner,
+  BlockStack,
+  Box,
+  Button,
+  Card,
+  Checkbox,
+  InlineStack,
+  Modal,
+  Scrollable,
+  Select,
+  Text
+} from "@shopify/polaris";
+import { useEffect, useMemo, useState } from "react";
+import type { TagMerge, TagSimilarityGroup } from "~/types/cleaner.types";
+import { ConfidenceBadge } from "./ConfidenceBadge";
+
+interface TagMergeCardProps {
+  groups: TagSimilarityGroup[];
+  usage: Record<string, number>;
+  isLoading: boolean;
+  onMerge: (merges: TagMerge[], affectedCount: number) => void;
+}
+
+const groupKey = (group: TagSimilarityGroup) => group.tags.join("\n");
+
+export function TagMergeCard({
+  groups,
+  usage,
+  isLoading,
+  onMerge
+}: TagMergeCardProps) {
+  const [selectedGroups, setSelectedGroups] = useState<string[]>([]);
+  const [canonicals, setCanonicals] = useState<Record<string, string>>({});
+  const [isConfirmOpen, setIsConfirmOpen] = useState(false);
+
+  // Most used spelling is the default canonical tag
+  useEffect(() => {
+    setSelectedGroups([]);
+    setCanonicals(Object.fromEntries(groups.map(group => [
+      groupKey(group),
+      [...group.tags].sort((a, b) => (usage[b] || 0) - (usage[a] || 0))[0],
+    ])));
+  }, [groups, usage]);
+
+  const merges = useMemo<TagMerge[]>(() => groups
+    .filter(group => selectedGroups.includes(groupKey(group)))
+    .map(group => {
+      const canonical = canonicals[groupKey(group)] || group.tags[0];
+      return { canonical, variants: group.tags.filter(tag => tag !== canonical) };
+    }), [groups, selectedGroups, canonicals]);
+
+  // Items carrying several variants are counted once per variant, so this is an upper bound
+  const affectedCount = merges.reduce(
+    (sum, merge) => sum + merge.variants.reduce((count, variant) => count + (usage[variant] || 0), 0),
+    0
+  );
+
+  const toggleGroup = (key: string) => {
+    setSelectedGroups(prev => prev.includes(key) ? prev.filter(k => k !== key) : [...prev, key]);
+  };
+
+  const confirmMerge = () => {
+    onMerge(merges, affectedCount);
+    setIsConfirmOpen(false);
+  };
+
+  return (
+    <Card>
+      <BlockStack gap="400">
+        <Text variant="headingMd" as="h2">Merge Duplicate Tags</Text>
+        <Text as="p" tone="subdued">
+          Keep one spelling per group. Lower matches may be different tags, so check them before merging. Every product, customer and order using another spelling gets the chosen tag instead.
+        </Text>
+
+        <Scrollable shadow style={{ maxHeight: '320px' }}>
+          <BlockStack gap="300">
+            {groups.map(group => {
+              const key = groupKey(group);
+              return (
+                <Box key={key} paddingBlockEnd="300" borderBlockEndWidth="025" borderColor="border">
+                  <InlineStack gap="400" align="space-between" blockAlign="center" wrap={false}>
+                    <InlineStack gap="200" blockAlign="center">
+                      <Checkbox
+                        label={group.tags.map(tag => `${tag} (${(usage[tag] || 0).toLocaleString()})`).join(", ")}
+                        checked={selectedGroups.includes(key)}
+                        onChange={() => toggleGroup(key)}
+                      />
+                      <ConfidenceBadge confidence={group.confidence} />
+                    </InlineStack>
+                    <Select
+                      label="Keep"
+                      labelInline
+                      options={group.tags.map(tag => ({ label: tag, value: tag }))}
+                      value={canonicals[key] || group.tags[0]}
+                      onChange={(value) => setCanonicals(prev => ({ ...prev, [key]: value }))}
+                    />
+                  </InlineStack>
+                </Box>
+              );
+            })}
+          </BlockStack>
+        </Scrollable>
+
+        <InlineStack align="end">
+          <Button
+            variant="primary"
+            onClick={() => setIsConfirmOpen(true)}
+            disabled={merges.length === 0}
+            loading={isLoading}
+          >
+            {`Merge ${merges.length} Groups`}
+          </Button>
+        </InlineStack>
+      </BlockStack>
+
+      <Modal
+        open={isConfirmOpen}
+        onClose={() => setIsConfirmOpen(false)}
+        title="Confirm Tag Merge"
+        primaryAction={{
+          content: `Merge ${merges.length} Groups`,
+          onAction: confirmMerge,
+          loading: isLoading,
+        }}
+        secondaryActions={[
+          {
+            content: "Cancel",
+            onAction: () => setIsConfirmOpen(false),
+          },
+        ]}
+      >
+        <Modal.Section>
+          <BlockStack gap="400">
+            <Text as="p">
+              Rewrite up to <strong>{affectedCount.toLocaleString()}</strong> items:
+            </Text>
+            <Box padding="400" background="bg-surface-secondary" borderRadius="200">
+              <Scrollable style={{ maxHeight: '150px' }} shadow>
+                <BlockStack gap="100">
+                  {merges.map(merge => (
+                    <Text as="p" key={merge.canonical}>
+                      {merge.variants.join(", ")} → <strong>{merge.canonical}</strong>
+                    </Text>
+                  ))}
+                </BlockStack>
+              </Scrollable>
+            </Box>
+            <Banner tone="info">
+              A backup is saved before any item changes, so the merge can be reverted from the Activity Log.
+            </Banner>
+          </BlockStack>
+        </Modal.Section>
+      </Modal>
+    </Card>
+  );
+}
@@ -0,0 +1,118 @@
+import {
+  BlockStack,
+  Button,
+  Card,
+  FormLayout,
+  InlineStack,
+  Select,
+  Text,
+  TextField
+} from "@shopify/polaris";
+import { useEffect, useState } from "react";
+import type { TagCasing, TagCharacterSet, TagPolicyRules } from "~/types/cleaner.types";
+
+interface TagPolicyCardProps {
+  policy: TagPolicyRules;
+  isLoading: boolean;
+  onSave: (policy: TagPolicyRules) => void;
+}
+
+const characterSetOptions = [
+  { label: "Any characters", value: "any" },
+  { label: "Letters of any alphabet, digits, spaces, - and _", value: "letters" },
+  { label: "Latin letters with accents, digits, spaces, - and _", value: "latin" },
+  { label: "a-z without accents, digits, spaces, - and _", value: "ascii" },
+];
+
+const casingOptions = [
+  { label: "Any casing", value: "any" },
+  { label: "lower case", value: "lower" },
+  { label: "kebab-case", value: "kebab" },
+  { label: "Title Case", value: "title" },
+];
+
+export function TagPolicyCard({ policy, isLoading, onSave }: TagPolicyCardProps) {
+  const [characterSet, setCharacterSet] = useState<TagCharacterSet>(policy.characterSet);
+  const [maxLength, setMaxLength] = useState(policy.maxLength?.toString() || "");
+  const [casing, setCasing] = useState<TagCasing>(policy.casing);
+  const [forbiddenPrefixes, setForbiddenPrefixes] = useState(policy.forbiddenPrefixes.join(", "));
+  const [allowList, setAllowList] = useState(policy.allowList.join(", "));
+
+  // Reset when the saved policy changes, not on every revalidation while a scan runs
+  const savedPolicy = JSON.stringify(policy);
+  useEffect(() => {
+    const saved: TagPolicyRules = JSON.parse(savedPolicy);
+    setCharacterSet(saved.characterSet);
+    setMaxLength(saved.maxLength?.toString() || "");
+    setCasing(saved.casing);
+    setForbiddenPrefixes(saved.forbiddenPrefixes.join(", "));
+    setAllowList(saved.allowList.join(", "));
+  }, [savedPolicy]);
+
+  const handleSave = () => {
+    onSave({
+      characterSet,
+      maxLength: maxLength.trim() ? parseInt(maxLength) : null,
+      casing,
+      forbiddenPrefixes: forbiddenPrefixes.split(",").map(prefix => prefix.trim()).filter(Boolean),
+      allowList: allowList.split(",").map(tag => tag.trim()).filter(Boolean),
+    });
+  };
+
+  return (
+    <Card>
+      <BlockStack gap="400">
+        <Text variant="headingMd" as="h2">Tag Policy</Text>
+        <Text as="p" tone="subdued">
+          How tags in your store should be spelled. The Deep Scan reports tags breaking these rules, and the Smart Tagger and bulk operations warn before writing them.
+        </Text>
+        <FormLayout>
+          <FormLayout.Group>
+            <Select
+              label="Allowed characters"
+              options={characterSetOptions}
+              value={characterSet}
+              onChange={(value) => setCharacterSet(value as TagCharacterSet)}
+            />
+            <Select
+              label="Casing"
+              options={casingOptions}
+              value={casing}
+              onChange={(value) => setCasing(value as TagCasing)}
+            />
+          </FormLayout.Group>
+          <TextField
+            label="Maximum length"
+            type="number"
+            min={1}
+            max={255}
+            value={maxLength}
+            onChange={setMaxLength}
+            helpText="Leave empty for no limit."
+            autoComplete="off"
+          />
+          <TextField
+            label="Forbidden prefixes"
+            value={forbiddenPrefixes}
+            onChange={setForbiddenPrefixes}
+            placeholder="e.g. tmp-, test_"
+            helpText="Comma separated. Tags starting with any of these are flagged."
+            autoComplete="off"
+          />
+          <TextField
+            label="Allowed tags"
+            value={allowList}
+            onChange={setAllowList}
+            placeholder="e.g. VIP, B2B"
+            helpText="Comma separated. These tags are never flagged."
+            multiline={2}
+            autoComplete="off"
+          />
+        </FormLayout>
+        <InlineStack align="end">
+          <Button variant="primary" onClick={handleSave} loading={isLoading}>Save Policy</Button>
+        </InlineStack>
+      </BlockStack>
+    </Card>
+  );
+}
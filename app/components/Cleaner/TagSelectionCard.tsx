@@ -8,21 +8,26 @@ import {
   EmptyState,
   InlineStack,
   List,
-  ProgressBar,
+  Modal,
   Scrollable,
+  Spinner,
   Text
 } from "@shopify/polaris";
-import type { ScanResults } from "~/types/cleaner.types";
+import { useState } from "react";
+import type { ScanResults, TagPolicyViolation, TagScanSummary } from "~/types/cleaner.types";
+import { TAG_POLICY_RULE_LABELS } from "~/utils/tag-policy";
+import { ConfidenceBadge } from "./ConfidenceBadge";
 
 interface TagSelectionCardProps {
   results?: ScanResults;
+  scan?: TagScanSummary | null;
   isCleaned: boolean;
   isLoading: boolean;
   selectedTags: string[];
   onToggleTag: (tag: string) => void;
   onScan: () => void;
   onClean: () => void;
-  progress: number;
+  onNormalize: (violations: TagPolicyViolation[]) => void;
   actionMessage?: string;
   actionJobId?: string;
   quotaExceeded?: boolean;
@@ -31,45 +36,70 @@ interface TagSelectionCardProps {
 
 export function TagSelectionCard({
   results,
+  scan,
   isCleaned,
   isLoading,
   selectedTags,
   onToggleTag,
   onScan,
   onClean,
-  progress,
+  onNormalize,
   actionMessage,
   actionJobId,
   quotaExceeded,
   quotaMessage
 }: TagSelectionCardProps) {
+  const isScanning = scan?.status === "Pending";
+  const [isNormalizeOpen, setIsNormalizeOpen] = useState(false);
+  const violations: TagPolicyViolation[] = results?.policyViolations || results?.malformed.map(tag => ({ tag, rules: [] })) || [];
+  const fixable = violations.filter(violation => violation.suggestion);
+  const tagLabel = (tag: string) => results?.usage?.[tag] !== undefined
+    ? `${tag} (${results.usage[tag].toLocaleString()} items)`
+    : tag;
+
   return (
     <Card>
       <BlockStack gap="400">
         <Text variant="headingMd" as="h2">AI Tag Scanner (Deep Scan)</Text>
         <Text as="p">
-          Scan up to 2000 products and customers to find messy tags.
+          Scan every product, customer and order in the background to find messy tags.
         </Text>
 
-        {!results && !isCleaned && (
+        {!results && !isCleaned && !isScanning && (
           <Button onClick={onScan} loading={isLoading} variant="primary">
             Start Deep Scan
           </Button>
         )}
 
-        {isLoading && !results && (
+        {isScanning && (
           <Box paddingBlockStart="400">
+            <InlineStack gap="200" blockAlign="center">
+              <Spinner size="small" />
+              <Text as="p">
+                Scanning {scan?.resourceType || "items"}... {(scan?.itemsScanned || 0).toLocaleString()} items counted so far. You can leave this page, the scan keeps running.
+              </Text>
+            </InlineStack>
+          </Box>
+        )}
+
+        {!isScanning && (scan?.status === "Failed" || scan?.status === "Cancelled") && (
+          <Banner tone={scan.status === "Failed" ? "critical" : "info"}>
             <BlockStack gap="200">
-              <Text as="p">Scanning database... this may take a few seconds.</Text>
-              <ProgressBar progress={progress} />
+              <Text as="p">{scan.status === "Failed" ? `The last scan failed: ${scan.error}` : "The last scan was cancelled."}</Text>
             </BlockStack>
-          </Box>
+          </Banner>
         )}
 
         {results && (
           <BlockStack gap="400">
             <Banner tone="success">
-              Scan complete! Scanned {results.itemsScanned} items. Found {results.totalScannedTags} unique tags.
+              <InlineStack gap="200" align="space-between" blockAlign="center">
+                <Text as="p">
+                  Scan complete! Scanned {results.itemsScanned.toLocaleString()} items. Found {results.totalScannedTags.toLocaleString()} unique tags.
+                  {scan?.completedAt && ` Last scanned ${new Date(scan.completedAt).toLocaleString()}.`}
+                </Text>
+                <Button onClick={onScan} loading={isLoading} disabled={isScanning}>Scan Again</Button>
+              </InlineStack>
             </Banner>
 
             {results.duplicates.length === 0 && results.malformed.length === 0 ? (
@@ -78,26 +108,34 @@ export function TagSelectionCard({
                 image="https://cdn.shopify.com/s/files/1/0262/4071/2726/files/emptystate-files.png"
               >
                 <p>No duplicate or malformed tags found.</p>
-                <Button onClick={() => window.location.reload()}>Scan Again</Button>
               </EmptyState>
             ) : (
               <BlockStack gap="400">
                 {results.duplicates.length > 0 && (
                   <Card>
                     <BlockStack gap="200">
-                      <Text variant="headingSm" as="h3">⚠️ Potential Duplicates (Case Sensitive)</Text>
+                      <Text variant="headingSm" as="h3">⚠️ Potential Duplicates</Text>
+                      <Text as="p" tone="subdued">
+                        Tags that differ by casing, spacing, separators, accents, plurals or a typo.
+                      </Text>
                       <Scrollable shadow style={{ height: '200px' }}>
-                        <List>
-                          {results.duplicates.map(tag => (
-                            <List.Item key={tag}>
-                              <Checkbox
-                                label={tag}
-                                checked={selectedTags.includes(tag)}
-                                onChange={() => onToggleTag(tag)}
-                              />
-                            </List.Item>
+                        <BlockStack gap="300">
+                          {(results.similarGroups || [{ tags: results.duplicates, confidence: 1 }]).map(group => (
+                            <Box key={group.tags.join("\n")} paddingBlockEnd="200" borderBlockEndWidth="025" borderColor="border">
+                              <BlockStack gap="100">
+                                <ConfidenceBadge confidence={group.confidence} />
+                                {group.tags.map(tag => (
+                                  <Checkbox
+                                    key={tag}
+                                    label={tagLabel(tag)}
+                                    checked={selectedTags.includes(tag)}
+                                    onChange={() => onToggleTag(tag)}
+                                  />
+                                ))}
+                              </BlockStack>
+                            </Box>
                           ))}
-                        </List>
+                        </BlockStack>
                       </Scrollable>
                     </BlockStack>
                   </Card>
@@ -106,15 +144,24 @@ export function TagSelectionCard({
                 {results.malformed.length > 0 && (
                   <Card>
                     <BlockStack gap="200">
-                      <Text variant="headingSm" as="h3">🚫 Malformed / Long Tags</Text>
+                      <InlineStack align="space-between" blockAlign="center">
+                        <Text variant="headingSm" as="h3">🚫 Tags Breaking Your Tag Policy</Text>
+                        <Button onClick={() => setIsNormalizeOpen(true)} disabled={fixable.length === 0} loading={isLoading}>
+                          {`Normalize ${fixable.length} Tags`}
+                        </Button>
+                      </InlineStack>
                       <Scrollable shadow style={{ height: '200px' }}>
                         <List type="number">
-                          {results.malformed.map(tag => (
-                            <List.Item key={tag}>
+                          {violations.map(violation => (
+                            <List.Item key={violation.tag}>
                               <Checkbox
-                                label={tag}
-                                checked={selectedTags.includes(tag)}
-                                onChange={() => onToggleTag(tag)}
+                                label={tagLabel(violation.tag)}
+                                helpText={[
+                                  violation.rules.map(rule => TAG_POLICY_RULE_LABELS[rule]).join(", "),
+                                  violation.suggestion && `Suggested: ${violation.suggestion}`,
+                                ].filter(Boolean).join(" · ")}
+                                checked={selectedTags.includes(violation.tag)}
+                                onChange={() => onToggleTag(violation.tag)}
                               />
                             </List.Item>
                           ))}
@@ -156,6 +203,38 @@ export function TagSelectionCard({
           </Banner>
         )}
 
+        <Modal
+          open={isNormalizeOpen}
+          onClose={() => setIsNormalizeOpen(false)}
+          title="Normalize Tags"
+          primaryAction={{
+            content: `Normalize ${fixable.length} Tags`,
+            onAction: () => {
+              onNormalize(fixable);
+              setIsNormalizeOpen(false);
+            },
+            loading: isLoading,
+          }}
+          secondaryActions={[{ content: "Cancel", onAction: () => setIsNormalizeOpen(false) }]}
+        >
+          <Modal.Section>
+            <BlockStack gap="400">
+              <Scrollable style={{ maxHeight: '200px' }} shadow>
+                <BlockStack gap="100">
+                  {fixable.map(violation => (
+                    <Text as="p" key={violation.tag}>
+                      {violation.tag} → <strong>{violation.suggestion}</strong>
+                    </Text>
+                  ))}
+                </BlockStack>
+              </Scrollable>
+              <Banner tone="info">
+                Every product, customer and order using these tags gets the suggested spelling. A backup is saved first, so this can be reverted from the Activity Log.
+              </Banner>
+            </BlockStack>
+          </Modal.Section>
+        </Modal>
+
         {quotaExceeded && (
           <Banner tone="critical">
             <BlockStack gap="200">
@@ -1,5 +1,7 @@
 import {
   Badge,
+  BlockStack,
+  Box,
   Button,
   FormLayout,
   InlineStack,
@@ -9,21 +11,83 @@ import {
   TextField
 } from "@shopify/polaris";
 import { DeleteIcon, PlusIcon } from "@shopify/polaris-icons";
+import type { Condition, ConditionGroup, ConditionLogic } from "~/types/tagger.types";
+import { getRegexError } from "~/utils/condition-validation";
+import { DATE_OPERATORS, WEEKDAYS } from "~/utils/date-conditions";
 
-interface Condition {
-  field: string;
-  operator: string;
-  value: string;
-}
+// Nested groups deeper than this get hard to read, so we stop offering "Add Group"
+const MAX_GROUP_DEPTH = 2;
 
 interface ConditionBuilderProps {
   conditions: Condition[];
-  conditionLogic: 'AND' | 'OR';
+  conditionLogic: ConditionLogic;
+  groups?: ConditionGroup[];
   resourceType: string;
-  onChange: (newConditions: Condition[], newLogic: 'AND' | 'OR') => void;
+  onChange: (newConditions: Condition[], newLogic: ConditionLogic, newGroups: ConditionGroup[]) => void;
 }
 
-export function ConditionBuilder({ conditions, conditionLogic, resourceType, onChange }: ConditionBuilderProps) {
+const operatorOptions = [
+  { label: "Equals", value: "equals" },
+  { label: "Not Equals", value: "not_equals" },
+  { label: "Contains", value: "contains" },
+  { label: "Does Not Contain", value: "not_contains" },
+  { label: "Starts With", value: "starts_with" },
+  { label: "Ends With", value: "ends_with" },
+  { label: "Matches Regex", value: "matches_regex" },
+  { label: "Greater Than", value: "greater_than" },
+  { label: "Greater Than or Equal", value: "greater_or_equal" },
+  { label: "Less Than", value: "less_than" },
+  { label: "Less Than or Equal", value: "less_or_equal" },
+  { label: "Between (min,max)", value: "between" },
+  { label: "In (comma separated)", value: "in" },
+  { label: "Not In (comma separated)", value: "not_in" },
+  { label: "All In (comma separated)", value: "all_in" },
+  { label: "Count Greater Than", value: "count_greater_than" },
+  { label: "Count Less Than", value: "count_less_than" },
+  { label: "Sum Greater Than", value: "sum_greater_than" },
+  { label: "Sum Less Than", value: "sum_less_than" },
+  { label: "Is Empty", value: "is_empty" },
+  { label: "Is Not Empty", value: "is_not_empty" },
+  { label: "Within Last (date)", value: "within_last" },
+  { label: "Older Than (date)", value: "older_than" },
+  { label: "Before Date", value: "before" },
+  { label: "After Date", value: "after" },
+  { label: "Day of Week", value: "day_of_week" },
+  { label: "Hour of Day", value: "hour_of_day" },
+];
+
+const durationUnitOptions = [
+  { label: "Hours", value: "hours" },
+  { label: "Days", value: "days" },
+  { label: "Weeks", value: "weeks" },
+  { label: "Months", value: "months" },
+];
+
+const hourOptions = Array.from({ length: 24 }, (_, hour) => ({ label: `${hour}:00`, value: String(hour) }));
+
+// Sensible starting value when switching to a date operator
+const defaultDateValues: Record<string, string> = {
+  within_last: "30 days",
+  older_than: "90 days",
+  before: "",
+  after: "",
+  day_of_week: "saturday,sunday",
+  hour_of_day: "9-17",
+};
+
+const valuePlaceholders: Record<string, string> = {
+  matches_regex: "e.g. ^VIP-\\d+$",
+  between: "e.g. 10,50",
+  all_in: "e.g. Nike, Adidas",
+};
+
+const groupLogicOptions = [
+  { label: "All of (AND)", value: "AND" },
+  { label: "Any of (OR)", value: "OR" },
+  { label: "None of (NOT)", value: "NOT" },
+];
+
+export function ConditionBuilder({ conditions, conditionLogic, groups = [], resourceType, onChange }: ConditionBuilderProps) {
 
   const getFieldOptions = (type: string) => {
     switch (type) {
@@ -50,7 +114,10 @@ export function ConditionBuilder({ conditions, conditionLogic, resourceType, onC
           { label: "Line Item Name", value: "line_items.name" },
           { label: "Line Item Quantity", value: "line_items.quantity" },
           { label: "Customer Order Count", value: "customer.orders_count" },
+          { label: "Customer Last Order Date", value: "customer.last_order_date" },
           { label: "Email", value: "email" },
+          { label: "Created At", value: "created_at" },
+          { label: "Processed At", value: "processed_at" },
         ];
       case "customers":
         return [
@@ -63,6 +130,8 @@ export function ConditionBuilder({ conditions, conditionLogic, resourceType, onC
           { label: "Country", value: "default_address.country_code" },
           { label: "Email", value: "email" },
           { label: "State/Province", value: "default_address.province_code" },
+          { label: "Created At", value: "created_at" },
+          { label: "Last Order Date", value: "last_order_date" },
         ];
       case "products":
         return [
@@ -72,7 +141,17 @@ export function ConditionBuilder({ conditions, conditionLogic, resourceType, onC
           { label: "Tags", value: "tags" },
           { label: "Price", value: "variants[0].price" },
           { label: "Inventory Quantity", value: "variants[0].inventory_quantity" },
+          { label: "Total Inventory", value: "total_inventory" },
+          { label: "Compare-at Price", value: "compare_at_price" },
+          { label: "On Sale (true/false)", value: "on_sale" },
+          { label: "Image Count", value: "image_count" },
           { label: "Status", value: "status" },
+          { label: "Any Variant SKU", value: "variants.sku" },
+          { label: "Any Variant Price", value: "variants.price" },
+          { label: "Any Variant Compare-at Price", value: "variants.compare_at_price" },
+          { label: "Any Variant Inventory", value: "variants.inventory_quantity" },
+          { label: "Created At", value: "created_at" },
+          { label: "Updated At", value: "updated_at" },
         ];
       default:
         return [];
@@ -81,41 +160,10 @@ export function ConditionBuilder({ conditions, conditionLogic, resourceType, onC
 
   const fieldOptions = getFieldOptions(resourceType);
 
-  const addCondition = () => {
-    const defaultField = fieldOptions.length > 0 ? fieldOptions[0].value : "id";
-    const newConditions = [...conditions, { field: defaultField, operator: "equals", value: "" }];
-    onChange(newConditions, conditionLogic);
-  };
-
-  const updateCondition = (index: number, key: string, value: string) => {
-    const newConditions = [...conditions];
-    newConditions[index] = { ...newConditions[index], [key]: value };
-    onChange(newConditions, conditionLogic);
-  };
-
-  const removeCondition = (index: number) => {
-    const newConditions = conditions.filter((_, i) => i !== index);
-    onChange(newConditions, conditionLogic);
+  const handleLogicChange = (newLogic: ConditionLogic) => {
+    onChange(conditions, newLogic, groups);
   };
 
-  const handleLogicChange = (newLogic: 'AND' | 'OR') => {
-    onChange(conditions, newLogic);
-  };
-
-  const operatorOptions = [
-    { label: "Equals", value: "equals" },
-    { label: "Not Equals", value: "not_equals" },
-    { label: "Contains", value: "contains" },
-    { label: "Starts With", value: "starts_with" },
-    { label: "Ends With", value: "ends_with" },
-    { label: "Greater Than", value: "greater_than" },
-    { label: "Less Than", value: "less_than" },
-    { label: "In (comma separated)", value: "in" },
-    { label: "Not In (comma separated)", value: "not_in" },
-    { label: "Is Empty", value: "is_empty" },
-    { label: "Is Not Empty", value: "is_not_empty" },
-  ];
-
   return (
     <FormLayout>
       <FormLayout.Group title="Condition Logic">
@@ -135,22 +183,169 @@ export function ConditionBuilder({ conditions, conditionLogic, resourceType, onC
           name="conditionLogic"
           onChange={() => handleLogicChange('OR')}
         />
+        <RadioButton
+          label="No rule passes"
+          helpText="The trigger will run only if none of the conditions are true"
+          checked={conditionLogic === 'NOT'}
+          id="logic-not"
+          name="conditionLogic"
+          onChange={() => handleLogicChange('NOT')}
+        />
       </FormLayout.Group>
 
       <Text as="h3" variant="headingSm">Conditions</Text>
+      <ConditionGroupEditor
+        group={{ logic: conditionLogic, conditions, groups }}
+        fieldOptions={fieldOptions}
+        depth={0}
+        onChange={(group) => onChange(group.conditions, group.logic, group.groups || [])}
+      />
+    </FormLayout>
+  );
+}
+
+/**
+ * Value input matching the operator: duration, date picker, weekday toggles, hour range or free text.
+ */
+function ConditionValueInput({ condition, onChange }: { condition: Condition; onChange: (value: string) => void }) {
+  const { operator, value } = condition;
+
+  if (operator === "within_last" || operator === "older_than") {
+    const [amount = "", unit = "days"] = value.split(" ");
+    return (
+      <InlineStack gap="100" wrap={false}>
+        <TextField
+          label="Amount"
+          labelHidden
+          type="number"
+          min={0}
+          value={amount}
+          onChange={(val) => onChange(`${val} ${unit}`)}
+          autoComplete="off"
+        />
+        <Select
+          label="Unit"
+          labelHidden
+          options={durationUnitOptions}
+          value={unit}
+          onChange={(val) => onChange(`${amount} ${val}`)}
+        />
+      </InlineStack>
+    );
+  }
+
+  if (operator === "before" || operator === "after") {
+    return <TextField label="Date" labelHidden type="date" value={value} onChange={onChange} autoComplete="off" />;
+  }
+
+  if (operator === "day_of_week") {
+    const selected = value.split(",").filter(Boolean);
+    const toggle = (day: string) => onChange(
+      (selected.includes(day) ? selected.filter(d => d !== day) : [...selected, day]).join(",")
+    );
+    return (
+      <InlineStack gap="100">
+        {WEEKDAYS.map(day => (
+          <Button key={day} size="slim" pressed={selected.includes(day)} onClick={() => toggle(day)}>
+            {day.slice(0, 3).replace(/^./, c => c.toUpperCase())}
+          </Button>
+        ))}
+      </InlineStack>
+    );
+  }
+
+  if (operator === "hour_of_day") {
+    const [start = "0", end = start] = value.split("-");
+    return (
+      <InlineStack gap="100" wrap={false} blockAlign="center">
+        <Select label="From" labelHidden options={hourOptions} value={start} onChange={(val) => onChange(`${val}-${end}`)} />
+        <Text as="span">to</Text>
+        <Select label="To" labelHidden options={hourOptions} value={end} onChange={(val) => onChange(`${start}-${val}`)} />
+      </InlineStack>
+    );
+  }
+
+  return (
+    <TextField
+      label="Value"
+      labelHidden
+      value={value}
+      onChange={onChange}
+      placeholder={valuePlaceholders[operator]}
+      error={operator === "matches_regex" && value ? getRegexError(value) || undefined : undefined}
+      autoComplete="off"
+    />
+  );
+}
+
+interface ConditionGroupEditorProps {
+  group: ConditionGroup;
+  fieldOptions: Array<{ label: string; value: string }>;
+  depth: number;
+  onChange: (group: ConditionGroup) => void;
+  onRemove?: () => void;
+}
+
+function ConditionGroupEditor({ group, fieldOptions, depth, onChange, onRemove }: ConditionGroupEditorProps) {
+  const conditions = group.conditions || [];
+  const groups = group.groups || [];
+  const separatorLabel = group.logic === 'AND' ? 'AND' : 'OR';
+
+  const addCondition = () => {
+    const defaultField = fieldOptions.length > 0 ? fieldOptions[0].value : "id";
+    onChange({ ...group, conditions: [...conditions, { field: defaultField, operator: "equals", value: "" }] });
+  };
+
+  const updateCondition = (index: number, key: string, value: string) => {
+    const newConditions = [...conditions];
+    newConditions[index] = { ...newConditions[index], [key]: value };
+    if (key === "operator" && DATE_OPERATORS.includes(value) && value !== conditions[index].operator) {
+      newConditions[index].value = defaultDateValues[value];
+    }
+    onChange({ ...group, conditions: newConditions });
+  };
+
+  const removeCondition = (index: number) => {
+    onChange({ ...group, conditions: conditions.filter((_, i) => i !== index) });
+  };
+
+  const addGroup = () => {
+    const defaultField = fieldOptions.length > 0 ? fieldOptions[0].value : "id";
+    const newGroup: ConditionGroup = {
+      logic: 'OR',
+      conditions: [{ field: defaultField, operator: "equals", value: "" }],
+      groups: []
+    };
+    onChange({ ...group, groups: [...groups, newGroup] });
+  };
+
+  const updateGroup = (index: number, subGroup: ConditionGroup) => {
+    const newGroups = [...groups];
+    newGroups[index] = subGroup;
+    onChange({ ...group, groups: newGroups });
+  };
+
+  const removeGroup = (index: number) => {
+    onChange({ ...group, groups: groups.filter((_, i) => i !== index) });
+  };
+
+  const renderSeparator = (show: boolean) => show && (
+    <div style={{ display: 'flex', alignItems: 'center', margin: '12px 0' }}>
+      <div style={{ flex: 1, borderBottom: '1px solid var(--p-color-border)' }}></div>
+      <div style={{ margin: '0 12px' }}>
+        <Badge tone={separatorLabel === 'OR' ? undefined : 'info'}>
+          {separatorLabel}
+        </Badge>
+      </div>
+      <div style={{ flex: 1, borderBottom: '1px solid var(--p-color-border)' }}></div>
+    </div>
+  );
+
+  const body = (
+    <BlockStack gap="0">
       {conditions.map((condition, index) => (
-        <div key={index}>
-          {index > 0 && (
-            <div style={{ display: 'flex', alignItems: 'center', margin: '12px 0' }}>
-              <div style={{ flex: 1, borderBottom: '1px solid var(--p-color-border)' }}></div>
-              <div style={{ margin: '0 12px' }}>
-                <Badge tone={conditionLogic === 'OR' ? undefined : 'info'}>
-                  {conditionLogic === 'OR' ? 'OR' : 'AND'}
-                </Badge>
-              </div>
-              <div style={{ flex: 1, borderBottom: '1px solid var(--p-color-border)' }}></div>
-            </div>
-          )}
+        <div key={`condition-${index}`}>
+          {renderSeparator(index > 0)}
           <InlineStack gap="200" align="start">
             <div style={{ flex: 1 }}>
               <Select
@@ -171,19 +366,62 @@ export function ConditionBuilder({ conditions, conditionLogic, resourceType, onC
               />
             </div>
             <div style={{ flex: 1 }}>
-              <TextField
-                label="Value"
-                labelHidden
-                value={condition.value}
+              <ConditionValueInput
+                condition={condition}
                 onChange={(val) => updateCondition(index, "value", val)}
-                autoComplete="off"
               />
             </div>
             <Button icon={DeleteIcon} onClick={() => removeCondition(index)} tone="critical" variant="plain" />
           </InlineStack>
         </div>
       ))}
-      <Button onClick={addCondition} variant="plain" icon={PlusIcon}>Add Condition</Button>
-    </FormLayout>
+
+      {groups.map((subGroup, index) => (
+        <div key={`group-${index}`}>
+          {renderSeparator(conditions.length + index > 0)}
+          <ConditionGroupEditor
+            group={subGroup}
+            fieldOptions={fieldOptions}
+            depth={depth + 1}
+            onChange={(updated) => updateGroup(index, updated)}
+            onRemove={() => removeGroup(index)}
+          />
+        </div>
+      ))}
+
+      <Box paddingBlockStart="200">
+        <InlineStack gap="400">
+          <Button onClick={addCondition} variant="plain" icon={PlusIcon}>Add Condition</Button>
+          {depth < MAX_GROUP_DEPTH && (
+            <Button onClick={addGroup} variant="plain" icon={PlusIcon}>Add Group</Button>
+          )}
+        </InlineStack>
+      </Box>
+    </BlockStack>
+  );
+
+  // Top-level group is rendered flat, its logic is controlled by the radio buttons
+  if (depth === 0) return body;
+
+  return (
+    <Box padding="300" borderWidth="025" borderColor="border" borderRadius="200" background="bg-surface-secondary">
+      <BlockStack gap="200">
+        <InlineStack align="space-between" blockAlign="center">
+          <div style={{ minWidth: 180 }}>
+            <Select
+              label="Group logic"
+              labelHidden
+              options={groupLogicOptions}
+              value={group.logic}
+              onChange={(val) => onChange({ ...group, logic: val as ConditionLogic })}
+            />
+          </div>
+          {onRemove && (
+            <Button onClick={onRemove} tone="critical" variant="plain" icon={DeleteIcon}>Remove Group</Button>
+          )}
+        </InlineStack>
+        {body}
+      </BlockStack>
+    </Box>
   );
 }
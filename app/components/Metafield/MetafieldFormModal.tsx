@@ -4,6 +4,7 @@ import {
   Box,
   Button,
   Divider,
+  InlineError,
   InlineStack,
   Modal,
   Select,
@@ -11,6 +12,7 @@ import {
   TextField
 } from "@shopify/polaris";
 import { MagicIcon } from "@shopify/polaris-icons";
+import type { ReactNode } from "react";
 import { ConditionBuilder } from "~/components/ConditionBuilder";
 import type { MetafieldFormData, MetafieldFormErrors } from "~/types/metafield.types";
 
@@ -27,6 +29,7 @@ interface MetafieldFormModalProps {
   onAiPromptChange: (value: string) => void;
   onGenerateAI: () => void;
   isGenerating: boolean;
+  simulationPanel?: ReactNode; // Shown below the form when editing
 }
 
 const resourceOptions = [
@@ -53,7 +56,8 @@ export function MetafieldFormModal({
   aiPrompt,
   onAiPromptChange,
   onGenerateAI,
-  isGenerating
+  isGenerating,
+  simulationPanel
 }: MetafieldFormModalProps) {
   return (
     <Modal
@@ -129,7 +133,7 @@ export function MetafieldFormModal({
                   label="Resource Type"
                   options={resourceOptions}
                   value={formData.resourceType}
-                  onChange={(v) => onFormDataChange({ ...formData, resourceType: v as any, conditions: [] })}
+                  onChange={(v) => onFormDataChange({ ...formData, resourceType: v as any, conditions: [], groups: [] })}
                 />
               </div>
             </InlineStack>
@@ -141,9 +145,11 @@ export function MetafieldFormModal({
           <ConditionBuilder
             conditions={formData.conditions}
             conditionLogic={formData.conditionLogic}
+            groups={formData.groups}
             resourceType={formData.resourceType}
-            onChange={(newConditions, newLogic) => onFormDataChange({ ...formData, conditions: newConditions, conditionLogic: newLogic })}
+            onChange={(newConditions, newLogic, newGroups) => onFormDataChange({ ...formData, conditions: newConditions, conditionLogic: newLogic, groups: newGroups })}
           />
+          {errors.conditions && <InlineError message={errors.conditions} fieldID="conditions" />}
 
           <Divider />
 
@@ -185,6 +191,11 @@ export function MetafieldFormModal({
           </BlockStack>
         </BlockStack>
       </Modal.Section>
+      {simulationPanel && (
+        <Modal.Section>
+          {simulationPanel}
+        </Modal.Section>
+      )}
     </Modal>
   );
 }
@@ -1,5 +1,6 @@
 import { Badge, BlockStack, InlineStack, ResourceItem, Text } from "@shopify/polaris";
 import type { MetafieldRule } from "~/types/metafield.types";
+import { describeConditionGroup } from "~/utils/describe-conditions";
 
 interface MetafieldListItemProps {
   rule: MetafieldRule;
@@ -9,6 +10,7 @@ interface MetafieldListItemProps {
   onToggle?: (id: string, currentStatus: boolean) => void;
   onDelete?: (id: string) => void;
   onImport?: (rule: MetafieldRule) => void;
+  onRunBackfill?: (id: string) => void;
 }
 
 export function MetafieldListItem({
@@ -18,7 +20,8 @@ export function MetafieldListItem({
   onEdit,
   onToggle,
   onDelete,
-  onImport
+  onImport,
+  onRunBackfill
 }: MetafieldListItemProps) {
   const shortcutActions = [];
 
@@ -30,6 +33,13 @@ export function MetafieldListItem({
     });
   }
 
+  if (onRunBackfill && rule._id) {
+    shortcutActions.push({
+      content: 'Run on existing data',
+      onAction: () => onRunBackfill(rule._id!),
+    });
+  }
+
   if (onDelete && rule._id) {
     shortcutActions.push({
       content: 'Delete',
@@ -74,9 +84,9 @@ export function MetafieldListItem({
             Set <code>{rule.definition.namespace}.{rule.definition.key}</code> to "{rule.definition.value}"
           </Text>
           <Text variant="bodySm" as="p">
-            {rule.conditions.length === 0
+            {rule.conditions.length === 0 && !rule.groups?.length
               ? "Applied to ALL items"
-              : `When: ${rule.conditions.map((c) => `${c.field} ${c.operator} ${c.value}`).join(` ${rule.conditionLogic || 'AND'} `)}`
+              : `When: ${describeConditionGroup({ logic: rule.conditionLogic || 'AND', conditions: rule.conditions, groups: rule.groups })}`
             }
           </Text>
         </BlockStack>
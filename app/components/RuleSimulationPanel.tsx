@@ -0,0 +1,93 @@
+import { Badge, BlockStack, Box, Button, InlineStack, Text } from "@shopify/polaris";
+import type { ConditionGroupResult, SimulationRecord, SimulationResult } from "~/types/tagger.types";
+
+interface RuleSimulationPanelProps {
+  result?: SimulationResult | null;
+  error?: string | null;
+  isRunning: boolean;
+  onRun: () => void;
+}
+
+const formatValue = (value: any): string => {
+  if (Array.isArray(value)) return value.length ? value.join(", ") : "(empty)";
+  if (value === undefined || value === null || value === "") return "(empty)";
+  return String(value);
+};
+
+function GroupResult({ group, depth = 0 }: { group: ConditionGroupResult; depth?: number }) {
+  return (
+    <BlockStack gap="100">
+      {depth > 0 && (
+        <Text as="p" variant="bodySm" tone={group.passed ? "success" : "critical"}>
+          {group.logic} group {group.passed ? "passed" : "failed"}
+        </Text>
+      )}
+      {group.conditions.map((condition, index) => (
+        <Text as="p" variant="bodySm" key={index} tone={condition.passed ? "success" : "critical"}>
+          {condition.passed ? "✓" : "✗"} {condition.field} {condition.operator} "{condition.value}"
+          <Text as="span" tone="subdued"> — actual: {formatValue(condition.actual)}</Text>
+        </Text>
+      ))}
+      {group.groups.map((subGroup, index) => (
+        <Box key={index} paddingInlineStart="400">
+          <GroupResult group={subGroup} depth={depth + 1} />
+        </Box>
+      ))}
+    </BlockStack>
+  );
+}
+
+function describeChanges(record: SimulationRecord): string {
+  if (record.metafield) {
+    const { namespace, key, before, after } = record.metafield;
+    return `${namespace}.${key}: ${before ?? "(not set)"} → ${after}`;
+  }
+
+  const changes = [
+    ...record.tagsAdded.map(tag => `+${tag}`),
+    ...record.tagsRemoved.map(tag => `−${tag}`),
+  ];
+  return changes.length ? changes.join(", ") : "No changes";
+}
+
+export function RuleSimulationPanel({ result, error, isRunning, onRun }: RuleSimulationPanelProps) {
+  const matchedCount = result?.records.filter(record => record.matched).length || 0;
+
+  return (
+    <BlockStack gap="300">
+      <InlineStack align="space-between" blockAlign="center">
+        <BlockStack gap="100">
+          <Text variant="headingSm" as="h3">Test Rule</Text>
+          <Text variant="bodyXs" as="p" tone="subdued">
+            Runs the current (unsaved) rule against your 10 most recent records. Nothing is changed.
+          </Text>
+        </BlockStack>
+        <Button onClick={onRun} loading={isRunning}>Run test</Button>
+      </InlineStack>
+
+      {error && <Text as="p" tone="critical">{error}</Text>}
+
+      {result && (
+        <BlockStack gap="200">
+          <Text as="p" variant="bodySm">
+            {matchedCount} of {result.records.length} recent {result.resourceType} match.
+          </Text>
+          {result.records.map(record => (
+            <Box key={record.id} padding="300" borderWidth="025" borderColor="border" borderRadius="200">
+              <BlockStack gap="200">
+                <InlineStack align="space-between" blockAlign="center">
+                  <Text as="p" variant="bodyMd" fontWeight="semibold">{record.title}</Text>
+                  <Badge tone={record.matched ? "success" : undefined}>
+                    {record.matched ? "Match" : "No match"}
+                  </Badge>
+                </InlineStack>
+                <Text as="p" variant="bodySm">{describeChanges(record)}</Text>
+                <GroupResult group={record.evaluation} />
+              </BlockStack>
+            </Box>
+          ))}
+        </BlockStack>
+      )}
+    </BlockStack>
+  );
+}
@@ -0,0 +1,234 @@
+import {
+  Banner,
+  BlockStack,
+  ChoiceList,
+  Divider,
+  InlineStack,
+  Modal,
+  Select,
+  Text,
+  TextField
+} from "@shopify/polaris";
+import type { BulkOperationData } from "~/types/bulk.types";
+import type { ScheduleFormData } from "~/types/schedule.types";
+
+interface RuleOption {
+  _id: string;
+  name: string;
+  resourceType: string;
+}
+
+interface ScheduleFormModalProps {
+  open: boolean;
+  formData: ScheduleFormData;
+  error?: string | null;
+  timezone: string;
+  taggingRules: RuleOption[];
+  metafieldRules: RuleOption[];
+  isSaving: boolean;
+  onClose: () => void;
+  onSave: () => void;
+  onFormDataChange: (data: ScheduleFormData) => void;
+}
+
+export const initialScheduleFormData: ScheduleFormData = {
+  name: "",
+  isEnabled: true,
+  frequency: "daily",
+  minute: 0,
+  hour: 2,
+  dayOfWeek: 1,
+  cronExpression: "",
+  taskType: "rules",
+  taggingRuleIds: [],
+  metafieldRuleIds: [],
+  bulkOperation: { resourceType: "products", operation: "add", findTag: "", replaceTag: "" },
+  cleanerTags: []
+};
+
+const frequencyOptions = [
+  { label: "Hourly", value: "hourly" },
+  { label: "Daily", value: "daily" },
+  { label: "Weekly", value: "weekly" },
+  { label: "Custom (cron expression)", value: "cron" },
+];
+
+const taskOptions = [
+  { label: "Re-run rules on existing data", value: "rules" },
+  { label: "Bulk tag operation", value: "bulk" },
+  { label: "Data Cleaner: remove tags", value: "cleaner" },
+];
+
+const weekdayOptions = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"]
+  .map((label, index) => ({ label, value: String(index) }));
+
+const hourOptions = Array.from({ length: 24 }, (_, hour) => ({ label: `${hour}:00`, value: String(hour) }));
+const minuteOptions = Array.from({ length: 12 }, (_, index) => ({ label: `:${String(index * 5).padStart(2, "0")}`, value: String(index * 5) }));
+
+export function ScheduleFormModal({
+  open,
+  formData,
+  error,
+  timezone,
+  taggingRules,
+  metafieldRules,
+  isSaving,
+  onClose,
+  onSave,
+  onFormDataChange
+}: ScheduleFormModalProps) {
+  const update = (updates: Partial<ScheduleFormData>) => onFormDataChange({ ...formData, ...updates });
+  const updateBulk = (updates: Partial<BulkOperationData>) => update({ bulkOperation: { ...formData.bulkOperation, ...updates } });
+
+  return (
+    <Modal
+      open={open}
+      onClose={onClose}
+      title={formData._id ? "Edit Schedule" : "Create Schedule"}
+      primaryAction={{ content: "Save", onAction: onSave, loading: isSaving }}
+      secondaryActions={[{ content: "Cancel", onAction: onClose }]}
+    >
+      <Modal.Section>
+        <BlockStack gap="400">
+          {error && <Banner tone="critical">{error}</Banner>}
+
+          <TextField
+            label="Schedule name"
+            value={formData.name}
+            onChange={(name) => update({ name })}
+            autoComplete="off"
+          />
+
+          <BlockStack gap="200">
+            <Text variant="headingSm" as="h3">When</Text>
+            <InlineStack gap="200" wrap={false}>
+              <Select
+                label="Frequency"
+                options={frequencyOptions}
+                value={formData.frequency}
+                onChange={(frequency) => update({ frequency: frequency as ScheduleFormData["frequency"] })}
+              />
+              {formData.frequency === "weekly" && (
+                <Select
+                  label="Day"
+                  options={weekdayOptions}
+                  value={String(formData.dayOfWeek)}
+                  onChange={(day) => update({ dayOfWeek: parseInt(day, 10) })}
+                />
+              )}
+              {(formData.frequency === "daily" || formData.frequency === "weekly") && (
+                <Select
+                  label="Hour"
+                  options={hourOptions}
+                  value={String(formData.hour)}
+                  onChange={(hour) => update({ hour: parseInt(hour, 10) })}
+                />
+              )}
+              {formData.frequency !== "cron" && (
+                <Select
+                  label="Minute"
+                  options={minuteOptions}
+                  value={String(formData.minute)}
+                  onChange={(minute) => update({ minute: parseInt(minute, 10) })}
+                />
+              )}
+            </InlineStack>
+            {formData.frequency === "cron" && (
+              <TextField
+                label="Cron expression"
+                value={formData.cronExpression}
+                onChange={(cronExpression) => update({ cronExpression })}
+                placeholder="e.g. 30 6 * * 1-5"
+                helpText="minute hour day-of-month month day-of-week"
+                autoComplete="off"
+              />
+            )}
+            <Text as="p" variant="bodySm" tone="subdued">Times are in your shop timezone ({timezone}).</Text>
+          </BlockStack>
+
+          <Divider />
+
+          <BlockStack gap="200">
+            <Text variant="headingSm" as="h3">What</Text>
+            <Select
+              label="Task"
+              options={taskOptions}
+              value={formData.taskType}
+              onChange={(taskType) => update({ taskType: taskType as ScheduleFormData["taskType"] })}
+            />
+
+            {formData.taskType === "rules" && (
+              <>
+                <ChoiceList
+                  title="Tagging rules"
+                  allowMultiple
+                  choices={taggingRules.map(rule => ({ label: `${rule.name} (${rule.resourceType})`, value: rule._id }))}
+                  selected={formData.taggingRuleIds}
+                  onChange={(taggingRuleIds) => update({ taggingRuleIds })}
+                />
+                <ChoiceList
+                  title="Metafield rules"
+                  allowMultiple
+                  choices={metafieldRules.map(rule => ({ label: `${rule.name} (${rule.resourceType})`, value: rule._id }))}
+                  selected={formData.metafieldRuleIds}
+                  onChange={(metafieldRuleIds) => update({ metafieldRuleIds })}
+                />
+              </>
+            )}
+
+            {formData.taskType === "bulk" && (
+              <>
+                <InlineStack gap="200" wrap={false}>
+                  <Select
+                    label="Resource"
+                    options={[
+                      { label: "Products", value: "products" },
+                      { label: "Customers", value: "customers" },
+                      { label: "Orders", value: "orders" },
+                    ]}
+                    value={formData.bulkOperation.resourceType}
+                    onChange={(resourceType) => updateBulk({ resourceType: resourceType as BulkOperationData["resourceType"] })}
+                  />
+                  <Select
+                    label="Operation"
+                    options={[
+                      { label: "Add tag", value: "add" },
+                      { label: "Replace tag", value: "replace" },
+                      { label: "Remove tag", value: "remove" },
+                    ]}
+                    value={formData.bulkOperation.operation}
+                    onChange={(operation) => updateBulk({ operation: operation as BulkOperationData["operation"] })}
+                  />
+                </InlineStack>
+                <TextField
+                  label="Items tagged"
+                  value={formData.bulkOperation.findTag}
+                  onChange={(findTag) => updateBulk({ findTag })}
+                  autoComplete="off"
+                />
+                {formData.bulkOperation.operation !== "remove" && (
+                  <TextField
+                    label={formData.bulkOperation.operation === "replace" ? "Replace with" : "Tag to add"}
+                    value={formData.bulkOperation.replaceTag}
+                    onChange={(replaceTag) => updateBulk({ replaceTag })}
+                    autoComplete="off"
+                  />
+                )}
+              </>
+            )}
+
+            {formData.taskType === "cleaner" && (
+              <TextField
+                label="Tags to remove"
+                value={formData.cleanerTags.join(", ")}
+                onChange={(value) => update({ cleanerTags: value.split(",").map(tag => tag.trimStart()) })}
+                helpText="Comma separated. Removed from products, then customers."
+                autoComplete="off"
+              />
+            )}
+          </BlockStack>
+        </BlockStack>
+      </Modal.Section>
+    </Modal>
+  );
+}
@@ -0,0 +1,80 @@
+import { Badge, BlockStack, InlineStack, ResourceItem, Text } from "@shopify/polaris";
+import type { Schedule } from "~/types/schedule.types";
+
+interface ScheduleListItemProps {
+  schedule: Schedule;
+  onEdit: (schedule: Schedule) => void;
+  onToggle: (id: string, currentStatus: boolean) => void;
+  onRunNow: (id: string) => void;
+  onDelete: (id: string) => void;
+}
+
+const WEEKDAYS = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+
+function describeTiming(schedule: Schedule): string {
+  const time = `${schedule.hour}:${String(schedule.minute).padStart(2, "0")}`;
+  switch (schedule.frequency) {
+    case "hourly":
+      return `Every hour at :${String(schedule.minute).padStart(2, "0")}`;
+    case "weekly":
+      return `Every ${WEEKDAYS[schedule.dayOfWeek]} at ${time}`;
+    case "cron":
+      return `Cron: ${schedule.cronExpression}`;
+    default:
+      return `Every day at ${time}`;
+  }
+}
+
+function describeTask(schedule: Schedule): string {
+  if (schedule.taskType === "rules") {
+    const count = schedule.taggingRuleIds.length + schedule.metafieldRuleIds.length;
+    return `Re-run ${count} rule${count === 1 ? "" : "s"} on existing data`;
+  }
+  if (schedule.taskType === "bulk") {
+    const { operation, resourceType, findTag, replaceTag } = schedule.bulkOperation;
+    if (operation === "remove") return `Remove '${findTag}' from ${resourceType}`;
+    if (operation === "replace") return `Replace '${findTag}' with '${replaceTag}' on ${resourceType}`;
+    return `Add '${replaceTag}' to ${resourceType} tagged '${findTag}'`;
+  }
+  return `Clean up tags: ${schedule.cleanerTags.join(", ")}`;
+}
+
+export function ScheduleListItem({ schedule, onEdit, onToggle, onRunNow, onDelete }: ScheduleListItemProps) {
+  const id = schedule._id!;
+  const shortcutActions = [
+    { content: schedule.isEnabled ? "Turn Off" : "Turn On", onAction: () => onToggle(id, schedule.isEnabled) },
+    { content: "Run now", onAction: () => onRunNow(id) },
+    { content: "Delete", onAction: () => onDelete(id), destructive: true },
+  ];
+
+  return (
+    <ResourceItem
+      id={id}
+      accessibilityLabel={`Edit ${schedule.name}`}
+      onClick={() => onEdit(schedule)}
+      shortcutActions={shortcutActions}
+    >
+      <BlockStack gap="200">
+        <InlineStack gap="200" blockAlign="center">
+          <Text variant="headingMd" as="h3">{schedule.name}</Text>
+          <Badge tone={schedule.isEnabled ? "success" : "critical"}>
+            {schedule.isEnabled ? "Active" : "Inactive"}
+          </Badge>
+          {schedule.lastStatus && (
+            <Badge tone={schedule.lastStatus === "Success" ? "info" : "critical"}>
+              {`Last run: ${schedule.lastStatus}`}
+            </Badge>
+          )}
+        </InlineStack>
+        <Text variant="bodyMd" as="p" tone="subdued">
+          {describeTiming(schedule)} · {describeTask(schedule)}
+        </Text>
+        <Text variant="bodySm" as="p">
+          {schedule.nextRunAt ? `Next run: ${new Date(schedule.nextRunAt).toLocaleString()}` : "Not scheduled"}
+          {schedule.lastRunAt && ` · Last run: ${new Date(schedule.lastRunAt).toLocaleString()}`}
+          {schedule.lastStatus === "Failed" && schedule.lastMessage && ` (${schedule.lastMessage})`}
+        </Text>
+      </BlockStack>
+    </ResourceItem>
+  );
+}
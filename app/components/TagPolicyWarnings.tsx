@@ -0,0 +1,29 @@
+import { Link } from "@remix-run/react";
+import { Banner, List, Text } from "@shopify/polaris";
+import type { TagPolicyViolation } from "~/types/cleaner.types";
+import { TAG_POLICY_RULE_LABELS } from "~/utils/tag-policy";
+
+interface TagPolicyWarningsProps {
+  violations: TagPolicyViolation[];
+}
+
+// Shown before tags are written; breaking the policy never blocks the write
+export function TagPolicyWarnings({ violations }: TagPolicyWarningsProps) {
+  if (violations.length === 0) return null;
+
+  return (
+    <Banner tone="warning" title="Some tags break your tag policy">
+      <List>
+        {violations.map(violation => (
+          <List.Item key={violation.tag}>
+            <strong>{violation.tag}</strong>: {violation.rules.map(rule => TAG_POLICY_RULE_LABELS[rule]).join(", ")}
+            {violation.suggestion && <Text as="span" tone="subdued"> (suggested: {violation.suggestion})</Text>}
+          </List.Item>
+        ))}
+      </List>
+      <Text as="p" tone="subdued">
+        Change the policy from the <Link to="/app/cleaner">Data Cleaner</Link>.
+      </Text>
+    </Banner>
+  );
+}
@@ -3,21 +3,28 @@ import {
   BlockStack,
   Box,
   Button,
+  Checkbox,
   Divider,
+  InlineError,
   InlineStack,
   Modal,
   Select,
   Text,
   TextField
 } from "@shopify/polaris";
-import { MagicIcon } from "@shopify/polaris-icons";
+import { DeleteIcon, MagicIcon, PlusIcon } from "@shopify/polaris-icons";
+import type { ReactNode } from "react";
 import { ConditionBuilder } from "~/components/ConditionBuilder";
-import type { TaggerFormData, TaggerFormErrors } from "~/types/tagger.types";
+import { TagPolicyWarnings } from "~/components/TagPolicyWarnings";
+import type { TagPolicyRules } from "~/types/cleaner.types";
+import type { TagAction, TagActionType, TaggerFormData, TaggerFormErrors } from "~/types/tagger.types";
+import { findPolicyViolations } from "~/utils/tag-policy";
 
 interface RuleFormModalProps {
   open: boolean;
   onClose: () => void;
   editingRule: any | null;
+  tagPolicy?: TagPolicyRules; // Added tags breaking it are flagged before saving
   formData: TaggerFormData;
   onFormDataChange: (data: TaggerFormData) => void;
   errors: TaggerFormErrors;
@@ -27,17 +34,26 @@ interface RuleFormModalProps {
   onAiPromptChange: (value: string) => void;
   onGenerateAI: () => void;
   isGenerating: boolean;
+  simulationPanel?: ReactNode; // Shown below the form when editing
 }
 
 const resourceOptions = [
   { label: "Orders", value: "orders" },
   { label: "Customers", value: "customers" },
+  { label: "Products", value: "products" },
+];
+
+const actionTypeOptions = [
+  { label: "Add tags", value: "add" },
+  { label: "Add tags (sticky)", value: "add_sticky" },
+  { label: "Remove tags", value: "remove" },
 ];
 
 export function RuleFormModal({
   open,
   onClose,
   editingRule,
+  tagPolicy,
   formData,
   onFormDataChange,
   errors,
@@ -46,8 +62,27 @@ export function RuleFormModal({
   aiPrompt,
   onAiPromptChange,
   onGenerateAI,
-  isGenerating
+  isGenerating,
+  simulationPanel
 }: RuleFormModalProps) {
+  // Removing a tag never breaks the policy
+  const addedTags = formData.actions.filter(action => action.type !== 'remove').flatMap(action => action.tags);
+  const policyViolations = tagPolicy ? findPolicyViolations([...new Set(addedTags)], tagPolicy) : [];
+
+  const updateAction = (index: number, updates: Partial<TagAction>) => {
+    const actions = [...formData.actions];
+    actions[index] = { ...actions[index], ...updates };
+    onFormDataChange({ ...formData, actions });
+  };
+
+  const addAction = () => {
+    onFormDataChange({ ...formData, actions: [...formData.actions, { type: 'remove', tags: [] }] });
+  };
+
+  const removeAction = (index: number) => {
+    onFormDataChange({ ...formData, actions: formData.actions.filter((_, i) => i !== index) });
+  };
+
   return (
     <Modal
       open={open}
@@ -118,7 +153,7 @@ export function RuleFormModal({
                   label="Resource Type"
                   options={resourceOptions}
                   value={formData.resourceType}
-                  onChange={(v) => onFormDataChange({ ...formData, resourceType: v as any, conditions: [] })}
+                  onChange={(v) => onFormDataChange({ ...formData, resourceType: v as any, conditions: [], groups: [] })}
                 />
               </div>
             </InlineStack>
@@ -130,25 +165,69 @@ export function RuleFormModal({
           <ConditionBuilder
             conditions={formData.conditions}
             conditionLogic={formData.conditionLogic}
+            groups={formData.groups}
             resourceType={formData.resourceType}
-            onChange={(newConditions, newLogic) => onFormDataChange({ ...formData, conditions: newConditions, conditionLogic: newLogic })}
+            onChange={(newConditions, newLogic, newGroups) => onFormDataChange({ ...formData, conditions: newConditions, conditionLogic: newLogic, groups: newGroups })}
           />
+          {errors.conditions && <InlineError message={errors.conditions} fieldID="conditions" />}
 
           <Divider />
 
-          {/* Tags */}
+          {/* Tag Actions */}
           <BlockStack gap="300">
-            <TextField
-              label="Tags to Apply (comma separated)"
-              value={formData.tags.join(", ")}
-              onChange={(val) => onFormDataChange({ ...formData, tags: val.split(",").map(t => t.trim()).filter(t => t) })}
-              autoComplete="off"
-              helpText="Tags will be added when conditions match, and REMOVED when they don't."
-              error={errors.tags}
+            <Text variant="headingSm" as="h3">Actions</Text>
+            {formData.actions.map((action, index) => (
+              <InlineStack key={index} gap="200" align="start" blockAlign="start">
+                <div style={{ flex: 1 }}>
+                  <Select
+                    label="Action"
+                    labelHidden
+                    options={actionTypeOptions}
+                    value={action.type}
+                    onChange={(v) => updateAction(index, { type: v as TagActionType })}
+                  />
+                </div>
+                <div style={{ flex: 2 }}>
+                  <TextField
+                    label="Tags (comma separated)"
+                    labelHidden
+                    placeholder="Tags (comma separated)"
+                    value={action.tags.join(", ")}
+                    onChange={(val) => updateAction(index, { tags: val.split(",").map(t => t.trim()).filter(t => t) })}
+                    autoComplete="off"
+                  />
+                </div>
+                <Button
+                  icon={DeleteIcon}
+                  onClick={() => removeAction(index)}
+                  tone="critical"
+                  variant="plain"
+                  disabled={formData.actions.length === 1}
+                />
+              </InlineStack>
+            ))}
+            <InlineStack>
+              <Button onClick={addAction} variant="plain" icon={PlusIcon}>Add Action</Button>
+            </InlineStack>
+            {errors.actions && <InlineError message={errors.actions} fieldID="tag-actions" />}
+            <TagPolicyWarnings violations={policyViolations} />
+            <Text variant="bodyXs" as="p" tone="subdued">
+              "Add" tags are removed again when the rule stops matching. "Add (sticky)" tags are never removed automatically. "Remove" takes tags off when the rule matches.
+            </Text>
+            <Checkbox
+              label="Stop processing further rules when this rule matches"
+              helpText="Lower-priority rules are skipped for this item. Reorder rules from the Smart Tagger list."
+              checked={formData.stopProcessing}
+              onChange={(checked) => onFormDataChange({ ...formData, stopProcessing: checked })}
             />
           </BlockStack>
         </BlockStack>
       </Modal.Section>
+      {simulationPanel && (
+        <Modal.Section>
+          {simulationPanel}
+        </Modal.Section>
+      )}
     </Modal>
   );
 }
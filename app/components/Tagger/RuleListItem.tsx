@@ -1,5 +1,8 @@
-import { Badge, BlockStack, InlineStack, ResourceItem, Text } from "@shopify/polaris";
+import { Badge, BlockStack, Icon, InlineStack, ResourceItem, Text } from "@shopify/polaris";
+import { DragHandleIcon } from "@shopify/polaris-icons";
 import type { TaggingRule } from "~/types/tagger.types";
+import { describeConditionGroup } from "~/utils/describe-conditions";
+import { describeTagAction, getRuleActions } from "~/utils/rule-actions";
 
 interface RuleListItemProps {
   rule: TaggingRule;
@@ -9,6 +12,9 @@ interface RuleListItemProps {
   onToggle?: (id: string, currentStatus: boolean) => void;
   onDelete?: (id: string) => void;
   onImport?: (rule: TaggingRule) => void;
+  onRunBackfill?: (id: string) => void;
+  onDragStart?: (id: string) => void;
+  onDrop?: (targetId: string) => void;
 }
 
 export function RuleListItem({
@@ -18,8 +24,13 @@ export function RuleListItem({
   onEdit,
   onToggle,
   onDelete,
-  onImport
+  onImport,
+  onRunBackfill,
+  onDragStart,
+  onDrop
 }: RuleListItemProps) {
+  const isDraggable = selectedTab === 0 && !!onDragStart && !!onDrop;
+
   const handleClick = () => {
     if (selectedTab === 0 && onEdit) {
       onEdit(rule);
@@ -34,6 +45,10 @@ export function RuleListItem({
           onAction: () => onToggle?.(rule._id!, rule.isEnabled),
           disabled: !rule.isEnabled && limited,
         },
+        {
+          content: 'Run on existing data',
+          onAction: () => onRunBackfill?.(rule._id!),
+        },
         {
           content: 'Delete',
           onAction: () => onDelete?.(rule._id!),
@@ -57,32 +72,52 @@ export function RuleListItem({
       onClick={handleClick}
       shortcutActions={buildShortcutActions()}
     >
-      <InlineStack align="space-between" blockAlign="center">
-        <BlockStack gap="200">
-          <InlineStack gap="200" blockAlign="center" align="start">
-            <Text variant="headingMd" as="h3">{rule.name}</Text>
-            <InlineStack gap="100">
-              {selectedTab === 0 && (
-                <Badge tone={rule.isEnabled ? "success" : "critical"}>
-                  {rule.isEnabled ? "Active" : "Inactive"}
+      <div
+        draggable={isDraggable}
+        onDragStart={isDraggable ? () => onDragStart!(rule._id!) : undefined}
+        onDragOver={isDraggable ? (e) => e.preventDefault() : undefined}
+        onDrop={isDraggable ? (e) => { e.preventDefault(); onDrop!(rule._id!); } : undefined}
+      >
+        <InlineStack gap="300" blockAlign="center" wrap={false}>
+          {isDraggable && (
+            <div style={{ cursor: 'grab' }}>
+              <Icon source={DragHandleIcon} tone="subdued" />
+            </div>
+          )}
+          <BlockStack gap="200">
+            <InlineStack gap="200" blockAlign="center" align="start">
+              <Text variant="headingMd" as="h3">{rule.name}</Text>
+              <InlineStack gap="100">
+                {selectedTab === 0 && (
+                  <Badge tone={rule.isEnabled ? "success" : "critical"}>
+                    {rule.isEnabled ? "Active" : "Inactive"}
+                  </Badge>
+                )}
+                <Badge tone={rule.resourceType === 'orders' ? 'info' : 'success'}>
+                  {rule.resourceType}
                 </Badge>
-              )}
-              <Badge tone={rule.resourceType === 'orders' ? 'info' : 'success'}>
-                {rule.resourceType}
-              </Badge>
+                {selectedTab === 0 && rule.stopProcessing && (
+                  <Badge tone="attention">Stops processing</Badge>
+                )}
+              </InlineStack>
             </InlineStack>
-          </InlineStack>
-          <Text variant="bodyMd" as="p" tone="subdued">
-            Tags: <b>{rule.tags.join(", ")}</b>
-          </Text>
-          <Text variant="bodySm" as="p">
-            {rule.conditions.length === 0
-              ? "Applied to ALL items"
-              : `When: ${rule.conditions.map((c) => `${c.field} ${c.operator} ${c.value}`).join(` ${rule.conditionLogic || 'AND'} `)}`
-            }
-          </Text>
-        </BlockStack>
-      </InlineStack>
+            <Text variant="bodyMd" as="p" tone="subdued">
+              {getRuleActions(rule).map((action, index) => (
+                <span key={index}>
+                  {index > 0 && " · "}
+                  <b>{describeTagAction(action)}</b>
+                </span>
+              ))}
+            </Text>
+            <Text variant="bodySm" as="p">
+              {rule.conditions.length === 0 && !rule.groups?.length
+                ? "Applied to ALL items"
+                : `When: ${describeConditionGroup({ logic: rule.conditionLogic || 'AND', conditions: rule.conditions, groups: rule.groups })}`
+              }
+            </Text>
+          </BlockStack>
+        </InlineStack>
+      </div>
     </ResourceItem>
   );
 }
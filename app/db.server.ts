@@ -6,6 +6,25 @@ const MONGODB_URI = process.env.MONGODB_URL || "mongodb://localhost:27017/shop-o
 
 let isConnected = false;
 
+// Backups used to expire through a 30-day TTL index on createdAt. Retention now follows expiresAt,
+// but Mongoose never drops an index removed from the schema, so the old one would still delete
+// Pro backups after 30 days. Backups from before expiresAt get one first, or they would never expire.
+// The backfill runs on every start, as an earlier deploy may have dropped the index already.
+const migrateLegacyBackups = async () => {
+    // Imported here, as the services load shopify.server, which loads this file
+    const { BackupService } = await import("./services/backup.service");
+    await BackupService.backfillExpiry();
+
+    const backups = mongoose.connection.collection("backups");
+    // The collection doesn't exist yet on a fresh database
+    const indexes = await backups.indexes().catch(() => []);
+    const legacy = indexes.find(index => index.name === "createdAt_1" && index.expireAfterSeconds !== undefined);
+    if (legacy) {
+        await backups.dropIndex("createdAt_1");
+        console.log("Dropped legacy backups TTL index createdAt_1");
+    }
+};
+
 export const connectDB = async () => {
     if (isConnected) {
         return;
@@ -15,6 +34,7 @@ export const connectDB = async () => {
         await mongoose.connect(MONGODB_URI);
         isConnected = true;
         console.log("🚀 Connected to MongoDB");
+        await migrateLegacyBackups().catch(error => console.error("Error migrating legacy backups:", error));
     } catch (error) {
         console.error("Error connecting to MongoDB:", error);
         // Không throw error để app không crash nếu DB lỗi tạm thời, nhưng cần xử lý ở logic
@@ -1,11 +1,28 @@
 import { useCallback, useEffect, useState } from "react";
+import type { Condition, ConditionGroup, ConditionLogic } from "~/types/tagger.types";
+
+export interface BulkTargetConditions {
+  conditions: Condition[];
+  conditionLogic: ConditionLogic;
+  groups: ConditionGroup[];
+}
 
 export function useBulkForm() {
   const [formState, setFormState] = useState({
     resourceType: "products",
     operation: "replace",
+    matchMode: "exact",
+    targetMode: "tags",
+    searchQuery: "",
     findTag: "",
     replaceTag: "",
+    addTags: "",
+  });
+
+  const [targetConditions, setTargetConditions] = useState<BulkTargetConditions>({
+    conditions: [],
+    conditionLogic: "AND",
+    groups: [],
   });
 
   const [showPreviewModal, setShowPreviewModal] = useState(false);
@@ -28,6 +45,8 @@ export function useBulkForm() {
     formState,
     setFormState,
     updateFormState,
+    targetConditions,
+    setTargetConditions,
     showPreviewModal,
     openPreviewModal,
     closePreviewModal,
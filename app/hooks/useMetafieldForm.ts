@@ -1,11 +1,13 @@
 import { useCallback, useState } from "react";
 import type { MetafieldFormData, MetafieldFormErrors, MetafieldRule } from "~/types/metafield.types";
+import { validateConditions } from "~/utils/condition-validation";
 
 const initialFormData: MetafieldFormData = {
   name: "",
   resourceType: "products",
   isEnabled: true,
   conditions: [],
+  groups: [],
   definition: {
     namespace: "custom",
     key: "",
@@ -43,6 +45,11 @@ export function useMetafieldForm() {
       newErrors.value = "Value is required";
     }
 
+    const conditionError = validateConditions(formData.conditions, formData.groups);
+    if (conditionError) {
+      newErrors.conditions = conditionError;
+    }
+
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
   }, [formData]);
@@ -63,6 +70,7 @@ export function useMetafieldForm() {
       name: rule.name,
       resourceType: rule.resourceType,
       conditions: rule.conditions || [],
+      groups: rule.groups || [],
       definition: rule.definition,
       isEnabled: rule.isEnabled,
       conditionLogic: rule.conditionLogic || 'AND'
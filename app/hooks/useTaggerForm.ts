@@ -1,11 +1,15 @@
 import { useCallback, useState } from "react";
 import type { TaggerFormData, TaggerFormErrors, TaggingRule } from "~/types/tagger.types";
+import { validateConditions } from "~/utils/condition-validation";
+import { getRuleActions } from "~/utils/rule-actions";
 
 const initialFormData: TaggerFormData = {
   name: "",
   resourceType: "orders",
   conditions: [],
-  tags: [],
+  groups: [],
+  actions: [{ type: 'add', tags: [] }],
+  stopProcessing: false,
   isEnabled: true,
   conditionLogic: 'AND'
 };
@@ -25,12 +29,15 @@ export function useTaggerForm() {
       newErrors.resourceType = "Resource type is required";
     }
 
-    if (!formData.conditions.length) {
+    if (!formData.conditions.length && !formData.groups.length) {
       newErrors.conditions = "At least one condition is required";
+    } else {
+      const conditionError = validateConditions(formData.conditions, formData.groups);
+      if (conditionError) newErrors.conditions = conditionError;
     }
 
-    if (!formData.tags.length) {
-      newErrors.tags = "At least one tag is required";
+    if (!formData.actions.some(action => action.tags.length > 0)) {
+      newErrors.actions = "At least one tag is required";
     }
 
     setErrors(newErrors);
@@ -47,7 +54,9 @@ export function useTaggerForm() {
       name: "",
       resourceType: "orders",
       conditions: [{ field: "total_price", operator: "greater_than", value: "" }],
-      tags: [],
+      groups: [],
+      actions: [{ type: 'add', tags: [] }],
+      stopProcessing: false,
       isEnabled: true,
       conditionLogic: 'AND'
     });
@@ -60,7 +69,9 @@ export function useTaggerForm() {
       name: rule.name,
       resourceType: rule.resourceType,
       conditions: rule.conditions || [],
-      tags: rule.tags || [],
+      groups: rule.groups || [],
+      actions: getRuleActions(rule).map(({ type, tags }) => ({ type, tags: [...tags] })),
+      stopProcessing: rule.stopProcessing || false,
       isEnabled: rule.isEnabled,
       conditionLogic: rule.conditionLogic || 'AND'
     });
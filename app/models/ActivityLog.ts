@@ -16,7 +16,7 @@ const activityLogSchema = new mongoose.Schema({
         message: { type: String, required: true },
         timestamp: { type: Date, default: Date.now }
     }],
-    status: { type: String, enum: ['Success', 'Failed', 'Pending'], default: 'Pending' },
+    status: { type: String, enum: ['Success', 'Failed', 'Pending', 'Cancelled'], default: 'Pending' },
     timestamp: { type: Date, default: Date.now },
 });
 
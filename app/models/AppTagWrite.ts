@@ -0,0 +1,16 @@
+import mongoose from "mongoose";
+
+// Tags the Smart Tagger just wrote to a resource. The update webhook our own
+// tagsAdd/tagsRemove triggers is recognised by these and skipped.
+const appTagWriteSchema = new mongoose.Schema({
+    shop: { type: String, required: true },
+    resourceId: { type: String, required: true }, // GID
+    tags: [{ type: String }], // Expected tag set after the write, normalized
+    intermediateTags: [{ type: String }], // Tag set between tagsAdd and tagsRemove when the write does both
+    fingerprint: { type: String, required: true }, // Payload hash without tags / updated_at
+    createdAt: { type: Date, default: Date.now, expires: 60 * 10 },
+});
+
+appTagWriteSchema.index({ shop: 1, resourceId: 1 }, { unique: true });
+
+export const AppTagWrite = mongoose.models.AppTagWrite || mongoose.model("AppTagWrite", appTagWriteSchema);
@@ -1,15 +1,44 @@
 import mongoose from "mongoose";
 
+// One backed up resource: its values before the job ran
+export const backupItemSchema = new mongoose.Schema({
+    resourceId: { type: String, required: true },
+    originalTags: { type: [String], default: [] },
+    // Tag jobs: tags the job wrote, to tell whether the item was edited afterwards (missing on older backups)
+    appliedTags: { type: [String], default: undefined },
+    // Metafield jobs: value before the job ran (null = metafield did not exist)
+    originalMetafields: [{
+        _id: false,
+        namespace: { type: String, required: true },
+        key: { type: String, required: true },
+        value: { type: String, default: null },
+        type: { type: String },
+    }],
+    // Product field jobs: productUpdate input fields (e.g. `{ vendor }`) or `{ variants: [{ id, price }] }` before the job ran
+    originalFields: { type: mongoose.Schema.Types.Mixed },
+    // Set once the item is claimed by a revert, so it isn't reverted twice
+    revertedAt: { type: Date },
+    // Revert job that claimed the item, to release it again if the revert fails or skips it
+    revertJobId: { type: String },
+}, { _id: false });
+
+// Snapshot header. Items live in BackupChunk documents so a large job can't hit the 16MB document limit.
 const BackupSchema = new mongoose.Schema({
     shop: { type: String, required: true, index: true },
     jobId: { type: String, required: true, index: true },
-    resourceType: { type: String, required: true }, // 'products' | 'customers'
-    createdAt: { type: Date, default: Date.now, expires: '30d' }, // Auto-delete after 30 days
-    items: [{
-        resourceId: { type: String, required: true },
-        originalTags: { type: [String], default: [] },
-        // We can add originalMetafields later if needed
-    }]
+    resourceType: { type: String, required: true }, // 'products' | 'customers' | 'orders' | 'variants'
+    createdAt: { type: Date, default: Date.now },
+    // Removed by MongoDB once passed; depends on the shop's plan and retention setting
+    expiresAt: { type: Date, index: { expires: 0 } },
+    itemCount: { type: Number, default: 0 },
+    // Set on backups a revert writes: the job whose changes the revert undid
+    revertOfJobId: { type: String },
+    // Last time items of this backup were restored
+    revertedAt: { type: Date },
+    // Backups written before BackupChunk existed keep their items inline
+    items: { type: [backupItemSchema], default: undefined },
 });
 
+BackupSchema.index({ shop: 1, createdAt: -1 });
+
 export const Backup = mongoose.models.Backup || mongoose.model("Backup", BackupSchema);
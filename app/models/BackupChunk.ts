@@ -0,0 +1,18 @@
+import mongoose from "mongoose";
+import { backupItemSchema } from "./Backup";
+
+// A slice of a backup's items, in job order
+const backupChunkSchema = new mongoose.Schema({
+    backupId: { type: mongoose.Schema.Types.ObjectId, required: true }, // Backup header
+    shop: { type: String, required: true },
+    jobId: { type: String, required: true }, // A job can have one backup per resource type
+    index: { type: Number, required: true },
+    createdAt: { type: Date, default: Date.now },
+    expiresAt: { type: Date, index: { expires: 0 } }, // Same as the backup header
+    items: [backupItemSchema],
+});
+
+backupChunkSchema.index({ backupId: 1, index: 1 });
+backupChunkSchema.index({ shop: 1, jobId: 1 });
+
+export const BackupChunk = mongoose.models.BackupChunk || mongoose.model("BackupChunk", backupChunkSchema);
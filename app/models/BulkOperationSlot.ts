@@ -0,0 +1,20 @@
+import mongoose from "mongoose";
+
+// Shopify runs one bulk query and one bulk mutation per shop at a time; each is a slot
+// held by one job. `waiters` keeps arrival order so the slot goes first come, first served.
+const bulkOperationSlotSchema = new mongoose.Schema({
+    shop: { type: String, required: true },
+    type: { type: String, enum: ['query', 'mutation'], required: true },
+    ownerJobId: { type: String, default: null },
+    lockedAt: { type: Date },
+    waiters: [{
+        _id: false,
+        jobId: { type: String, required: true },
+        requestedAt: { type: Date, default: Date.now },
+        seenAt: { type: Date, default: Date.now }, // Last retry, waiters that stop retrying lose their place
+    }],
+});
+
+bulkOperationSlotSchema.index({ shop: 1, type: 1 }, { unique: true });
+
+export const BulkOperationSlot = mongoose.models.BulkOperationSlot || mongoose.model("BulkOperationSlot", bulkOperationSlotSchema);
@@ -0,0 +1,16 @@
+import mongoose from "mongoose";
+
+// Shared condition sub-schemas for TaggingRule & MetafieldRule (not a model on its own)
+export const conditionSchema = new mongoose.Schema({
+    field: { type: String, required: true }, // e.g., 'vendor', 'tags', 'total_spent'
+    operator: { type: String, required: true }, // e.g., 'equals', 'contains', 'greater_than'
+    value: { type: String, required: true }
+});
+
+// A nested group: (A OR B), NOT (C)... Groups can contain further groups.
+export const conditionGroupSchema = new mongoose.Schema({
+    logic: { type: String, enum: ['AND', 'OR', 'NOT'], default: 'AND' },
+    conditions: [conditionSchema],
+}, { _id: false });
+
+conditionGroupSchema.add({ groups: [conditionGroupSchema] });
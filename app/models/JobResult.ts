@@ -0,0 +1,23 @@
+import mongoose from "mongoose";
+
+// Outcome of one bulk mutation of a job. `items` follows the order of the uploaded
+// mutation lines, so the result file's `__lineNumber` indexes straight into it.
+const jobResultSchema = new mongoose.Schema({
+    shop: { type: String, required: true },
+    jobId: { type: String, required: true },
+    resourceType: { type: String, required: true },
+    status: { type: String, enum: ['Pending', 'Completed'], default: 'Pending' },
+    succeededCount: { type: Number, default: 0 },
+    failedCount: { type: Number, default: 0 },
+    items: [{
+        _id: false,
+        resourceId: { type: String, required: true },
+        status: { type: String, enum: ['pending', 'success', 'failed'], default: 'pending' },
+        error: { type: String },
+    }],
+    createdAt: { type: Date, default: Date.now, expires: '30d' },
+});
+
+jobResultSchema.index({ shop: 1, jobId: 1, resourceType: 1 });
+
+export const JobResult = mongoose.models.JobResult || mongoose.model("JobResult", jobResultSchema);
@@ -0,0 +1,25 @@
+import mongoose from "mongoose";
+
+// Progress and user control of a step-based bulk or cleaner job. Workers check it
+// before every step, so pausing or cancelling takes effect between steps.
+const jobStateSchema = new mongoose.Schema({
+    shop: { type: String, required: true },
+    jobId: { type: String, required: true },
+    queue: { type: String, required: true }, // BullMQ queue name
+    state: { type: String, enum: ['running', 'paused', 'cancelled'], default: 'running' },
+    step: { type: String }, // Step about to run: init, polling_query, processing, polling_mutation
+    bulkOperationId: { type: String }, // Shopify bulk operation of the current polling step
+    queuedJobId: { type: String }, // BullMQ id of the step queued last, removed on cancel
+    bulkOperationStatus: { type: String },
+    objectCount: { type: Number, default: 0 },
+    // Step that arrived while paused, queued again on resume
+    heldJob: {
+        name: { type: String },
+        data: { type: mongoose.Schema.Types.Mixed },
+    },
+    updatedAt: { type: Date, default: Date.now, expires: '30d' },
+});
+
+jobStateSchema.index({ shop: 1, jobId: 1 }, { unique: true });
+
+export const JobState = mongoose.models.JobState || mongoose.model("JobState", jobStateSchema);
@@ -1,4 +1,5 @@
 import mongoose from "mongoose";
+import { conditionGroupSchema, conditionSchema } from "./Condition";
 
 // 3. MetafieldRule (NEW: Conditional Metafields)
 // Thay thế cho MetafieldConfig đơn giản cũ
@@ -8,14 +9,11 @@ const metafieldRuleSchema = new mongoose.Schema({
     resourceType: { type: String, required: true, enum: ['products', 'customers'] },
     isEnabled: { type: Boolean, default: true },
 
-    conditionLogic: { type: String, enum: ['AND', 'OR'], default: 'AND' },
+    conditionLogic: { type: String, enum: ['AND', 'OR', 'NOT'], default: 'AND' },
 
-    // Điều kiện để áp dụng (Logic AND)
-    conditions: [{
-        field: { type: String, required: true }, // e.g., 'vendor', 'tags', 'total_spent'
-        operator: { type: String, required: true }, // 'equals', 'contains', 'gt', 'lt'
-        value: { type: String, required: true }
-    }],
+    // Điều kiện để áp dụng (kết hợp theo conditionLogic)
+    conditions: [conditionSchema],
+    groups: [conditionGroupSchema], // Nhóm điều kiện lồng nhau
 
     // Metafield sẽ được set
     definition: {
@@ -0,0 +1,37 @@
+import mongoose from "mongoose";
+
+// Recurring automation for a shop. The BullMQ job scheduler on the cron queue
+// is derived from this document and kept in sync by ScheduleService.
+const scheduleSchema = new mongoose.Schema({
+    shop: { type: String, required: true, index: true },
+    name: { type: String, required: true },
+    isEnabled: { type: Boolean, default: true },
+
+    // When to run, in the shop's timezone
+    frequency: { type: String, enum: ['hourly', 'daily', 'weekly', 'cron'], default: 'daily' },
+    minute: { type: Number, default: 0, min: 0, max: 59 },
+    hour: { type: Number, default: 0, min: 0, max: 23 },
+    dayOfWeek: { type: Number, default: 1, min: 0, max: 6 }, // 0 = Sunday
+    cronExpression: { type: String, default: "" },
+
+    // What to run
+    taskType: { type: String, enum: ['rules', 'bulk', 'cleaner'], required: true },
+    taggingRuleIds: [{ type: String }],
+    metafieldRuleIds: [{ type: String }],
+    bulkOperation: {
+        resourceType: { type: String, enum: ['products', 'customers', 'orders'], default: 'products' },
+        operation: { type: String, enum: ['replace', 'add', 'remove'], default: 'add' },
+        findTag: { type: String, default: "" },
+        replaceTag: { type: String, default: "" },
+    },
+    cleanerTags: [{ type: String }],
+
+    lastRunAt: { type: Date },
+    lastStatus: { type: String, enum: ['Success', 'Failed'] },
+    lastMessage: { type: String },
+
+    createdAt: { type: Date, default: Date.now },
+    updatedAt: { type: Date, default: Date.now },
+});
+
+export const Schedule = mongoose.models.Schedule || mongoose.model("Schedule", scheduleSchema);
@@ -4,6 +4,8 @@ const SettingsSchema = new mongoose.Schema({
     shop: { type: String, required: true, unique: true, index: true },
     setupGuideDismissed: { type: Boolean, default: false },
     agreedToTerms: { type: Boolean, default: false },
+    // Days to keep backups, capped by the plan's maximum (unset = plan maximum)
+    backupRetentionDays: { type: Number },
     updatedAt: { type: Date, default: Date.now }
 });
 
@@ -4,6 +4,7 @@ const shopConfigSchema = new mongoose.Schema({
     shop: { type: String, required: true, unique: true },
     accessToken: { type: String, required: true },
     currencyCode: { type: String, default: "USD" },
+    ianaTimezone: { type: String, default: "UTC" },
     email: { type: String, default: "" },
     shopName: { type: String, default: "" },
     isActive: { type: Boolean, default: true },
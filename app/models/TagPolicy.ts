@@ -0,0 +1,15 @@
+import mongoose from "mongoose";
+
+// Per-shop tag spelling rules, checked by the Data Cleaner scan, the Smart Tagger and bulk jobs.
+// Shops without a policy get DEFAULT_TAG_POLICY (~/utils/tag-policy).
+const tagPolicySchema = new mongoose.Schema({
+    shop: { type: String, required: true, unique: true },
+    characterSet: { type: String, enum: ['any', 'letters', 'latin', 'ascii'], default: 'latin' },
+    maxLength: { type: Number, default: 30 }, // null = no limit
+    casing: { type: String, enum: ['any', 'lower', 'kebab', 'title'], default: 'any' },
+    forbiddenPrefixes: [String],
+    allowList: [String], // Tags exempt from every rule
+    updatedAt: { type: Date, default: Date.now },
+});
+
+export const TagPolicy = mongoose.models.TagPolicy || mongoose.model("TagPolicy", tagPolicySchema);
@@ -0,0 +1,32 @@
+import mongoose from "mongoose";
+
+// Full-catalog tag scan run by a background job, one resource type after the other.
+// Tag counts are in TagScanUsage; the flagged lists are filled when the scan completes.
+const tagScanReportSchema = new mongoose.Schema({
+    shop: { type: String, required: true },
+    jobId: { type: String, required: true },
+    status: { type: String, enum: ['Pending', 'Completed', 'Failed', 'Cancelled'], default: 'Pending' },
+    resourceType: { type: String }, // Resource type being scanned
+    itemsScanned: { type: Number, default: 0 },
+    uniqueTags: { type: Number, default: 0 },
+    resourceCounts: {
+        products: { type: Number, default: 0 },
+        customers: { type: Number, default: 0 },
+        orders: { type: Number, default: 0 },
+    },
+    processedResources: [String], // Resource types whose counts were added
+    duplicates: [String],
+    malformed: [String], // Tags breaking the shop's tag policy
+    policyViolations: [{ _id: false, tag: String, rules: [String], suggestion: String }],
+    similarGroups: [{ _id: false, tags: [String], confidence: Number }], // Near-duplicate tags, offered for merging
+    flaggedUsage: [{ _id: false, tag: String, total: Number }], // Item counts of duplicate and malformed tags
+    previewItems: [{ _id: false, id: String, tags: [String] }],
+    error: { type: String },
+    createdAt: { type: Date, default: Date.now, expires: '30d' },
+    completedAt: { type: Date },
+});
+
+tagScanReportSchema.index({ shop: 1, createdAt: -1 });
+tagScanReportSchema.index({ shop: 1, jobId: 1 });
+
+export const TagScanReport = mongoose.models.TagScanReport || mongoose.model("TagScanReport", tagScanReportSchema);
@@ -0,0 +1,20 @@
+import mongoose from "mongoose";
+
+// Items using one tag, found by a tag scan. Kept apart from the report, as a shop can have more tags than fit in one document.
+const tagScanUsageSchema = new mongoose.Schema({
+    shop: { type: String, required: true },
+    jobId: { type: String, required: true }, // Scan report
+    tag: { type: String, required: true },
+    products: { type: Number, default: 0 },
+    customers: { type: Number, default: 0 },
+    orders: { type: Number, default: 0 },
+    total: { type: Number, default: 0 }, // Filled when the scan completes
+    firstSeen: { type: Date }, // Oldest createdAt of the items using the tag
+    lastSeen: { type: Date }, // Latest updatedAt of the items using the tag
+    createdAt: { type: Date, default: Date.now, expires: '30d' }, // Same as the report
+});
+
+tagScanUsageSchema.index({ shop: 1, jobId: 1, tag: 1 }, { unique: true });
+tagScanUsageSchema.index({ shop: 1, jobId: 1, total: -1 });
+
+export const TagScanUsage = mongoose.models.TagScanUsage || mongoose.model("TagScanUsage", tagScanUsageSchema);
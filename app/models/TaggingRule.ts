@@ -1,21 +1,25 @@
 import mongoose from "mongoose";
+import { conditionGroupSchema, conditionSchema } from "./Condition";
 
 const taggingRuleSchema = new mongoose.Schema({
     shop: { type: String, required: true },
     name: { type: String, required: true }, // User friendly name
-    resourceType: { type: String, required: true, enum: ['orders', 'customers'], default: 'orders' },
+    resourceType: { type: String, required: true, enum: ['orders', 'customers', 'products'], default: 'orders' },
     isEnabled: { type: Boolean, default: false },
-    priority: { type: Number, default: 0 },
-    conditionLogic: { type: String, enum: ['AND', 'OR'], default: 'AND' },
-    conditions: [{
-        field: { type: String, required: true },
-        operator: { type: String, required: true },
-        value: { type: String, required: true }
+    priority: { type: Number, default: 0 }, // Higher runs first and wins tag conflicts
+    stopProcessing: { type: Boolean, default: false }, // Skip lower-priority rules when this one matches
+    conditionLogic: { type: String, enum: ['AND', 'OR', 'NOT'], default: 'AND' },
+    conditions: [conditionSchema],
+    groups: [conditionGroupSchema], // Nested groups, combined with `conditions` using `conditionLogic`
+    tags: [{ type: String, required: true }], // Tags to apply (legacy, mirrors add/add_sticky actions)
+    actions: [{
+        type: { type: String, enum: ['add', 'add_sticky', 'remove'], required: true },
+        tags: [{ type: String, required: true }]
     }],
-    tags: [{ type: String, required: true }], // Tags to apply
     createdAt: { type: Date, default: Date.now },
     updatedAt: { type: Date, default: Date.now },
 });
 
 taggingRuleSchema.index({ shop: 1, resourceType: 1 });
+taggingRuleSchema.index({ shop: 1, priority: -1 });
 export const TaggingRule = mongoose.models.TaggingRule || mongoose.model("TaggingRule", taggingRuleSchema);
@@ -0,0 +1,12 @@
+import mongoose from "mongoose";
+
+// One document per Shopify delivery (X-Shopify-Webhook-Id). Retries reuse the id,
+// so a second insert means the delivery was already queued.
+const webhookDeliverySchema = new mongoose.Schema({
+    webhookId: { type: String, required: true, unique: true },
+    shop: { type: String, required: true },
+    topic: { type: String, required: true },
+    receivedAt: { type: Date, default: Date.now, expires: 60 * 60 * 24 * 7 }, // Shopify retries for up to 48h
+});
+
+export const WebhookDelivery = mongoose.models.WebhookDelivery || mongoose.model("WebhookDelivery", webhookDeliverySchema);
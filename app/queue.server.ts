@@ -1,6 +1,13 @@
 import { Queue, Worker, type Job } from "bullmq";
 import IORedis from "ioredis";
 import { webhookQueue, bulkQueue, cronQueue, cleanerQueue } from "./queues";
+import { BackfillService } from "./services/backfill.service";
+import { SCHEDULED_TASK_JOB, ScheduleService } from "./services/schedule.service";
+import { BULK_METAFIELD_JOB, processBulkMetafieldJob } from "./services/bulk-metafield.server";
+import { BULK_PRODUCT_FIELD_JOB, processBulkProductFieldJob } from "./services/bulk-product-field.server";
+import { METAFIELD_REVERT_JOB, REVERT_JOB, RevertService } from "./services/revert.service";
+import { JobControlService } from "./services/job-control.service";
+import { TAG_SCAN_JOB, TagScanService } from "./services/tag-scan.service";
 export { webhookQueue, bulkQueue, cronQueue, cleanerQueue };
 
 const REDIS_URL = process.env.REDIS_URL || "redis://localhost:6379";
@@ -44,20 +51,43 @@ const processWebhookJob = async (job: Job) => {
 
 const processBulkJob = async (job: Job) => {
     console.log(`Processing bulk job ${job.id}:`, job.name);
-    await bulkProcessor(job);
+    if (!(await JobControlService.beforeStep(job, "bulk-operations"))) {
+        return { status: "held" };
+    }
+    if (job.name === "rule-backfill") {
+        await BackfillService.processBackfillJob(job);
+    } else if (job.name === BULK_METAFIELD_JOB) {
+        await processBulkMetafieldJob(job);
+    } else if (job.name === BULK_PRODUCT_FIELD_JOB) {
+        await processBulkProductFieldJob(job);
+    } else if (job.name === METAFIELD_REVERT_JOB) {
+        await RevertService.processMetafieldRevertJob(job);
+    } else if (job.name === REVERT_JOB) {
+        await RevertService.processRevertJob(job);
+    } else {
+        await bulkProcessor(job);
+    }
     return { status: "processed" };
 };
 
 const processCronJob = async (job: Job) => {
     console.log(`Processing cron job ${job.id}:`, job.name);
-    // In a real app, we would import a service function to run the logic
-    // e.g. await runAutoUntag();
+    if (job.name === SCHEDULED_TASK_JOB) {
+        await ScheduleService.runSchedule(job);
+    }
     return { status: "processed" };
 };
 
 const processCleanerJob = async (job: Job) => {
     console.log(`Processing cleaner job ${job.id}:`, job.name);
-    await CleanerService.processCleanerJob(job);
+    if (!(await JobControlService.beforeStep(job, "cleaner-jobs"))) {
+        return { status: "held" };
+    }
+    if (job.name === TAG_SCAN_JOB) {
+        await TagScanService.processScanJob(job);
+    } else {
+        await CleanerService.processCleanerJob(job);
+    }
     return { status: "processed" };
 };
 
@@ -66,6 +96,13 @@ bulkWorker = new Worker("bulk-operations", processBulkJob, { connection });
 cronWorker = new Worker("cron-tasks", processCronJob, { connection });
 cleanerWorker = new Worker("cleaner-jobs", processCleanerJob, { connection });
 
+// Step jobs queue their next step themselves; remember its id so cancelling the job can remove it
+for (const queue of [bulkQueue, cleanerQueue]) {
+    queue.on("waiting", job => {
+        JobControlService.recordQueuedStep(job).catch(error => console.error("Failed to record queued step:", error));
+    });
+}
+
 // Schedule nightly job if not exists
 // Note: In dev, this might run multiple times on restart, but add is idempotent with same job ID
 cronQueue.add("nightly-cleanup", {}, {
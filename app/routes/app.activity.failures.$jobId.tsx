@@ -0,0 +1,17 @@
+import type { LoaderFunctionArgs } from "@remix-run/node";
+import { JobResultService } from "../services/job-result.service";
+import { authenticate } from "../shopify.server";
+
+// CSV of the items a bulk job could not update, downloaded from the Activity Log
+export const loader = async ({ request, params }: LoaderFunctionArgs) => {
+	const { session } = await authenticate.admin(request);
+	const jobId = params.jobId as string;
+	const csv = await JobResultService.getFailureReport(session.shop, jobId);
+
+	return new Response(csv, {
+		headers: {
+			"Content-Type": "text/csv; charset=utf-8",
+			"Content-Disposition": `attachment; filename="failures-${jobId}.csv"`,
+		},
+	});
+};
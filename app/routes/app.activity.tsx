@@ -1,8 +1,10 @@
 import { type ActionFunctionArgs, json, type LoaderFunctionArgs } from "@remix-run/node";
-import { useLoaderData, useNavigate, useRevalidator, useSearchParams, useSubmit } from "@remix-run/react";
+import { useActionData, useFetcher, useLoaderData, useNavigate, useRevalidator, useSearchParams, useSubmit } from "@remix-run/react";
 import {
 	ActionList,
 	Badge,
+	Banner,
+	BlockStack,
 	Button,
 	ButtonGroup,
 	Card,
@@ -12,7 +14,6 @@ import {
 	IndexTable,
 	Layout,
 	List,
-	Modal,
 	Page,
 	Pagination,
 	Popover,
@@ -22,8 +23,13 @@ import {
 } from "@shopify/polaris";
 import { CalendarIcon } from '@shopify/polaris-icons';
 import { useCallback, useEffect, useState } from "react";
-import { Backup } from "../models/Backup";
+import { RevertModal } from "~/components/Activity/RevertModal";
+import type { RevertMode, RevertPreview, RevertSelection } from "~/types/revert.types";
+import { downloadFile } from "~/utils/download-file";
+import { BackupService } from "../services/backup.service";
 import { ActivityService } from "../services/activity.service";
+import { JobControlService } from "../services/job-control.service";
+import { JobResultService } from "../services/job-result.service";
 import { RevertService } from "../services/revert.service";
 import { authenticate } from "../shopify.server";
 
@@ -71,14 +77,31 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
 	});
 	const logs = result.logs;
 
+	// Items bulk mutations could not update
+	const failedCounts = await JobResultService.getFailedCounts(
+		session.shop,
+		logs.map((log: any) => log.jobId).filter(Boolean)
+	);
+
+	// Step and progress of jobs still running
+	const jobStates = await JobControlService.getJobStates(
+		session.shop,
+		logs.filter((log: any) => log.status === "Pending" && log.jobId).map((log: any) => log.jobId)
+	);
+
 	// Check for backups
 	const logsWithBackup = await Promise.all(logs.map(async (log: any) => {
 		let hasBackup = false;
 		if (log.jobId && log.resourceId === "Bulk") {
-			const count = await Backup.countDocuments({ shop: session.shop, jobId: log.jobId });
-			hasBackup = count > 0;
+			// Only backups with items left to restore
+			hasBackup = await BackupService.hasRevertableItems(session.shop, log.jobId);
 		}
-		return { ...log, hasBackup };
+		return {
+			...log,
+			hasBackup,
+			failedCount: (log.jobId && failedCounts[log.jobId]) || 0,
+			jobState: (log.jobId && jobStates[log.jobId]) || null,
+		};
 	}));
 
 	return json({
@@ -98,10 +121,36 @@ export const action = async ({ request }: ActionFunctionArgs) => {
 	const formData = await request.formData();
 	const actionType = formData.get("actionType");
 
+	if (actionType === "pauseJob" || actionType === "resumeJob" || actionType === "cancelJob") {
+		const jobId = formData.get("jobId") as string;
+		try {
+			if (actionType === "pauseJob") await JobControlService.pause(session.shop, jobId);
+			if (actionType === "resumeJob") await JobControlService.resume(session.shop, jobId);
+			if (actionType === "cancelJob") await JobControlService.cancel(session.shop, jobId);
+			return json({ success: true, message: "Job updated" });
+		} catch (e) {
+			return json({ success: false, message: (e as Error).message }, { status: 400 });
+		}
+	}
+
+	if (actionType === "revertPreview") {
+		const jobId = formData.get("jobId") as string;
+		try {
+			const preview = await RevertService.previewRevert(session.shop, jobId);
+			return json({ success: true, preview });
+		} catch (e) {
+			return json({ success: false, message: (e as Error).message }, { status: 400 });
+		}
+	}
+
 	if (actionType === "revert") {
 		const jobId = formData.get("jobId") as string;
 		try {
-			await RevertService.revertBackup(session.shop, jobId);
+			const selection: RevertSelection = {
+				mode: (formData.get("mode") as RevertMode) || "all",
+				resourceIds: JSON.parse((formData.get("resourceIds") as string) || "[]"),
+			};
+			await RevertService.revertBackup(session.shop, jobId, selection);
 			return json({ success: true, message: "Revert started" });
 		} catch (e) {
 			return json({ success: false, message: (e as Error).message }, { status: 400 });
@@ -111,18 +160,30 @@ export const action = async ({ request }: ActionFunctionArgs) => {
 	return null;
 };
 
+const JOB_STEP_LABELS: Record<string, string> = {
+	init: "Starting",
+	polling_query: "Fetching data",
+	processing: "Preparing changes",
+	polling_mutation: "Writing changes",
+	start_mutation: "Waiting for another job",
+	start: "Starting",
+	polling: "Writing changes",
+};
+
 // Action categories for tabs
 const ACTION_CATEGORIES = {
 	"All": ["*"],
 	"Tags": ["Smart Tag Applied", "Tag Cleanup", "Bulk Tag Update", "Auto-Tag"],
 	"Bulk Operations": ["Bulk Operation", "Bulk Tag Update", "Bulk Update"],
 	"Metafields": ["Metafield Updated", "Metafield Created", "COGS Updated"],
-	"Data Cleaning": ["Tag Cleanup", "Data Cleanup"],
+	"Data Cleaning": ["Tag Cleanup", "Data Cleanup", "Tag Scan", "Tag Merge"],
 	"System": ["Webhook Received", "Job Queued", "Job Completed"],
 };
 
 export default function Activity() {
 	const { logs, pagination, dateRange } = useLoaderData<typeof loader>();
+	const actionData = useActionData<typeof action>() as { success: boolean; message: string } | null;
+	const previewFetcher = useFetcher<{ success: boolean; preview?: RevertPreview; message?: string }>();
 	const submit = useSubmit();
 	const navigate = useNavigate();
 	const [searchParams] = useSearchParams();
@@ -229,15 +290,33 @@ export default function Activity() {
 
 	const handleRevert = (jobId: string) => {
 		setRevertJobId(jobId);
+		previewFetcher.submit({ actionType: "revertPreview", jobId }, { method: "post" });
 	};
 
-	const confirmRevert = () => {
+	const confirmRevert = (selection: RevertSelection) => {
 		if (revertJobId) {
-			submit({ actionType: "revert", jobId: revertJobId }, { method: "post" });
+			submit({
+				actionType: "revert",
+				jobId: revertJobId,
+				mode: selection.mode,
+				resourceIds: JSON.stringify(selection.resourceIds || []),
+			}, { method: "post" });
 			setRevertJobId(null);
 		}
 	};
 
+	// Ignore a preview still showing for a previously opened job
+	const revertPreview = previewFetcher.data?.preview?.jobId === revertJobId ? previewFetcher.data?.preview : undefined;
+	const revertPreviewError = previewFetcher.state === "idle" && previewFetcher.data?.success === false
+		? previewFetcher.data.message
+		: undefined;
+
+	const controlJob = (actionType: "pauseJob" | "resumeJob" | "cancelJob", jobId: string) => {
+		submit({ actionType, jobId }, { method: "post" });
+	};
+
+	const downloadFailureReport = (jobId: string) => downloadFile(`/app/activity/failures/${jobId}`, `failures-${jobId}.csv`);
+
 	// IndexFilters configuration
 	const filters = [
 		{
@@ -251,6 +330,7 @@ export default function Activity() {
 						{ label: 'Success', value: 'Success' },
 						{ label: 'Failed', value: 'Failed' },
 						{ label: 'Pending', value: 'Pending' },
+						{ label: 'Cancelled', value: 'Cancelled' },
 					]}
 					selected={currentStatus}
 					onChange={handleStatusFilterChange}
@@ -279,7 +359,7 @@ export default function Activity() {
 
 	// No client-side filtering - logs already filtered by backend
 	const rowMarkup = logs.map(
-		({ id, resourceType, action, details, status, timestamp, hasBackup, jobId }: any, index: number) => {
+		({ id, resourceType, action, details, status, timestamp, hasBackup, failedCount, jobState, jobId }: any, index: number) => {
 			// Get the latest detail message
 			const latestDetail = details && details.length > 0
 				? details[details.length - 1].message
@@ -321,17 +401,41 @@ export default function Activity() {
 						</Tooltip>
 					</IndexTable.Cell>
 					<IndexTable.Cell>
-						<Badge tone={status === 'Success' ? 'success' : status === 'Failed' ? 'critical' : 'info'}>
-							{status}
-						</Badge>
+						<BlockStack gap="100">
+							<Badge tone={status === 'Success' ? 'success' : status === 'Failed' ? 'critical' : status === 'Cancelled' ? undefined : 'info'}>
+								{jobState?.state === 'paused' ? 'Paused' : status}
+							</Badge>
+							{status === 'Pending' && jobState?.step && (
+								<Text as="span" variant="bodySm" tone="subdued">
+									{JOB_STEP_LABELS[jobState.step] || jobState.step}
+									{jobState.objectCount > 0 && ` · ${jobState.objectCount.toLocaleString()} objects`}
+								</Text>
+							)}
+						</BlockStack>
 					</IndexTable.Cell>
 					<IndexTable.Cell>
 						{new Date(timestamp).toLocaleString()}
 					</IndexTable.Cell>
 					<IndexTable.Cell>
-						{hasBackup && (
-							<Button size="micro" onClick={() => handleRevert(jobId)}>Revert</Button>
-						)}
+						<ButtonGroup>
+							{hasBackup && (
+								<Button size="micro" onClick={() => handleRevert(jobId)}>Revert</Button>
+							)}
+							{status === 'Pending' && jobState?.state === 'running' && (
+								<Button size="micro" onClick={() => controlJob("pauseJob", jobId)}>Pause</Button>
+							)}
+							{status === 'Pending' && jobState?.state === 'paused' && (
+								<Button size="micro" onClick={() => controlJob("resumeJob", jobId)}>Resume</Button>
+							)}
+							{status === 'Pending' && jobState && jobState.state !== 'cancelled' && (
+								<Button size="micro" tone="critical" onClick={() => controlJob("cancelJob", jobId)}>Cancel</Button>
+							)}
+							{failedCount > 0 && (
+								<Button size="micro" tone="critical" onClick={() => downloadFailureReport(jobId)}>
+									{`Failures (${failedCount})`}
+								</Button>
+							)}
+						</ButtonGroup>
 					</IndexTable.Cell>
 				</IndexTable.Row>
 			);
@@ -409,6 +513,11 @@ export default function Activity() {
 			secondaryActions={secondaryActions}
 		>
 			<Layout>
+				{actionData && !actionData.success && (
+					<Layout.Section>
+						<Banner tone="critical">{actionData.message}</Banner>
+					</Layout.Section>
+				)}
 				<Layout.Section>
 					<Card padding="0">
 						<IndexFilters
@@ -463,28 +572,14 @@ export default function Activity() {
 				</Layout.Section>
 			</Layout>
 
-			<Modal
+			<RevertModal
 				open={!!revertJobId}
 				onClose={() => setRevertJobId(null)}
-				title="Confirm Revert"
-				primaryAction={{
-					content: 'Revert',
-					onAction: confirmRevert,
-					destructive: true,
-				}}
-				secondaryActions={[
-					{
-						content: 'Cancel',
-						onAction: () => setRevertJobId(null),
-					},
-				]}
-			>
-				<Modal.Section>
-					<Text as="p">
-						Are you sure you want to revert this bulk operation? This will restore the original tags.
-					</Text>
-				</Modal.Section>
-			</Modal>
+				onConfirm={confirmRevert}
+				isLoading={previewFetcher.state !== "idle"}
+				preview={revertPreview}
+				error={revertPreviewError}
+			/>
 		</Page>
 	);
 }
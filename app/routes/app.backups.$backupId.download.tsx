@@ -0,0 +1,21 @@
+import type { LoaderFunctionArgs } from "@remix-run/node";
+import { BackupService, type BackupFormat } from "../services/backup.service";
+import { authenticate } from "../shopify.server";
+
+// Backup snapshot as CSV or JSONL (?format=jsonl), downloaded from the Backups page
+export const loader = async ({ request, params }: LoaderFunctionArgs) => {
+	const { session } = await authenticate.admin(request);
+	const format: BackupFormat = new URL(request.url).searchParams.get("format") === "jsonl" ? "jsonl" : "csv";
+	const content = await BackupService.exportBackup(session.shop, params.backupId as string, format);
+
+	if (content === null) {
+		return new Response("Backup not found", { status: 404 });
+	}
+
+	return new Response(content, {
+		headers: {
+			"Content-Type": format === "csv" ? "text/csv; charset=utf-8" : "application/jsonl; charset=utf-8",
+			"Content-Disposition": `attachment; filename="backup-${params.backupId}.${format}"`,
+		},
+	});
+};
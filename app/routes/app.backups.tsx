@@ -0,0 +1,186 @@
+import { json, type ActionFunctionArgs, type LoaderFunctionArgs } from "@remix-run/node";
+import { useActionData, useLoaderData, useNavigate, useNavigation, useSearchParams, useSubmit } from "@remix-run/react";
+import { useAppBridge } from "@shopify/app-bridge-react";
+import {
+	Badge,
+	Banner,
+	BlockStack,
+	Button,
+	ButtonGroup,
+	Card,
+	IndexTable,
+	Layout,
+	Page,
+	Pagination,
+	Select,
+	Text
+} from "@shopify/polaris";
+import { useEffect } from "react";
+import { downloadFile } from "~/utils/download-file";
+import { BACKUP_RETENTION_OPTIONS, BackupService } from "../services/backup.service";
+import { authenticate } from "../shopify.server";
+
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+	const { session } = await authenticate.admin(request);
+	const page = parseInt(new URL(request.url).searchParams.get("page") || "1");
+
+	const [result, retention] = await Promise.all([
+		BackupService.listBackups(session.shop, page),
+		BackupService.getRetentionSettings(session.shop),
+	]);
+
+	return json({ ...result, retention });
+};
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+	const { session } = await authenticate.admin(request);
+	const formData = await request.formData();
+
+	if (formData.get("actionType") === "setRetention") {
+		try {
+			await BackupService.setRetentionDays(session.shop, parseInt(formData.get("days") as string));
+			return json({ status: "success", message: "Backup retention updated" });
+		} catch (error) {
+			return json({ status: "error", message: (error as Error).message });
+		}
+	}
+
+	return json({ status: "success" });
+};
+
+// "3 days ago", "in 4 days"
+const formatAge = (date: string) => {
+	const days = Math.round((new Date(date).getTime() - Date.now()) / (24 * 60 * 60 * 1000));
+	if (days === 0) return "today";
+	return days < 0 ? `${-days} days ago` : `in ${days} days`;
+};
+
+export default function Backups() {
+	const { backups, totalPages, totalCount, currentPage, retention } = useLoaderData<typeof loader>();
+	const actionData = useActionData<{ status: string; message?: string }>();
+	const shopify = useAppBridge();
+	const submit = useSubmit();
+	const navigate = useNavigate();
+	const nav = useNavigation();
+	const [searchParams] = useSearchParams();
+
+	useEffect(() => {
+		if (actionData?.status === "success" && actionData.message) {
+			shopify.toast.show(actionData.message);
+		}
+	}, [actionData, shopify]);
+
+	const goToPage = (page: number) => {
+		const params = new URLSearchParams(searchParams);
+		params.set("page", page.toString());
+		navigate(`?${params.toString()}`);
+	};
+
+	const retentionOptions = BACKUP_RETENTION_OPTIONS.map(days => ({
+		label: `${days} days`,
+		value: days.toString(),
+		disabled: days > retention.maxDays,
+	}));
+
+	const rowMarkup = backups.map((backup, index) => (
+		<IndexTable.Row id={backup.id} key={backup.id} position={index}>
+			<IndexTable.Cell>
+				<BlockStack gap="100">
+					<Text as="span" fontWeight="bold">{backup.jobId}</Text>
+					{backup.revertOfJobId && (
+						<Text as="span" tone="subdued">Revert of {backup.revertOfJobId}</Text>
+					)}
+				</BlockStack>
+			</IndexTable.Cell>
+			<IndexTable.Cell>{backup.resourceType}</IndexTable.Cell>
+			<IndexTable.Cell>{backup.itemCount}</IndexTable.Cell>
+			<IndexTable.Cell>{formatAge(backup.createdAt)}</IndexTable.Cell>
+			<IndexTable.Cell>{backup.expiresAt ? formatAge(backup.expiresAt) : "—"}</IndexTable.Cell>
+			<IndexTable.Cell>
+				{backup.revertedAt ? <Badge tone="info">Reverted</Badge> : <Badge tone="success">Available</Badge>}
+			</IndexTable.Cell>
+			<IndexTable.Cell>
+				<ButtonGroup>
+					<Button size="micro" onClick={() => downloadFile(`/app/backups/${backup.id}/download?format=csv`, `backup-${backup.jobId}.csv`)}>
+						CSV
+					</Button>
+					<Button size="micro" onClick={() => downloadFile(`/app/backups/${backup.id}/download?format=jsonl`, `backup-${backup.jobId}.jsonl`)}>
+						JSONL
+					</Button>
+				</ButtonGroup>
+			</IndexTable.Cell>
+		</IndexTable.Row>
+	));
+
+	return (
+		<Page
+			title="Backups"
+			subtitle="Snapshots taken before bulk jobs change your data. Revert them from the Activity Log."
+			secondaryActions={[{ content: "View Activity Log", url: "/app/activity" }]}
+		>
+			<Layout>
+				{actionData?.status === "error" && (
+					<Layout.Section>
+						<Banner tone="critical">{actionData.message}</Banner>
+					</Layout.Section>
+				)}
+				<Layout.Section>
+					<Card>
+						<BlockStack gap="300">
+							<Text variant="headingMd" as="h2">Retention</Text>
+							<Select
+								label="Keep backups for"
+								options={retentionOptions}
+								value={retention.days.toString()}
+								disabled={nav.state === "submitting"}
+								onChange={(days) => submit({ actionType: "setRetention", days }, { method: "post" })}
+								helpText={`The ${retention.plan} plan keeps backups for up to ${retention.maxDays} days. Changing this also updates existing backups.`}
+							/>
+							{retention.plan === "Free" && (
+								<Text as="p" tone="subdued">
+									<Button variant="plain" url="/app/billing">Upgrade to Pro</Button> to keep backups for up to 90 days.
+								</Text>
+							)}
+						</BlockStack>
+					</Card>
+				</Layout.Section>
+				<Layout.Section>
+					<Card padding="0">
+						<IndexTable
+							resourceName={{ singular: "backup", plural: "backups" }}
+							itemCount={backups.length}
+							selectable={false}
+							headings={[
+								{ title: "Job" },
+								{ title: "Resource" },
+								{ title: "Items" },
+								{ title: "Created" },
+								{ title: "Expires" },
+								{ title: "Status" },
+								{ title: "Download" },
+							]}
+							emptyState={
+								<div style={{ padding: "40px", textAlign: "center" }}>
+									<Text as="p" tone="subdued">No backups yet. Bulk jobs create one before changing anything.</Text>
+								</div>
+							}
+						>
+							{rowMarkup}
+						</IndexTable>
+						{totalPages > 1 && (
+							<div style={{ padding: "16px", display: "flex", justifyContent: "center" }}>
+								<Pagination
+									hasPrevious={currentPage > 1}
+									onPrevious={() => goToPage(currentPage - 1)}
+									hasNext={currentPage < totalPages}
+									onNext={() => goToPage(currentPage + 1)}
+									label={`Page ${currentPage} of ${totalPages} (${totalCount} backups)`}
+								/>
+							</div>
+						)}
+					</Card>
+				</Layout.Section>
+			</Layout>
+		</Page>
+	);
+}
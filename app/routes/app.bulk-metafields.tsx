@@ -0,0 +1,165 @@
+import { json, type ActionFunctionArgs, type LoaderFunctionArgs } from "@remix-run/node";
+import { useActionData, useNavigation, useSubmit } from "@remix-run/react";
+import { Layout, Page } from "@shopify/polaris";
+import { useEffect, useState } from "react";
+import { BulkMetafieldForm, type BulkMetafieldFormState } from "~/components/Bulk/BulkMetafieldForm";
+import { BulkValuePreviewModal } from "~/components/Bulk/BulkValuePreviewModal";
+import type { BulkTargetConditions } from "~/hooks/useBulkForm";
+import type { BulkTargetMode, MetafieldActionData, MetafieldBulkResourceType, MetafieldOperation } from "~/types/bulk.types";
+import { toBulkTarget, validateBulkTarget } from "~/utils/bulk-target";
+import { generateJobId } from "~/utils/id-generator";
+import { toMetafieldOperation, validateMetafieldOperation } from "~/utils/metafield-operation";
+import { bulkQueue } from "../queue.server";
+import { BULK_METAFIELD_JOB, dryRunMetafieldOperation, getMetafieldTargetError } from "../services/bulk-metafield.server";
+import { UsageService } from "../services/usage.service";
+import { authenticate } from "../shopify.server";
+
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+	await authenticate.admin(request);
+	return json({});
+};
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+	const { session } = await authenticate.admin(request);
+	const formData = await request.formData();
+	const actionType = formData.get("actionType") as string;
+
+	const resourceType = formData.get("resourceType") as MetafieldBulkResourceType;
+	const metafieldOperation = toMetafieldOperation({
+		operation: formData.get("operation") as MetafieldOperation["operation"],
+		namespace: formData.get("namespace") as string,
+		key: formData.get("key") as string,
+		valueType: formData.get("valueType") as MetafieldOperation["valueType"],
+		value: formData.get("value") as string,
+	});
+	const target = toBulkTarget({
+		targetMode: formData.get("targetMode") as BulkTargetMode,
+		searchQuery: formData.get("searchQuery") as string,
+		...JSON.parse((formData.get("targetConditions") as string) || "{}"),
+	});
+
+	const validationError = validateMetafieldOperation(metafieldOperation)
+		|| validateBulkTarget(target)
+		|| getMetafieldTargetError(resourceType, target);
+	if (validationError) {
+		return json({ status: "error", message: validationError });
+	}
+
+	if (actionType === "dryRun") {
+		try {
+			const result = await dryRunMetafieldOperation(session.shop, resourceType, metafieldOperation, target);
+			return json({ status: "preview", count: result.count, preview: result.preview, resourceType });
+		} catch (error) {
+			return json({ status: "error", message: (error as Error).message });
+		}
+	}
+
+	if (actionType === "execute") {
+		const affectedCount = parseInt(formData.get("affectedCount") as string);
+
+		const quotaCheck = await UsageService.checkQuota(session.shop, affectedCount);
+		if (!quotaCheck.allowed) {
+			return json({
+				status: "quota_exceeded",
+				message: quotaCheck.message,
+				current: quotaCheck.current,
+				limit: quotaCheck.limit,
+			});
+		}
+
+		const jobId = generateJobId();
+		await bulkQueue.add(BULK_METAFIELD_JOB, {
+			shop: session.shop,
+			resourceType,
+			...metafieldOperation,
+			targetMode: target.mode,
+			searchQuery: target.searchQuery,
+			conditions: target.conditions,
+			conditionLogic: target.conditionLogic,
+			groups: target.groups,
+			jobId,
+		});
+
+		return json({ status: "queued", jobId });
+	}
+
+	return json({});
+};
+
+export default function BulkMetafields() {
+	const actionData = useActionData<typeof action>() as MetafieldActionData;
+	const submit = useSubmit();
+	const nav = useNavigation();
+	const isLoading = nav.state === "submitting";
+
+	const [formState, setFormState] = useState<BulkMetafieldFormState>({
+		resourceType: "products",
+		operation: "set",
+		namespace: "custom",
+		key: "",
+		valueType: "single_line_text_field",
+		value: "",
+		targetMode: "tags",
+		searchQuery: "",
+	});
+	const [targetConditions, setTargetConditions] = useState<BulkTargetConditions>({
+		conditions: [],
+		conditionLogic: "AND",
+		groups: [],
+	});
+	const [showPreviewModal, setShowPreviewModal] = useState(false);
+
+	useEffect(() => {
+		if (actionData?.status === "preview") {
+			setShowPreviewModal(true);
+		}
+	}, [actionData]);
+
+	const submitForm = (actionType: string, extra: Record<string, string> = {}) => {
+		submit({
+			...formState,
+			targetConditions: JSON.stringify(targetConditions),
+			actionType,
+			...extra,
+		}, { method: "post" });
+	};
+
+	const handleExecute = () => {
+		submitForm("execute", { affectedCount: actionData?.count?.toString() || "0" });
+		setShowPreviewModal(false);
+	};
+
+	return (
+		<Page
+			title="Bulk Metafields"
+			subtitle="Set, change or delete a metafield across products, variants or customers."
+			backAction={{ content: "Bulk Operations", url: "/app/bulk" }}
+			primaryAction={{ content: "View Activity Log", url: "/app/activity" }}
+		>
+			<Layout>
+				<Layout.Section>
+					<BulkMetafieldForm
+						formState={formState}
+						onFormChange={(updates) => setFormState(prev => ({ ...prev, ...updates }))}
+						targetConditions={targetConditions}
+						onTargetConditionsChange={setTargetConditions}
+						onPreview={() => submitForm("dryRun")}
+						isLoading={isLoading}
+						actionData={actionData}
+					/>
+				</Layout.Section>
+			</Layout>
+
+			<BulkValuePreviewModal
+				open={showPreviewModal}
+				onClose={() => setShowPreviewModal(false)}
+				onConfirm={handleExecute}
+				isLoading={isLoading}
+				title="Confirm Bulk Metafield Update"
+				summary={`${actionData?.resourceType || "items"} whose metafield will change`}
+				count={actionData?.count}
+				preview={actionData?.preview}
+			/>
+		</Page>
+	);
+}
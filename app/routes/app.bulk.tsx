@@ -9,6 +9,7 @@ import {
 	Layout,
 	Page,
 	ProgressBar,
+	Tabs,
 	Text
 } from "@shopify/polaris";
 import {
@@ -16,15 +17,29 @@ import {
 	PlusIcon,
 	ReplaceIcon
 } from "@shopify/polaris-icons";
-import { useEffect, useState } from "react";
+import { useEffect, useMemo, useState } from "react";
 import { BulkOperationForm } from "~/components/Bulk/BulkOperationForm";
 import { BulkPreviewModal } from "~/components/Bulk/BulkPreviewModal";
-import { useBulkForm } from "~/hooks/useBulkForm";
-import type { BulkActionData } from "~/types/bulk.types";
+import { BulkProductFieldForm, type BulkProductFieldFormState } from "~/components/Bulk/BulkProductFieldForm";
+import { BulkValuePreviewModal } from "~/components/Bulk/BulkValuePreviewModal";
+import { useBulkForm, type BulkTargetConditions } from "~/hooks/useBulkForm";
+import type {
+	BulkActionData,
+	BulkOperationData,
+	BulkTargetMode,
+	ProductFieldActionData,
+	ProductFieldOperation,
+	TagMatchMode
+} from "~/types/bulk.types";
+import { toBulkTarget, validateBulkTarget } from "~/utils/bulk-target";
 import { generateJobId } from "~/utils/id-generator";
+import { toProductFieldOperation, validateProductFieldOperation } from "~/utils/product-field-operation";
+import { getTagsToWrite, toTagOperation, validateTagOperation } from "~/utils/tag-operation";
 import { bulkQueue } from "../queue.server";
 import { ActivityService } from "../services/activity.service";
 import { dryRunTagOperation } from "../services/bulk.server";
+import { BULK_PRODUCT_FIELD_JOB, dryRunProductFieldOperation } from "../services/bulk-product-field.server";
+import { TagPolicyService } from "../services/tag-policy.service";
 import { UsageService } from "../services/usage.service";
 import { authenticate } from "../shopify.server";
 
@@ -35,29 +50,27 @@ export const loader = async ({ request }: { request: Request }) => {
 	const plan = await UsageService.getPlanType(session.shop);
 	const limit = plan === "Free" ? 500 : null;
 
-	const tagsSet = new Set<string>();
+	// Tag suggestions for the find field, per resource type
+	const existingTags: Record<string, string[]> = { products: [], customers: [], orders: [] };
 	try {
 		const response = await admin.graphql(`
 			query {
-				products(first: 250) {
-					edges {
-						node {
-							tags
-						}
-					}
+				shop {
+					productTags(first: 250) { edges { node } }
+					customerTags(first: 250) { edges { node } }
+					orderTags(first: 250) { edges { node } }
 				}
 			}
 		`);
 		const data = await response.json();
-		data.data.products.edges.forEach((edge: any) => {
-			edge.node.tags.forEach((tag: string) => tagsSet.add(tag));
-		});
+		const toList = (connection: any) => (connection?.edges || []).map((edge: any) => edge.node as string).sort();
+		existingTags.products = toList(data.data.shop.productTags);
+		existingTags.customers = toList(data.data.shop.customerTags);
+		existingTags.orders = toList(data.data.shop.orderTags);
 	} catch (error) {
 		console.error("Failed to fetch tags:", error);
 	}
 
-	const existingTags = Array.from(tagsSet).sort();
-
 	// Fetch recent bulk operations
 	const recentOperations = await ActivityService.getLogs(session.shop, 5, { category: "Bulk Operations" });
 
@@ -69,19 +82,38 @@ export const action = async ({ request }: ActionFunctionArgs) => {
 	const formData = await request.formData();
 	const actionType = formData.get("actionType") as string;
 
-	if (actionType === "dryRun") {
-		const resourceType = formData.get("resourceType") as "products" | "customers" | "orders";
-		const findTag = formData.get("findTag") as string;
-		const replaceTag = formData.get("replaceTag") as string;
-		const operation = formData.get("operation") as "replace" | "add" | "remove";
+	if (actionType === "fieldDryRun" || actionType === "fieldExecute") {
+		return handleProductFieldAction(session.shop, actionType, formData);
+	}
+
+	const resourceType = formData.get("resourceType") as "products" | "customers" | "orders";
+	const tagOperation = toTagOperation({
+		operation: formData.get("operation") as BulkOperationData["operation"],
+		matchMode: formData.get("matchMode") as TagMatchMode,
+		findTag: formData.get("findTag") as string,
+		replaceTag: formData.get("replaceTag") as string,
+		addTags: formData.get("addTags") as string,
+	});
+	const target = toBulkTarget({
+		targetMode: formData.get("targetMode") as BulkTargetMode,
+		searchQuery: formData.get("searchQuery") as string,
+		...JSON.parse((formData.get("targetConditions") as string) || "{}"),
+	});
 
+	if (actionType === "dryRun" || actionType === "execute") {
+		const validationError = validateTagOperation(tagOperation) || validateBulkTarget(target);
+		if (validationError) {
+			return json({ status: "error", message: validationError });
+		}
+	}
+
+	if (actionType === "dryRun") {
 		try {
 			const result = await dryRunTagOperation(
 				session.shop,
 				resourceType,
-				operation,
-				findTag,
-				replaceTag
+				tagOperation,
+				target
 			);
 
 			return json({
@@ -89,9 +121,14 @@ export const action = async ({ request }: ActionFunctionArgs) => {
 				count: result.count,
 				preview: result.preview,
 				resourceType,
-				operation,
-				findTag,
-				replaceTag,
+				operation: tagOperation.operation,
+				matchMode: tagOperation.matchMode,
+				targetMode: target.mode,
+				searchQuery: target.searchQuery,
+				findTag: formData.get("findTag") as string,
+				replaceTag: tagOperation.replaceTag,
+				addTags: tagOperation.addTags.join(", "),
+				policyViolations: await TagPolicyService.checkTags(session.shop, getTagsToWrite(tagOperation, result.preview)),
 			});
 		} catch (error) {
 			return json({
@@ -102,10 +139,6 @@ export const action = async ({ request }: ActionFunctionArgs) => {
 	}
 
 	if (actionType === "execute") {
-		const resourceType = formData.get("resourceType") as string;
-		const findTag = formData.get("findTag") as string;
-		const replaceTag = formData.get("replaceTag") as string;
-		const operation = formData.get("operation") as string;
 		const affectedCount = parseInt(formData.get("affectedCount") as string);
 
 		const quotaCheck = await UsageService.checkQuota(session.shop, affectedCount);
@@ -122,9 +155,12 @@ export const action = async ({ request }: ActionFunctionArgs) => {
 		await bulkQueue.add("bulk-tag-update", {
 			shop: session.shop,
 			resourceType,
-			findTag,
-			replaceTag,
-			operation,
+			...tagOperation,
+			targetMode: target.mode,
+			searchQuery: target.searchQuery,
+			conditions: target.conditions,
+			conditionLogic: target.conditionLogic,
+			groups: target.groups,
 			jobId,
 		});
 
@@ -134,6 +170,66 @@ export const action = async ({ request }: ActionFunctionArgs) => {
 	return json({});
 };
 
+/**
+ * Product field editor: dry run or queue a bulk product field job
+ */
+async function handleProductFieldAction(shop: string, actionType: string, formData: FormData) {
+	const fieldOperation = toProductFieldOperation({
+		field: formData.get("field") as ProductFieldOperation["field"],
+		adjustment: formData.get("adjustment") as ProductFieldOperation["adjustment"],
+		value: formData.get("value") as string,
+	});
+	const target = toBulkTarget({
+		targetMode: formData.get("targetMode") as BulkTargetMode,
+		searchQuery: formData.get("searchQuery") as string,
+		...JSON.parse((formData.get("targetConditions") as string) || "{}"),
+	});
+
+	const validationError = validateProductFieldOperation(fieldOperation) || validateBulkTarget(target);
+	if (validationError) {
+		return json({ status: "error", message: validationError });
+	}
+
+	if (actionType === "fieldDryRun") {
+		try {
+			const result = await dryRunProductFieldOperation(shop, fieldOperation, target);
+			return json({ status: "field_preview", count: result.count, preview: result.preview });
+		} catch (error) {
+			return json({ status: "error", message: (error as Error).message });
+		}
+	}
+
+	const quotaCheck = await UsageService.checkQuota(shop, parseInt(formData.get("affectedCount") as string));
+	if (!quotaCheck.allowed) {
+		return json({
+			status: "quota_exceeded",
+			message: quotaCheck.message,
+			current: quotaCheck.current,
+			limit: quotaCheck.limit,
+		});
+	}
+
+	const jobId = generateJobId();
+	await bulkQueue.add(BULK_PRODUCT_FIELD_JOB, {
+		shop,
+		resourceType: "products",
+		...fieldOperation,
+		targetMode: target.mode,
+		searchQuery: target.searchQuery,
+		conditions: target.conditions,
+		conditionLogic: target.conditionLogic,
+		groups: target.groups,
+		jobId,
+	});
+
+	return json({ status: "field_queued", jobId });
+}
+
+const EDITOR_TABS = [
+	{ id: "tags", content: "Tags" },
+	{ id: "product-fields", content: "Product Fields" },
+];
+
 export default function BulkOperations() {
 	const loaderData = useLoaderData<typeof loader>();
 	const actionData = useActionData<typeof action>() as BulkActionData;
@@ -145,10 +241,33 @@ export default function BulkOperations() {
 	const isQuotaExceeded = actionData?.status === "quota_exceeded";
 
 	const [isShowUpgradeBanner, setShowUpgradeBanner] = useState(true);
+	const [editorTab, setEditorTab] = useState(0);
+	const [fieldFormState, setFieldFormState] = useState<BulkProductFieldFormState>({
+		field: "price",
+		adjustment: "set",
+		value: "",
+		targetMode: "tags",
+		searchQuery: "",
+	});
+	const [fieldTargetConditions, setFieldTargetConditions] = useState<BulkTargetConditions>({
+		conditions: [],
+		conditionLogic: "AND",
+		groups: [],
+	});
+	const [showFieldPreviewModal, setShowFieldPreviewModal] = useState(false);
+	const fieldActionData = actionData as ProductFieldActionData;
+
+	useEffect(() => {
+		if (fieldActionData?.status === "field_preview") {
+			setShowFieldPreviewModal(true);
+		}
+	}, [fieldActionData]);
 
 	const {
 		formState,
 		updateFormState,
+		targetConditions,
+		setTargetConditions,
 		showPreviewModal,
 		openPreviewModal,
 		closePreviewModal,
@@ -164,39 +283,37 @@ export default function BulkOperations() {
 		}
 	}, [isPreview, openPreviewModal]);
 
+	const existingTags = useMemo(
+		() => loaderData.existingTags[formState.resourceType] || [],
+		[loaderData.existingTags, formState.resourceType]
+	);
+
 	useEffect(() => {
 		const timeoutId = setTimeout(() => {
-			if (findTagInputValue === "") {
-				setFindTagOptions(
-					loaderData.existingTags.slice(0, 10).map((tag: string) => ({
-						value: tag,
-						label: tag,
-					}))
-				);
-			} else {
-				const filterRegex = new RegExp(findTagInputValue, "i");
-				const resultOptions = loaderData.existingTags
-					.filter((tag: string) => tag.match(filterRegex))
-					.slice(0, 10)
-					.map((tag: string) => ({
-						value: tag,
-						label: tag,
-					}));
-				setFindTagOptions(resultOptions);
-			}
+			// Suggest completions for the tag currently being typed in the comma separated list
+			const currentTag = (findTagInputValue.split(",").pop() || "").trim().toLowerCase();
+			const resultOptions = existingTags
+				.filter((tag: string) => tag.toLowerCase().includes(currentTag))
+				.slice(0, 10)
+				.map((tag: string) => ({
+					value: tag,
+					label: tag,
+				}));
+			setFindTagOptions(resultOptions);
 		}, 300);
 
 		return () => clearTimeout(timeoutId);
-	}, [findTagInputValue, loaderData.existingTags, setFindTagOptions]);
+	}, [findTagInputValue, existingTags, setFindTagOptions]);
 
 	const handleDryRun = () => {
-		const formDataObj = { ...formState, actionType: "dryRun" };
+		const formDataObj = { ...formState, targetConditions: JSON.stringify(targetConditions), actionType: "dryRun" };
 		submit(formDataObj, { method: "post" });
 	};
 
 	const handleExecute = () => {
 		const formDataObj = {
 			...formState,
+			targetConditions: JSON.stringify(targetConditions),
 			actionType: "execute",
 			affectedCount: actionData?.count?.toString() || "0",
 		};
@@ -206,8 +323,25 @@ export default function BulkOperations() {
 
 	const handleSelectTag = (selected: string[]) => {
 		const selectedTag = selected[0];
-		updateFormState({ findTag: selectedTag });
-		setFindTagInputValue(selectedTag);
+		// Regex patterns are a single value; tag lists get the suggestion in place of the tag being typed
+		const segments = formState.matchMode === "regex" ? [] : formState.findTag.split(",").slice(0, -1);
+		const findTag = [...segments.map(tag => tag.trim()).filter(Boolean), selectedTag].join(", ");
+		updateFormState({ findTag });
+		setFindTagInputValue(findTag);
+	};
+
+	const submitFieldForm = (actionType: string, extra: Record<string, string> = {}) => {
+		submit({
+			...fieldFormState,
+			targetConditions: JSON.stringify(fieldTargetConditions),
+			actionType,
+			...extra,
+		}, { method: "post" });
+	};
+
+	const handleFieldExecute = () => {
+		submitFieldForm("fieldExecute", { affectedCount: fieldActionData?.count?.toString() || "0" });
+		setShowFieldPreviewModal(false);
 	};
 
 	const usagePercent = loaderData.limit
@@ -217,9 +351,10 @@ export default function BulkOperations() {
 	const quickActions = [
 		{
 			title: "Find & Replace",
-			description: "Replace a tag with another one.",
+			description: "Replace one or more tags, or a pattern like summer-2024-*, with another one.",
 			icon: ReplaceIcon,
 			action: () => {
+				setEditorTab(0);
 				updateFormState({ operation: "replace" });
 				// Scroll to form
 				const formElement = document.getElementById("bulk-form");
@@ -227,20 +362,22 @@ export default function BulkOperations() {
 			}
 		},
 		{
-			title: "Add Tag",
-			description: "Add a new tag to resources.",
+			title: "Add Tags",
+			description: "Add new tags to resources, optionally only those with certain tags.",
 			icon: PlusIcon,
 			action: () => {
+				setEditorTab(0);
 				updateFormState({ operation: "add" });
 				const formElement = document.getElementById("bulk-form");
 				if (formElement) formElement.scrollIntoView({ behavior: "smooth" });
 			}
 		},
 		{
-			title: "Remove Tag",
-			description: "Remove a specific tag.",
+			title: "Remove Tags",
+			description: "Remove specific tags or every tag matching a pattern.",
 			icon: DeleteIcon,
 			action: () => {
+				setEditorTab(0);
 				updateFormState({ operation: "remove" });
 				const formElement = document.getElementById("bulk-form");
 				if (formElement) formElement.scrollIntoView({ behavior: "smooth" });
@@ -253,6 +390,7 @@ export default function BulkOperations() {
 			title="Bulk Operations"
 			subtitle="Manage tags across your entire store in seconds."
 			primaryAction={{ content: "View Activity Log", url: "/app/activity" }}
+			secondaryActions={[{ content: "Bulk Edit Metafields", url: "/app/bulk-metafields" }]}
 		>
 			<Layout>
 				<Layout.Section>
@@ -301,19 +439,36 @@ export default function BulkOperations() {
 
 				<Layout.Section>
 					<div id="bulk-form">
-						<BulkOperationForm
-							formState={formState}
-							onFormChange={updateFormState}
-							onPreview={handleDryRun}
-							isLoading={isLoading}
-							isQueued={isQueued}
-							isQuotaExceeded={isQuotaExceeded}
-							actionData={actionData}
-							findTagInputValue={findTagInputValue}
-							onFindTagInputChange={setFindTagInputValue}
-							findTagOptions={findTagOptions}
-							onSelectTag={handleSelectTag}
-						/>
+						<BlockStack gap="400">
+							<Tabs tabs={EDITOR_TABS} selected={editorTab} onSelect={setEditorTab} />
+							{editorTab === 0 ? (
+								<BulkOperationForm
+									formState={formState}
+									onFormChange={updateFormState}
+									targetConditions={targetConditions}
+									onTargetConditionsChange={setTargetConditions}
+									onPreview={handleDryRun}
+									isLoading={isLoading}
+									isQueued={isQueued}
+									isQuotaExceeded={isQuotaExceeded}
+									actionData={actionData}
+									findTagInputValue={findTagInputValue}
+									onFindTagInputChange={setFindTagInputValue}
+									findTagOptions={findTagOptions}
+									onSelectTag={handleSelectTag}
+								/>
+							) : (
+								<BulkProductFieldForm
+									formState={fieldFormState}
+									onFormChange={(updates) => setFieldFormState(prev => ({ ...prev, ...updates }))}
+									targetConditions={fieldTargetConditions}
+									onTargetConditionsChange={setFieldTargetConditions}
+									onPreview={() => submitFieldForm("fieldDryRun")}
+									isLoading={isLoading}
+									actionData={fieldActionData}
+								/>
+							)}
+						</BlockStack>
 					</div>
 				</Layout.Section>
 
@@ -350,6 +505,17 @@ export default function BulkOperations() {
 				</Layout.Section>
 			</Layout>
 
+			<BulkValuePreviewModal
+				open={showFieldPreviewModal}
+				onClose={() => setShowFieldPreviewModal(false)}
+				onConfirm={handleFieldExecute}
+				isLoading={isLoading}
+				title="Confirm Product Update"
+				summary="products that will change"
+				count={fieldActionData?.count}
+				preview={fieldActionData?.preview}
+			/>
+
 			<BulkPreviewModal
 				open={showPreviewModal}
 				onClose={closePreviewModal}
@@ -1,5 +1,5 @@
 import { json, type ActionFunctionArgs } from "@remix-run/node";
-import { Link, useActionData, useLoaderData, useNavigation, useSubmit } from "@remix-run/react";
+import { Link, useActionData, useLoaderData, useNavigation, useRevalidator, useSubmit } from "@remix-run/react";
 import { useAppBridge } from "@shopify/app-bridge-react";
 import {
   Banner,
@@ -19,12 +19,17 @@ import {
 } from "@shopify/polaris-icons";
 import { useEffect, useState } from "react";
 import { CleanConfirmModal } from "~/components/Cleaner/CleanConfirmModal";
+import { TagMergeCard } from "~/components/Cleaner/TagMergeCard";
+import { TagPolicyCard } from "~/components/Cleaner/TagPolicyCard";
 import { TagSelectionCard } from "~/components/Cleaner/TagSelectionCard";
 import { useCleanerState } from "~/hooks/useCleanerState";
-import type { CleanerActionData } from "~/types/cleaner.types";
+import type { CleanerActionData, TagMerge, TagPolicyRules, TagPolicyViolation } from "~/types/cleaner.types";
 import { generateJobId } from "~/utils/id-generator";
+import { toTagMerges } from "~/utils/tag-scan";
 import { cleanerQueue } from "../queue.server";
 import { ActivityService } from "../services/activity.service";
+import { TagPolicyService } from "../services/tag-policy.service";
+import { TagScanService } from "../services/tag-scan.service";
 import { UsageService } from "../services/usage.service";
 import { authenticate } from "../shopify.server";
 
@@ -38,88 +43,21 @@ export const loader = async ({ request }: { request: Request }) => {
   // Fetch recent cleaning operations
   const recentOperations = await ActivityService.getLogs(session.shop, 5, { category: "Data Cleaning" });
 
-  return json({ usage, plan, limit, recentOperations: recentOperations.logs });
+  // Latest full-catalog scan, polled while it runs
+  const scan = await TagScanService.getLatestReport(session.shop);
+  const tagPolicy = await TagPolicyService.getPolicy(session.shop);
+
+  return json({ usage, plan, limit, recentOperations: recentOperations.logs, scan, tagPolicy });
 };
 
 export const action = async ({ request }: ActionFunctionArgs) => {
-  const { session, admin } = await authenticate.admin(request);
+  const { session } = await authenticate.admin(request);
   const formData = await request.formData();
   const actionType = formData.get("actionType");
 
   if (actionType === "scanTags") {
-    const MAX_ITEMS = 2000;
-    const allTags: string[] = [];
-    const itemsWithTags: Array<{ id: string; tags: string[] }> = [];
-
-    const scanResourceTags = async (resourceType: "products" | "customers", limit: number) => {
-      const query = `
-				query {
-					${resourceType}(first: 250) {
-						edges {
-							node {
-								id
-								tags
-							}
-						}
-						pageInfo {
-							hasNextPage
-							endCursor
-						}
-					}
-				}
-			`;
-
-      const response = await admin.graphql(query);
-      const data = await response.json();
-      const edges = data.data[resourceType].edges;
-
-      edges.forEach((edge: any) => {
-        const tags = edge.node.tags || [];
-        allTags.push(...tags);
-        if (tags.length > 0) {
-          itemsWithTags.push({ id: edge.node.id, tags });
-        }
-      });
-
-      return edges.length;
-    };
-
-    const productCount = await scanResourceTags("products", MAX_ITEMS);
-    const customerCount = await scanResourceTags("customers", MAX_ITEMS);
-
-    const uniqueTags = [...new Set(allTags)];
-    const duplicateTags: string[] = [];
-    const malformedTags: string[] = [];
-    const lowerCaseMap = new Map<string, string>();
-
-    uniqueTags.forEach(tag => {
-      const lower = tag.toLowerCase();
-      if (lowerCaseMap.has(lower)) {
-        const existing = lowerCaseMap.get(lower);
-        if (existing && !duplicateTags.includes(existing)) duplicateTags.push(existing);
-        duplicateTags.push(tag);
-      } else {
-        lowerCaseMap.set(lower, tag);
-      }
-    });
-
-    const specialChars = /[^a-zA-Z0-9\s\-_àáãạảăắằẳẵặâấầẩẫậèéẹẻẽêềếểễệđìíĩỉịòóõọỏôốồổỗộơớờởỡợùúũụủưứừửữựỳỵỷỹýÀÁÃẠẢĂẮẰẲẴẶÂẤẦẨẪẬÈÉẸẺẼÊỀẾỂỄỆĐÌÍĨỈỊÒÓÕỌỎÔỐỒỔỖỘƠỚỜỞỠỢÙÚŨỤỦƯỨỪỬỮỰỲỴỶỸÝ]/;
-    uniqueTags.forEach(tag => {
-      if (tag.length > 30 || specialChars.test(tag)) {
-        malformedTags.push(tag);
-      }
-    });
-
-    return json({
-      status: "scanned",
-      results: {
-        duplicates: duplicateTags,
-        malformed: malformedTags,
-        totalScannedTags: uniqueTags.length,
-        itemsScanned: productCount + customerCount,
-        previewItems: itemsWithTags.slice(0, 10),
-      }
-    });
+    const jobId = await TagScanService.startScan(session.shop);
+    return json({ status: "scanning", jobId });
 
   } else if (actionType === "cleanTags") {
     const tagsToRemove = JSON.parse(formData.get("tags") as string);
@@ -148,6 +86,45 @@ export const action = async ({ request }: ActionFunctionArgs) => {
       jobId,
       message: `Tag cleanup job queued successfully. Check Activity Logs for completion status.`
     });
+
+  } else if (actionType === "mergeTags") {
+    const merges = toTagMerges(JSON.parse(formData.get("merges") as string || "[]"));
+    if (merges.length === 0) {
+      return json({ status: "error", message: "Choose at least one group of tags to merge." });
+    }
+    const affectedCount = parseInt(formData.get("affectedCount") as string);
+
+    const quotaCheck = await UsageService.checkQuota(session.shop, affectedCount);
+    if (!quotaCheck.allowed) {
+      return json({
+        status: "quota_exceeded",
+        message: quotaCheck.message,
+        current: quotaCheck.current,
+        limit: quotaCheck.limit,
+      });
+    }
+
+    const jobId = generateJobId();
+    await cleanerQueue.add("merge-tags", {
+      shop: session.shop,
+      merges,
+      jobId,
+    });
+
+    return json({
+      status: "queued",
+      count: merges.length,
+      jobId,
+      message: `Tag merge job queued for ${merges.length} group(s). Check Activity Logs for completion status.`
+    });
+
+  } else if (actionType === "savePolicy") {
+    try {
+      await TagPolicyService.savePolicy(session.shop, JSON.parse(formData.get("policy") as string));
+    } catch (error) {
+      return json({ status: "error", message: (error as Error).message });
+    }
+    return json({ status: "policy_saved", message: "Tag policy saved. Scan again to check your tags against it." });
   }
 
   return json({});
@@ -160,6 +137,7 @@ export default function DataCleaner() {
   const [isShowUpgradeBanner, setShowUpgradeBanner] = useState(true);
   const shopify = useAppBridge();
   const submit = useSubmit();
+  const revalidator = useRevalidator();
   const nav = useNavigation();
   const isLoading = nav.state === "submitting";
 
@@ -171,35 +149,35 @@ export default function DataCleaner() {
     closeModal
   } = useCleanerState();
 
-  const [progress, setProgress] = useState(0);
+  const scan = loaderData.scan;
+  const isScanning = scan?.status === "Pending";
 
   useEffect(() => {
-    if (isLoading) {
-      setProgress(10);
-      const timer = setInterval(() => {
-        setProgress((old) => (old < 90 ? old + 5 : old));
-      }, 500);
-      return () => clearInterval(timer);
-    } else {
-      setProgress(100);
-    }
-  }, [isLoading]);
+    if (!isScanning) return;
+    const interval = setInterval(() => {
+      revalidator.revalidate();
+    }, 5000);
+    return () => clearInterval(interval);
+  }, [isScanning, revalidator]);
 
   useEffect(() => {
     if (actionData?.status === "queued") {
       shopify.toast.show("Cleanup job started");
+    } else if (actionData?.status === "policy_saved") {
+      shopify.toast.show("Tag policy saved");
     }
   }, [actionData, shopify]);
 
-  const results = actionData?.results;
+  const results = scan?.results;
   const isCleaned = actionData?.status === "queued";
 
   const handleScan = () => {
     submit({ actionType: "scanTags" }, { method: "post" });
   };
 
+  // Items carrying several selected tags are counted once per tag, so this is an upper bound
   const calculateAffectedCount = () => {
-    return results?.itemsScanned || 0;
+    return selectedTags.reduce((sum, tag) => sum + (results?.usage?.[tag] || 0), 0);
   };
 
   const confirmClean = () => {
@@ -214,6 +192,34 @@ export default function DataCleaner() {
     closeModal();
   };
 
+  const handleMerge = (merges: TagMerge[], affectedCount: number) => {
+    submit(
+      {
+        actionType: "mergeTags",
+        merges: JSON.stringify(merges),
+        affectedCount: affectedCount.toString(),
+      },
+      { method: "post" }
+    );
+  };
+
+  // Each fixable tag is merged into its suggested spelling
+  const handleNormalize = (violations: TagPolicyViolation[]) => {
+    const merges = new Map<string, string[]>();
+    violations.forEach(violation => {
+      if (!violation.suggestion) return;
+      merges.set(violation.suggestion, [...(merges.get(violation.suggestion) || []), violation.tag]);
+    });
+    handleMerge(
+      [...merges.entries()].map(([canonical, variants]) => ({ canonical, variants })),
+      violations.reduce((sum, violation) => sum + (results?.usage?.[violation.tag] || 0), 0)
+    );
+  };
+
+  const handleSavePolicy = (policy: TagPolicyRules) => {
+    submit({ actionType: "savePolicy", policy: JSON.stringify(policy) }, { method: "post" });
+  };
+
   const usagePercent = loaderData.limit
     ? Math.round((loaderData.usage.count / loaderData.limit) * 100)
     : 0;
@@ -221,13 +227,13 @@ export default function DataCleaner() {
   const quickActions = [
     {
       title: "Scan for Duplicates",
-      description: "Find tags that are identical but have different casing (e.g., 'Sale' vs 'sale').",
+      description: "Find near-duplicate tags (e.g., 'Free Shipping' vs 'free-shipping').",
       icon: DuplicateIcon,
       action: handleScan
     },
     {
-      title: "Find Malformed Tags",
-      description: "Identify tags with special characters or excessive length.",
+      title: "Check Tag Policy",
+      description: "Identify tags breaking your tag policy, such as special characters, length or casing.",
       icon: AlertCircleIcon,
       action: handleScan
     },
@@ -244,6 +250,7 @@ export default function DataCleaner() {
       title="Data Cleaner"
       subtitle="Keep your store data clean and organized."
       primaryAction={{ content: "View Activity Log", url: "/app/activity" }}
+      secondaryActions={[{ content: "Tag Analytics", url: "/app/tag-analytics" }]}
     >
       <Layout>
         <Layout.Section>
@@ -263,10 +270,13 @@ export default function DataCleaner() {
               </BlockStack>
             </Banner>
           )}
+          {actionData?.status === "error" && (
+            <Banner tone="critical">{actionData.message}</Banner>
+          )}
         </Layout.Section>
 
         {/* Quick Actions */}
-        {!results && (
+        {!results && !isScanning && (
           <Layout.Section>
             <BlockStack gap="400">
               <Text variant="headingMd" as="h2">Quick Actions</Text>
@@ -295,13 +305,14 @@ export default function DataCleaner() {
         <Layout.Section>
           <TagSelectionCard
             results={results}
+            scan={scan}
             isCleaned={isCleaned}
             isLoading={isLoading}
             selectedTags={selectedTags}
             onToggleTag={toggleTag}
             onScan={handleScan}
             onClean={openModal}
-            progress={progress}
+            onNormalize={handleNormalize}
             actionMessage={actionData?.message || `Cleanup job queued! ${actionData?.count} tag(s) will be removed.`}
             actionJobId={actionData?.jobId}
             quotaExceeded={actionData?.status === "quota_exceeded"}
@@ -309,6 +320,25 @@ export default function DataCleaner() {
           />
         </Layout.Section>
 
+        {results?.similarGroups && results.similarGroups.length > 0 && (
+          <Layout.Section>
+            <TagMergeCard
+              groups={results.similarGroups}
+              usage={results.usage || {}}
+              isLoading={isLoading}
+              onMerge={handleMerge}
+            />
+          </Layout.Section>
+        )}
+
+        <Layout.Section>
+          <TagPolicyCard
+            policy={loaderData.tagPolicy}
+            isLoading={isLoading && nav.formData?.get("actionType") === "savePolicy"}
+            onSave={handleSavePolicy}
+          />
+        </Layout.Section>
+
         {/* Recent Activity */}
         <Layout.Section>
           <Card>
@@ -3,8 +3,11 @@ import { useActionData, useFetcher, useNavigate, useLoaderData } from "@remix-ru
 import { useAppBridge } from "@shopify/app-bridge-react";
 import { useEffect, useState } from "react";
 import { MetafieldFormModal } from "~/components/Metafield/MetafieldFormModal";
+import { RuleSimulationPanel } from "~/components/RuleSimulationPanel";
 import { useMetafieldForm } from "~/hooks/useMetafieldForm";
+import type { SimulationResult } from "~/types/tagger.types";
 import { MetafieldService } from "../services/metafield.service";
+import { TaggerService } from "../services/tagger.service";
 import { authenticate } from "../shopify.server";
 
 export const loader = async ({ request, params }: LoaderFunctionArgs) => {
@@ -45,6 +48,14 @@ export const action = async ({ request }: ActionFunctionArgs) => {
     } catch (error) {
       return json({ status: "error", message: "Failed to generate rule" }, { status: 500 });
     }
+  } else if (actionType === "simulateRule") {
+    try {
+      const ruleData = JSON.parse(formData.get("rule") as string);
+      const simulation = await TaggerService.simulateRule(session.shop, ruleData);
+      return json({ status: "simulated", simulation });
+    } catch (error) {
+      return json({ status: "simulation_error", message: (error as Error).message }, { status: 400 });
+    }
   }
 
   return json({ status: "success" });
@@ -55,6 +66,7 @@ export default function EditMetafieldRule() {
   const shopify = useAppBridge();
   const actionData = useActionData<typeof action>();
   const fetcher = useFetcher();
+  const simulationFetcher = useFetcher<{ status: string; simulation?: SimulationResult; message?: string }>();
   const { rule } = useLoaderData<typeof loader>();
 
   const [aiPrompt, setAiPrompt] = useState("");
@@ -83,6 +95,7 @@ export default function EditMetafieldRule() {
           resourceType: generated.resourceType || formData.resourceType,
           conditionLogic: generated.conditionLogic || 'AND',
           conditions: generated.conditions || [],
+          groups: generated.groups || [],
           definition: generated.definition || formData.definition
         });
         shopify.toast.show("Rule generated!");
@@ -104,6 +117,10 @@ export default function EditMetafieldRule() {
     fetcher.submit({ actionType: "generateRule", prompt: aiPrompt, resourceType: formData.resourceType }, { method: "post" });
   };
 
+  const handleSimulate = () => {
+    simulationFetcher.submit({ actionType: "simulateRule", rule: JSON.stringify(formData) }, { method: "post" });
+  };
+
   if (!rule) return null;
 
   return (
@@ -120,6 +137,14 @@ export default function EditMetafieldRule() {
       onAiPromptChange={setAiPrompt}
       onGenerateAI={handleGenerateAI}
       isGenerating={fetcher.state === "submitting" && fetcher.formData?.get("actionType") === "generateRule"}
+      simulationPanel={
+        <RuleSimulationPanel
+          result={simulationFetcher.data?.simulation as SimulationResult | undefined}
+          error={simulationFetcher.data?.status === "simulation_error" ? simulationFetcher.data.message : null}
+          isRunning={simulationFetcher.state !== "idle"}
+          onRun={handleSimulate}
+        />
+      }
     />
   );
 }
@@ -88,6 +88,7 @@ export default function NewMetafieldRule() {
           resourceType: rule.resourceType || formData.resourceType,
           conditionLogic: rule.conditionLogic || 'AND',
           conditions: rule.conditions || [],
+          groups: rule.groups || [],
           definition: rule.definition || formData.definition
         });
         shopify.toast.show("Rule generated!");
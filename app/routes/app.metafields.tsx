@@ -25,6 +25,7 @@ import { MetafieldListItem } from "~/components/Metafield/MetafieldListItem";
 import { DeleteConfirmModal } from "~/components/Tagger/DeleteConfirmModal";
 import { useDebounce } from "~/hooks/useDebounce";
 import type { MetafieldRule } from "~/types/metafield.types";
+import { BackfillService } from "../services/backfill.service";
 import { MetafieldService } from "../services/metafield.service";
 import { authenticate } from "../shopify.server";
 
@@ -59,6 +60,10 @@ export const action = async ({ request }: ActionFunctionArgs) => {
 			const id = formData.get("id") as string;
 			const isEnabled = formData.get("isEnabled") === "true";
 			await MetafieldService.toggleRule(id, isEnabled);
+		} else if (actionType === "runBackfill") {
+			const id = formData.get("id") as string;
+			await BackfillService.startBackfill(session.shop, "metafield", id);
+			return { status: "success", message: "Started running the rule on existing data. Track progress in the Activity Log." };
 		} else if (actionType === "importRule") {
 			const ruleData = JSON.parse(formData.get("ruleData") as string);
 			delete ruleData._id;
@@ -102,7 +107,7 @@ export default function MetafieldRules() {
 	// Handle fetcher responses
 	useEffect(() => {
 		if (actionData?.status === "success") {
-			shopify.toast.show("Success");
+			shopify.toast.show(actionData.message || "Success");
 		}
 	}, [actionData, shopify]);
 
@@ -164,6 +169,10 @@ export default function MetafieldRules() {
 		submit({ actionType: "toggleRule", id, isEnabled: (!currentStatus).toString() }, { method: "post" });
 	};
 
+	const handleRunBackfill = (id: string) => {
+		submit({ actionType: "runBackfill", id }, { method: "post" });
+	};
+
 	const handleImport = (rule: MetafieldRule) => {
 		submit(
 			{ actionType: "importRule", ruleData: JSON.stringify(rule) },
@@ -321,6 +330,7 @@ export default function MetafieldRules() {
 												onEdit={selectedTab === 0 ? handleOpenModal : undefined}
 												onToggle={selectedTab === 0 ? handleToggle : undefined}
 												onDelete={selectedTab === 0 ? handleDelete : undefined}
+												onRunBackfill={selectedTab === 0 ? handleRunBackfill : undefined}
 												onImport={selectedTab === 1 ? handleImport : undefined}
 											/>
 										)}
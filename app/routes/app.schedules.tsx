@@ -0,0 +1,179 @@
+import { json, type ActionFunctionArgs, type LoaderFunctionArgs } from "@remix-run/node";
+import { useActionData, useLoaderData, useNavigation, useSubmit } from "@remix-run/react";
+import { useAppBridge } from "@shopify/app-bridge-react";
+import {
+	Banner,
+	Card,
+	EmptyState,
+	Layout,
+	Page,
+	ResourceList,
+	Text
+} from "@shopify/polaris";
+import { PlusIcon } from "@shopify/polaris-icons";
+import { useEffect, useState } from "react";
+import { ScheduleFormModal, initialScheduleFormData } from "~/components/Schedules/ScheduleFormModal";
+import { ScheduleListItem } from "~/components/Schedules/ScheduleListItem";
+import { DeleteConfirmModal } from "~/components/Tagger/DeleteConfirmModal";
+import type { Schedule, ScheduleFormData } from "~/types/schedule.types";
+import { MetafieldService } from "../services/metafield.service";
+import { ScheduleService } from "../services/schedule.service";
+import { TaggerService } from "../services/tagger.service";
+import { authenticate } from "../shopify.server";
+
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+	const { session } = await authenticate.admin(request);
+
+	const [schedules, taggingRules, metafieldRules, timezone] = await Promise.all([
+		ScheduleService.getSchedules(session.shop),
+		TaggerService.getRules(session.shop),
+		MetafieldService.getRules(session.shop),
+		TaggerService.getShopTimezone(session.shop),
+	]);
+
+	const toOption = (rule: any) => ({ _id: String(rule._id), name: String(rule.name), resourceType: String(rule.resourceType) });
+
+	return json({
+		schedules,
+		taggingRules: taggingRules.map(toOption),
+		metafieldRules: metafieldRules.map(toOption),
+		timezone,
+	});
+};
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+	const { session } = await authenticate.admin(request);
+	const formData = await request.formData();
+	const actionType = formData.get("actionType");
+
+	try {
+		if (actionType === "saveSchedule") {
+			const scheduleData = JSON.parse(formData.get("scheduleData") as string);
+			await ScheduleService.saveSchedule(session.shop, scheduleData);
+			return json({ status: "saved", message: "Schedule saved" });
+		} else if (actionType === "toggleSchedule") {
+			const id = formData.get("id") as string;
+			const isEnabled = formData.get("isEnabled") === "true";
+			await ScheduleService.toggleSchedule(session.shop, id, isEnabled);
+		} else if (actionType === "deleteSchedule") {
+			await ScheduleService.deleteSchedule(session.shop, formData.get("id") as string);
+		} else if (actionType === "runNow") {
+			await ScheduleService.runNow(session.shop, formData.get("id") as string);
+			return json({ status: "success", message: "Schedule queued. Track progress in the Activity Log." });
+		}
+	} catch (error) {
+		return json({ status: "error", message: (error as Error).message });
+	}
+
+	return json({ status: "success" });
+};
+
+export default function Schedules() {
+	const { schedules, taggingRules, metafieldRules, timezone } = useLoaderData<typeof loader>();
+	const actionData = useActionData<{ status: string; message?: string }>();
+	const shopify = useAppBridge();
+	const submit = useSubmit();
+	const nav = useNavigation();
+	const isSaving = nav.state === "submitting";
+
+	const [formOpen, setFormOpen] = useState(false);
+	const [formData, setFormData] = useState<ScheduleFormData>(initialScheduleFormData);
+	const [deleteId, setDeleteId] = useState<string | null>(null);
+
+	useEffect(() => {
+		if (actionData?.status === "saved") {
+			setFormOpen(false);
+		}
+		if (actionData?.status === "success" || actionData?.status === "saved") {
+			shopify.toast.show(actionData.message || "Success");
+		}
+	}, [actionData, shopify]);
+
+	const handleOpenForm = (schedule: Schedule | null = null) => {
+		setFormData(schedule ? { ...initialScheduleFormData, ...schedule } : initialScheduleFormData);
+		setFormOpen(true);
+	};
+
+	const handleSave = () => {
+		submit({ actionType: "saveSchedule", scheduleData: JSON.stringify(formData) }, { method: "post" });
+	};
+
+	const handleToggle = (id: string, currentStatus: boolean) => {
+		submit({ actionType: "toggleSchedule", id, isEnabled: (!currentStatus).toString() }, { method: "post" });
+	};
+
+	const handleRunNow = (id: string) => {
+		submit({ actionType: "runNow", id }, { method: "post" });
+	};
+
+	const confirmDelete = () => {
+		if (deleteId) {
+			submit({ actionType: "deleteSchedule", id: deleteId }, { method: "post" });
+			setDeleteId(null);
+		}
+	};
+
+	return (
+		<Page
+			title="Schedules"
+			subtitle="Re-run rules, bulk tag operations and tag cleanups automatically"
+			primaryAction={{ content: "Create Schedule", onAction: () => handleOpenForm(), icon: PlusIcon }}
+		>
+			<Layout>
+				{actionData?.status === "error" && actionData.message && !formOpen && (
+					<Layout.Section>
+						<Banner tone="critical" title="Error">
+							<Text as="p">{actionData.message}</Text>
+						</Banner>
+					</Layout.Section>
+				)}
+				<Layout.Section>
+					<Card padding="0">
+						<ResourceList
+							resourceName={{ singular: "schedule", plural: "schedules" }}
+							items={schedules as unknown as Schedule[]}
+							emptyState={
+								<EmptyState
+									heading="No schedules yet"
+									action={{ content: "Create Schedule", onAction: () => handleOpenForm() }}
+									image="https://cdn.shopify.com/s/files/1/0262/4071/2726/files/emptystate-files.png"
+								>
+									<p>Run your rules, bulk tag operations or tag cleanups every hour, day or week.</p>
+								</EmptyState>
+							}
+							renderItem={(item: Schedule) => (
+								<ScheduleListItem
+									schedule={item}
+									onEdit={handleOpenForm}
+									onToggle={handleToggle}
+									onRunNow={handleRunNow}
+									onDelete={setDeleteId}
+								/>
+							)}
+						/>
+					</Card>
+				</Layout.Section>
+			</Layout>
+
+			<ScheduleFormModal
+				open={formOpen}
+				formData={formData}
+				error={actionData?.status === "error" ? actionData.message : null}
+				timezone={timezone}
+				taggingRules={taggingRules}
+				metafieldRules={metafieldRules}
+				isSaving={isSaving}
+				onClose={() => setFormOpen(false)}
+				onSave={handleSave}
+				onFormDataChange={setFormData}
+			/>
+
+			<DeleteConfirmModal
+				open={!!deleteId}
+				onClose={() => setDeleteId(null)}
+				onConfirm={confirmDelete}
+				isLoading={isSaving}
+			/>
+		</Page>
+	);
+}
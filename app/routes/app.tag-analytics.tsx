@@ -0,0 +1,266 @@
+import { json, type ActionFunctionArgs, type LoaderFunctionArgs } from "@remix-run/node";
+import { useActionData, useLoaderData, useNavigate, useNavigation, useSearchParams, useSubmit } from "@remix-run/react";
+import { useAppBridge } from "@shopify/app-bridge-react";
+import {
+	Badge,
+	Banner,
+	BlockStack,
+	Button,
+	Card,
+	EmptyState,
+	IndexTable,
+	InlineStack,
+	Layout,
+	Modal,
+	Page,
+	Pagination,
+	Tabs,
+	Text,
+	TextField
+} from "@shopify/polaris";
+import { useEffect, useState } from "react";
+import type { TagAnalyticsFilter } from "~/types/cleaner.types";
+import { RARE_TAG_MAX_USES, TagAnalyticsService } from "../services/tag-analytics.service";
+import { UsageService } from "../services/usage.service";
+import { authenticate } from "../shopify.server";
+
+const FILTERS: { id: TagAnalyticsFilter; content: string }[] = [
+	{ id: "all", content: "All tags" },
+	{ id: "rare", content: `Rare (${RARE_TAG_MAX_USES} items or fewer)` },
+	{ id: "unreferenced", content: "Not used by rules" },
+];
+
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+	const { session } = await authenticate.admin(request);
+	const params = new URL(request.url).searchParams;
+	const filter = (FILTERS.find(option => option.id === params.get("filter"))?.id || "all") as TagAnalyticsFilter;
+
+	const report = await TagAnalyticsService.getReport(session.shop, {
+		filter,
+		search: params.get("search") || "",
+		page: parseInt(params.get("page") || "1"),
+	});
+
+	return json({ report, filter });
+};
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+	const { session } = await authenticate.admin(request);
+	const formData = await request.formData();
+
+	if (formData.get("actionType") === "removeRareTags") {
+		const { tags, affectedCount } = await TagAnalyticsService.getRemovableRareTags(session.shop);
+		if (tags.length === 0) {
+			return json({ status: "error", message: "No rare tags to remove." });
+		}
+
+		const quotaCheck = await UsageService.checkQuota(session.shop, affectedCount);
+		if (!quotaCheck.allowed) {
+			return json({ status: "error", message: quotaCheck.message });
+		}
+
+		const jobIds = await TagAnalyticsService.queueRareTagCleanup(session.shop, tags);
+		return json({
+			status: "queued",
+			message: `Removing ${tags.length} rare tags in ${jobIds.length} cleanup job(s). Check Activity Logs for completion status.`,
+		});
+	}
+
+	return json({});
+};
+
+const formatDate = (date?: string) => date ? new Date(date).toLocaleDateString() : "—";
+
+export default function TagAnalytics() {
+	const { report, filter } = useLoaderData<typeof loader>();
+	const actionData = useActionData<{ status?: string; message?: string }>();
+	const shopify = useAppBridge();
+	const submit = useSubmit();
+	const navigate = useNavigate();
+	const nav = useNavigation();
+	const [searchParams] = useSearchParams();
+	const [search, setSearch] = useState(searchParams.get("search") || "");
+	const [isConfirmOpen, setIsConfirmOpen] = useState(false);
+
+	useEffect(() => {
+		if (actionData?.status === "queued") {
+			shopify.toast.show("Rare tag cleanup started");
+		}
+	}, [actionData, shopify]);
+
+	const updateParams = (updates: Record<string, string>) => {
+		const params = new URLSearchParams(searchParams);
+		Object.entries(updates).forEach(([key, value]) => value ? params.set(key, value) : params.delete(key));
+		if (!("page" in updates)) params.delete("page");
+		navigate(`?${params.toString()}`);
+	};
+
+	const removeRareTags = () => {
+		submit({ actionType: "removeRareTags" }, { method: "post" });
+		setIsConfirmOpen(false);
+	};
+
+	if (!report) {
+		return (
+			<Page title="Tag Analytics" backAction={{ url: "/app/cleaner" }}>
+				<Card>
+					<EmptyState
+						heading="Run a Deep Scan first"
+						action={{ content: "Go to Data Cleaner", url: "/app/cleaner" }}
+						image="https://cdn.shopify.com/s/files/1/0262/4071/2726/files/emptystate-files.png"
+					>
+						<p>Tag analytics come from the latest completed scan of your products, customers and orders.</p>
+					</EmptyState>
+				</Card>
+			</Page>
+		);
+	}
+
+	const rowMarkup = report.rows.map((row, index) => (
+		<IndexTable.Row id={row.tag} key={row.tag} position={index}>
+			<IndexTable.Cell>
+				<InlineStack gap="200" blockAlign="center">
+					<Text as="span" fontWeight="semibold">{row.tag}</Text>
+					{row.isRare && <Badge tone="attention">Rare</Badge>}
+				</InlineStack>
+			</IndexTable.Cell>
+			<IndexTable.Cell>{row.products.toLocaleString()}</IndexTable.Cell>
+			<IndexTable.Cell>{row.customers.toLocaleString()}</IndexTable.Cell>
+			<IndexTable.Cell>{row.orders.toLocaleString()}</IndexTable.Cell>
+			<IndexTable.Cell>{row.total.toLocaleString()}</IndexTable.Cell>
+			<IndexTable.Cell>{formatDate(row.firstSeen)}</IndexTable.Cell>
+			<IndexTable.Cell>{formatDate(row.lastSeen)}</IndexTable.Cell>
+			<IndexTable.Cell>
+				{row.rules.length > 0 ? (
+					<BlockStack gap="100">
+						{row.rules.map(rule => (
+							<Text as="span" key={rule.id}>
+								{rule.name} <Text as="span" tone="subdued">({rule.kind === "tagging" ? "Smart Tag" : "Metafield"})</Text>
+							</Text>
+						))}
+					</BlockStack>
+				) : "—"}
+			</IndexTable.Cell>
+		</IndexTable.Row>
+	));
+
+	return (
+		<Page
+			title="Tag Analytics"
+			subtitle={`${report.uniqueTags.toLocaleString()} tags from the scan completed ${formatDate(report.completedAt)}`}
+			backAction={{ url: "/app/cleaner" }}
+			secondaryActions={[{ content: "View Activity Log", url: "/app/activity" }]}
+		>
+			<Layout>
+				<Layout.Section>
+					{actionData?.message && (
+						<Banner tone={actionData.status === "error" ? "critical" : "info"}>{actionData.message}</Banner>
+					)}
+				</Layout.Section>
+
+				{report.rareCount > 0 && (
+					<Layout.Section>
+						<Banner tone="warning" title={`${report.rareCount.toLocaleString()} tags are used on ${RARE_TAG_MAX_USES} items or fewer`}>
+							<BlockStack gap="200">
+								<Text as="p">
+									Rare tags are often typos or leftovers. {report.removableCount.toLocaleString()} of them aren't referenced by any rule and can be removed from {report.removableUsage.toLocaleString()} items.
+								</Text>
+								<InlineStack>
+									<Button
+										onClick={() => setIsConfirmOpen(true)}
+										disabled={report.removableCount === 0}
+										loading={nav.state === "submitting"}
+									>
+										Remove Rare Tags
+									</Button>
+								</InlineStack>
+							</BlockStack>
+						</Banner>
+					</Layout.Section>
+				)}
+
+				<Layout.Section>
+					<Card padding="0">
+						<Tabs
+							tabs={FILTERS}
+							selected={Math.max(0, FILTERS.findIndex(option => option.id === filter))}
+							onSelect={(index) => updateParams({ filter: FILTERS[index].id === "all" ? "" : FILTERS[index].id })}
+						/>
+						<div style={{ padding: "16px" }}>
+							<TextField
+								label="Search tags"
+								labelHidden
+								placeholder="Search tags"
+								value={search}
+								onChange={setSearch}
+								onBlur={() => updateParams({ search })}
+								clearButton
+								onClearButtonClick={() => {
+									setSearch("");
+									updateParams({ search: "" });
+								}}
+								autoComplete="off"
+							/>
+						</div>
+						<IndexTable
+							resourceName={{ singular: "tag", plural: "tags" }}
+							itemCount={report.rows.length}
+							selectable={false}
+							headings={[
+								{ title: "Tag" },
+								{ title: "Products" },
+								{ title: "Customers" },
+								{ title: "Orders" },
+								{ title: "Total" },
+								{ title: "First seen" },
+								{ title: "Last seen" },
+								{ title: "Used by rules" },
+							]}
+							emptyState={
+								<div style={{ padding: "40px", textAlign: "center" }}>
+									<Text as="p" tone="subdued">No tags match this filter.</Text>
+								</div>
+							}
+						>
+							{rowMarkup}
+						</IndexTable>
+						{report.totalPages > 1 && (
+							<div style={{ padding: "16px", display: "flex", justifyContent: "center" }}>
+								<Pagination
+									hasPrevious={report.currentPage > 1}
+									onPrevious={() => updateParams({ page: (report.currentPage - 1).toString() })}
+									hasNext={report.currentPage < report.totalPages}
+									onNext={() => updateParams({ page: (report.currentPage + 1).toString() })}
+									label={`Page ${report.currentPage} of ${report.totalPages} (${report.totalCount.toLocaleString()} tags)`}
+								/>
+							</div>
+						)}
+					</Card>
+				</Layout.Section>
+			</Layout>
+
+			<Modal
+				open={isConfirmOpen}
+				onClose={() => setIsConfirmOpen(false)}
+				title="Remove Rare Tags"
+				primaryAction={{
+					content: `Remove ${report.removableCount.toLocaleString()} Tags`,
+					destructive: true,
+					onAction: removeRareTags,
+				}}
+				secondaryActions={[{ content: "Cancel", onAction: () => setIsConfirmOpen(false) }]}
+			>
+				<Modal.Section>
+					<BlockStack gap="300">
+						<Text as="p">
+							Remove every tag used on {RARE_TAG_MAX_USES} items or fewer from up to <strong>{report.removableUsage.toLocaleString()}</strong> items. Tags referenced by a Smart Tagger or metafield rule are kept.
+						</Text>
+						<Banner tone="info">
+							A backup is saved before any item changes, so the cleanup can be reverted from the Activity Log.
+						</Banner>
+					</BlockStack>
+				</Modal.Section>
+			</Modal>
+		</Page>
+	);
+}
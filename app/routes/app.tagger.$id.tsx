@@ -2,9 +2,12 @@ import { json, type ActionFunctionArgs, type LoaderFunctionArgs } from "@remix-r
 import { useActionData, useFetcher, useNavigate, useLoaderData } from "@remix-run/react";
 import { useAppBridge } from "@shopify/app-bridge-react";
 import { useEffect, useState } from "react";
+import { RuleSimulationPanel } from "~/components/RuleSimulationPanel";
 import { RuleFormModal } from "~/components/Tagger/RuleFormModal";
 import { useTaggerForm } from "~/hooks/useTaggerForm";
+import type { SimulationResult } from "~/types/tagger.types";
 import { AIService } from "../services/ai.service";
+import { TagPolicyService } from "../services/tag-policy.service";
 import { TaggerService } from "../services/tagger.service";
 import { authenticate } from "../shopify.server";
 
@@ -18,7 +21,8 @@ export const loader = async ({ request, params }: LoaderFunctionArgs) => {
 
   if (!rule) return json({ rule: null }, { status: 404 });
 
-  return json({ rule });
+  const tagPolicy = await TagPolicyService.getPolicy(session.shop);
+  return json({ rule, tagPolicy });
 };
 
 export const action = async ({ request }: ActionFunctionArgs) => {
@@ -54,7 +58,11 @@ export const action = async ({ request }: ActionFunctionArgs) => {
       }
     }
 
-    await TaggerService.saveRule(session.shop, ruleData);
+    try {
+      await TaggerService.saveRule(session.shop, ruleData);
+    } catch (error) {
+      return json({ status: "error", message: (error as Error).message }, { status: 400 });
+    }
     return json({ status: "success" });
   } else if (actionType === "generateRule") {
     const prompt = formData.get("prompt") as string;
@@ -65,6 +73,14 @@ export const action = async ({ request }: ActionFunctionArgs) => {
     } catch (error) {
       return json({ status: "error", message: "Failed to generate rule" }, { status: 500 });
     }
+  } else if (actionType === "simulateRule") {
+    try {
+      const ruleData = JSON.parse(formData.get("ruleData") as string);
+      const simulation = await TaggerService.simulateRule(session.shop, ruleData);
+      return json({ status: "simulated", simulation });
+    } catch (error) {
+      return json({ status: "simulation_error", message: (error as Error).message }, { status: 400 });
+    }
   }
 
   return json({ status: "success" });
@@ -75,7 +91,9 @@ export default function EditTaggerRule() {
   const shopify = useAppBridge();
   const actionData = useActionData<typeof action>();
   const fetcher = useFetcher();
-  const { rule } = useLoaderData<typeof loader>();
+  const simulationFetcher = useFetcher<{ status: string; simulation?: SimulationResult; message?: string }>();
+  const loaderData = useLoaderData<typeof loader>();
+  const { rule } = loaderData;
 
   const [aiPrompt, setAiPrompt] = useState("");
 
@@ -103,7 +121,8 @@ export default function EditTaggerRule() {
           resourceType: generated.resourceType || formData.resourceType,
           conditionLogic: generated.conditionLogic || 'AND',
           conditions: generated.conditions || [],
-          tags: generated.tags || []
+          groups: generated.groups || [],
+          actions: [{ type: 'add', tags: generated.tags || [] }]
         });
         shopify.toast.show("Rule generated!");
       } else {
@@ -124,6 +143,10 @@ export default function EditTaggerRule() {
     fetcher.submit({ actionType: "generateRule", prompt: aiPrompt, resourceType: formData.resourceType }, { method: "post" });
   };
 
+  const handleSimulate = () => {
+    simulationFetcher.submit({ actionType: "simulateRule", ruleData: JSON.stringify(formData) }, { method: "post" });
+  };
+
   if (!rule) return null;
 
   return (
@@ -131,6 +154,7 @@ export default function EditTaggerRule() {
       open={true}
       onClose={() => navigate("/app/tagger")}
       editingRule={rule}
+      tagPolicy={"tagPolicy" in loaderData ? loaderData.tagPolicy : undefined}
       formData={formData}
       onFormDataChange={setFormData}
       errors={errors}
@@ -140,6 +164,14 @@ export default function EditTaggerRule() {
       onAiPromptChange={setAiPrompt}
       onGenerateAI={handleGenerateAI}
       isGenerating={fetcher.state === "submitting" && fetcher.formData?.get("actionType") === "generateRule"}
+      simulationPanel={
+        <RuleSimulationPanel
+          result={simulationFetcher.data?.simulation as SimulationResult | undefined}
+          error={simulationFetcher.data?.status === "simulation_error" ? simulationFetcher.data.message : null}
+          isRunning={simulationFetcher.state !== "idle"}
+          onRun={handleSimulate}
+        />
+      }
     />
   );
 }
@@ -1,10 +1,11 @@
 import { json, type ActionFunctionArgs, type LoaderFunctionArgs } from "@remix-run/node";
-import { useActionData, useFetcher, useNavigate } from "@remix-run/react";
+import { useActionData, useFetcher, useLoaderData, useNavigate } from "@remix-run/react";
 import { useAppBridge } from "@shopify/app-bridge-react";
 import { useEffect, useState } from "react";
 import { RuleFormModal } from "~/components/Tagger/RuleFormModal";
 import { useTaggerForm } from "~/hooks/useTaggerForm";
 import { AIService } from "../services/ai.service";
+import { TagPolicyService } from "../services/tag-policy.service";
 import { TaggerService } from "../services/tagger.service";
 import { authenticate } from "../shopify.server";
 
@@ -12,6 +13,7 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
   const { session } = await authenticate.admin(request);
   const { UsageService } = await import("~/services/usage.service");
   const plan = await UsageService.getPlanType(session.shop);
+  const tagPolicy = await TagPolicyService.getPolicy(session.shop);
 
   if (plan === "Free") {
     const activeCount = await TaggerService.countActiveRules(session.shop);
@@ -19,10 +21,10 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
       // Ideally redirect or show error, but for now we let the UI handle the "limit reached" warning if needed, 
       // or we could block access. The parent route shows the banner.
       // Let's just return the status.
-      return json({ isLimitReached: true });
+      return json({ isLimitReached: true, tagPolicy });
     }
   }
-  return json({ isLimitReached: false });
+  return json({ isLimitReached: false, tagPolicy });
 };
 
 export const action = async ({ request }: ActionFunctionArgs) => {
@@ -46,7 +48,11 @@ export const action = async ({ request }: ActionFunctionArgs) => {
       }
     }
 
-    await TaggerService.saveRule(session.shop, ruleData);
+    try {
+      await TaggerService.saveRule(session.shop, ruleData);
+    } catch (error) {
+      return json({ status: "error", message: (error as Error).message }, { status: 400 });
+    }
     return json({ status: "success" });
   } else if (actionType === "generateRule") {
     const prompt = formData.get("prompt") as string;
@@ -67,6 +73,7 @@ export default function NewTaggerRule() {
   const shopify = useAppBridge();
   const actionData = useActionData<typeof action>();
   const fetcher = useFetcher();
+  const { tagPolicy } = useLoaderData<typeof loader>();
 
   const [aiPrompt, setAiPrompt] = useState("");
 
@@ -93,7 +100,8 @@ export default function NewTaggerRule() {
           resourceType: rule.resourceType || formData.resourceType,
           conditionLogic: rule.conditionLogic || 'AND',
           conditions: rule.conditions || [],
-          tags: rule.tags || []
+          groups: rule.groups || [],
+          actions: [{ type: 'add', tags: rule.tags || [] }]
         });
         shopify.toast.show("Rule generated!");
       } else {
@@ -121,6 +129,7 @@ export default function NewTaggerRule() {
       open={true}
       onClose={() => navigate("/app/tagger")}
       editingRule={null}
+      tagPolicy={tagPolicy}
       formData={formData}
       onFormDataChange={setFormData}
       errors={errors}
@@ -25,6 +25,7 @@ import { DeleteConfirmModal } from "~/components/Tagger/DeleteConfirmModal";
 import { RuleListItem } from "~/components/Tagger/RuleListItem";
 import { useDebounce } from "~/hooks/useDebounce";
 import type { TaggingRule } from "~/types/tagger.types";
+import { BackfillService } from "../services/backfill.service";
 import { TaggerService } from "../services/tagger.service";
 import { authenticate } from "../shopify.server";
 
@@ -48,6 +49,16 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
 	return json({ rules, libraryRules, isFreePlan, isLimitReached });
 };
 
+// Rule ids of a reorderRules submit, or null when the field isn't a JSON array of ids
+const parseRuleIds = (value: FormDataEntryValue | null): string[] | null => {
+	try {
+		const ids = JSON.parse((value as string) || "");
+		return Array.isArray(ids) && ids.every(id => typeof id === "string") ? ids : null;
+	} catch (e) {
+		return null;
+	}
+};
+
 export const action = async ({ request }: ActionFunctionArgs) => {
 	const { session } = await authenticate.admin(request);
 	const formData = await request.formData();
@@ -61,12 +72,23 @@ export const action = async ({ request }: ActionFunctionArgs) => {
 			const id = formData.get("id") as string;
 			const isEnabled = formData.get("isEnabled") === "true";
 			await TaggerService.toggleRule(session.shop, id, isEnabled);
+		} else if (actionType === "reorderRules") {
+			const ids = parseRuleIds(formData.get("ids"));
+			if (!ids) {
+				return json({ status: "error", message: "Couldn't read the new rule order. Please try again." }, { status: 400 });
+			}
+			await TaggerService.reorderRules(session.shop, ids);
+		} else if (actionType === "runBackfill") {
+			const id = formData.get("id") as string;
+			await BackfillService.startBackfill(session.shop, "tagging", id);
+			return { status: "success", message: "Started running the rule on existing data. Track progress in the Activity Log." };
 		} else if (actionType === "importRule") {
 			const ruleData = JSON.parse(formData.get("ruleData") as string);
 			delete ruleData._id;
 			delete ruleData.shop;
 			delete ruleData.createdAt;
 			delete ruleData.updatedAt;
+			delete ruleData.priority;
 			ruleData.isEnabled = false;
 			await TaggerService.saveRule(session.shop, ruleData);
 		}
@@ -90,6 +112,7 @@ export default function SmartTagger() {
 
 	const [selectedTab, setSelectedTab] = useState(0);
 	const [deleteId, setDeleteId] = useState<string | null>(null);
+	const [draggedId, setDraggedId] = useState<string | null>(null);
 
 	// Filter and pagination state
 	const [searchQuery, setSearchQuery] = useState("");
@@ -104,7 +127,7 @@ export default function SmartTagger() {
 	// Handle action/fetcher responses
 	useEffect(() => {
 		if (actionData?.status === "success") {
-			shopify.toast.show("Success");
+			shopify.toast.show(actionData.message || "Success");
 		}
 	}, [actionData, shopify]);
 
@@ -173,10 +196,29 @@ export default function SmartTagger() {
 		}
 	};
 
+	const handleRunBackfill = (id: string) => {
+		submit({ actionType: "runBackfill", id }, { method: "post" });
+	};
+
 	const handleImport = (rule: TaggingRule) => {
 		submit({ actionType: "importRule", ruleData: JSON.stringify(rule) }, { method: "post" });
 	};
 
+	// Rules are listed by priority, so dropping a rule onto another takes the target's place:
+	// dragged upwards it lands just above the target, dragged downwards just below it
+	const handleDrop = (targetId: string) => {
+		if (!draggedId || draggedId === targetId) {
+			setDraggedId(null);
+			return;
+		}
+
+		const allIds: string[] = rules.map((rule: TaggingRule) => rule._id!);
+		const isMovingDown = allIds.indexOf(draggedId) < allIds.indexOf(targetId);
+		const ids = allIds.filter(id => id !== draggedId);
+		ids.splice(ids.indexOf(targetId) + (isMovingDown ? 1 : 0), 0, draggedId);
+		setDraggedId(null);
+		submit({ actionType: "reorderRules", ids: JSON.stringify(ids) }, { method: "post" });
+	};
 
 
 	return (
@@ -238,6 +280,7 @@ export default function SmartTagger() {
 													choices={[
 														{ label: 'Orders', value: 'orders' },
 														{ label: 'Customers', value: 'customers' },
+														{ label: 'Products', value: 'products' },
 													]}
 													selected={resourceFilter}
 													onChange={(value) => setResourceFilter(value)}
@@ -307,6 +350,9 @@ export default function SmartTagger() {
 										onToggle={handleToggle}
 										onDelete={handleDelete}
 										onImport={handleImport}
+										onRunBackfill={handleRunBackfill}
+										onDragStart={setDraggedId}
+										onDrop={handleDrop}
 									/>
 								)}
 							/>
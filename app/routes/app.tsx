@@ -39,9 +39,15 @@ export default function App() {
         <Link to="/app/cleaner" rel="cleaner">
           Data Cleaner
         </Link>
+        <Link to="/app/schedules" rel="schedules">
+          Schedules
+        </Link>
         <Link to="/app/activity" rel="activity">
           Activity Log
         </Link>
+        <Link to="/app/backups" rel="backups">
+          Backups
+        </Link>
         <Link to="/app/billing" rel="billing">
           Billing & Usage
         </Link>
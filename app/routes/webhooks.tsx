@@ -1,9 +1,10 @@
 import { type ActionFunctionArgs } from "@remix-run/node";
 import { authenticate } from "../shopify.server";
 import { webhookQueue } from "../queue.server";
+import { WebhookGuardService } from "../services/webhook-guard.service";
 
 export const action = async ({ request }: ActionFunctionArgs) => {
-    const { topic, shop, session, admin, payload } = await authenticate.webhook(request);
+    const { topic, shop, session, admin, payload, webhookId } = await authenticate.webhook(request);
 
     if (!admin) {
         // The admin context isn't returned if the webhook is processed successfully but we need it?
@@ -11,14 +12,26 @@ export const action = async ({ request }: ActionFunctionArgs) => {
         // We don't need admin here, we just push to queue.
     }
 
-    console.log(`Received webhook ${topic} for ${shop}`);
+    console.log(`Received webhook ${topic} for ${shop} (${webhookId})`);
 
-    // Push to queue
-    await webhookQueue.add(topic, {
-        shop,
-        topic,
-        payload,
-    });
+    // Shopify retries deliveries with the same X-Shopify-Webhook-Id
+    const isNewDelivery = await WebhookGuardService.claimDelivery(shop, topic, webhookId);
+    if (!isNewDelivery) {
+        console.log(`Skipping duplicate webhook ${webhookId}`);
+        return new Response();
+    }
+
+    // Push to queue (the job id also dedupes while the job is still in Redis)
+    try {
+        await webhookQueue.add(topic, {
+            shop,
+            topic,
+            payload,
+        }, webhookId ? { jobId: `webhook-${webhookId}` } : undefined);
+    } catch (error) {
+        await WebhookGuardService.releaseDelivery(webhookId);
+        throw error;
+    }
 
     return new Response();
 };
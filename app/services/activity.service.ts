@@ -8,15 +8,22 @@ const ACTION_TO_CATEGORY: Record<string, string> = {
     "Auto-Tag": "Tags",
     "Bulk Operation": "Bulk Operations",
     "Bulk Update": "Bulk Operations",
+    "Bulk Metafield Update": "Bulk Operations",
+    "Bulk Product Update": "Bulk Operations",
     "Metafield Updated": "Metafields",
     "Metafield Created": "Metafields",
     "COGS Updated": "Metafields",
     "Data Cleanup": "Data Cleaning",
+    "Tag Scan": "Data Cleaning",
+    "Tag Merge": "Data Cleaning",
     "Webhook Received": "System",
     "Job Queued": "System",
     "Job Completed": "System",
     "Revert": "Bulk Operations",
     "Updated Product Costs": "Metafields",
+    "Tag Rule Backfill": "Tags",
+    "Metafield Rule Backfill": "Metafields",
+    "Scheduled Run": "System",
 };
 
 export class ActivityService {
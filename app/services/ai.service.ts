@@ -19,7 +19,7 @@ export class AIService {
                         The JSON schema is:
                         {
                             "name": "string (suggest a short descriptive name)",
-                            "resourceType": "string (orders or customers)",
+                            "resourceType": "string (orders, customers or products)",
                             "conditionLogic": "AND" | "OR",
                             "conditions": [
                                 {
@@ -34,10 +34,20 @@ export class AIService {
                         Allowed Fields for ${resourceType}:
                         ${resourceType === 'orders'
                 ? `- total_price, subtotal_price, gateway, financial_status, currency, total_weight, shipping_lines[0].title, shipping_address.city, shipping_address.country_code, shipping_address.province_code, shipping_address.zip, source_name, tags, discount_codes[0].code, landing_site, referring_site, line_items.sku, line_items.vendor, line_items.name, line_items.quantity`
+                : resourceType === 'products'
+                ? `- title, product_type, vendor, tags, status, variants[0].price, variants[0].inventory_quantity, total_inventory, compare_at_price, on_sale (true/false), image_count, variants.sku, variants.price, variants.compare_at_price, variants.inventory_quantity (variants.* matches if ANY variant matches)`
                 : `- total_spent, orders_count, state, verified_email, accepts_marketing, tags, default_address.country_code, email`}
 
                         Allowed Operators:
-                        - equals, not_equals, contains, starts_with, ends_with, greater_than, less_than, in, not_in, is_empty, is_not_empty
+                        - equals, not_equals, contains, not_contains, starts_with, ends_with, greater_than, less_than, greater_or_equal, less_or_equal, in, not_in, is_empty, is_not_empty
+                        - between (value "min,max", inclusive), matches_regex (case-insensitive JavaScript regex, no nested quantifiers)
+                        - List fields (line_items.*, variants.*): all_in (every item is in the comma separated list),
+                          count_greater_than / count_less_than (number of items), sum_greater_than / sum_less_than (e.g. line_items.quantity)
+                        - Date fields (created_at, processed_at, last_order_date, customer.last_order_date, updated_at):
+                          within_last / older_than (value like "30 days", "12 hours", "2 weeks"),
+                          before / after (value "YYYY-MM-DD"),
+                          day_of_week (value like "saturday,sunday"),
+                          hour_of_day (value like "9-17" or "22-6", shop local time)
 
                         IMPORTANT: Return ONLY the JSON object. No markdown formatting.
                         `
@@ -98,7 +108,9 @@ export class AIService {
                 : `- total_spent, orders_count, tags, default_address.country_code, email`}
 
                         Allowed Operators:
-                        - equals, not_equals, contains, starts_with, ends_with, greater_than, less_than
+                        - equals, not_equals, contains, not_contains, starts_with, ends_with, greater_than, less_than, greater_or_equal, less_or_equal
+                        - between (value "min,max", inclusive), matches_regex (case-insensitive JavaScript regex, no nested quantifiers)
+                        - List fields (variants.*): all_in, count_greater_than, count_less_than, sum_greater_than, sum_less_than
 
                         IMPORTANT: Return ONLY the JSON object. No markdown formatting.
                         `
@@ -0,0 +1,153 @@
+import { describe, it, expect, vi } from 'vitest';
+import { BackfillService } from './backfill.service';
+import { parseBulkJsonl } from '../utils/webhook-shape';
+
+vi.mock('../shopify.server', () => ({
+  unauthenticated: { admin: vi.fn() }
+}));
+
+vi.mock('../queues', () => ({
+  bulkQueue: { add: vi.fn() }
+}));
+
+vi.mock('./bulk.server', () => ({
+  processBulkJob: vi.fn()
+}));
+
+vi.mock('./backup.service', () => ({
+  BackupService: { createBackup: vi.fn() }
+}));
+
+vi.mock('../models/TaggingRule', () => ({
+  TaggingRule: { findOne: vi.fn() }
+}));
+
+vi.mock('../models/MetafieldRule', () => ({
+  MetafieldRule: { findOne: vi.fn() }
+}));
+
+vi.mock('./bulk-scheduler.service', () => ({
+  BulkSchedulerService: {
+    acquire: vi.fn().mockResolvedValue(true),
+    acquireForStep: vi.fn().mockResolvedValue(true),
+    waitForSlot: vi.fn(),
+    release: vi.fn(),
+    releaseAll: vi.fn(),
+  }
+}));
+
+vi.mock('./job-control.service', () => ({
+  JobControlService: { recordProgress: vi.fn() }
+}));
+
+vi.mock('./activity.service', () => ({
+  ActivityService: { createLog: vi.fn() }
+}));
+
+describe('BackfillService', () => {
+  const customers = [
+    { id: "gid://shopify/Customer/1", tags: ["newsletter"], numberOfOrders: "12", amountSpent: { amount: "900.00" } },
+    { id: "gid://shopify/Customer/2", tags: [], numberOfOrders: "1", amountSpent: { amount: "20.00" } },
+    { id: "gid://shopify/Customer/3", tags: ["VIP"], numberOfOrders: "30", amountSpent: { amount: "5000.00" } },
+  ];
+
+  describe('planTagChanges', () => {
+    it('should only change matching records that are missing the tags', () => {
+      const rule = {
+        conditions: [{ field: "total_spent", operator: "greater_than", value: "500" }],
+        conditionLogic: "AND",
+        tags: ["VIP"],
+      };
+
+      const result = BackfillService.planTagChanges(rule, "customers", customers);
+
+      expect(result.matchedCount).toBe(2);
+      expect(result.mutationLines).toEqual([
+        JSON.stringify({ input: { id: "gid://shopify/Customer/1", tags: ["newsletter", "VIP"] } })
+      ]);
+      expect(result.backupItems).toEqual([
+        { resourceId: "gid://shopify/Customer/1", originalTags: ["newsletter"], appliedTags: ["newsletter", "VIP"] }
+      ]);
+    });
+
+    it('should apply remove actions', () => {
+      const rule = {
+        conditions: [{ field: "orders_count", operator: "greater_than", value: "10" }],
+        conditionLogic: "AND",
+        tags: [],
+        actions: [{ type: "remove", tags: ["VIP"] }],
+      };
+
+      const result = BackfillService.planTagChanges(rule, "customers", customers);
+
+      expect(result.mutationLines).toEqual([
+        JSON.stringify({ input: { id: "gid://shopify/Customer/3", tags: [] } })
+      ]);
+    });
+
+    it('should compare tags case-insensitively', () => {
+      const records = [
+        { id: "gid://shopify/Customer/1", tags: ["vip"], amountSpent: { amount: "600.00" } },
+        { id: "gid://shopify/Customer/2", tags: ["Wholesale", "VIP"], amountSpent: { amount: "600.00" } },
+      ];
+      const rule = {
+        conditions: [{ field: "total_spent", operator: "greater_than", value: "500" }],
+        conditionLogic: "AND",
+        tags: [],
+        actions: [{ type: "add", tags: ["VIP"] }, { type: "remove", tags: ["wholesale"] }],
+      };
+
+      const result = BackfillService.planTagChanges(rule, "customers", records);
+
+      expect(result.mutationLines).toEqual([
+        JSON.stringify({ input: { id: "gid://shopify/Customer/2", tags: ["VIP"] } })
+      ]);
+    });
+  });
+
+  describe('planMetafieldChanges', () => {
+    it('should back up the previous value of changed metafields', () => {
+      const rule = {
+        conditions: [{ field: "vendor", operator: "equals", value: "Acme" }],
+        conditionLogic: "AND",
+        definition: { namespace: "custom", key: "brand", value: "acme", valueType: "single_line_text_field" },
+      };
+      const products = [
+        { id: "gid://shopify/Product/1", vendor: "Acme", tags: [], metafield: null },
+        { id: "gid://shopify/Product/2", vendor: "Acme", tags: [], metafield: { value: "acme", type: "single_line_text_field" } },
+        { id: "gid://shopify/Product/3", vendor: "Other", tags: [], metafield: null },
+      ];
+
+      const result = BackfillService.planMetafieldChanges(rule, "products", products);
+
+      expect(result.matchedCount).toBe(2);
+      expect(result.mutationLines).toHaveLength(1);
+      expect(result.backupItems).toEqual([{
+        resourceId: "gid://shopify/Product/1",
+        originalMetafields: [{ namespace: "custom", key: "brand", value: null, type: "single_line_text_field" }],
+      }]);
+    });
+  });
+
+  describe('parseBulkJsonl', () => {
+    it('should attach child rows to their parent record', () => {
+      const jsonl = [
+        JSON.stringify({ id: "gid://shopify/Product/1", title: "Tee", tags: [] }),
+        JSON.stringify({ id: "gid://shopify/ProductVariant/10", sku: "TEE-S", inventoryQuantity: 2, __parentId: "gid://shopify/Product/1" }),
+        JSON.stringify({ id: "gid://shopify/ProductVariant/11", sku: "TEE-M", inventoryQuantity: 1, __parentId: "gid://shopify/Product/1" }),
+      ].join("\n");
+
+      const records = parseBulkJsonl(jsonl);
+
+      expect(records).toHaveLength(1);
+      expect(records[0].variants.map((v: any) => v.sku)).toEqual(["TEE-S", "TEE-M"]);
+
+      const rule = {
+        conditions: [{ field: "total_inventory", operator: "less_than", value: "5" }],
+        conditionLogic: "AND",
+        tags: ["low-stock"],
+      };
+      expect(BackfillService.planTagChanges(rule, "products", records).matchedCount).toBe(1);
+    });
+  });
+});
@@ -0,0 +1,260 @@
+import { bulkQueue } from "../queues";
+import { BackupService } from "./backup.service";
+import { MetafieldRule } from "../models/MetafieldRule";
+import { TaggingRule } from "../models/TaggingRule";
+import { ActivityService } from "./activity.service";
+import { JobControlService } from "./job-control.service";
+import { BulkSchedulerService } from "./bulk-scheduler.service";
+import { processBulkJob } from "./bulk.server";
+import { JobResultService } from "./job-result.service";
+import { BulkOperationService, METAFIELDS_SET_MUTATION } from "./bulk_operation.service";
+import { TaggerService } from "./tagger.service";
+import { UsageService } from "./usage.service";
+import { generateJobId } from "~/utils/id-generator";
+import type { DateContext } from "~/utils/date-conditions";
+import { getRuleActions } from "~/utils/rule-actions";
+import { isSameTagSet, parseTagList } from "~/utils/tag-operation";
+import { getResourceFields, parseBulkJsonl } from "~/utils/webhook-shape";
+
+export type BackfillRuleKind = "tagging" | "metafield";
+
+/**
+ * "Run on existing data": applies one rule to every existing record of its resource type.
+ * Only matching records are changed; tags of non-matching records are left alone.
+ */
+export class BackfillService {
+    static async startBackfill(shop: string, ruleKind: BackfillRuleKind, ruleId: string) {
+        const rule = await BackfillService.getRule(shop, ruleKind, ruleId);
+        if (!rule) {
+            throw new Error("Rule not found.");
+        }
+
+        const quotaCheck = await UsageService.checkQuota(shop, 1);
+        if (!quotaCheck.allowed) {
+            throw new Error(quotaCheck.message || "Monthly quota exceeded.");
+        }
+
+        const jobId = generateJobId();
+        await bulkQueue.add("rule-backfill", {
+            shop,
+            ruleKind,
+            ruleId,
+            resourceType: rule.resourceType,
+            jobId,
+        });
+
+        await ActivityService.createLog({
+            shop,
+            resourceType: rule.resourceType,
+            resourceId: ruleId,
+            action: BackfillService.getLogAction(ruleKind),
+            detail: `Queued '${rule.name}' for existing ${rule.resourceType}`,
+            jobId,
+            status: "Pending",
+        });
+
+        return { jobId };
+    }
+
+    static async processBackfillJob(job: any) {
+        const { shop, ruleKind, ruleId, resourceType, step = 'init', operationId } = job.data;
+        const currentJobId = job.data.jobId;
+        const log = (detail: string, status: string) => ActivityService.createLog({
+            shop,
+            resourceType,
+            resourceId: ruleId,
+            action: BackfillService.getLogAction(ruleKind),
+            detail,
+            jobId: currentJobId,
+            status,
+        });
+
+        // Usage recording and the final log are shared with regular bulk jobs
+        if (step === 'polling_mutation') {
+            return processBulkJob(job);
+        }
+
+        try {
+            const rule = await BackfillService.getRule(shop, ruleKind, ruleId);
+            if (!rule) {
+                throw new Error("Rule was deleted before the backfill finished");
+            }
+
+            // --- STEP 1: INIT (Start Query) ---
+            if (step === 'init') {
+                if (!(await BulkSchedulerService.acquireForStep(job, bulkQueue, "query"))) return;
+
+                const extraFields = ruleKind === "metafield"
+                    ? `metafield(namespace: ${JSON.stringify(rule.definition.namespace)}, key: ${JSON.stringify(rule.definition.key)}) { value type }`
+                    : "";
+                const query = `
+                {
+                    ${resourceType} {
+                        edges {
+                            node {
+                                ${getResourceFields(resourceType, extraFields)}
+                            }
+                        }
+                    }
+                }`;
+
+                const bulkOp = await BulkOperationService.runBulkQuery(shop, query);
+                await bulkQueue.add(job.name, { ...job.data, step: 'polling_query', operationId: bulkOp.id }, { delay: 5000 });
+                await log(`Started scanning existing ${resourceType}: ${bulkOp.id}`, "Pending");
+                return;
+            }
+
+            // --- STEP 2: POLLING QUERY ---
+            if (step === 'polling_query') {
+                const bulkOp = await BulkOperationService.pollBulkOperation(shop, operationId);
+                await JobControlService.recordProgress(shop, currentJobId, bulkOp);
+
+                if (bulkOp.status === 'RUNNING' || bulkOp.status === 'CREATED') {
+                    await bulkQueue.add(job.name, job.data, { delay: 5000 });
+                    return;
+                }
+                await BulkSchedulerService.release(shop, "query", currentJobId);
+
+                if (bulkOp.status === 'COMPLETED') {
+                    if (!bulkOp.url || parseInt(bulkOp.objectCount) === 0) {
+                        await log(`No existing ${resourceType} found`, "Success");
+                        return;
+                    }
+                    await bulkQueue.add(job.name, { ...job.data, step: 'processing', resultUrl: bulkOp.url }, { delay: 0 });
+                    return;
+                }
+
+                throw new Error(`Bulk Query Failed: ${bulkOp.status} - ${bulkOp.errorCode}`);
+            }
+
+            // --- STEP 3: EVALUATE & MUTATION ---
+            if (step === 'processing') {
+                if (!(await BulkSchedulerService.acquireForStep(job, bulkQueue, "mutation"))) return;
+
+                const response = await fetch(job.data.resultUrl);
+                const records = parseBulkJsonl(await response.text());
+                const context: DateContext = { timezone: await TaggerService.getShopTimezone(shop) };
+
+                const { mutationLines, backupItems, matchedCount } = ruleKind === "tagging"
+                    ? BackfillService.planTagChanges(rule, resourceType, records, context)
+                    : BackfillService.planMetafieldChanges(rule, resourceType, records, context);
+
+                await log(`Scanned ${records.length} ${resourceType}: ${matchedCount} match, ${mutationLines.length} need changes`, "Pending");
+
+                if (mutationLines.length === 0) {
+                    await BulkSchedulerService.release(shop, "mutation", currentJobId);
+                    await log("Nothing to update", "Success");
+                    return;
+                }
+
+                const quotaCheck = await UsageService.checkQuota(shop, mutationLines.length);
+                if (!quotaCheck.allowed) {
+                    await BulkSchedulerService.release(shop, "mutation", currentJobId);
+                    await log(`Stopped: ${quotaCheck.message}`, "Failed");
+                    return;
+                }
+
+                await BackupService.createBackup({
+                    shop,
+                    jobId: currentJobId,
+                    resourceType,
+                    items: backupItems
+                });
+
+                const uploadPath = await BulkOperationService.uploadMutationVariables(shop, mutationLines);
+                const mutationQuery = ruleKind === "tagging"
+                    ? BulkOperationService.getTagUpdateMutation(resourceType)
+                    : METAFIELDS_SET_MUTATION;
+                await JobResultService.trackMutation(shop, currentJobId, resourceType, backupItems.map((item: any) => item.resourceId));
+                const mutationOp = await BulkOperationService.runBulkMutation(shop, mutationQuery, uploadPath);
+
+                await bulkQueue.add(job.name, { ...job.data, step: 'polling_mutation', mutationOpId: mutationOp.id, count: mutationLines.length }, { delay: 5000 });
+                await log(`Started Bulk Mutation: ${mutationOp.id}`, "Pending");
+                return;
+            }
+        } catch (error) {
+            console.error("Backfill job error:", error);
+            await BulkSchedulerService.releaseAll(shop, currentJobId);
+            await log(`Failed: ${(error as Error).message}`, "Failed");
+            throw error;
+        }
+    }
+
+    /**
+     * Tag changes for every record the rule matches: add/sticky tags are added, remove tags removed.
+     */
+    static planTagChanges(rule: any, resourceType: string, records: any[], context: DateContext = {}) {
+        const actions = getRuleActions(rule);
+        const mutationLines: string[] = [];
+        const backupItems: any[] = [];
+        let matchedCount = 0;
+
+        for (const record of records) {
+            if (!BackfillService.matches(rule, resourceType, record, context)) continue;
+            matchedCount++;
+
+            // Keyed by lower-cased tag, since Shopify compares tags case-insensitively
+            const originalTags: string[] = record.tags || [];
+            const newTags = new Map(parseTagList(originalTags).map(tag => [tag.toLowerCase(), tag]));
+            for (const action of actions) {
+                for (const tag of parseTagList(action.tags)) {
+                    if (action.type === 'remove') newTags.delete(tag.toLowerCase());
+                    else if (!newTags.has(tag.toLowerCase())) newTags.set(tag.toLowerCase(), tag);
+                }
+            }
+
+            const appliedTags = Array.from(newTags.values());
+            if (isSameTagSet(originalTags, appliedTags)) continue;
+
+            mutationLines.push(JSON.stringify({ input: { id: record.id, tags: appliedTags } }));
+            backupItems.push({ resourceId: record.id, originalTags, appliedTags });
+        }
+
+        return { mutationLines, backupItems, matchedCount };
+    }
+
+    /**
+     * Metafield writes for every matching record whose value differs from the rule's value.
+     */
+    static planMetafieldChanges(rule: any, resourceType: string, records: any[], context: DateContext = {}) {
+        const { namespace, key, value, valueType } = rule.definition;
+        const mutationLines: string[] = [];
+        const backupItems: any[] = [];
+        let matchedCount = 0;
+
+        for (const record of records) {
+            if (!BackfillService.matches(rule, resourceType, record, context)) continue;
+            matchedCount++;
+
+            if (record.metafield?.value === value) continue;
+
+            mutationLines.push(JSON.stringify({
+                metafields: [{ ownerId: record.id, namespace, key, value, type: valueType }]
+            }));
+            backupItems.push({
+                resourceId: record.id,
+                originalMetafields: [{
+                    namespace,
+                    key,
+                    value: record.metafield?.value ?? null,
+                    type: record.metafield?.type || valueType,
+                }],
+            });
+        }
+
+        return { mutationLines, backupItems, matchedCount };
+    }
+
+    private static matches(rule: any, resourceType: string, record: any, context: DateContext) {
+        return TaggerService.checkRecordConditions(resourceType as any, record, rule, context);
+    }
+
+    private static async getRule(shop: string, ruleKind: BackfillRuleKind, ruleId: string) {
+        const model = ruleKind === "tagging" ? TaggingRule : MetafieldRule;
+        return await model.findOne({ shop, _id: ruleId });
+    }
+
+    private static getLogAction(ruleKind: BackfillRuleKind) {
+        return ruleKind === "tagging" ? "Tag Rule Backfill" : "Metafield Rule Backfill";
+    }
+}
@@ -0,0 +1,126 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { BackupService } from './backup.service';
+import { Backup } from '../models/Backup';
+import { BackupChunk } from '../models/BackupChunk';
+import { Settings } from '../models/Settings';
+import { UsageService } from './usage.service';
+
+vi.mock('../models/Backup', () => ({
+  Backup: { create: vi.fn(), findOne: vi.fn(), updateMany: vi.fn(), updateOne: vi.fn(), distinct: vi.fn() }
+}));
+
+vi.mock('../models/BackupChunk', () => ({
+  BackupChunk: { insertMany: vi.fn(), find: vi.fn(), updateMany: vi.fn() }
+}));
+
+vi.mock('../models/Settings', () => ({
+  Settings: { findOne: vi.fn(), findOneAndUpdate: vi.fn() }
+}));
+
+vi.mock('./usage.service', () => ({
+  UsageService: { getPlanType: vi.fn() }
+}));
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Mongoose queries are awaited after chaining .sort()/.lean()
+const query = (value: any) => ({
+  sort: () => query(value),
+  lean: async () => value,
+});
+
+describe('BackupService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(UsageService.getPlanType).mockResolvedValue("Free");
+    vi.mocked(Settings.findOne).mockResolvedValue(null);
+  });
+
+  it('should split large backups into chunks that expire with the plan retention', async () => {
+    vi.mocked(Backup.create).mockResolvedValue({ _id: "backup-1" } as any);
+    const items = Array.from({ length: 2500 }, (_, i) => ({ resourceId: `gid://shopify/Product/${i}`, originalTags: [] }));
+
+    await BackupService.createBackup({ shop: "test-shop", jobId: "job-1", resourceType: "products", items });
+
+    const header = vi.mocked(Backup.create).mock.calls[0][0] as any;
+    expect(header.itemCount).toBe(2500);
+    expect(header.items).toBeUndefined();
+    expect(header.expiresAt.getTime() - header.createdAt.getTime()).toBe(7 * DAY_MS);
+
+    const chunks = vi.mocked(BackupChunk.insertMany).mock.calls[0][0] as any[];
+    expect(chunks.map(chunk => [chunk.index, chunk.items.length])).toEqual([[0, 1000], [1, 1000], [2, 500]]);
+    expect(chunks[0]).toEqual(expect.objectContaining({ backupId: "backup-1", jobId: "job-1", expiresAt: header.expiresAt }));
+  });
+
+  it('should cap the retention setting at the plan maximum', async () => {
+    vi.mocked(Settings.findOne).mockResolvedValue({ backupRetentionDays: 90 });
+    expect(await BackupService.getRetentionDays("test-shop")).toBe(7);
+
+    vi.mocked(UsageService.getPlanType).mockResolvedValue("Pro" as any);
+    vi.mocked(Settings.findOne).mockResolvedValue({ backupRetentionDays: 30 });
+    expect(await BackupService.getRetentionDays("test-shop")).toBe(30);
+
+    vi.mocked(UsageService.getPlanType).mockResolvedValue("Free");
+    await expect(BackupService.setRetentionDays("test-shop", 30)).rejects.toThrow("up to 7 days");
+    expect(Settings.findOneAndUpdate).not.toHaveBeenCalled();
+  });
+
+  it('should give backups without an expiry the retention of their shop', async () => {
+    vi.mocked(Backup.distinct).mockResolvedValue(["free-shop", "pro-shop"] as any);
+    vi.mocked(UsageService.getPlanType).mockImplementation(async shop => (shop === "pro-shop" ? "Pro" : "Free") as any);
+
+    await BackupService.backfillExpiry();
+
+    expect(Backup.distinct).toHaveBeenCalledWith("shop", { expiresAt: { $exists: false } });
+    expect(Backup.updateMany).toHaveBeenCalledWith(
+      { shop: "free-shop", expiresAt: { $exists: false } },
+      [{ $set: { expiresAt: { $add: ["$createdAt", 7 * DAY_MS] } } }]
+    );
+    expect(Backup.updateMany).toHaveBeenCalledWith(
+      { shop: "pro-shop", expiresAt: { $exists: false } },
+      [{ $set: { expiresAt: { $add: ["$createdAt", 90 * DAY_MS] } } }]
+    );
+  });
+
+  it('should read chunked items back in order and export them as CSV', async () => {
+    vi.mocked(Backup.findOne).mockReturnValue(query({ _id: "64b000000000000000000001", jobId: "job-1", resourceType: "products" }) as any);
+    vi.mocked(BackupChunk.find).mockReturnValue(query([
+      { index: 0, items: [{ resourceId: "gid://shopify/Product/1", originalTags: ["sale", "summer"], appliedTags: ["clearance"] }] },
+      { index: 1, items: [{ resourceId: "gid://shopify/Product/2", originalTags: [], originalFields: { vendor: "Acme" } }] },
+    ]) as any);
+
+    const csv = await BackupService.exportBackup("test-shop", "64b000000000000000000001", "csv");
+
+    expect(BackupChunk.find).toHaveBeenCalledWith({ backupId: "64b000000000000000000001" });
+    expect(csv!.split("\n")).toEqual([
+      "Resource Type,Resource ID,Original Tags,Applied Tags,Original Metafields,Original Fields,Reverted At",
+      'products,gid://shopify/Product/1,"sale, summer",clearance,,,',
+      'products,gid://shopify/Product/2,,,,"{""vendor"":""Acme""}",',
+    ]);
+  });
+
+  it('should use items stored inline on older backups', async () => {
+    vi.mocked(Backup.findOne).mockReturnValue(query({ jobId: "job-1", items: [{ resourceId: "gid://shopify/Product/1", originalTags: [] }] }) as any);
+
+    const backup = await BackupService.getBackup("test-shop", "job-1");
+
+    expect(backup.items).toHaveLength(1);
+    expect(BackupChunk.find).not.toHaveBeenCalled();
+  });
+
+  it('should only claim items no other revert claimed and return the ones it got', async () => {
+    vi.mocked(Backup.findOne).mockReturnValue(query({ jobId: "job-1", items: [
+      { resourceId: "gid://shopify/Product/1", originalTags: [], revertJobId: "revert-2" },
+      { resourceId: "gid://shopify/Product/2", originalTags: [], revertJobId: "revert-1" },
+    ] }) as any);
+
+    const claimed = await BackupService.claimItems("test-shop", "job-1", ["gid://shopify/Product/1", "gid://shopify/Product/2"], "revert-2");
+
+    expect(claimed).toEqual(["gid://shopify/Product/1"]);
+    expect(BackupChunk.updateMany).toHaveBeenCalledWith(
+      { shop: "test-shop", jobId: "job-1" },
+      { $set: { "items.$[item].revertedAt": expect.any(Date), "items.$[item].revertJobId": "revert-2" } },
+      { arrayFilters: [{ "item.resourceId": { $in: ["gid://shopify/Product/1", "gid://shopify/Product/2"] }, "item.revertedAt": { $exists: false } }] }
+    );
+  });
+});
@@ -0,0 +1,253 @@
+import mongoose from "mongoose";
+import { Backup } from "../models/Backup";
+import { BackupChunk } from "../models/BackupChunk";
+import { Settings } from "../models/Settings";
+import { UsageService } from "./usage.service";
+import { getPlan } from "~/utils/get-plan";
+
+// Longest a plan keeps backups, in days
+export const BACKUP_RETENTION_DAYS: Record<"Free" | "Pro", number> = {
+    Free: 7,
+    Pro: 90,
+};
+
+export const BACKUP_RETENTION_OPTIONS = [7, 30, 90];
+
+// Items per BackupChunk: ~1000 metafield or variant snapshots stay far below the 16MB document limit
+const CHUNK_SIZE = 1000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type BackupFormat = "csv" | "jsonl";
+
+export class BackupService {
+    /**
+     * Store the items of a job before it changes them, split over BackupChunk documents
+     */
+    static async createBackup(data: {
+        shop: string;
+        jobId: string;
+        resourceType: string;
+        items: any[];
+        revertOfJobId?: string;
+    }) {
+        const { shop, jobId, items } = data;
+        const createdAt = new Date();
+        const expiresAt = new Date(createdAt.getTime() + (await BackupService.getRetentionDays(shop)) * DAY_MS);
+
+        const backup = await Backup.create({
+            shop,
+            jobId,
+            resourceType: data.resourceType,
+            revertOfJobId: data.revertOfJobId,
+            itemCount: items.length,
+            createdAt,
+            expiresAt,
+        });
+
+        const chunks = [];
+        for (let i = 0; i < items.length; i += CHUNK_SIZE) {
+            chunks.push({ backupId: backup._id, shop, jobId, index: chunks.length, createdAt, expiresAt, items: items.slice(i, i + CHUNK_SIZE) });
+        }
+        await BackupChunk.insertMany(chunks);
+
+        return backup;
+    }
+
+    /**
+     * Backup header with all its items, or null when it expired or never existed
+     */
+    static async getBackup(shop: string, jobId: string) {
+        return BackupService.loadItems(await Backup.findOne({ shop, jobId }).lean<any>());
+    }
+
+    /**
+     * Same as getBackup, by the backup's own id (a job can have one backup per resource type)
+     */
+    static async getBackupById(shop: string, backupId: string) {
+        if (!mongoose.isValidObjectId(backupId)) return null;
+        return BackupService.loadItems(await Backup.findOne({ shop, _id: backupId }).lean<any>());
+    }
+
+    private static async loadItems(backup: any) {
+        if (!backup) return null;
+
+        if (!backup.items) {
+            const chunks = await BackupChunk.find({ backupId: backup._id }).sort({ index: 1 }).lean<any[]>();
+            backup.items = chunks.flatMap(chunk => chunk.items);
+        }
+        return backup;
+    }
+
+    /**
+     * Mark items as restored, or make them revertable again when a revert is undone
+     */
+    static async markItemsReverted(shop: string, jobId: string, resourceIds: string[], reverted = true) {
+        const update = reverted
+            ? { $set: { "items.$[item].revertedAt": new Date() } }
+            : { $unset: { "items.$[item].revertedAt": 1, "items.$[item].revertJobId": 1 } };
+        const options = { arrayFilters: [{ "item.resourceId": { $in: resourceIds } }] };
+
+        await BackupChunk.updateMany({ shop, jobId }, update, options);
+        // Older backups keep their items inline
+        await Backup.updateOne({ shop, jobId, items: { $exists: true } }, update, options);
+        if (reverted) {
+            await Backup.updateOne({ shop, jobId }, { revertedAt: new Date() });
+        }
+    }
+
+    /**
+     * Claim items for a revert job. Only items no other revert claimed are marked, in one update per
+     * document, so a double submit can't revert an item twice. Returns the ids the revert got.
+     */
+    static async claimItems(shop: string, jobId: string, resourceIds: string[], revertJobId: string): Promise<string[]> {
+        const update = { $set: { "items.$[item].revertedAt": new Date(), "items.$[item].revertJobId": revertJobId } };
+        const options = { arrayFilters: [{ "item.resourceId": { $in: resourceIds }, "item.revertedAt": { $exists: false } }] };
+
+        await BackupChunk.updateMany({ shop, jobId }, update, options);
+        await Backup.updateOne({ shop, jobId, items: { $exists: true } }, update, options);
+        await Backup.updateOne({ shop, jobId }, { revertedAt: new Date() });
+
+        const backup = await BackupService.getBackup(shop, jobId);
+        return (backup?.items || [])
+            .filter((item: any) => item.revertJobId === revertJobId)
+            .map((item: any) => item.resourceId);
+    }
+
+    /**
+     * Make items claimed by a revert job revertable again: all of them when it failed, or the ones it skipped
+     */
+    static async releaseItems(shop: string, jobId: string, revertJobId: string, resourceIds?: string[]) {
+        const update = { $unset: { "items.$[item].revertedAt": 1, "items.$[item].revertJobId": 1 } };
+        const options = { arrayFilters: [{ "item.revertJobId": revertJobId, ...(resourceIds ? { "item.resourceId": { $in: resourceIds } } : {}) }] };
+
+        await BackupChunk.updateMany({ shop, jobId }, update, options);
+        await Backup.updateOne({ shop, jobId, items: { $exists: true } }, update, options);
+    }
+
+    /**
+     * True when the job has a backup with items that weren't restored yet
+     */
+    static async hasRevertableItems(shop: string, jobId: string): Promise<boolean> {
+        const notReverted = { items: { $elemMatch: { revertedAt: { $exists: false } } } };
+        const [chunk, legacy] = await Promise.all([
+            BackupChunk.exists({ shop, jobId, ...notReverted }),
+            Backup.exists({ shop, jobId, ...notReverted }),
+        ]);
+        return !!chunk || !!legacy;
+    }
+
+    /**
+     * Backups of a shop, newest first
+     */
+    static async listBackups(shop: string, page = 1, limit = 25) {
+        const [backups, totalCount] = await Promise.all([
+            Backup.find({ shop }, { items: 0 }).sort({ createdAt: -1 }).skip((page - 1) * limit).limit(limit).lean<any[]>(),
+            Backup.countDocuments({ shop }),
+        ]);
+
+        return {
+            backups: backups.map(backup => ({
+                id: backup._id.toString(),
+                jobId: backup.jobId,
+                resourceType: backup.resourceType,
+                itemCount: backup.itemCount || 0,
+                createdAt: backup.createdAt,
+                expiresAt: backup.expiresAt || null,
+                revertedAt: backup.revertedAt || null,
+                revertOfJobId: backup.revertOfJobId || null,
+            })),
+            totalCount,
+            totalPages: Math.ceil(totalCount / limit),
+            currentPage: page,
+        };
+    }
+
+    /**
+     * A backup as CSV (one row per item) or JSONL (one item object per line)
+     */
+    static async exportBackup(shop: string, backupId: string, format: BackupFormat): Promise<string | null> {
+        const backup = await BackupService.getBackupById(shop, backupId);
+        if (!backup) return null;
+
+        if (format === "jsonl") {
+            return backup.items.map((item: any) => JSON.stringify(item)).join("\n");
+        }
+
+        const escape = (value: string) => /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+        const rows = [["Resource Type", "Resource ID", "Original Tags", "Applied Tags", "Original Metafields", "Original Fields", "Reverted At"]];
+        for (const item of backup.items) {
+            rows.push([
+                backup.resourceType,
+                item.resourceId,
+                (item.originalTags || []).join(", "),
+                (item.appliedTags || []).join(", "),
+                item.originalMetafields?.length ? JSON.stringify(item.originalMetafields) : "",
+                item.originalFields ? JSON.stringify(item.originalFields) : "",
+                item.revertedAt ? new Date(item.revertedAt).toISOString() : "",
+            ]);
+        }
+        return rows.map(row => row.map(escape).join(",")).join("\n");
+    }
+
+    /**
+     * Days backups are kept: the shop's setting, capped by its plan
+     */
+    static async getRetentionDays(shop: string): Promise<number> {
+        const { days } = await BackupService.getRetentionSettings(shop);
+        return days;
+    }
+
+    /**
+     * Plan, its longest retention and the retention in effect
+     */
+    static async getRetentionSettings(shop: string) {
+        const plan = getPlan(await UsageService.getPlanType(shop)) || "Free";
+        const maxDays = BACKUP_RETENTION_DAYS[plan];
+        const settings = await Settings.findOne({ shop });
+
+        return {
+            plan,
+            maxDays,
+            days: Math.min(settings?.backupRetentionDays || maxDays, maxDays),
+        };
+    }
+
+    /**
+     * Change how long backups are kept. Existing backups move to the new expiry date too.
+     */
+    static async setRetentionDays(shop: string, days: number) {
+        const { maxDays } = await BackupService.getRetentionSettings(shop);
+        if (!BACKUP_RETENTION_OPTIONS.includes(days)) {
+            throw new Error(`Retention must be one of ${BACKUP_RETENTION_OPTIONS.join(", ")} days.`);
+        }
+        if (days > maxDays) {
+            throw new Error(`Your plan keeps backups for up to ${maxDays} days.`);
+        }
+
+        await Settings.findOneAndUpdate(
+            { shop },
+            { backupRetentionDays: days, updatedAt: new Date() },
+            { upsert: true }
+        );
+
+        const expiry = [{ $set: { expiresAt: { $add: ["$createdAt", days * DAY_MS] } } }];
+        await Backup.updateMany({ shop }, expiry);
+        await BackupChunk.updateMany({ shop }, expiry);
+    }
+
+    /**
+     * Give backups made before expiresAt existed the expiry of the shop's current retention.
+     * Backups older than that expire right away.
+     */
+    static async backfillExpiry() {
+        const shops: string[] = await Backup.distinct("shop", { expiresAt: { $exists: false } });
+        for (const shop of shops) {
+            const days = await BackupService.getRetentionDays(shop);
+            await Backup.updateMany(
+                { shop, expiresAt: { $exists: false } },
+                [{ $set: { expiresAt: { $add: ["$createdAt", days * DAY_MS] } } }]
+            );
+        }
+    }
+}
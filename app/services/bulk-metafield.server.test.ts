@@ -0,0 +1,126 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { planMetafieldChanges, processBulkMetafieldJob } from './bulk-metafield.server';
+import { BulkOperationService, METAFIELDS_DELETE_MUTATION } from './bulk_operation.service';
+import { BackupService } from './backup.service';
+import { toMetafieldOperation, validateMetafieldOperation } from '~/utils/metafield-operation';
+
+vi.mock('../shopify.server', () => ({
+  unauthenticated: { admin: vi.fn() }
+}));
+
+vi.mock('../queues', () => ({
+  bulkQueue: { add: vi.fn() }
+}));
+
+vi.mock('./backup.service', () => ({
+  BackupService: { createBackup: vi.fn() }
+}));
+
+vi.mock('../models/JobResult', () => ({
+  JobResult: { findOneAndUpdate: vi.fn(), findOne: vi.fn() }
+}));
+
+vi.mock('./bulk-scheduler.service', () => ({
+  BulkSchedulerService: {
+    acquire: vi.fn().mockResolvedValue(true),
+    acquireForStep: vi.fn().mockResolvedValue(true),
+    waitForSlot: vi.fn(),
+    release: vi.fn(),
+    releaseAll: vi.fn(),
+  }
+}));
+
+vi.mock('./job-control.service', () => ({
+  JobControlService: { recordProgress: vi.fn() }
+}));
+
+vi.mock('./activity.service', () => ({
+  ActivityService: { createLog: vi.fn() }
+}));
+
+vi.mock('./usage.service', () => ({
+  UsageService: { recordOperation: vi.fn() }
+}));
+
+vi.mock('./bulk_operation.service', async (importOriginal) => {
+  const actual: any = await importOriginal();
+  return {
+    ...actual,
+    BulkOperationService: {
+      uploadMutationVariables: vi.fn().mockResolvedValue("tmp/upload.jsonl"),
+      runBulkMutation: vi.fn().mockResolvedValue({ id: "gid://shopify/BulkOperation/2" }),
+      runBulkQuery: vi.fn(),
+      pollBulkOperation: vi.fn(),
+    }
+  };
+});
+
+describe('bulk metafield jobs', () => {
+  const records = [
+    { id: "gid://shopify/Product/1", title: "Shirt", metafield: { value: "cotton", type: "single_line_text_field" } },
+    { id: "gid://shopify/Product/2", title: "Hat", metafield: null },
+    { id: "gid://shopify/Product/3", title: "Scarf", metafield: { value: "wool", type: "single_line_text_field" } },
+  ];
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should only write items whose value changes and back up the previous value', () => {
+    const op = toMetafieldOperation({ operation: "set", namespace: "custom", key: "material", value: "wool" });
+    const { mutationLines, backupItems } = planMetafieldChanges(records, op);
+
+    expect(mutationLines).toEqual([
+      JSON.stringify({ metafields: [{ ownerId: "gid://shopify/Product/1", namespace: "custom", key: "material", value: "wool", type: "single_line_text_field" }] }),
+      JSON.stringify({ metafields: [{ ownerId: "gid://shopify/Product/2", namespace: "custom", key: "material", value: "wool", type: "single_line_text_field" }] }),
+    ]);
+    expect(backupItems[1].originalMetafields).toEqual([{ namespace: "custom", key: "material", value: null, type: "single_line_text_field" }]);
+  });
+
+  it('should leave items without the metafield alone when changing existing values', () => {
+    const op = toMetafieldOperation({ operation: "update", namespace: "custom", key: "material", value: "linen" });
+    const { preview } = planMetafieldChanges(records, op);
+
+    expect(preview.map(item => item.id)).toEqual(["gid://shopify/Product/1", "gid://shopify/Product/3"]);
+  });
+
+  it('should validate values against the metafield type', () => {
+    expect(validateMetafieldOperation(toMetafieldOperation({ namespace: "custom", key: "count", valueType: "number_integer", value: "1.5" }))).toMatch(/whole number/);
+    expect(validateMetafieldOperation(toMetafieldOperation({ namespace: "custom", key: "data", valueType: "json", value: "{" }))).toMatch(/JSON/);
+    expect(validateMetafieldOperation(toMetafieldOperation({ operation: "delete", namespace: "custom", key: "material" }))).toBeNull();
+  });
+
+  it('should delete the metafield with metafieldsDelete and back up the values', async () => {
+    const jsonl = records.map(record => JSON.stringify(record)).join("\n");
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue({ text: async () => jsonl }));
+
+    await processBulkMetafieldJob({
+      name: "bulk-metafield-update",
+      data: {
+        shop: "test-shop",
+        resourceType: "products",
+        operation: "delete",
+        namespace: "custom",
+        key: "material",
+        step: "processing",
+        resultUrl: "https://example.com/result.jsonl",
+        jobId: "job-1",
+      }
+    });
+
+    expect(BackupService.createBackup).toHaveBeenCalledWith(expect.objectContaining({
+      jobId: "job-1",
+      items: [
+        { resourceId: "gid://shopify/Product/1", originalMetafields: [{ namespace: "custom", key: "material", value: "cotton", type: "single_line_text_field" }] },
+        { resourceId: "gid://shopify/Product/3", originalMetafields: [{ namespace: "custom", key: "material", value: "wool", type: "single_line_text_field" }] },
+      ]
+    }));
+    expect(BulkOperationService.uploadMutationVariables).toHaveBeenCalledWith("test-shop", [
+      JSON.stringify({ metafields: [{ ownerId: "gid://shopify/Product/1", namespace: "custom", key: "material" }] }),
+      JSON.stringify({ metafields: [{ ownerId: "gid://shopify/Product/3", namespace: "custom", key: "material" }] }),
+    ]);
+    expect(BulkOperationService.runBulkMutation).toHaveBeenCalledWith("test-shop", METAFIELDS_DELETE_MUTATION, "tmp/upload.jsonl");
+
+    vi.unstubAllGlobals();
+  });
+});
@@ -0,0 +1,222 @@
+import { ActivityService } from "./activity.service";
+import { JobControlService } from "./job-control.service";
+import { BulkSchedulerService } from "./bulk-scheduler.service";
+import { fetchBulkQueryResult, selectTargetRecords } from "./bulk.server";
+import { BulkOperationService, METAFIELDS_DELETE_MUTATION, METAFIELDS_SET_MUTATION } from "./bulk_operation.service";
+import { bulkQueue } from "../queues";
+import { BackupService } from "./backup.service";
+import { UsageService } from "./usage.service";
+import { JobResultService } from "./job-result.service";
+import type { BulkTarget, MetafieldBulkResourceType, MetafieldOperation, ValuePreview } from "~/types/bulk.types";
+import { describeBulkTarget, toBulkTarget } from "~/utils/bulk-target";
+import { describeMetafieldOperation, planMetafieldChange, toMetafieldOperation } from "~/utils/metafield-operation";
+import { getResourceFields, parseBulkJsonl } from "~/utils/webhook-shape";
+
+export const BULK_METAFIELD_JOB = "bulk-metafield-update";
+
+const RESOURCES: Record<MetafieldBulkResourceType, { connection: string; titleField: string }> = {
+  products: { connection: "products", titleField: "title" },
+  variants: { connection: "productVariants", titleField: "displayName" },
+  customers: { connection: "customers", titleField: "displayName" },
+};
+
+/**
+ * Why a target can't be used for a metafield job, or null if it is fine.
+ * Rule conditions are written against product/customer payloads, so variants can only be filtered by search query.
+ */
+export function getMetafieldTargetError(resourceType: MetafieldBulkResourceType, target: BulkTarget): string | null {
+  if (target.mode === "conditions" && resourceType === "variants") {
+    return "Conditions are only available for products and customers. Use a search query for variants.";
+  }
+  return null;
+}
+
+function buildMetafieldQuery(resourceType: MetafieldBulkResourceType, op: MetafieldOperation, target: BulkTarget): string {
+  const { connection, titleField } = RESOURCES[resourceType];
+  const search = target.mode === "query" ? target.searchQuery : "";
+  const metafieldField = `metafield(namespace: ${JSON.stringify(op.namespace)}, key: ${JSON.stringify(op.key)}) { value type }`;
+  const fields = target.mode === "conditions" && resourceType !== "variants"
+    ? getResourceFields(resourceType, metafieldField)
+    : `id
+                  ${titleField}
+                  ${metafieldField}`;
+
+  return `
+  {
+      ${connection}${search ? `(query: ${JSON.stringify(search)})` : ""} {
+          edges {
+              node {
+                  ${fields}
+              }
+          }
+      }
+  }`;
+}
+
+async function selectRecords(shop: string, resourceType: MetafieldBulkResourceType, jsonlText: string, target: BulkTarget) {
+  if (resourceType === "variants") return parseBulkJsonl(jsonlText);
+  return selectTargetRecords(shop, resourceType, jsonlText, target);
+}
+
+/**
+ * Mutation variables and backup entries for every record whose metafield changes
+ */
+export function planMetafieldChanges(records: any[], op: MetafieldOperation) {
+  const mutationLines: string[] = [];
+  const backupItems: any[] = [];
+  const preview: ValuePreview[] = [];
+  const { namespace, key, valueType } = op;
+
+  for (const record of records) {
+    const before: string | null = record.metafield?.value ?? null;
+    const after = planMetafieldChange(before, op);
+    if (after === undefined) continue;
+
+    mutationLines.push(JSON.stringify({
+      metafields: [after === null
+        ? { ownerId: record.id, namespace, key }
+        : { ownerId: record.id, namespace, key, value: after, type: valueType }]
+    }));
+    backupItems.push({
+      resourceId: record.id,
+      originalMetafields: [{ namespace, key, value: before, type: record.metafield?.type || valueType }],
+    });
+    preview.push({
+      id: record.id,
+      title: record.title || record.displayName || "Untitled",
+      before,
+      after,
+    });
+  }
+
+  return { mutationLines, backupItems, preview };
+}
+
+/**
+ * Dry run: items whose metafield would change, with the value before/after
+ */
+export async function dryRunMetafieldOperation(
+  shop: string,
+  resourceType: MetafieldBulkResourceType,
+  op: MetafieldOperation,
+  target: BulkTarget = toBulkTarget({})
+): Promise<{ count: number; preview: ValuePreview[] }> {
+  const jsonlText = await fetchBulkQueryResult(shop, buildMetafieldQuery(resourceType, op, target));
+  const records = await selectRecords(shop, resourceType, jsonlText, target);
+  const { preview } = planMetafieldChanges(records, op);
+
+  return {
+    count: preview.length,
+    preview: preview.slice(0, 10),
+  };
+}
+
+export async function processBulkMetafieldJob(job: any) {
+  const { shop, resourceType, step = 'init', operationId } = job.data;
+  const currentJobId = job.data.jobId;
+  const op = toMetafieldOperation(job.data);
+  const target = toBulkTarget(job.data);
+  const description = `${describeMetafieldOperation(op)} on ${resourceType}${describeBulkTarget(target)}`;
+  const log = (detail: string, status: string) => ActivityService.createLog({
+    shop,
+    resourceType,
+    resourceId: "Bulk",
+    action: "Bulk Metafield Update",
+    detail,
+    jobId: currentJobId,
+    status,
+  });
+  console.log(`Processing bulk metafield job for ${shop}: ${description} [Step: ${step}]`);
+
+  try {
+    // --- STEP 1: INIT (Start Query) ---
+    if (step === 'init') {
+      if (!(await BulkSchedulerService.acquireForStep(job, bulkQueue, "query"))) return;
+      const bulkOp = await BulkOperationService.runBulkQuery(shop, buildMetafieldQuery(resourceType, op, target));
+      await bulkQueue.add(job.name, { ...job.data, step: 'polling_query', operationId: bulkOp.id }, { delay: 5000 });
+      await log(`${description}: started Bulk Query ${bulkOp.id}`, "Pending");
+      return;
+    }
+
+    // --- STEP 2: POLLING QUERY ---
+    if (step === 'polling_query') {
+      const bulkOp = await BulkOperationService.pollBulkOperation(shop, operationId);
+      await JobControlService.recordProgress(shop, currentJobId, bulkOp);
+
+      if (bulkOp.status === 'RUNNING' || bulkOp.status === 'CREATED') {
+        await bulkQueue.add(job.name, job.data, { delay: 5000 });
+        return;
+      }
+      await BulkSchedulerService.release(shop, "query", currentJobId);
+
+      if (bulkOp.status === 'COMPLETED') {
+        if (!bulkOp.url || parseInt(bulkOp.objectCount) === 0) {
+          await log(`No ${resourceType} found for: ${description}`, "Success");
+          return;
+        }
+        await bulkQueue.add(job.name, { ...job.data, step: 'processing', resultUrl: bulkOp.url }, { delay: 0 });
+        return;
+      }
+
+      throw new Error(`Bulk Query Failed: ${bulkOp.status} - ${bulkOp.errorCode}`);
+    }
+
+    // --- STEP 3: PROCESSING & MUTATION ---
+    if (step === 'processing') {
+      if (!(await BulkSchedulerService.acquireForStep(job, bulkQueue, "mutation"))) return;
+
+      const response = await fetch(job.data.resultUrl);
+      const records = await selectRecords(shop, resourceType, await response.text(), target);
+      const { mutationLines, backupItems } = planMetafieldChanges(records, op);
+
+      if (mutationLines.length === 0) {
+        await BulkSchedulerService.release(shop, "mutation", currentJobId);
+        await log(`No updates needed for ${records.length} ${resourceType}.`, "Success");
+        return;
+      }
+
+      await BackupService.createBackup({
+        shop,
+        jobId: currentJobId,
+        resourceType,
+        items: backupItems
+      });
+
+      const uploadPath = await BulkOperationService.uploadMutationVariables(shop, mutationLines);
+      const mutation = op.operation === "delete" ? METAFIELDS_DELETE_MUTATION : METAFIELDS_SET_MUTATION;
+      await JobResultService.trackMutation(shop, currentJobId, resourceType, backupItems.map(item => item.resourceId));
+      const mutationOp = await BulkOperationService.runBulkMutation(shop, mutation, uploadPath);
+
+      await bulkQueue.add(job.name, { ...job.data, step: 'polling_mutation', mutationOpId: mutationOp.id, count: mutationLines.length }, { delay: 5000 });
+      await log(`Started Bulk Mutation: ${mutationOp.id}`, "Pending");
+      return;
+    }
+
+    // --- STEP 4: POLLING MUTATION ---
+    if (step === 'polling_mutation') {
+      const { mutationOpId, count } = job.data;
+      const bulkOp = await BulkOperationService.pollBulkOperation(shop, mutationOpId);
+      await JobControlService.recordProgress(shop, currentJobId, bulkOp);
+
+      if (bulkOp.status === 'RUNNING' || bulkOp.status === 'CREATED') {
+        await bulkQueue.add(job.name, job.data, { delay: 5000 });
+        return;
+      }
+      await BulkSchedulerService.release(shop, "mutation", currentJobId);
+
+      if (bulkOp.status === 'COMPLETED') {
+        const summary = await JobResultService.recordMutationResult(shop, currentJobId, resourceType, bulkOp.url, count);
+        await UsageService.recordOperation(shop, summary.succeeded);
+        await log(`${description}: updated ${summary.succeeded} items.${JobResultService.describeFailures(summary)}`, JobResultService.getLogStatus(summary));
+        return;
+      }
+
+      throw new Error(`Bulk Mutation Failed: ${bulkOp.status}`);
+    }
+  } catch (error) {
+    console.error("Bulk metafield job error:", error);
+    await BulkSchedulerService.releaseAll(shop, currentJobId);
+    await log(`Failed: ${(error as Error).message}`, "Failed");
+    throw error;
+  }
+}
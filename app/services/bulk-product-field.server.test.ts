@@ -0,0 +1,145 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { planProductFieldChanges, processBulkProductFieldJob } from './bulk-product-field.server';
+import { BulkOperationService, VARIANTS_BULK_UPDATE_MUTATION } from './bulk_operation.service';
+import { BackupService } from './backup.service';
+import { toProductFieldOperation, validateProductFieldOperation } from '~/utils/product-field-operation';
+
+vi.mock('../shopify.server', () => ({
+  unauthenticated: { admin: vi.fn() }
+}));
+
+vi.mock('../queues', () => ({
+  bulkQueue: { add: vi.fn() }
+}));
+
+vi.mock('./backup.service', () => ({
+  BackupService: { createBackup: vi.fn() }
+}));
+
+vi.mock('../models/JobResult', () => ({
+  JobResult: { findOneAndUpdate: vi.fn(), findOne: vi.fn() }
+}));
+
+vi.mock('./bulk-scheduler.service', () => ({
+  BulkSchedulerService: {
+    acquire: vi.fn().mockResolvedValue(true),
+    acquireForStep: vi.fn().mockResolvedValue(true),
+    waitForSlot: vi.fn(),
+    release: vi.fn(),
+    releaseAll: vi.fn(),
+  }
+}));
+
+vi.mock('./job-control.service', () => ({
+  JobControlService: { recordProgress: vi.fn() }
+}));
+
+vi.mock('./activity.service', () => ({
+  ActivityService: { createLog: vi.fn() }
+}));
+
+vi.mock('./usage.service', () => ({
+  UsageService: { recordOperation: vi.fn() }
+}));
+
+vi.mock('./bulk_operation.service', async (importOriginal) => {
+  const actual: any = await importOriginal();
+  return {
+    ...actual,
+    BulkOperationService: {
+      uploadMutationVariables: vi.fn().mockResolvedValue("tmp/upload.jsonl"),
+      runBulkMutation: vi.fn().mockResolvedValue({ id: "gid://shopify/BulkOperation/2" }),
+      runBulkQuery: vi.fn(),
+      pollBulkOperation: vi.fn(),
+    }
+  };
+});
+
+describe('bulk product field jobs', () => {
+  const products = [
+    {
+      id: "gid://shopify/Product/1",
+      title: "Runner",
+      vendor: "Acme",
+      productType: "Shoes",
+      status: "ACTIVE",
+      seo: { title: null },
+      variants: [
+        { id: "gid://shopify/ProductVariant/11", price: "100.00", compareAtPrice: null },
+        { id: "gid://shopify/ProductVariant/12", price: "19.99", compareAtPrice: "25.00" },
+      ]
+    },
+  ];
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should fill SEO title templates and skip products that already match', () => {
+    const op = toProductFieldOperation({ field: "seo_title", value: "{{title}} | {{vendor}} {{product_type}}" });
+    const { mutationLines, backupItems } = planProductFieldChanges(products, op);
+
+    expect(mutationLines).toEqual([
+      JSON.stringify({ input: { id: "gid://shopify/Product/1", seo: { title: "Runner | Acme Shoes" } } }),
+    ]);
+    expect(backupItems[0].originalFields).toEqual({ seo: { title: "" } });
+
+    const unchanged = planProductFieldChanges(products, toProductFieldOperation({ field: "vendor", value: "Acme" }));
+    expect(unchanged.mutationLines).toEqual([]);
+  });
+
+  it('should only adjust compare-at prices that exist', () => {
+    const op = toProductFieldOperation({ field: "compare_at_price", adjustment: "decrease_amount", value: "5" });
+    const { preview } = planProductFieldChanges(products, op);
+
+    expect(preview).toEqual([{ id: "gid://shopify/Product/1", title: "Runner", before: "25.00", after: "20.00" }]);
+  });
+
+  it('should validate numbers, statuses and templates', () => {
+    expect(validateProductFieldOperation(toProductFieldOperation({ field: "price", adjustment: "increase_percent", value: "abc" }))).toMatch(/positive number/);
+    expect(validateProductFieldOperation(toProductFieldOperation({ field: "price", adjustment: "clear" }))).toMatch(/can't be cleared/);
+    expect(validateProductFieldOperation(toProductFieldOperation({ field: "status", value: "HIDDEN" }))).toMatch(/active, draft or archived/);
+    expect(validateProductFieldOperation(toProductFieldOperation({ field: "compare_at_price", adjustment: "clear" }))).toBeNull();
+  });
+
+  it('should raise variant prices by a percentage with productVariantsBulkUpdate', async () => {
+    const jsonl = [
+      JSON.stringify({ id: "gid://shopify/Product/1", title: "Runner", tags: [] }),
+      JSON.stringify({ id: "gid://shopify/ProductVariant/11", price: "100.00", __parentId: "gid://shopify/Product/1" }),
+      JSON.stringify({ id: "gid://shopify/ProductVariant/12", price: "19.99", __parentId: "gid://shopify/Product/1" }),
+    ].join("\n");
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue({ text: async () => jsonl }));
+
+    await processBulkProductFieldJob({
+      name: "bulk-product-field-update",
+      data: {
+        shop: "test-shop",
+        field: "price",
+        adjustment: "increase_percent",
+        value: "10",
+        step: "processing",
+        resultUrl: "https://example.com/result.jsonl",
+        jobId: "job-1",
+      }
+    });
+
+    expect(BulkOperationService.uploadMutationVariables).toHaveBeenCalledWith("test-shop", [
+      JSON.stringify({
+        productId: "gid://shopify/Product/1",
+        variants: [
+          { id: "gid://shopify/ProductVariant/11", price: "110.00" },
+          { id: "gid://shopify/ProductVariant/12", price: "21.99" },
+        ]
+      }),
+    ]);
+    expect(BackupService.createBackup).toHaveBeenCalledWith(expect.objectContaining({
+      items: [{
+        resourceId: "gid://shopify/Product/1",
+        originalFields: { variants: [{ id: "gid://shopify/ProductVariant/11", price: "100.00" }, { id: "gid://shopify/ProductVariant/12", price: "19.99" }] }
+      }]
+    }));
+    expect(BulkOperationService.runBulkMutation).toHaveBeenCalledWith("test-shop", VARIANTS_BULK_UPDATE_MUTATION, "tmp/upload.jsonl");
+
+    vi.unstubAllGlobals();
+  });
+});
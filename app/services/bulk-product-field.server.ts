@@ -0,0 +1,183 @@
+import { ActivityService } from "./activity.service";
+import { JobControlService } from "./job-control.service";
+import { BulkSchedulerService } from "./bulk-scheduler.service";
+import { fetchBulkQueryResult, selectTargetRecords } from "./bulk.server";
+import { BulkOperationService, PRODUCT_UPDATE_MUTATION, VARIANTS_BULK_UPDATE_MUTATION } from "./bulk_operation.service";
+import { bulkQueue } from "../queues";
+import { BackupService } from "./backup.service";
+import { UsageService } from "./usage.service";
+import { JobResultService } from "./job-result.service";
+import type { BulkTarget, ProductFieldOperation, ValuePreview } from "~/types/bulk.types";
+import { describeBulkTarget, toBulkTarget } from "~/utils/bulk-target";
+import { describeProductFieldOperation, isVariantField, planProductFieldChange, toProductFieldOperation } from "~/utils/product-field-operation";
+import { getResourceFields } from "~/utils/webhook-shape";
+
+export const BULK_PRODUCT_FIELD_JOB = "bulk-product-field-update";
+
+/**
+ * Every field rules can use plus the SEO title, so the same query serves all targets and fields
+ */
+function buildProductQuery(target: BulkTarget): string {
+  const search = target.mode === "query" ? target.searchQuery : "";
+  return `
+  {
+      products${search ? `(query: ${JSON.stringify(search)})` : ""} {
+          edges {
+              node {
+                  ${getResourceFields("products", "seo { title }")}
+              }
+          }
+      }
+  }`;
+}
+
+/**
+ * Mutation variables and backup entries for every product the operation changes.
+ * Price fields are written per product with productVariantsBulkUpdate, other fields with productUpdate.
+ */
+export function planProductFieldChanges(products: any[], op: ProductFieldOperation) {
+  const mutationLines: string[] = [];
+  const backupItems: any[] = [];
+  const preview: ValuePreview[] = [];
+
+  for (const product of products) {
+    const change = planProductFieldChange(product, op);
+    if (!change) continue;
+
+    mutationLines.push(JSON.stringify(change.variants
+      ? { productId: product.id, variants: change.variants }
+      : { input: change.productInput }));
+    backupItems.push({ resourceId: product.id, originalFields: change.original });
+    preview.push({ id: product.id, title: product.title || "Untitled", before: change.before, after: change.after });
+  }
+
+  return { mutationLines, backupItems, preview };
+}
+
+/**
+ * Dry run: products that would change, with the field value before/after
+ */
+export async function dryRunProductFieldOperation(
+  shop: string,
+  op: ProductFieldOperation,
+  target: BulkTarget = toBulkTarget({})
+): Promise<{ count: number; preview: ValuePreview[] }> {
+  const jsonlText = await fetchBulkQueryResult(shop, buildProductQuery(target));
+  const products = await selectTargetRecords(shop, "products", jsonlText, target);
+  const { preview } = planProductFieldChanges(products, op);
+
+  return {
+    count: preview.length,
+    preview: preview.slice(0, 10),
+  };
+}
+
+export async function processBulkProductFieldJob(job: any) {
+  const { shop, step = 'init', operationId } = job.data;
+  const currentJobId = job.data.jobId;
+  const op = toProductFieldOperation(job.data);
+  const target = toBulkTarget(job.data);
+  const description = `${describeProductFieldOperation(op)}${describeBulkTarget(target)}`;
+  const log = (detail: string, status: string) => ActivityService.createLog({
+    shop,
+    resourceType: "products",
+    resourceId: "Bulk",
+    action: "Bulk Product Update",
+    detail,
+    jobId: currentJobId,
+    status,
+  });
+  console.log(`Processing bulk product field job for ${shop}: ${description} [Step: ${step}]`);
+
+  try {
+    // --- STEP 1: INIT (Start Query) ---
+    if (step === 'init') {
+      if (!(await BulkSchedulerService.acquireForStep(job, bulkQueue, "query"))) return;
+      const bulkOp = await BulkOperationService.runBulkQuery(shop, buildProductQuery(target));
+      await bulkQueue.add(job.name, { ...job.data, step: 'polling_query', operationId: bulkOp.id }, { delay: 5000 });
+      await log(`${description}: started Bulk Query ${bulkOp.id}`, "Pending");
+      return;
+    }
+
+    // --- STEP 2: POLLING QUERY ---
+    if (step === 'polling_query') {
+      const bulkOp = await BulkOperationService.pollBulkOperation(shop, operationId);
+      await JobControlService.recordProgress(shop, currentJobId, bulkOp);
+
+      if (bulkOp.status === 'RUNNING' || bulkOp.status === 'CREATED') {
+        await bulkQueue.add(job.name, job.data, { delay: 5000 });
+        return;
+      }
+      await BulkSchedulerService.release(shop, "query", currentJobId);
+
+      if (bulkOp.status === 'COMPLETED') {
+        if (!bulkOp.url || parseInt(bulkOp.objectCount) === 0) {
+          await log(`No products found for: ${description}`, "Success");
+          return;
+        }
+        await bulkQueue.add(job.name, { ...job.data, step: 'processing', resultUrl: bulkOp.url }, { delay: 0 });
+        return;
+      }
+
+      throw new Error(`Bulk Query Failed: ${bulkOp.status} - ${bulkOp.errorCode}`);
+    }
+
+    // --- STEP 3: PROCESSING & MUTATION ---
+    if (step === 'processing') {
+      if (!(await BulkSchedulerService.acquireForStep(job, bulkQueue, "mutation"))) return;
+
+      const response = await fetch(job.data.resultUrl);
+      const products = await selectTargetRecords(shop, "products", await response.text(), target);
+      const { mutationLines, backupItems } = planProductFieldChanges(products, op);
+
+      if (mutationLines.length === 0) {
+        await BulkSchedulerService.release(shop, "mutation", currentJobId);
+        await log(`No updates needed for ${products.length} products.`, "Success");
+        return;
+      }
+
+      await BackupService.createBackup({
+        shop,
+        jobId: currentJobId,
+        resourceType: "products",
+        items: backupItems
+      });
+
+      const uploadPath = await BulkOperationService.uploadMutationVariables(shop, mutationLines);
+      const mutation = isVariantField(op.field) ? VARIANTS_BULK_UPDATE_MUTATION : PRODUCT_UPDATE_MUTATION;
+      await JobResultService.trackMutation(shop, currentJobId, "products", backupItems.map(item => item.resourceId));
+      const mutationOp = await BulkOperationService.runBulkMutation(shop, mutation, uploadPath);
+
+      await bulkQueue.add(job.name, { ...job.data, step: 'polling_mutation', mutationOpId: mutationOp.id, count: mutationLines.length }, { delay: 5000 });
+      await log(`Started Bulk Mutation: ${mutationOp.id}`, "Pending");
+      return;
+    }
+
+    // --- STEP 4: POLLING MUTATION ---
+    if (step === 'polling_mutation') {
+      const { mutationOpId, count } = job.data;
+      const bulkOp = await BulkOperationService.pollBulkOperation(shop, mutationOpId);
+      await JobControlService.recordProgress(shop, currentJobId, bulkOp);
+
+      if (bulkOp.status === 'RUNNING' || bulkOp.status === 'CREATED') {
+        await bulkQueue.add(job.name, job.data, { delay: 5000 });
+        return;
+      }
+      await BulkSchedulerService.release(shop, "mutation", currentJobId);
+
+      if (bulkOp.status === 'COMPLETED') {
+        const summary = await JobResultService.recordMutationResult(shop, currentJobId, "products", bulkOp.url, count);
+        await UsageService.recordOperation(shop, summary.succeeded);
+        await log(`${description}: updated ${summary.succeeded} products.${JobResultService.describeFailures(summary)}`, JobResultService.getLogStatus(summary));
+        return;
+      }
+
+      throw new Error(`Bulk Mutation Failed: ${bulkOp.status}`);
+    }
+  } catch (error) {
+    console.error("Bulk product field job error:", error);
+    await BulkSchedulerService.releaseAll(shop, currentJobId);
+    await log(`Failed: ${(error as Error).message}`, "Failed");
+    throw error;
+  }
+}
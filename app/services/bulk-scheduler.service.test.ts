@@ -0,0 +1,86 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { BulkSchedulerService } from './bulk-scheduler.service';
+import { BulkOperationSlot } from '../models/BulkOperationSlot';
+import { BulkOperationService } from './bulk_operation.service';
+import { bulkQueue } from '../queues';
+
+vi.mock('../models/BulkOperationSlot', () => ({
+  BulkOperationSlot: { findOneAndUpdate: vi.fn(), updateOne: vi.fn(), updateMany: vi.fn() }
+}));
+
+vi.mock('../queues', () => ({
+  bulkQueue: { add: vi.fn() }
+}));
+
+vi.mock('./bulk_operation.service', () => ({
+  BulkOperationService: { getCurrentBulkOperation: vi.fn() }
+}));
+
+// acquire reads the slot, joins the line, then reads the line; a claim is the last findOneAndUpdate
+const mockSlot = (slot: any, line: any, claimed?: any) => {
+  vi.mocked(BulkOperationSlot.findOneAndUpdate).mockResolvedValueOnce(slot).mockResolvedValueOnce(line);
+  if (claimed) vi.mocked(BulkOperationSlot.findOneAndUpdate).mockResolvedValueOnce(claimed);
+};
+
+describe('BulkSchedulerService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(BulkOperationSlot.findOneAndUpdate).mockReset();
+    vi.mocked(BulkOperationSlot.updateOne).mockResolvedValue({ matchedCount: 0 } as any);
+    vi.mocked(BulkOperationService.getCurrentBulkOperation).mockResolvedValue({ status: "COMPLETED" });
+  });
+
+  it('should give a free slot to the first job in line', async () => {
+    const line = { ownerJobId: null, waiters: [{ jobId: "job-1" }] };
+    mockSlot({ ownerJobId: null, waiters: [] }, line, line);
+
+    expect(await BulkSchedulerService.acquire("test-shop", "query", "job-1")).toBe(true);
+
+    expect(BulkOperationService.getCurrentBulkOperation).toHaveBeenCalledWith("test-shop", "QUERY");
+    expect(BulkOperationSlot.findOneAndUpdate).toHaveBeenLastCalledWith(
+      expect.objectContaining({ shop: "test-shop", type: "query", "waiters.0.jobId": "job-1" }),
+      expect.objectContaining({ $set: expect.objectContaining({ ownerJobId: "job-1" }) })
+    );
+  });
+
+  it('should keep jobs in line while another job holds the slot or is ahead', async () => {
+    mockSlot({ ownerJobId: "job-1" }, { ownerJobId: "job-1", lockedAt: new Date(), waiters: [{ jobId: "job-2" }] });
+    expect(await BulkSchedulerService.acquire("test-shop", "mutation", "job-2")).toBe(false);
+
+    mockSlot({ ownerJobId: null }, { ownerJobId: null, waiters: [{ jobId: "job-2" }, { jobId: "job-3" }] });
+    expect(await BulkSchedulerService.acquire("test-shop", "mutation", "job-3")).toBe(false);
+
+    expect(BulkOperationService.getCurrentBulkOperation).not.toHaveBeenCalled();
+    expect(BulkOperationSlot.updateOne).toHaveBeenCalledWith(
+      expect.objectContaining({ "waiters.jobId": { $ne: "job-3" } }),
+      { $push: { waiters: expect.objectContaining({ jobId: "job-3" }) } }
+    );
+  });
+
+  it('should wait for an operation Shopify is still running', async () => {
+    mockSlot({ ownerJobId: null }, { ownerJobId: null, waiters: [{ jobId: "job-1" }] });
+    vi.mocked(BulkOperationService.getCurrentBulkOperation).mockResolvedValue({ status: "RUNNING" });
+
+    expect(await BulkSchedulerService.acquire("test-shop", "mutation", "job-1")).toBe(false);
+    expect(BulkOperationSlot.findOneAndUpdate).toHaveBeenCalledTimes(2);
+  });
+
+  it('should take over a slot whose holder went away', async () => {
+    const lockedAt = new Date(Date.now() - 60 * 60 * 1000);
+    mockSlot(
+      { ownerJobId: "job-1", lockedAt },
+      { ownerJobId: "job-1", lockedAt, waiters: [{ jobId: "job-2" }] },
+      { ownerJobId: "job-1" }
+    );
+
+    expect(await BulkSchedulerService.acquire("test-shop", "query", "job-2")).toBe(true);
+  });
+
+  it('should queue a step again when its slot is taken', async () => {
+    mockSlot({ ownerJobId: "job-1" }, { ownerJobId: "job-1", lockedAt: new Date(), waiters: [{ jobId: "job-2" }] });
+    const step = { name: "bulk-tag-update", data: { shop: "test-shop", jobId: "job-2", step: "init" } };
+
+    expect(await BulkSchedulerService.acquireForStep(step, bulkQueue as any, "query")).toBe(false);
+    expect(bulkQueue.add).toHaveBeenCalledWith("bulk-tag-update", step.data, { delay: 5000 });
+  });
+});
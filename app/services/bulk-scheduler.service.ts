@@ -0,0 +1,106 @@
+import type { Queue } from "bullmq";
+import { BulkOperationSlot } from "../models/BulkOperationSlot";
+import { BulkOperationService } from "./bulk_operation.service";
+
+export type BulkSlotType = "query" | "mutation";
+
+// A holder that went away (worker crash, lost job) gives the slot up after this long
+const STALE_LOCK_MS = 30 * 60 * 1000;
+// Waiters retry every few seconds; one not seen for this long is dropped from the line
+const STALE_WAITER_MS = 2 * 60 * 1000;
+const RETRY_DELAY_MS = 5000;
+
+const isRunning = (status?: string) => status === "CREATED" || status === "RUNNING";
+
+/**
+ * Serializes Shopify bulk operations per shop: one query and one mutation at a time,
+ * handed out to jobs in the order they asked for them.
+ */
+export class BulkSchedulerService {
+    /**
+     * Claim the shop's query or mutation slot. Returns false when another job holds it or is
+     * ahead in line; the caller keeps its place by calling again.
+     */
+    static async acquire(shop: string, type: BulkSlotType, ownerId: string): Promise<boolean> {
+        const now = new Date();
+        const slot = await BulkOperationSlot.findOneAndUpdate(
+            { shop, type },
+            { $setOnInsert: { ownerJobId: null, waiters: [] } },
+            { upsert: true, new: true }
+        );
+        if (slot.ownerJobId === ownerId) return true;
+
+        // Join the line, or refresh our place in it
+        const refreshed = await BulkOperationSlot.updateOne(
+            { shop, type, "waiters.jobId": ownerId },
+            { $set: { "waiters.$.seenAt": now } }
+        );
+        if (refreshed.matchedCount === 0) {
+            await BulkOperationSlot.updateOne(
+                { shop, type, "waiters.jobId": { $ne: ownerId } },
+                { $push: { waiters: { jobId: ownerId, requestedAt: now, seenAt: now } } }
+            );
+        }
+        const line = await BulkOperationSlot.findOneAndUpdate(
+            { shop, type },
+            { $pull: { waiters: { seenAt: { $lt: new Date(now.getTime() - STALE_WAITER_MS) } } } },
+            { new: true }
+        );
+
+        const staleBefore = new Date(now.getTime() - STALE_LOCK_MS);
+        const isFree = !line.ownerJobId || line.lockedAt < staleBefore;
+        if (!isFree || line.waiters[0]?.jobId !== ownerId) return false;
+
+        // Operations the slot doesn't know about (started by a holder that went away) still block Shopify
+        const current = await BulkOperationService.getCurrentBulkOperation(shop, type === "query" ? "QUERY" : "MUTATION");
+        if (isRunning(current?.status)) return false;
+
+        const claimed = await BulkOperationSlot.findOneAndUpdate(
+            { shop, type, "waiters.0.jobId": ownerId, $or: [{ ownerJobId: null }, { lockedAt: { $lt: staleBefore } }] },
+            { $set: { ownerJobId: ownerId, lockedAt: now }, $pull: { waiters: { jobId: ownerId } } }
+        );
+        return !!claimed;
+    }
+
+    /**
+     * Claim a slot for a job step. When it's taken, the step is queued again and false is returned.
+     */
+    static async acquireForStep(job: { name: string; data: any }, queue: Queue, type: BulkSlotType): Promise<boolean> {
+        if (await BulkSchedulerService.acquire(job.data.shop, type, job.data.jobId)) return true;
+
+        await queue.add(job.name, job.data, { delay: RETRY_DELAY_MS });
+        return false;
+    }
+
+    /**
+     * Wait in line for a slot, for callers that can't be queued again (dry runs)
+     */
+    static async waitForSlot(shop: string, type: BulkSlotType, ownerId: string, timeoutMs: number) {
+        const deadline = Date.now() + timeoutMs;
+        while (!(await BulkSchedulerService.acquire(shop, type, ownerId))) {
+            if (Date.now() >= deadline) {
+                await BulkSchedulerService.releaseAll(shop, ownerId);
+                throw new Error(`Another bulk ${type} is running for this shop. Try again when it finishes.`);
+            }
+            await new Promise(resolve => setTimeout(resolve, 2000));
+        }
+    }
+
+    static async release(shop: string, type: BulkSlotType, ownerId: string) {
+        await BulkOperationSlot.updateOne(
+            { shop, type, ownerJobId: ownerId },
+            { $set: { ownerJobId: null }, $unset: { lockedAt: 1 } }
+        );
+    }
+
+    /**
+     * Give up every slot and place in line of a job that failed or was cancelled
+     */
+    static async releaseAll(shop: string, ownerId: string) {
+        await BulkOperationSlot.updateMany(
+            { shop, ownerJobId: ownerId },
+            { $set: { ownerJobId: null }, $unset: { lockedAt: 1 } }
+        );
+        await BulkOperationSlot.updateMany({ shop }, { $pull: { waiters: { jobId: ownerId } } });
+    }
+}
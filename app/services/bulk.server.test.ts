@@ -0,0 +1,285 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { processBulkJob } from './bulk.server';
+import { BulkOperationService } from './bulk_operation.service';
+import { BackupService } from './backup.service';
+import { JobResult } from '../models/JobResult';
+import { UsageService } from './usage.service';
+import { ActivityService } from './activity.service';
+import { bulkQueue } from '../queues';
+import { applyTagOperation, buildTagSearchQuery, toTagOperation } from '~/utils/tag-operation';
+
+vi.mock('../shopify.server', () => ({
+  unauthenticated: { admin: vi.fn() }
+}));
+
+vi.mock('../queues', () => ({
+  bulkQueue: { add: vi.fn() }
+}));
+
+vi.mock('./backup.service', () => ({
+  BackupService: { createBackup: vi.fn() }
+}));
+
+vi.mock('../models/JobResult', () => ({
+  JobResult: { findOneAndUpdate: vi.fn(), findOne: vi.fn() }
+}));
+
+vi.mock('./bulk-scheduler.service', () => ({
+  BulkSchedulerService: {
+    acquire: vi.fn().mockResolvedValue(true),
+    acquireForStep: vi.fn().mockResolvedValue(true),
+    waitForSlot: vi.fn(),
+    release: vi.fn(),
+    releaseAll: vi.fn(),
+  }
+}));
+
+vi.mock('./job-control.service', () => ({
+  JobControlService: { recordProgress: vi.fn() }
+}));
+
+vi.mock('./activity.service', () => ({
+  ActivityService: { createLog: vi.fn() }
+}));
+
+vi.mock('./usage.service', () => ({
+  UsageService: { recordOperation: vi.fn() }
+}));
+
+vi.mock('./tagger.service', async (importOriginal) => {
+  const actual: any = await importOriginal();
+  actual.TaggerService.getShopTimezone = vi.fn().mockResolvedValue("UTC");
+  return actual;
+});
+
+vi.mock('./bulk_operation.service', async (importOriginal) => {
+  const actual: any = await importOriginal();
+  return {
+    BulkOperationService: {
+      getTagUpdateMutation: actual.BulkOperationService.getTagUpdateMutation,
+      uploadMutationVariables: vi.fn().mockResolvedValue("tmp/upload.jsonl"),
+      runBulkMutation: vi.fn().mockResolvedValue({ id: "gid://shopify/BulkOperation/2" }),
+      runBulkQuery: vi.fn(),
+      pollBulkOperation: vi.fn(),
+    }
+  };
+});
+
+describe('processBulkJob', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should retag orders with orderUpdate and back up the original tags', async () => {
+    const jsonl = [
+      JSON.stringify({ id: "gid://shopify/Order/1", tags: ["wholesale", "rush"] }),
+      JSON.stringify({ id: "gid://shopify/Order/2", tags: ["wholesale"] }),
+    ].join("\n");
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue({ text: async () => jsonl }));
+
+    await processBulkJob({
+      name: "bulk-tag-update",
+      data: {
+        shop: "test-shop",
+        resourceType: "orders",
+        operation: "replace",
+        findTag: "wholesale",
+        replaceTag: "b2b",
+        step: "processing",
+        resultUrl: "https://example.com/result.jsonl",
+        jobId: "job-1",
+      }
+    });
+
+    expect(BackupService.createBackup).toHaveBeenCalledWith({
+      shop: "test-shop",
+      jobId: "job-1",
+      resourceType: "orders",
+      items: [
+        { resourceId: "gid://shopify/Order/1", originalTags: ["wholesale", "rush"], appliedTags: ["rush", "b2b"] },
+        { resourceId: "gid://shopify/Order/2", originalTags: ["wholesale"], appliedTags: ["b2b"] },
+      ]
+    });
+    expect(BulkOperationService.uploadMutationVariables).toHaveBeenCalledWith("test-shop", [
+      JSON.stringify({ input: { id: "gid://shopify/Order/1", tags: ["rush", "b2b"] } }),
+      JSON.stringify({ input: { id: "gid://shopify/Order/2", tags: ["b2b"] } }),
+    ]);
+    expect(BulkOperationService.runBulkMutation).toHaveBeenCalledWith(
+      "test-shop",
+      expect.stringContaining("orderUpdate(input: $input)"),
+      "tmp/upload.jsonl"
+    );
+    expect(bulkQueue.add).toHaveBeenCalledWith("bulk-tag-update", expect.objectContaining({ step: "polling_mutation", count: 2 }), { delay: 5000 });
+
+    vi.unstubAllGlobals();
+  });
+
+  it('should only bill items the mutation result reports as updated', async () => {
+    const jobResult = {
+      items: [{ resourceId: "gid://shopify/Order/1" }, { resourceId: "gid://shopify/Order/2" }],
+      save: vi.fn(),
+    } as any;
+    vi.mocked(JobResult.findOne).mockResolvedValue(jobResult);
+    vi.mocked(BulkOperationService.pollBulkOperation).mockResolvedValue({ status: "COMPLETED", url: "https://example.com/mutation.jsonl" });
+    const resultJsonl = [
+      JSON.stringify({ data: { orderUpdate: { order: { id: "gid://shopify/Order/1" }, userErrors: [] } }, __lineNumber: 0 }),
+      JSON.stringify({ data: { orderUpdate: { order: null, userErrors: [{ field: ["tags"], message: "Order is archived" }] } }, __lineNumber: 1 }),
+    ].join("\n");
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue({ text: async () => resultJsonl }));
+
+    await processBulkJob({
+      name: "bulk-tag-update",
+      data: {
+        shop: "test-shop",
+        resourceType: "orders",
+        operation: "add",
+        addTags: "b2b",
+        step: "polling_mutation",
+        mutationOpId: "gid://shopify/BulkOperation/2",
+        count: 2,
+        jobId: "job-1",
+      }
+    });
+
+    expect(jobResult.items).toEqual([
+      { resourceId: "gid://shopify/Order/1", status: "success", error: undefined },
+      { resourceId: "gid://shopify/Order/2", status: "failed", error: "tags: Order is archived" },
+    ]);
+    expect(jobResult.failedCount).toBe(1);
+    expect(UsageService.recordOperation).toHaveBeenCalledWith("test-shop", 1);
+    expect(ActivityService.createLog).toHaveBeenCalledWith(expect.objectContaining({
+      detail: expect.stringContaining("Successfully updated 1 items. 1 failed"),
+      status: "Success",
+    }));
+
+    vi.unstubAllGlobals();
+  });
+
+  it('should rename tags matching a wildcard pattern and leave other items alone', async () => {
+    const jsonl = [
+      JSON.stringify({ id: "gid://shopify/Product/1", tags: ["summer-2024-shirts", "sale"] }),
+      JSON.stringify({ id: "gid://shopify/Product/2", tags: ["winter"] }),
+    ].join("\n");
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue({ text: async () => jsonl }));
+
+    await processBulkJob({
+      name: "bulk-tag-update",
+      data: {
+        shop: "test-shop",
+        resourceType: "products",
+        operation: "replace",
+        matchMode: "wildcard",
+        findTags: ["summer-2024-*"],
+        replaceTag: "archive-summer-2024-*",
+        step: "processing",
+        resultUrl: "https://example.com/result.jsonl",
+        jobId: "job-2",
+      }
+    });
+
+    expect(BulkOperationService.uploadMutationVariables).toHaveBeenCalledWith("test-shop", [
+      JSON.stringify({ input: { id: "gid://shopify/Product/1", tags: ["sale", "archive-summer-2024-shirts"] } }),
+    ]);
+
+    vi.unstubAllGlobals();
+  });
+
+  it('should query every item for pattern operations', async () => {
+    (BulkOperationService.runBulkQuery as any).mockResolvedValue({ id: "gid://shopify/BulkOperation/1" });
+
+    await processBulkJob({
+      name: "bulk-tag-update",
+      data: { shop: "test-shop", resourceType: "products", operation: "remove", matchMode: "regex", findTag: "^tmp-", jobId: "job-3" }
+    });
+
+    const query = (BulkOperationService.runBulkQuery as any).mock.calls[0][1];
+    expect(query).toContain("products {");
+    expect(query).not.toContain("query:");
+  });
+
+  it('should escape tags with spaces and quotes in the search query', async () => {
+    (BulkOperationService.runBulkQuery as any).mockResolvedValue({ id: "gid://shopify/BulkOperation/1" });
+
+    await processBulkJob({
+      name: "bulk-tag-update",
+      data: {
+        shop: "test-shop",
+        resourceType: "products",
+        operation: "remove",
+        findTag: 'summer sale, 12" vinyl',
+        targetMode: "query",
+        searchQuery: "vendor:Acme",
+        jobId: "job-4"
+      }
+    });
+
+    const query = (BulkOperationService.runBulkQuery as any).mock.calls[0][1];
+    const search = JSON.stringify('(vendor:Acme) AND (tag:"summer sale" OR tag:"12\\" vinyl")');
+    expect(query).toContain(`products(query: ${search})`);
+  });
+
+  it('should only change items matching the target conditions', async () => {
+    const jsonl = [
+      JSON.stringify({ id: "gid://shopify/Product/1", vendor: "Acme", tags: ["shoes"] }),
+      JSON.stringify({ id: "gid://shopify/ProductVariant/11", inventoryQuantity: 0, __parentId: "gid://shopify/Product/1" }),
+      JSON.stringify({ id: "gid://shopify/Product/2", vendor: "Acme", tags: [] }),
+      JSON.stringify({ id: "gid://shopify/ProductVariant/21", inventoryQuantity: 4, __parentId: "gid://shopify/Product/2" }),
+      JSON.stringify({ id: "gid://shopify/Product/3", vendor: "Other", tags: [] }),
+    ].join("\n");
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue({ text: async () => jsonl }));
+
+    await processBulkJob({
+      name: "bulk-tag-update",
+      data: {
+        shop: "test-shop",
+        resourceType: "products",
+        operation: "add",
+        addTags: ["discontinued"],
+        targetMode: "conditions",
+        conditions: [
+          { field: "vendor", operator: "equals", value: "Acme" },
+          { field: "total_inventory", operator: "less_or_equal", value: "0" },
+        ],
+        conditionLogic: "AND",
+        step: "processing",
+        resultUrl: "https://example.com/result.jsonl",
+        jobId: "job-5",
+      }
+    });
+
+    expect(BulkOperationService.uploadMutationVariables).toHaveBeenCalledWith("test-shop", [
+      JSON.stringify({ input: { id: "gid://shopify/Product/1", tags: ["shoes", "discontinued"] } }),
+    ]);
+
+    vi.unstubAllGlobals();
+  });
+});
+
+describe('applyTagOperation', () => {
+  it('should replace any of several tags with one tag', () => {
+    const op = toTagOperation({ operation: "replace", findTag: "a, b, c", replaceTag: "d" });
+    expect(applyTagOperation(["a", "c", "keep"], op)).toEqual(["keep", "d"]);
+    expect(buildTagSearchQuery(op)).toBe('tag:"a" OR tag:"b" OR tag:"c"');
+  });
+
+  it('should add several tags to items having the find tag', () => {
+    const op = toTagOperation({ operation: "add", findTag: "z", addTags: "x, y" });
+    expect(applyTagOperation(["z"], op)).toEqual(["z", "x", "y"]);
+    expect(applyTagOperation(["other"], op)).toEqual(["other"]);
+  });
+
+  it('should keep legacy single-tag add jobs working', () => {
+    const op = toTagOperation({ operation: "add", findTag: "vip", replaceTag: "loyal" });
+    expect(applyTagOperation(["vip"], op)).toEqual(["vip", "loyal"]);
+  });
+
+  it('should substitute regex capture groups', () => {
+    const op = toTagOperation({ operation: "replace", matchMode: "regex", findTag: "^size-(\\w+)$", replaceTag: "Size: $1" });
+    expect(applyTagOperation(["size-xl", "red"], op)).toEqual(["red", "Size: xl"]);
+  });
+
+  it('should remove tags matching a wildcard case-insensitively', () => {
+    const op = toTagOperation({ operation: "remove", matchMode: "wildcard", findTag: "TMP-*" });
+    expect(applyTagOperation(["tmp-1", "tmp-2", "keep"], op)).toEqual(["keep"]);
+  });
+});
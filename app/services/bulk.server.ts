@@ -1,50 +1,85 @@
 import { unauthenticated } from "../shopify.server";
 import { ActivityService } from "./activity.service";
+import { JobControlService } from "./job-control.service";
+import { BulkSchedulerService } from "./bulk-scheduler.service";
 import { BulkOperationService } from "./bulk_operation.service";
 import { bulkQueue } from "../queues";
-import { Backup } from "../models/Backup";
+import { BackupService } from "./backup.service";
 import { UsageService } from "./usage.service";
+import { JobResultService } from "./job-result.service";
+import { TaggerService } from "./tagger.service";
+import { generateJobId } from "~/utils/id-generator";
+import type { BulkPreview, BulkTarget, TagOperation } from "~/types/bulk.types";
+import { combineSearchQueries, describeBulkTarget, toBulkTarget } from "~/utils/bulk-target";
+import { applyTagOperation, buildTagSearchQuery, describeTagOperation, hasTagChanges, toTagOperation } from "~/utils/tag-operation";
+import { runWithTimeout } from "~/utils/regex.server";
+import { getResourceFields, parseBulkJsonl } from "~/utils/webhook-shape";
+
+type BulkResourceType = "products" | "customers" | "orders";
+
+const TITLE_FIELDS: Record<BulkResourceType, string> = {
+  products: "title",
+  customers: "displayName",
+  orders: "name",
+};
 
 /**
- * Dry run: Query items that would be affected by the operation
+ * Bulk query for the records an operation can touch.
+ * The search query (JSON encoded, so quotes in tags can't break the GraphQL string) narrows
+ * the scan; condition targets also fetch every field rules can use and are filtered afterwards.
  */
-export async function dryRunTagOperation(
-  shop: string,
-  resourceType: "products" | "customers" | "orders",
-  operation: "replace" | "add" | "remove",
-  findTag: string,
-  replaceTag?: string
-): Promise<{
-  count: number;
-  preview: Array<{ id: string; title?: string; tags: string[] }>;
-}> {
-  // Build query based on operation
-  let query = "";
-
-  if (operation === "replace" || operation === "remove") {
-    query = `tag:${findTag}`;
-  } else if (operation === "add") {
-    // For add operation, query all items (we'll add tag to those that don't have it)
-    // But we can't query "NOT tag:X" efficiently in bulk, so we query all and filter
-    // For simplicity, let's just query items WITHOUT the tag
-    query = `NOT tag:${findTag}`;
-  }
-
-  // Construct GraphQL query with title/name field for preview
-  const titleField = resourceType === "products" ? "title" : resourceType === "customers" ? "displayName" : "name";
-  const graphqlQuery = `
+function buildTargetQuery(resourceType: BulkResourceType, tagOperation: TagOperation, target: BulkTarget): string {
+  const search = combineSearchQueries(
+    target.mode === "query" ? target.searchQuery : "",
+    buildTagSearchQuery(tagOperation)
+  );
+  const fields = target.mode === "conditions"
+    ? getResourceFields(resourceType)
+    : `id
+                  ${TITLE_FIELDS[resourceType]}
+                  tags`;
+
+  return `
   {
-      ${resourceType}(query: "${query}") {
+      ${resourceType}${search ? `(query: ${JSON.stringify(search)})` : ""} {
           edges {
               node {
-                  id
-                  ${titleField}
-                  tags
+                  ${fields}
               }
           }
       }
   }`;
+}
+
+/**
+ * Records of a bulk query result that belong to the target
+ */
+export async function selectTargetRecords(shop: string, resourceType: BulkResourceType, jsonlText: string, target: BulkTarget): Promise<any[]> {
+  const records = parseBulkJsonl(jsonlText);
+  if (target.mode !== "conditions") return records;
 
+  const context = { timezone: await TaggerService.getShopTimezone(shop) };
+  return records.filter(record => TaggerService.checkRecordConditions(resourceType, record, target, context));
+}
+
+// How long a dry run waits in line for the shop's bulk query slot
+const DRY_RUN_SLOT_WAIT_MS = 60 * 1000;
+
+/**
+ * Run a bulk query and wait for it to finish (used by dry runs).
+ * Returns the JSONL result, or "" when nothing matched.
+ */
+export async function fetchBulkQueryResult(shop: string, graphqlQuery: string): Promise<string> {
+  const ownerId = `dry-run-${generateJobId()}`;
+  await BulkSchedulerService.waitForSlot(shop, "query", ownerId, DRY_RUN_SLOT_WAIT_MS);
+  try {
+    return await pollBulkQueryResult(shop, graphqlQuery);
+  } finally {
+    await BulkSchedulerService.release(shop, "query", ownerId);
+  }
+}
+
+async function pollBulkQueryResult(shop: string, graphqlQuery: string): Promise<string> {
   const bulkOp = await BulkOperationService.runBulkQuery(shop, graphqlQuery);
 
   // Poll until complete
@@ -68,28 +103,53 @@ export async function dryRunTagOperation(
     throw new Error("Bulk query timeout");
   }
 
-  // Check if URL exists before trying to fetch
+  // No URL means no results
   if (!result.url) {
-    // No results found - return empty
-    return {
-      count: 0,
-      preview: [],
-    };
+    return "";
   }
 
-  // Download and parse results
   const response = await fetch(result.url);
-  const jsonlText = await response.text();
-  const lines = jsonlText.split("\n").filter(line => line.trim() !== "");
+  return await response.text();
+}
+
+/**
+ * Tags after the operation. Regex operations get a time budget per item, so a slow pattern fails the job instead of blocking the worker.
+ */
+const applyToItem = (tags: string[], tagOperation: TagOperation): string[] =>
+  tagOperation.matchMode === "regex"
+    ? runWithTimeout(() => applyTagOperation(tags, tagOperation))
+    : applyTagOperation(tags, tagOperation);
 
-  const items = lines.map(line => {
-    const item = JSON.parse(line);
-    return {
+/**
+ * Dry run: Query items that would be affected by the operation and show their tags before/after
+ */
+export async function dryRunTagOperation(
+  shop: string,
+  resourceType: BulkResourceType,
+  tagOperation: TagOperation,
+  target: BulkTarget = toBulkTarget({})
+): Promise<{
+  count: number;
+  preview: BulkPreview[];
+}> {
+  const graphqlQuery = buildTargetQuery(resourceType, tagOperation, target);
+
+  const jsonlText = await fetchBulkQueryResult(shop, graphqlQuery);
+  const records = await selectTargetRecords(shop, resourceType, jsonlText, target);
+
+  // Pattern and condition targets scan more items than they change, so only count the ones whose tags actually change
+  const items: BulkPreview[] = [];
+  for (const item of records) {
+    const before: string[] = item.tags || [];
+    const after = applyToItem(before, tagOperation);
+    if (!hasTagChanges(before, after)) continue;
+    items.push({
       id: item.id,
       title: item.title || item.displayName || item.name || "Untitled",
-      tags: item.tags || [],
-    };
-  });
+      before,
+      after,
+    });
+  }
 
   return {
     count: items.length,
@@ -98,24 +158,18 @@ export async function dryRunTagOperation(
 }
 
 export async function processBulkJob(job: any) {
-  const { shop, resourceType, findTag, replaceTag, operation, step = 'init', operationId, mutationOpId } = job.data;
+  const { shop, resourceType, step = 'init', operationId, mutationOpId } = job.data;
   const currentJobId = job.data.jobId;
-  console.log(`Processing bulk job for ${shop}: ${operation} ${findTag} -> ${replaceTag} [Step: ${step}]`);
+  const tagOperation = toTagOperation(job.data);
+  const target = toBulkTarget(job.data);
+  const description = `${describeTagOperation(tagOperation)}${describeBulkTarget(target)}`;
+  console.log(`Processing bulk job for ${shop}: ${description} [Step: ${step}]`);
 
   try {
     // --- STEP 1: INIT (Start Query) ---
     if (step === 'init') {
-      const query = `
-            {
-                ${resourceType}(query: "tag:${findTag}") {
-                    edges {
-                        node {
-                            id
-                            tags
-                        }
-                    }
-                }
-            }`;
+      if (!(await BulkSchedulerService.acquireForStep(job, bulkQueue, "query"))) return;
+      const query = buildTargetQuery(resourceType, tagOperation, target);
 
       const bulkOp = await BulkOperationService.runBulkQuery(shop, query);
       await bulkQueue.add(job.name, { ...job.data, step: 'polling_query', operationId: bulkOp.id, jobId: currentJobId }, { delay: 5000 });
@@ -135,11 +189,13 @@ export async function processBulkJob(job: any) {
     // --- STEP 2: POLLING QUERY ---
     if (step === 'polling_query') {
       const bulkOp = await BulkOperationService.pollBulkOperation(shop, operationId);
+      await JobControlService.recordProgress(shop, currentJobId, bulkOp);
 
       if (bulkOp.status === 'RUNNING' || bulkOp.status === 'CREATED') {
         await bulkQueue.add(job.name, job.data, { delay: 5000 });
         return;
       }
+      await BulkSchedulerService.release(shop, "query", currentJobId);
 
       if (bulkOp.status === 'COMPLETED') {
         if (parseInt(bulkOp.objectCount) === 0) {
@@ -148,7 +204,7 @@ export async function processBulkJob(job: any) {
             resourceType,
             resourceId: "Bulk",
             action: "Bulk Operation",
-            detail: `No items found with tag '${findTag}'`,
+            detail: `No items found for: ${description}`,
             jobId: currentJobId,
             status: "Success",
           });
@@ -172,48 +228,24 @@ export async function processBulkJob(job: any) {
           resourceType,
           resourceId: "Bulk",
           action: "Bulk Operation",
-          detail: `No results available for tag operation '${findTag}'`,
+          detail: `No results available for: ${description}`,
           jobId: currentJobId,
           status: "Failed",
         });
         return;
       }
 
+      if (!(await BulkSchedulerService.acquireForStep(job, bulkQueue, "mutation"))) return;
+
       const response = await fetch(resultUrl);
-      const jsonlText = await response.text();
-      const lines = jsonlText.split('\n').filter(line => line.trim() !== '');
+      const records = await selectTargetRecords(shop, resourceType, await response.text(), target);
 
       const mutations = [];
       const backupItems = [];
 
-      for (const line of lines) {
-        const item = JSON.parse(line);
-        // Note: bulkOperationRunQuery returns nested structure slightly differently depending on query
-        // But here we asked for edges { node { id tags } } so the JSONL lines are the nodes directly?
-        // Actually, JSONL from bulk query flattens the structure. It will be objects with { id, tags }.
-        // Let's assume standard JSONL output.
-
-        let newTags = [...(item.tags || [])];
-        let needsUpdate = false;
-
-        if (operation === "replace") {
-          if (newTags.includes(findTag)) {
-            newTags = newTags.filter(t => t !== findTag);
-            if (!newTags.includes(replaceTag)) newTags.push(replaceTag);
-            needsUpdate = true;
-          }
-        } else if (operation === "remove") {
-          if (newTags.includes(findTag)) {
-            newTags = newTags.filter(t => t !== findTag);
-            needsUpdate = true;
-          }
-        } else if (operation === "add") {
-          // If we found it via query, it has the tag.
-          if (!newTags.includes(replaceTag)) {
-            newTags.push(replaceTag);
-            needsUpdate = true;
-          }
-        }
+      for (const item of records) {
+        const newTags = applyToItem(item.tags || [], tagOperation);
+        const needsUpdate = hasTagChanges(item.tags || [], newTags);
 
         if (needsUpdate) {
           // We use tagsAdd or tagsRemove? 
@@ -231,18 +263,20 @@ export async function processBulkJob(job: any) {
           });
           backupItems.push({
             resourceId: item.id,
-            originalTags: item.tags || []
+            originalTags: item.tags || [],
+            appliedTags: newTags
           });
         }
       }
 
       if (mutations.length === 0) {
+        await BulkSchedulerService.release(shop, "mutation", currentJobId);
         await ActivityService.createLog({
           shop,
           resourceType,
           resourceId: "Bulk",
           action: "Bulk Operation",
-          detail: `No updates needed for ${lines.length} items.`,
+          detail: `No updates needed for ${records.length} items.`,
           jobId: currentJobId,
           status: "Success",
         });
@@ -250,7 +284,7 @@ export async function processBulkJob(job: any) {
       }
 
       // Save Backup
-      await Backup.create({
+      await BackupService.createBackup({
         shop,
         jobId: currentJobId, // Use BullMQ Job ID as reference
         resourceType,
@@ -258,31 +292,25 @@ export async function processBulkJob(job: any) {
       });
 
       // Create Mutation JSONL
-      // We will use `productUpdate` or `customerUpdate`.
-      // Variable: input: { id: "...", tags: [...] }
+      // productUpdate / customerUpdate / orderUpdate, variable: input: { id: "...", tags: [...] }
       const mutationLines = mutations.map(m => JSON.stringify({ input: m }));
-      const mutationFileContent = mutationLines.join('\n');
+      const mutationQuery = BulkOperationService.getTagUpdateMutation(resourceType);
 
-      // Upload
-      const stagedUpload = await BulkOperationService.getStagedUploadUrl(shop);
-      const formData = new FormData();
-      stagedUpload.parameters.forEach((p: any) => formData.append(p.name, p.value));
-      formData.append("file", new Blob([mutationFileContent], { type: "text/jsonl" }));
+      // Upload & Run Mutation
+      const uploadPath = await BulkOperationService.uploadMutationVariables(shop, mutationLines);
+      await JobResultService.trackMutation(shop, currentJobId, resourceType, mutations.map(m => m.id));
+      const mutationOp = await BulkOperationService.runBulkMutation(shop, mutationQuery, uploadPath);
 
-      await fetch(stagedUpload.url, {
-        method: "POST",
-        body: formData,
-      });
-
-      // Run Mutation
-      // We need to know if it's product or customer to choose the mutation.
-      const mutationQuery = resourceType === 'products'
-        ? `mutation productUpdate($input: ProductInput!) { productUpdate(input: $input) { product { id } userErrors { message } } }`
-        : `mutation customerUpdate($input: CustomerInput!) { customerUpdate(input: $input) { customer { id } userErrors { message } } }`;
+      await bulkQueue.add(job.name, { ...job.data, step: 'polling_mutation', mutationOpId: mutationOp.id, count: mutations.length, jobId: currentJobId }, { delay: 5000 });
+      return;
+    }
 
-      const mutationOp = await BulkOperationService.runBulkMutation(shop, mutationQuery, stagedUpload.parameters.find((p: any) => p.name === 'key').value);
+    // --- Revert queued before reverts ran as their own job, waiting for the shop's mutation slot ---
+    if (step === 'start_mutation') {
+      if (!(await BulkSchedulerService.acquireForStep(job, bulkQueue, "mutation"))) return;
 
-      await bulkQueue.add(job.name, { ...job.data, step: 'polling_mutation', mutationOpId: mutationOp.id, count: mutations.length, jobId: currentJobId }, { delay: 5000 });
+      const mutationOp = await BulkOperationService.runBulkMutation(shop, job.data.mutationQuery, job.data.uploadPath);
+      await bulkQueue.add(job.name, { ...job.data, step: 'polling_mutation', mutationOpId: mutationOp.id }, { delay: 5000 });
       return;
     }
 
@@ -290,25 +318,29 @@ export async function processBulkJob(job: any) {
     if (step === 'polling_mutation') {
       const { mutationOpId, count } = job.data;
       const bulkOp = await BulkOperationService.pollBulkOperation(shop, mutationOpId);
+      await JobControlService.recordProgress(shop, currentJobId, bulkOp);
 
       if (bulkOp.status === 'RUNNING' || bulkOp.status === 'CREATED') {
         await bulkQueue.add(job.name, job.data, { delay: 5000 });
         return;
       }
+      await BulkSchedulerService.release(shop, "mutation", currentJobId);
 
       if (bulkOp.status === 'COMPLETED') {
+        // Items with userErrors are in the result file, not in the operation status
+        const summary = await JobResultService.recordMutationResult(shop, currentJobId, resourceType, bulkOp.url, count);
+
         // Record usage
-        await UsageService.recordOperation(shop, count);
+        await UsageService.recordOperation(shop, summary.succeeded);
 
-        // We could check for errors in the result file, but for MVP we assume success if no system errors.
         await ActivityService.createLog({
           shop,
           resourceType,
           resourceId: "Bulk",
           action: "Bulk Operation",
-          detail: `Successfully updated ${count} items.`,
+          detail: `Successfully updated ${summary.succeeded} items.${JobResultService.describeFailures(summary)}`,
           jobId: currentJobId,
-          status: "Success",
+          status: JobResultService.getLogStatus(summary),
         });
         return;
       }
@@ -318,6 +350,7 @@ export async function processBulkJob(job: any) {
 
   } catch (error) {
     console.error("Bulk job error:", error);
+    await BulkSchedulerService.releaseAll(shop, currentJobId);
     await ActivityService.createLog({
       shop,
       resourceType,
@@ -1,6 +1,28 @@
 import { unauthenticated } from "../shopify.server";
 
+const TAG_UPDATE_MUTATIONS: Record<string, string> = {
+    products: `mutation productUpdate($input: ProductInput!) { productUpdate(input: $input) { product { id } userErrors { message } } }`,
+    customers: `mutation customerUpdate($input: CustomerInput!) { customerUpdate(input: $input) { customer { id } userErrors { message } } }`,
+    orders: `mutation orderUpdate($input: OrderInput!) { orderUpdate(input: $input) { order { id } userErrors { message } } }`,
+};
+
+export const METAFIELDS_SET_MUTATION = `mutation metafieldsSet($metafields: [MetafieldsSetInput!]!) { metafieldsSet(metafields: $metafields) { metafields { id } userErrors { field message } } }`;
+export const PRODUCT_UPDATE_MUTATION = TAG_UPDATE_MUTATIONS.products;
+export const VARIANTS_BULK_UPDATE_MUTATION = `mutation productVariantsBulkUpdate($productId: ID!, $variants: [ProductVariantsBulkInput!]!) { productVariantsBulkUpdate(productId: $productId, variants: $variants) { productVariants { id } userErrors { field message } } }`;
+export const METAFIELDS_DELETE_MUTATION = `mutation metafieldsDelete($metafields: [MetafieldIdentifierInput!]!) { metafieldsDelete(metafields: $metafields) { deletedMetafields { ownerId namespace key } userErrors { field message } } }`;
+
 export class BulkOperationService {
+    /**
+     * Bulk mutation that overwrites the tags of one resource per JSONL line (`{ input: { id, tags } }`).
+     */
+    static getTagUpdateMutation(resourceType: string) {
+        const mutation = TAG_UPDATE_MUTATIONS[resourceType];
+        if (!mutation) {
+            throw new Error(`Unsupported resource type: ${resourceType}`);
+        }
+        return mutation;
+    }
+
     static async runBulkQuery(shop: string, query: string) {
         const { admin } = await unauthenticated.admin(shop);
         const response = await admin.graphql(
@@ -59,6 +81,28 @@ export class BulkOperationService {
         return data.data.node;
     }
 
+    /**
+     * The shop's latest bulk query or mutation, whether or not this app is tracking it
+     */
+    static async getCurrentBulkOperation(shop: string, type: "QUERY" | "MUTATION") {
+        const { admin } = await unauthenticated.admin(shop);
+        const response = await admin.graphql(
+            `#graphql
+            query currentBulkOperation($type: BulkOperationType!) {
+                currentBulkOperation(type: $type) {
+                    id
+                    status
+                }
+            }`,
+            {
+                variables: { type },
+            }
+        );
+
+        const data = await response.json();
+        return data.data.currentBulkOperation;
+    }
+
     static async cancelBulkOperation(shop: string, operationId: string) {
         const { admin } = await unauthenticated.admin(shop);
         const response = await admin.graphql(
@@ -121,6 +165,20 @@ export class BulkOperationService {
         return data.data.stagedUploadsCreate.stagedTargets[0];
     }
 
+    /**
+     * Upload mutation variables (one JSON object per line) and return the staged upload path.
+     */
+    static async uploadMutationVariables(shop: string, lines: string[]) {
+        const stagedUpload = await BulkOperationService.getStagedUploadUrl(shop);
+        const formData = new FormData();
+        stagedUpload.parameters.forEach((p: any) => formData.append(p.name, p.value));
+        formData.append("file", new Blob([lines.join('\n')], { type: "text/jsonl" }));
+
+        await fetch(stagedUpload.url, { method: "POST", body: formData });
+
+        return stagedUpload.parameters.find((p: any) => p.name === 'key').value as string;
+    }
+
     static async runBulkMutation(shop: string, mutation: string, uploadPath: string) {
         const { admin } = await unauthenticated.admin(shop);
         const response = await admin.graphql(
@@ -0,0 +1,106 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { CleanerService } from './cleaner.service';
+import { BulkOperationService } from './bulk_operation.service';
+import { BackupService } from './backup.service';
+import { ActivityService } from './activity.service';
+import { cleanerQueue } from '../queues';
+
+vi.mock('../shopify.server', () => ({
+  unauthenticated: { admin: vi.fn() }
+}));
+
+vi.mock('../queues', () => ({
+  cleanerQueue: { add: vi.fn() }
+}));
+
+vi.mock('./backup.service', () => ({
+  BackupService: { createBackup: vi.fn() }
+}));
+
+vi.mock('./job-result.service', () => ({
+  JobResultService: { trackMutation: vi.fn() }
+}));
+
+vi.mock('./bulk-scheduler.service', () => ({
+  BulkSchedulerService: {
+    acquireForStep: vi.fn().mockResolvedValue(true),
+    release: vi.fn(),
+    releaseAll: vi.fn(),
+  }
+}));
+
+vi.mock('./job-control.service', () => ({
+  JobControlService: { recordProgress: vi.fn() }
+}));
+
+vi.mock('./activity.service', () => ({
+  ActivityService: { createLog: vi.fn() }
+}));
+
+vi.mock('./usage.service', () => ({
+  UsageService: { recordOperation: vi.fn() }
+}));
+
+vi.mock('./bulk_operation.service', async (importOriginal) => {
+  const actual: any = await importOriginal();
+  return {
+    ...actual,
+    BulkOperationService: {
+      getTagUpdateMutation: actual.BulkOperationService.getTagUpdateMutation,
+      uploadMutationVariables: vi.fn().mockResolvedValue("tmp/upload.jsonl"),
+      runBulkMutation: vi.fn().mockResolvedValue({ id: "gid://shopify/BulkOperation/2" }),
+      runBulkQuery: vi.fn().mockResolvedValue({ id: "gid://shopify/BulkOperation/1" }),
+      pollBulkOperation: vi.fn(),
+    }
+  };
+});
+
+describe('CleanerService tag merge', () => {
+  const merges = [{ canonical: "Sale", variants: ["sale", "SALE "] }];
+  const data = { shop: "test-shop", merges, jobId: "merge-1", resourceType: "products" };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should query items carrying any variant', async () => {
+    await CleanerService.processCleanerJob({ name: "merge-tags", data });
+
+    const query = vi.mocked(BulkOperationService.runBulkQuery).mock.calls[0][1];
+    expect(query).toContain('products(query: "tag:\\"sale\\" OR tag:\\"SALE \\"")');
+    expect(ActivityService.createLog).toHaveBeenCalledWith(expect.objectContaining({ action: "Tag Merge", status: "Pending" }));
+  });
+
+  it('should rewrite variants to the canonical tag and back up the original tags', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue({
+      text: async () => [
+        '{"id":"gid://shopify/Product/1","tags":["sale","Sale","new"]}',
+        '{"id":"gid://shopify/Product/2","tags":["Sale"]}',
+      ].join('\n')
+    }));
+
+    await CleanerService.processCleanerJob({ name: "merge-tags", data: { ...data, step: "processing", resultUrl: "https://example.com/result.jsonl" } });
+
+    expect(BackupService.createBackup).toHaveBeenCalledWith({
+      shop: "test-shop",
+      jobId: "merge-1",
+      resourceType: "products",
+      items: [{ resourceId: "gid://shopify/Product/1", originalTags: ["sale", "Sale", "new"], appliedTags: ["Sale", "new"] }],
+    });
+    expect(BulkOperationService.uploadMutationVariables).toHaveBeenCalledWith("test-shop", [
+      JSON.stringify({ input: { id: "gid://shopify/Product/1", tags: ["Sale", "new"] } }),
+    ]);
+  });
+
+  it('should move on to the next resource type under its own job id when nothing matches', async () => {
+    vi.mocked(BulkOperationService.pollBulkOperation).mockResolvedValue({ status: "COMPLETED", objectCount: "0" } as any);
+
+    await CleanerService.processCleanerJob({ name: "merge-tags", data: { ...data, step: "polling_query", operationId: "op-1" } });
+
+    const [name, next] = vi.mocked(cleanerQueue.add).mock.calls[0] as any[];
+    expect(name).toBe("merge-tags");
+    expect(next).toEqual(expect.objectContaining({ step: "init", resourceType: "customers", merges }));
+    expect(next.jobId).not.toBe("merge-1");
+    expect(ActivityService.createLog).toHaveBeenCalledWith(expect.objectContaining({ jobId: "merge-1", status: "Success" }));
+  });
+});
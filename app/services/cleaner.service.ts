@@ -1,9 +1,20 @@
 import { unauthenticated } from "../shopify.server";
 import { ActivityService } from "./activity.service";
+import { JobControlService } from "./job-control.service";
+import { BulkSchedulerService } from "./bulk-scheduler.service";
 import { BulkOperationService } from "./bulk_operation.service";
 import { cleanerQueue } from "../queues";
-import { Backup } from "../models/Backup";
+import { BackupService } from "./backup.service";
 import { UsageService } from "./usage.service";
+import { JobResultService } from "./job-result.service";
+import type { TagMerge } from "~/types/cleaner.types";
+import { quoteSearchValue } from "~/utils/bulk-target";
+import { generateJobId } from "~/utils/id-generator";
+import { hasTagChanges } from "~/utils/tag-operation";
+import { mergeTags } from "~/utils/tag-scan";
+
+// Resource types a cleanup or merge job goes through, in order
+export const CLEANER_RESOURCES = ["products", "customers", "orders"];
 
 export class CleanerService {
     // Kept for backward compatibility or small tasks if needed, but cleaner job uses processCleanerJob
@@ -13,31 +24,44 @@ export class CleanerService {
     }
 
     static async processCleanerJob(job: any) {
-        const { shop, tagsToRemove, step = 'init', operationId, mutationOpId, resourceType = 'products' } = job.data;
+        const { shop, tagsToRemove = [], merges, step = 'init', operationId, resourceType = 'products' } = job.data;
         const currentJobId = job.data.jobId;
-        console.log(`Processing cleaner job for ${shop}: removing ${tagsToRemove} [Step: ${step}]`);
+        // Merge jobs rewrite variants to a canonical tag, cleanup jobs remove tags
+        const isMerge = Array.isArray(merges) && merges.length > 0;
+        const action = isMerge ? "Tag Merge" : "Tag Cleanup";
+        const searchTags: string[] = isMerge ? merges.flatMap((merge: TagMerge) => merge.variants) : tagsToRemove;
+        console.log(`Processing cleaner job for ${shop}: ${isMerge ? "merging" : "removing"} ${searchTags} [Step: ${step}]`);
+
+        const log = (detail: string, status: string) => ActivityService.createLog({
+            shop,
+            resourceType: "Mixed",
+            resourceId: "Bulk",
+            action,
+            detail,
+            jobId: currentJobId,
+            status,
+        });
 
         try {
-            // We need to process both products and customers. 
-            // To keep it simple, we can do products first, then customers.
-            // Or run two separate jobs.
-            // Let's assume the UI sends separate jobs or we handle one resource type at a time.
-            // If the job is generic "cleaner", we might need to spawn child jobs.
-            // Let's assume the current job handles 'products' first, then 'customers' if not specified.
-            // Simplified: The job should specify `resourceType`. If not, we default to 'products' and then queue another for 'customers'?
-            // Better: The UI should probably trigger two jobs.
-            // But for now, let's support `resourceType` in job data. If missing, we do products, then queue customers.
-
+            // One resource type at a time: products, then customers, then orders. Each gets its own
+            // job id, so its backup can be reverted on its own from the Activity Log.
             const currentResourceType = resourceType;
+            const queueNextResource = async () => {
+                const next = CLEANER_RESOURCES[CLEANER_RESOURCES.indexOf(currentResourceType) + 1];
+                if (next) {
+                    await cleanerQueue.add(job.name, { ...job.data, step: 'init', resourceType: next, jobId: generateJobId() }, { delay: 0 });
+                }
+            };
 
             // --- STEP 1: INIT (Start Query) ---
             if (step === 'init') {
-                // Query all items that have ANY of the tags to remove
-                // query: "tag:A OR tag:B"
-                const tagQuery = tagsToRemove.map((t: string) => `tag:${t}`).join(" OR ");
+                if (!(await BulkSchedulerService.acquireForStep(job, cleanerQueue, "query"))) return;
+
+                // Query all items that have ANY of the tags: "tag:A OR tag:B"
+                const tagQuery = searchTags.map((t: string) => `tag:${quoteSearchValue(t)}`).join(" OR ");
                 const query = `
                 {
-                    ${currentResourceType}(query: "${tagQuery}") {
+                    ${currentResourceType}(query: ${JSON.stringify(tagQuery)}) {
                         edges {
                             node {
                                 id
@@ -50,43 +74,25 @@ export class CleanerService {
                 const bulkOp = await BulkOperationService.runBulkQuery(shop, query);
                 await cleanerQueue.add(job.name, { ...job.data, step: 'polling_query', operationId: bulkOp.id, resourceType: currentResourceType, jobId: currentJobId }, { delay: 5000 });
 
-                await ActivityService.createLog({
-                    shop,
-                    resourceType: "Mixed",
-                    resourceId: "Bulk",
-                    action: "Tag Cleanup",
-                    detail: `Started Cleanup Query for ${currentResourceType}: ${bulkOp.id}`,
-                    jobId: currentJobId,
-                    status: "Pending",
-                });
+                await log(`Started ${isMerge ? "Merge" : "Cleanup"} Query for ${currentResourceType}: ${bulkOp.id}`, "Pending");
                 return;
             }
 
             // --- STEP 2: POLLING QUERY ---
             if (step === 'polling_query') {
                 const bulkOp = await BulkOperationService.pollBulkOperation(shop, operationId);
+                await JobControlService.recordProgress(shop, currentJobId, bulkOp);
 
                 if (bulkOp.status === 'RUNNING' || bulkOp.status === 'CREATED') {
                     await cleanerQueue.add(job.name, job.data, { delay: 5000 });
                     return;
                 }
+                await BulkSchedulerService.release(shop, "query", currentJobId);
 
                 if (bulkOp.status === 'COMPLETED') {
                     if (parseInt(bulkOp.objectCount) === 0) {
-                        // No items found. If we are doing products, maybe move to customers?
-                        if (currentResourceType === 'products') {
-                            await cleanerQueue.add(job.name, { ...job.data, step: 'init', resourceType: 'customers', jobId: currentJobId }, { delay: 0 });
-                            return;
-                        }
-                        await ActivityService.createLog({
-                            shop,
-                            resourceType: "Mixed",
-                            resourceId: "Bulk",
-                            action: "Tag Cleanup",
-                            detail: `No items found to clean.`,
-                            jobId: currentJobId,
-                            status: "Success",
-                        });
+                        await log(`No ${currentResourceType} found to ${isMerge ? "merge" : "clean"}.`, "Success");
+                        await queueNextResource();
                         return;
                     }
                     await cleanerQueue.add(job.name, { ...job.data, step: 'processing', resultUrl: bulkOp.url, jobId: currentJobId }, { delay: 0 });
@@ -97,6 +103,8 @@ export class CleanerService {
 
             // --- STEP 3: PROCESSING & MUTATION ---
             if (step === 'processing') {
+                if (!(await BulkSchedulerService.acquireForStep(job, cleanerQueue, "mutation"))) return;
+
                 const { resultUrl } = job.data;
                 const response = await fetch(resultUrl);
                 const jsonlText = await response.text();
@@ -107,31 +115,33 @@ export class CleanerService {
 
                 for (const line of lines) {
                     const item = JSON.parse(line);
-                    const currentTags = item.tags || [];
-                    const newTags = currentTags.filter((t: string) => !tagsToRemove.includes(t));
+                    const currentTags: string[] = item.tags || [];
+                    const newTags = isMerge
+                        ? mergeTags(currentTags, merges)
+                        : currentTags.filter((t: string) => !tagsToRemove.includes(t));
 
-                    if (newTags.length !== currentTags.length) {
+                    if (hasTagChanges(currentTags, newTags)) {
                         mutations.push({
                             id: item.id,
                             tags: newTags
                         });
                         backupItems.push({
                             resourceId: item.id,
-                            originalTags: currentTags
+                            originalTags: currentTags,
+                            appliedTags: newTags
                         });
                     }
                 }
 
                 if (mutations.length === 0) {
-                    if (currentResourceType === 'products') {
-                        await cleanerQueue.add(job.name, { ...job.data, step: 'init', resourceType: 'customers', jobId: currentJobId }, { delay: 0 });
-                        return;
-                    }
+                    await BulkSchedulerService.release(shop, "mutation", currentJobId);
+                    await log(`No ${currentResourceType} needed changes.`, "Success");
+                    await queueNextResource();
                     return;
                 }
 
                 // Save Backup
-                await Backup.create({
+                await BackupService.createBackup({
                     shop,
                     jobId: currentJobId,
                     resourceType: currentResourceType,
@@ -139,20 +149,11 @@ export class CleanerService {
                 });
 
                 const mutationLines = mutations.map(m => JSON.stringify({ input: m }));
-                const mutationFileContent = mutationLines.join('\n');
-
-                const stagedUpload = await BulkOperationService.getStagedUploadUrl(shop);
-                const formData = new FormData();
-                stagedUpload.parameters.forEach((p: any) => formData.append(p.name, p.value));
-                formData.append("file", new Blob([mutationFileContent], { type: "text/jsonl" }));
-
-                await fetch(stagedUpload.url, { method: "POST", body: formData });
-
-                const mutationQuery = currentResourceType === 'products'
-                    ? `mutation productUpdate($input: ProductInput!) { productUpdate(input: $input) { product { id } userErrors { message } } }`
-                    : `mutation customerUpdate($input: CustomerInput!) { customerUpdate(input: $input) { customer { id } userErrors { message } } }`;
+                const uploadPath = await BulkOperationService.uploadMutationVariables(shop, mutationLines);
+                const mutationQuery = BulkOperationService.getTagUpdateMutation(currentResourceType);
 
-                const mutationOp = await BulkOperationService.runBulkMutation(shop, mutationQuery, stagedUpload.parameters.find((p: any) => p.name === 'key').value);
+                await JobResultService.trackMutation(shop, currentJobId, currentResourceType, mutations.map(m => m.id));
+                const mutationOp = await BulkOperationService.runBulkMutation(shop, mutationQuery, uploadPath);
 
                 await cleanerQueue.add(job.name, { ...job.data, step: 'polling_mutation', mutationOpId: mutationOp.id, count: mutations.length, jobId: currentJobId }, { delay: 5000 });
                 return;
@@ -162,30 +163,26 @@ export class CleanerService {
             if (step === 'polling_mutation') {
                 const { mutationOpId, count } = job.data;
                 const bulkOp = await BulkOperationService.pollBulkOperation(shop, mutationOpId);
+                await JobControlService.recordProgress(shop, currentJobId, bulkOp);
 
                 if (bulkOp.status === 'RUNNING' || bulkOp.status === 'CREATED') {
                     await cleanerQueue.add(job.name, job.data, { delay: 5000 });
                     return;
                 }
+                await BulkSchedulerService.release(shop, "mutation", currentJobId);
 
                 if (bulkOp.status === 'COMPLETED') {
+                    const summary = await JobResultService.recordMutationResult(shop, currentJobId, currentResourceType, bulkOp.url, count);
+
                     // Record usage
-                    await UsageService.recordOperation(shop, count);
-
-                    await ActivityService.createLog({
-                        shop,
-                        resourceType: "Mixed",
-                        resourceId: "Bulk",
-                        action: "Tag Cleanup",
-                        detail: `Cleaned ${count} ${currentResourceType}.`,
-                        jobId: currentJobId,
-                        status: "Success",
-                    });
-
-                    // If we just finished products, start customers
-                    if (currentResourceType === 'products') {
-                        await cleanerQueue.add(job.name, { ...job.data, step: 'init', resourceType: 'customers', jobId: currentJobId }, { delay: 0 });
-                    }
+                    await UsageService.recordOperation(shop, summary.succeeded);
+
+                    await log(
+                        `${isMerge ? "Merged tags on" : "Cleaned"} ${summary.succeeded} ${currentResourceType}.${JobResultService.describeFailures(summary)}`,
+                        JobResultService.getLogStatus(summary)
+                    );
+
+                    await queueNextResource();
                     return;
                 }
                 throw new Error(`Bulk Mutation Failed: ${bulkOp.status}`);
@@ -193,15 +190,8 @@ export class CleanerService {
 
         } catch (error) {
             console.error("Cleaner job error:", error);
-            await ActivityService.createLog({
-                shop,
-                resourceType: "Mixed",
-                resourceId: "Bulk",
-                action: "Tag Cleanup",
-                detail: `Failed: ${(error as Error).message}`,
-                jobId: currentJobId,
-                status: "Failed",
-            });
+            await BulkSchedulerService.releaseAll(shop, currentJobId);
+            await log(`Failed: ${(error as Error).message}`, "Failed");
             throw error;
         }
     }
@@ -0,0 +1,115 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { JobControlService } from './job-control.service';
+import { JobState } from '../models/JobState';
+import { BulkOperationService } from './bulk_operation.service';
+import { BulkSchedulerService } from './bulk-scheduler.service';
+import { ActivityService } from './activity.service';
+import { bulkQueue } from '../queues';
+
+vi.mock('../models/JobState', () => ({
+  JobState: { findOneAndUpdate: vi.fn(), updateOne: vi.fn(), find: vi.fn() }
+}));
+
+vi.mock('../queues', () => ({
+  bulkQueue: { add: vi.fn(), remove: vi.fn() },
+  cleanerQueue: { add: vi.fn(), remove: vi.fn() }
+}));
+
+vi.mock('./activity.service', () => ({
+  ActivityService: { createLog: vi.fn() }
+}));
+
+vi.mock('./bulk_operation.service', () => ({
+  BulkOperationService: { cancelBulkOperation: vi.fn() }
+}));
+
+vi.mock('./bulk-scheduler.service', () => ({
+  BulkSchedulerService: { releaseAll: vi.fn() }
+}));
+
+describe('JobControlService', () => {
+  const pollingStep = {
+    name: "bulk-tag-update",
+    data: { shop: "test-shop", jobId: "job-1", step: "polling_mutation", operationId: "gid://shopify/BulkOperation/1", mutationOpId: "gid://shopify/BulkOperation/2" }
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should record the step and its bulk operation and let running jobs continue', async () => {
+    vi.mocked(JobState.findOneAndUpdate).mockResolvedValue({ state: "running" });
+
+    expect(await JobControlService.beforeStep(pollingStep, "bulk-operations")).toBe(true);
+    expect(JobState.findOneAndUpdate).toHaveBeenCalledWith(
+      { shop: "test-shop", jobId: "job-1" },
+      expect.objectContaining({
+        $set: expect.objectContaining({ queue: "bulk-operations", step: "polling_mutation", bulkOperationId: "gid://shopify/BulkOperation/2" }),
+      }),
+      { upsert: true, new: true }
+    );
+  });
+
+  it('should hold steps of paused jobs unless they were resumed meanwhile', async () => {
+    const processingStep = { name: "bulk-tag-update", data: { ...pollingStep.data, step: "processing" } };
+    vi.mocked(JobState.findOneAndUpdate).mockResolvedValue({ state: "paused" });
+    vi.mocked(JobState.updateOne).mockResolvedValue({ modifiedCount: 1 } as any);
+
+    expect(await JobControlService.beforeStep(processingStep, "bulk-operations")).toBe(false);
+    expect(JobState.updateOne).toHaveBeenCalledWith(
+      { shop: "test-shop", jobId: "job-1", state: "paused" },
+      { heldJob: { name: "bulk-tag-update", data: processingStep.data } }
+    );
+
+    vi.mocked(JobState.updateOne).mockResolvedValue({ modifiedCount: 0 } as any);
+    expect(await JobControlService.beforeStep(processingStep, "bulk-operations")).toBe(true);
+  });
+
+  it('should keep polling a paused job until its bulk operation finishes and frees the slot', async () => {
+    vi.mocked(JobState.findOneAndUpdate).mockResolvedValue({ state: "paused" });
+
+    expect(await JobControlService.beforeStep(pollingStep, "bulk-operations")).toBe(true);
+    expect(JobState.updateOne).not.toHaveBeenCalled();
+  });
+
+  it('should drop steps of cancelled jobs and cancel their bulk operation', async () => {
+    vi.mocked(JobState.findOneAndUpdate).mockResolvedValue({ state: "cancelled" });
+
+    expect(await JobControlService.beforeStep(pollingStep, "bulk-operations")).toBe(false);
+    expect(BulkOperationService.cancelBulkOperation).toHaveBeenCalledWith("test-shop", "gid://shopify/BulkOperation/2");
+    expect(BulkSchedulerService.releaseAll).toHaveBeenCalledWith("test-shop", "job-1");
+  });
+
+  it('should queue the held step again on resume', async () => {
+    vi.mocked(JobState.findOneAndUpdate).mockResolvedValue({ queue: "bulk-operations", heldJob: { name: "bulk-tag-update", data: pollingStep.data } });
+
+    await JobControlService.resume("test-shop", "job-1");
+
+    expect(bulkQueue.add).toHaveBeenCalledWith("bulk-tag-update", pollingStep.data);
+  });
+
+  it('should remember the step a job queued', async () => {
+    await JobControlService.recordQueuedStep({ id: "42", data: { shop: "test-shop", jobId: "job-1", step: "polling_query" } });
+    await JobControlService.recordQueuedStep({ id: "43", data: { shop: "test-shop" } });
+
+    expect(JobState.updateOne).toHaveBeenCalledTimes(1);
+    expect(JobState.updateOne).toHaveBeenCalledWith({ shop: "test-shop", jobId: "job-1" }, { queuedJobId: "42" });
+  });
+
+  it('should remove the queued step of the job and cancel the running operation', async () => {
+    vi.mocked(JobState.findOneAndUpdate).mockResolvedValue({ queue: "bulk-operations", step: "polling_query", bulkOperationId: "gid://shopify/BulkOperation/1", queuedJobId: "42" });
+
+    await JobControlService.cancel("test-shop", "job-1");
+
+    expect(bulkQueue.remove).toHaveBeenCalledWith("42");
+    expect(BulkOperationService.cancelBulkOperation).toHaveBeenCalledWith("test-shop", "gid://shopify/BulkOperation/1");
+    expect(BulkSchedulerService.releaseAll).toHaveBeenCalledWith("test-shop", "job-1");
+    expect(ActivityService.createLog).toHaveBeenCalledWith(expect.objectContaining({ jobId: "job-1", status: "Cancelled" }));
+  });
+
+  it('should refuse to pause a job that is not running', async () => {
+    vi.mocked(JobState.findOneAndUpdate).mockResolvedValue(null);
+
+    await expect(JobControlService.pause("test-shop", "job-1")).rejects.toThrow("Only running jobs");
+  });
+});
@@ -0,0 +1,166 @@
+import type { Queue } from "bullmq";
+import { JobState } from "../models/JobState";
+import { bulkQueue, cleanerQueue } from "../queues";
+import { ActivityService } from "./activity.service";
+import { BulkOperationService } from "./bulk_operation.service";
+import { BulkSchedulerService } from "./bulk-scheduler.service";
+
+const QUEUES: Record<string, Queue> = {
+    "bulk-operations": bulkQueue,
+    "cleaner-jobs": cleanerQueue,
+};
+
+// Log fields are only used when the job has no log yet; control actions update the existing one
+const logFor = (shop: string, jobId: string) => ({ shop, jobId, resourceType: "Bulk", resourceId: "Bulk", action: "Bulk Operation" });
+
+/**
+ * Pause, resume and cancel step-based jobs, and track which step they are in.
+ */
+export class JobControlService {
+    /**
+     * Shopify bulk operation a step polls, if any
+     */
+    static getStepOperationId(data: any): string | undefined {
+        const step: string = data.step || "init";
+        if (!step.startsWith("polling")) return undefined;
+        return step === "polling_query" ? data.operationId : data.mutationOpId;
+    }
+
+    /**
+     * Called by the worker before running a step. Returns false when the step must not run:
+     * the job was cancelled, or it is paused and the step is held until resume.
+     * Polling steps keep running while paused, so the bulk slot is released once Shopify finishes
+     * and the next step is held without it.
+     */
+    static async beforeStep(job: { name: string; data: any }, queueName: string): Promise<boolean> {
+        const { shop, jobId, step = "init" } = job.data;
+        if (!shop || !jobId) return true;
+
+        const operationId = JobControlService.getStepOperationId(job.data);
+        const jobState = await JobState.findOneAndUpdate(
+            { shop, jobId },
+            {
+                $set: { queue: queueName, step, updatedAt: new Date(), ...(operationId ? { bulkOperationId: operationId } : {}) },
+                $setOnInsert: { state: "running" },
+            },
+            { upsert: true, new: true }
+        );
+
+        if (jobState.state === "cancelled") {
+            // A step queued while the job was being cancelled may have just started an operation
+            if (operationId) await JobControlService.cancelBulkOperation(shop, operationId);
+            // ...or acquired a bulk slot after cancel() released them
+            await BulkSchedulerService.releaseAll(shop, jobId);
+            return false;
+        }
+
+        if (jobState.state === "paused" && !operationId) {
+            // Only hold the step if the job wasn't resumed in the meantime
+            const held = await JobState.updateOne(
+                { shop, jobId, state: "paused" },
+                { heldJob: { name: job.name, data: job.data } }
+            );
+            if (held.modifiedCount > 0) return false;
+        }
+
+        return true;
+    }
+
+    /**
+     * Remember the BullMQ id of the step a job queued last, so cancel can remove it without scanning the queue.
+     * Steps queued before the job's first step ran have no job state yet; cancel refuses those jobs anyway.
+     */
+    static async recordQueuedStep(job: { id?: string; data: any }) {
+        const { shop, jobId } = job.data || {};
+        if (!shop || !jobId || !job.id) return;
+        await JobState.updateOne({ shop, jobId }, { queuedJobId: job.id });
+    }
+
+    /**
+     * Store the status and object count of a polled bulk operation
+     */
+    static async recordProgress(shop: string, jobId: string | undefined, bulkOp: any) {
+        if (!jobId || !bulkOp) return;
+        await JobState.updateOne(
+            { shop, jobId },
+            { bulkOperationStatus: bulkOp.status, objectCount: parseInt(bulkOp.objectCount) || 0 }
+        );
+    }
+
+    static async pause(shop: string, jobId: string) {
+        const jobState = await JobState.findOneAndUpdate({ shop, jobId, state: "running" }, { state: "paused" });
+        if (!jobState) {
+            throw new Error("Only running jobs can be paused.");
+        }
+        await ActivityService.createLog({ ...logFor(shop, jobId), detail: "Paused, a running bulk operation will finish first", status: "Pending" });
+    }
+
+    static async resume(shop: string, jobId: string) {
+        // Returns the document before the update, with the step held while paused
+        const jobState = await JobState.findOneAndUpdate(
+            { shop, jobId, state: "paused" },
+            { state: "running", $unset: { heldJob: 1 } }
+        );
+        if (!jobState) {
+            throw new Error("Only paused jobs can be resumed.");
+        }
+
+        if (jobState.heldJob?.name) {
+            await QUEUES[jobState.queue].add(jobState.heldJob.name, jobState.heldJob.data);
+        }
+        await ActivityService.createLog({ ...logFor(shop, jobId), detail: "Resumed", status: "Pending" });
+    }
+
+    /**
+     * Stop a job: drop its queued steps and cancel the Shopify bulk operation it is waiting on
+     */
+    static async cancel(shop: string, jobId: string) {
+        const jobState = await JobState.findOneAndUpdate(
+            { shop, jobId, state: { $ne: "cancelled" } },
+            { state: "cancelled", $unset: { heldJob: 1 } }
+        );
+        if (!jobState) {
+            throw new Error("This job can't be cancelled.");
+        }
+
+        if (jobState.queuedJobId) {
+            try {
+                await QUEUES[jobState.queue].remove(jobState.queuedJobId);
+            } catch (error) {
+                // The step already started; beforeStep drops it
+                console.error(`Failed to remove queued step ${jobState.queuedJobId}:`, error);
+            }
+        }
+
+        if (jobState.bulkOperationId) {
+            await JobControlService.cancelBulkOperation(shop, jobState.bulkOperationId);
+        }
+        await BulkSchedulerService.releaseAll(shop, jobId);
+
+        await ActivityService.createLog({ ...logFor(shop, jobId), detail: `Cancelled during step ${jobState.step || "init"}`, status: "Cancelled" });
+    }
+
+    /**
+     * Current state of jobs by id, for the Activity Log
+     */
+    static async getJobStates(shop: string, jobIds: string[]) {
+        if (jobIds.length === 0) return {};
+
+        const states = await JobState.find({ shop, jobId: { $in: jobIds } });
+        return Object.fromEntries(states.map((jobState: any) => [jobState.jobId, {
+            state: jobState.state as string,
+            step: jobState.step as string | undefined,
+            bulkOperationStatus: jobState.bulkOperationStatus as string | undefined,
+            objectCount: jobState.objectCount as number,
+        }]));
+    }
+
+    // Shopify rejects cancelling a finished operation with userErrors; nothing to do then
+    private static async cancelBulkOperation(shop: string, operationId: string) {
+        try {
+            await BulkOperationService.cancelBulkOperation(shop, operationId);
+        } catch (error) {
+            console.error(`Failed to cancel bulk operation ${operationId}:`, error);
+        }
+    }
+}
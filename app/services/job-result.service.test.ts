@@ -0,0 +1,69 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { JobResultService } from './job-result.service';
+import { JobResult } from '../models/JobResult';
+
+vi.mock('../models/JobResult', () => ({
+  JobResult: { findOne: vi.fn(), find: vi.fn(), findOneAndUpdate: vi.fn(), aggregate: vi.fn() }
+}));
+
+describe('JobResultService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('parseMutationResult', () => {
+    it('should map line numbers to user errors and top level errors', () => {
+      const jsonl = [
+        JSON.stringify({ data: { metafieldsSet: { metafields: [{ id: "1" }], userErrors: [] } }, __lineNumber: 1 }),
+        JSON.stringify({ data: { metafieldsSet: { metafields: [], userErrors: [{ field: ["metafields", "0", "value"], message: "Value is invalid" }] } }, __lineNumber: 0 }),
+        JSON.stringify({ errors: [{ message: "Throttled" }], __lineNumber: 2 }),
+      ].join("\n");
+
+      const outcomes = JobResultService.parseMutationResult(jsonl);
+
+      expect(outcomes.get(0)).toBe("metafields.0.value: Value is invalid");
+      expect(outcomes.get(1)).toBeNull();
+      expect(outcomes.get(2)).toBe("Throttled");
+    });
+  });
+
+  describe('recordMutationResult', () => {
+    it('should count every line as updated for jobs without tracked items', async () => {
+      vi.mocked(JobResult.findOne).mockResolvedValue(null);
+
+      const summary = await JobResultService.recordMutationResult("test-shop", "job-1", "products", "https://example.com/result.jsonl", 5);
+
+      expect(summary).toEqual({ succeeded: 5, failed: 0, failedIds: [] });
+    });
+
+    it('should fail items missing from the result file', async () => {
+      const jobResult = { items: [{ resourceId: "gid://shopify/Product/1" }], save: vi.fn() } as any;
+      vi.mocked(JobResult.findOne).mockResolvedValue(jobResult);
+
+      const summary = await JobResultService.recordMutationResult("test-shop", "job-1", "products", null, 1);
+
+      expect(summary).toEqual({ succeeded: 0, failed: 1, failedIds: ["gid://shopify/Product/1"] });
+      expect(jobResult.status).toBe("Completed");
+      expect(JobResultService.getLogStatus(summary)).toBe("Failed");
+    });
+  });
+
+  describe('getFailureReport', () => {
+    it('should list failed items as CSV', async () => {
+      vi.mocked(JobResult.find).mockResolvedValue([{
+        resourceType: "products",
+        items: [
+          { resourceId: "gid://shopify/Product/1", status: "success" },
+          { resourceId: "gid://shopify/Product/2", status: "failed", error: "Title can't be blank, or \"empty\"" },
+        ]
+      }] as any);
+
+      const csv = await JobResultService.getFailureReport("test-shop", "job-1");
+
+      expect(csv).toBe([
+        "Resource Type,Resource ID,Error",
+        'products,gid://shopify/Product/2,"Title can\'t be blank, or ""empty"""',
+      ].join("\n"));
+    });
+  });
+});
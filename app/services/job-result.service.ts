@@ -0,0 +1,147 @@
+import { JobResult } from "../models/JobResult";
+
+export interface MutationSummary {
+    succeeded: number;
+    failed: number;
+    // Resources of the failed lines, for jobs that have to undo their bookkeeping for them
+    failedIds: string[];
+}
+
+/**
+ * Per-item outcome of bulk mutations. Shopify reports `userErrors` per line of the
+ * mutation result file instead of failing the bulk operation, so the file has to be
+ * read before an item counts as updated.
+ */
+export class JobResultService {
+    /**
+     * Remember which resource each uploaded mutation line targets. Call right before running the mutation.
+     */
+    static async trackMutation(shop: string, jobId: string | undefined, resourceType: string, resourceIds: string[]) {
+        if (!jobId) return;
+
+        await JobResult.findOneAndUpdate(
+            { shop, jobId, resourceType },
+            {
+                status: 'Pending',
+                succeededCount: 0,
+                failedCount: 0,
+                items: resourceIds.map(resourceId => ({ resourceId })),
+                createdAt: new Date(),
+            },
+            { upsert: true }
+        );
+    }
+
+    /**
+     * Error message of one result file line, or null when the line succeeded.
+     * Lines look like `{"data":{"productUpdate":{"product":{...},"userErrors":[]}},"__lineNumber":0}`.
+     */
+    static getLineError(result: any): string | null {
+        const messages: string[] = (result.errors || []).map((error: any) => error.message);
+        for (const payload of Object.values(result.data || {}) as any[]) {
+            for (const userError of payload?.userErrors || []) {
+                const field = Array.isArray(userError.field) ? userError.field.join(".") : userError.field;
+                messages.push(field ? `${field}: ${userError.message}` : userError.message);
+            }
+        }
+        if (!result.data && messages.length === 0) messages.push("No data returned");
+        return messages.length > 0 ? messages.join("; ") : null;
+    }
+
+    /**
+     * Error per mutation line number (null = success) of a bulk mutation result file
+     */
+    static parseMutationResult(jsonlText: string): Map<number, string | null> {
+        const outcomes = new Map<number, string | null>();
+        const lines = jsonlText.split('\n').filter(line => line.trim() !== '');
+
+        lines.forEach((line, index) => {
+            const result = JSON.parse(line);
+            outcomes.set(result.__lineNumber ?? index, JobResultService.getLineError(result));
+        });
+        return outcomes;
+    }
+
+    /**
+     * Download the result file of a completed bulk mutation and store every item's outcome.
+     * Jobs queued before their mutation lines were tracked count every line as a success.
+     */
+    static async recordMutationResult(
+        shop: string,
+        jobId: string | undefined,
+        resourceType: string,
+        resultUrl: string | null | undefined,
+        lineCount: number
+    ): Promise<MutationSummary> {
+        const jobResult = jobId ? await JobResult.findOne({ shop, jobId, resourceType }) : null;
+        if (!jobResult) {
+            return { succeeded: lineCount, failed: 0, failedIds: [] };
+        }
+
+        const outcomes = resultUrl
+            ? JobResultService.parseMutationResult(await (await fetch(resultUrl)).text())
+            : new Map<number, string | null>();
+
+        let succeeded = 0;
+        const failedIds: string[] = [];
+        jobResult.items.forEach((item: any, index: number) => {
+            const error = outcomes.has(index) ? outcomes.get(index) : "No result returned by Shopify";
+            item.status = error ? 'failed' : 'success';
+            item.error = error || undefined;
+            if (error) failedIds.push(item.resourceId);
+            else succeeded++;
+        });
+
+        jobResult.status = 'Completed';
+        jobResult.succeededCount = succeeded;
+        jobResult.failedCount = jobResult.items.length - succeeded;
+        await jobResult.save();
+
+        return { succeeded, failed: jobResult.failedCount, failedIds };
+    }
+
+    /**
+     * " 3 failed." suffix for activity log messages
+     */
+    static describeFailures(summary: MutationSummary): string {
+        return summary.failed > 0 ? ` ${summary.failed} failed, see the failure report.` : "";
+    }
+
+    /**
+     * Log status for a finished mutation: only a job where nothing went through counts as failed
+     */
+    static getLogStatus(summary: MutationSummary): string {
+        return summary.failed > 0 && summary.succeeded === 0 ? "Failed" : "Success";
+    }
+
+    /**
+     * Number of failed items per job, for the Activity Log
+     */
+    static async getFailedCounts(shop: string, jobIds: string[]): Promise<Record<string, number>> {
+        if (jobIds.length === 0) return {};
+
+        const counts = await JobResult.aggregate([
+            { $match: { shop, jobId: { $in: jobIds }, failedCount: { $gt: 0 } } },
+            { $group: { _id: '$jobId', failed: { $sum: '$failedCount' } } },
+        ]);
+        return Object.fromEntries(counts.map((count: any) => [count._id, count.failed]));
+    }
+
+    /**
+     * CSV of every failed item of a job
+     */
+    static async getFailureReport(shop: string, jobId: string): Promise<string> {
+        const results = await JobResult.find({ shop, jobId, failedCount: { $gt: 0 } });
+        const escape = (value: string) => /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+        const rows = [["Resource Type", "Resource ID", "Error"]];
+        for (const result of results) {
+            for (const item of result.items) {
+                if (item.status === 'failed') {
+                    rows.push([result.resourceType, item.resourceId, item.error || ""]);
+                }
+            }
+        }
+        return rows.map(row => row.map(escape).join(",")).join("\n");
+    }
+}
@@ -1,5 +1,6 @@
 import { MetafieldRule } from "../models/MetafieldRule";
 import { ActivityService } from "./activity.service";
+import { normalizeConditions, validateConditions } from "../utils/condition-validation";
 
 export class MetafieldService {
     static async getRules(shop: string) {
@@ -17,6 +18,8 @@ export class MetafieldService {
     }
 
     static async createRule(shop: string, data: any) {
+        MetafieldService.checkConditions(data);
+        data = normalizeConditions(data);
         await MetafieldService.checkForDuplicate(shop, data);
         const rule = await MetafieldRule.create({
             shop,
@@ -35,6 +38,8 @@ export class MetafieldService {
 
     static async updateRule(id: string, data: any) {
         // For update, we need to check if we are changing to a duplicate key, excluding self
+        MetafieldService.checkConditions(data);
+        data = normalizeConditions(data);
         const rule = await MetafieldRule.findById(id);
         if (rule) {
             await MetafieldService.checkForDuplicate(rule.shop, data, id);
@@ -53,6 +58,13 @@ export class MetafieldService {
         });
     }
 
+    static checkConditions(data: any) {
+        const conditionError = validateConditions(data.conditions, data.groups);
+        if (conditionError) {
+            throw new Error(conditionError);
+        }
+    }
+
     static async checkForDuplicate(shop: string, data: any, excludeId?: string) {
         const { definition, resourceType } = data;
         const query: any = {
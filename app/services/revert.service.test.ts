@@ -0,0 +1,428 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { RevertService, METAFIELD_REVERT_JOB, REVERT_JOB } from './revert.service';
+import { BackupService } from './backup.service';
+import { BulkOperationService, METAFIELDS_SET_MUTATION, PRODUCT_UPDATE_MUTATION } from './bulk_operation.service';
+import { bulkQueue } from '../queues';
+import { ActivityService } from './activity.service';
+import { BulkSchedulerService } from './bulk-scheduler.service';
+import { JobResultService } from './job-result.service';
+import { UsageService } from './usage.service';
+import { unauthenticated } from '../shopify.server';
+
+vi.mock('../shopify.server', () => ({
+  unauthenticated: { admin: vi.fn() }
+}));
+
+vi.mock('../queues', () => ({
+  bulkQueue: { add: vi.fn() }
+}));
+
+vi.mock('./backup.service', () => ({
+  BackupService: { getBackup: vi.fn(), createBackup: vi.fn(), markItemsReverted: vi.fn(), claimItems: vi.fn(), releaseItems: vi.fn() }
+}));
+
+vi.mock('./job-result.service', () => ({
+  JobResultService: {
+    trackMutation: vi.fn(),
+    recordMutationResult: vi.fn(),
+    describeFailures: vi.fn().mockReturnValue(""),
+    getLogStatus: vi.fn().mockReturnValue("Success"),
+  }
+}));
+
+vi.mock('./usage.service', () => ({
+  UsageService: { recordOperation: vi.fn() }
+}));
+
+vi.mock('./bulk-scheduler.service', () => ({
+  BulkSchedulerService: {
+    acquire: vi.fn().mockResolvedValue(true),
+    acquireForStep: vi.fn().mockResolvedValue(true),
+    waitForSlot: vi.fn(),
+    release: vi.fn(),
+    releaseAll: vi.fn(),
+  }
+}));
+
+vi.mock('./job-control.service', () => ({
+  JobControlService: { recordProgress: vi.fn() }
+}));
+
+vi.mock('./activity.service', () => ({
+  ActivityService: { createLog: vi.fn() }
+}));
+
+vi.mock('./bulk_operation.service', async (importOriginal) => {
+  const actual: any = await importOriginal();
+  return {
+    ...actual,
+    BulkOperationService: {
+      getTagUpdateMutation: actual.BulkOperationService.getTagUpdateMutation,
+      runBulkQuery: vi.fn().mockResolvedValue({ id: "gid://shopify/BulkOperation/8" }),
+      uploadMutationVariables: vi.fn().mockResolvedValue("tmp/upload.jsonl"),
+      runBulkMutation: vi.fn().mockResolvedValue({ id: "gid://shopify/BulkOperation/9" }),
+      pollBulkOperation: vi.fn(),
+    }
+  };
+});
+
+describe('RevertService metafields', () => {
+  const backup = {
+    jobId: "job-1",
+    resourceType: "products",
+    items: [
+      { resourceId: "gid://shopify/Product/1", originalTags: [], revertJobId: "revert-1", originalMetafields: [{ namespace: "custom", key: "material", value: "cotton", type: "single_line_text_field" }] },
+      { resourceId: "gid://shopify/Product/2", originalTags: [], revertJobId: "revert-1", originalMetafields: [{ namespace: "custom", key: "material", value: null, type: "single_line_text_field" }] },
+    ]
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    (BackupService.getBackup as any).mockResolvedValue(backup);
+    (BackupService.claimItems as any).mockResolvedValue(["gid://shopify/Product/1", "gid://shopify/Product/2"]);
+  });
+
+  it('should queue a metafield revert job instead of a tag revert', async () => {
+    await RevertService.revertBackup("test-shop", "job-1");
+
+    expect(bulkQueue.add).toHaveBeenCalledWith(METAFIELD_REVERT_JOB, expect.objectContaining({
+      shop: "test-shop", backupJobId: "job-1", phase: "set", step: "init"
+    }));
+  });
+
+  it('should query the current value of every backed up metafield', async () => {
+    await RevertService.processMetafieldRevertJob({ name: METAFIELD_REVERT_JOB, data: { shop: "test-shop", resourceType: "variants", backupJobId: "job-1", phase: "set", step: "init", jobId: "revert-1" } });
+
+    const query = (vi.mocked(BulkOperationService.runBulkQuery).mock.calls[0] as any[])[1];
+    expect(query).toContain("productVariants");
+    expect(query).toContain('metafield0: metafield(namespace: "custom", key: "material") { value type }');
+    expect(bulkQueue.add).toHaveBeenCalledWith(METAFIELD_REVERT_JOB, expect.objectContaining({ step: "polling_query" }), { delay: 5000 });
+  });
+
+  it('should back up the current values, and release items deleted since, before restoring', async () => {
+    vi.stubGlobal("fetch", vi.fn().mockResolvedValue({
+      text: async () => JSON.stringify({ id: "gid://shopify/Product/1", metafield0: { value: "linen", type: "single_line_text_field" } })
+    }));
+    const data = { shop: "test-shop", resourceType: "products", backupJobId: "job-1", phase: "set", step: "start", resultUrl: "https://results", restored: 0, jobId: "revert-1" };
+
+    await RevertService.processMetafieldRevertJob({ name: METAFIELD_REVERT_JOB, data });
+
+    expect(BackupService.releaseItems).toHaveBeenCalledWith("test-shop", "job-1", "revert-1", ["gid://shopify/Product/2"]);
+    expect(BackupService.createBackup).toHaveBeenCalledWith({
+      shop: "test-shop",
+      jobId: "revert-1",
+      resourceType: "products",
+      revertOfJobId: "job-1",
+      items: [{
+        resourceId: "gid://shopify/Product/1",
+        originalMetafields: [{ namespace: "custom", key: "material", value: "linen", type: "single_line_text_field" }],
+      }],
+    });
+    expect(JobResultService.trackMutation).toHaveBeenCalledWith("test-shop", "revert-1", "products", ["gid://shopify/Product/1"]);
+  });
+
+  it('should release the claimed items when the metafield revert fails', async () => {
+    (BulkOperationService.pollBulkOperation as any).mockResolvedValue({ status: "FAILED" });
+    const data = { shop: "test-shop", resourceType: "products", backupJobId: "job-1", phase: "set", step: "polling", mutationOpId: "op", restored: 0, jobId: "revert-1" };
+
+    await expect(RevertService.processMetafieldRevertJob({ name: METAFIELD_REVERT_JOB, data })).rejects.toThrow("Bulk Mutation Failed");
+    expect(BackupService.releaseItems).toHaveBeenCalledWith("test-shop", "job-1", "revert-1");
+  });
+
+  it('should set previous values back, then delete metafields the job created', async () => {
+    expect(RevertService.getMetafieldRevertLines(backup.items, "set")).toEqual({
+      mutationLines: [JSON.stringify({ metafields: [{ ownerId: "gid://shopify/Product/1", namespace: "custom", key: "material", value: "cotton", type: "single_line_text_field" }] })],
+      resourceIds: ["gid://shopify/Product/1"],
+    });
+    expect(RevertService.getMetafieldRevertLines(backup.items, "delete")).toEqual({
+      mutationLines: [JSON.stringify({ metafields: [{ ownerId: "gid://shopify/Product/2", namespace: "custom", key: "material" }] })],
+      resourceIds: ["gid://shopify/Product/2"],
+    });
+
+    const jsonl = backup.items.map(item => JSON.stringify({ id: item.resourceId, metafield0: null })).join("\n");
+    vi.stubGlobal("fetch", vi.fn().mockResolvedValue({ text: async () => jsonl }));
+    const data = { shop: "test-shop", resourceType: "products", backupJobId: "job-1", phase: "set", step: "start", resultUrl: "https://results", restored: 0, jobId: "revert-1" };
+    await RevertService.processMetafieldRevertJob({ name: METAFIELD_REVERT_JOB, data });
+    expect(JobResultService.trackMutation).toHaveBeenCalledWith("test-shop", "revert-1", "products", ["gid://shopify/Product/1"]);
+    expect(BulkOperationService.runBulkMutation).toHaveBeenCalledWith("test-shop", METAFIELDS_SET_MUTATION, "tmp/upload.jsonl");
+
+    (BulkOperationService.pollBulkOperation as any).mockResolvedValue({ status: "COMPLETED", url: "https://mutation-results" });
+    vi.mocked(JobResultService.recordMutationResult).mockResolvedValue({ succeeded: 1, failed: 0, failedIds: [] });
+    await RevertService.processMetafieldRevertJob({ name: METAFIELD_REVERT_JOB, data: { ...data, step: "polling", mutationOpId: "op", count: 1 } });
+    expect(bulkQueue.add).toHaveBeenLastCalledWith(METAFIELD_REVERT_JOB, expect.objectContaining({ phase: "delete", step: "start", restored: 1, failed: 0 }));
+
+    await RevertService.processMetafieldRevertJob({ name: METAFIELD_REVERT_JOB, data: { ...data, phase: "delete", step: "polling", mutationOpId: "op", count: 1, restored: 1 } });
+    expect(JobResultService.recordMutationResult).toHaveBeenLastCalledWith("test-shop", "revert-1", "products (metafield deletes)", "https://mutation-results", 1);
+    expect(UsageService.recordOperation).toHaveBeenCalledTimes(2);
+    expect(ActivityService.createLog).toHaveBeenCalledWith(expect.objectContaining({
+      action: "Revert",
+      detail: "Restored metafields on 2 items from job job-1.",
+      status: "Success"
+    }));
+  });
+
+  it('should bill only restored lines and make items Shopify rejected revertable again', async () => {
+    (BulkOperationService.pollBulkOperation as any).mockResolvedValue({ status: "COMPLETED", url: "https://mutation-results" });
+    vi.mocked(JobResultService.recordMutationResult).mockResolvedValue({ succeeded: 0, failed: 1, failedIds: ["gid://shopify/Product/1"] });
+    const data = { shop: "test-shop", resourceType: "products", backupJobId: "job-1", phase: "set", step: "polling", mutationOpId: "op", count: 1, restored: 0, jobId: "revert-1" };
+
+    await RevertService.processMetafieldRevertJob({ name: METAFIELD_REVERT_JOB, data });
+
+    expect(UsageService.recordOperation).toHaveBeenCalledWith("test-shop", 0);
+    expect(BackupService.releaseItems).toHaveBeenCalledWith("test-shop", "job-1", "revert-1", ["gid://shopify/Product/1"]);
+    expect(bulkQueue.add).toHaveBeenLastCalledWith(METAFIELD_REVERT_JOB, expect.objectContaining({ phase: "delete", restored: 0, failed: 1 }));
+  });
+});
+
+describe('RevertService product fields', () => {
+  const backup = {
+    jobId: "job-1",
+    resourceType: "products",
+    items: [
+      { resourceId: "gid://shopify/Product/1", originalTags: [], revertJobId: "revert-1", originalFields: { variants: [{ id: "gid://shopify/ProductVariant/11", price: "20.00" }] } },
+      { resourceId: "gid://shopify/Product/2", originalTags: [], revertJobId: "revert-1", originalFields: { variants: [{ id: "gid://shopify/ProductVariant/21", price: "5.00" }] } },
+    ]
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    (BackupService.getBackup as any).mockResolvedValue(backup);
+  });
+
+  it('should query the current products before restoring their fields', async () => {
+    (BackupService.claimItems as any).mockResolvedValue(["gid://shopify/Product/1"]);
+
+    await RevertService.revertBackup("test-shop", "job-1");
+
+    const data = (vi.mocked(bulkQueue.add).mock.calls[0] as any[])[1];
+    expect(data).toEqual(expect.objectContaining({ step: "init", productFields: true }));
+    await RevertService.processRevertJob({ name: REVERT_JOB, data });
+    expect((vi.mocked(BulkOperationService.runBulkQuery).mock.calls[0] as any[])[1]).toContain("seo { title }");
+  });
+
+  it('should back up the current prices of products that still exist', async () => {
+    const jsonl = [
+      JSON.stringify({ id: "gid://shopify/Product/1", title: "Tee" }),
+      JSON.stringify({ id: "gid://shopify/ProductVariant/11", price: "25.00", __parentId: "gid://shopify/Product/1" }),
+    ].join("\n");
+    vi.stubGlobal("fetch", vi.fn().mockResolvedValue({ text: async () => jsonl }));
+
+    await RevertService.processRevertJob({ name: REVERT_JOB, data: {
+      shop: "test-shop", resourceType: "products", backupJobId: "job-1", mode: "all", step: "processing", productFields: true, resultUrl: "https://results", jobId: "revert-1"
+    } });
+
+    expect(BackupService.releaseItems).toHaveBeenCalledWith("test-shop", "job-1", "revert-1", ["gid://shopify/Product/2"]);
+    expect(BackupService.createBackup).toHaveBeenCalledWith(expect.objectContaining({
+      jobId: "revert-1",
+      revertOfJobId: "job-1",
+      items: [{ resourceId: "gid://shopify/Product/1", originalFields: { variants: [{ id: "gid://shopify/ProductVariant/11", price: "25.00" }] } }],
+    }));
+    expect(BulkOperationService.uploadMutationVariables).toHaveBeenCalledWith("test-shop", [
+      JSON.stringify({ productId: "gid://shopify/Product/1", variants: [{ id: "gid://shopify/ProductVariant/11", price: "20.00" }] }),
+    ]);
+  });
+
+  it('should restore product fields with productUpdate', () => {
+    const { mutationLines, mutationQuery } = RevertService.getRevertMutation({
+      resourceType: "products",
+      items: [{ resourceId: "gid://shopify/Product/1", originalTags: [], originalFields: { vendor: "Acme" } }]
+    });
+
+    expect(mutationQuery).toBe(PRODUCT_UPDATE_MUTATION);
+    expect(mutationLines).toEqual([JSON.stringify({ input: { id: "gid://shopify/Product/1", vendor: "Acme" } })]);
+  });
+});
+
+describe('RevertService tag backups', () => {
+  const makeBackup = () => ({
+    jobId: "job-1",
+    resourceType: "products",
+    items: [
+      // Still has the job's tags
+      { resourceId: "gid://shopify/Product/1", originalTags: ["sale"], appliedTags: ["clearance"] },
+      // Edited after the job
+      { resourceId: "gid://shopify/Product/2", originalTags: ["sale"], appliedTags: ["clearance"] },
+      // Already back to its original tags
+      { resourceId: "gid://shopify/Product/3", originalTags: ["sale"], appliedTags: ["clearance"] },
+      // Deleted since
+      { resourceId: "gid://shopify/Product/4", originalTags: ["sale"], appliedTags: ["clearance"] },
+      // Older backup without the job's tags
+      { resourceId: "gid://shopify/Product/5", originalTags: ["sale"] },
+    ] as any[],
+  });
+  const nodes = [
+    { id: "gid://shopify/Product/1", title: "Tee", tags: ["Clearance"] },
+    { id: "gid://shopify/Product/2", title: "Cap", tags: ["clearance", "summer"] },
+    { id: "gid://shopify/Product/3", title: "Hat", tags: ["sale"] },
+    null,
+    { id: "gid://shopify/Product/5", title: "Bag", tags: ["clearance"] },
+  ];
+  let backup: ReturnType<typeof makeBackup>;
+  let graphql: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    backup = makeBackup();
+    (BackupService.getBackup as any).mockResolvedValue(backup);
+    graphql = vi.fn().mockImplementation(async (_query: string, { variables }: any) => ({
+      json: async () => ({ data: { nodes: nodes.slice(0, variables.ids.length) } })
+    }));
+    (unauthenticated.admin as any).mockResolvedValue({ admin: { graphql } });
+  });
+
+  describe('previewRevert', () => {
+    it('should flag items edited, restored or deleted since the job', async () => {
+      const preview = await RevertService.previewRevert("test-shop", "job-1");
+
+      expect(preview.canCompare).toBe(true);
+      expect(preview.pending).toBe(5);
+      expect(preview.items.map(item => item.status)).toEqual(["unchanged", "changed", "original", "deleted", "unknown"]);
+      expect(preview.counts).toEqual({ unchanged: 1, changed: 1, unknown: 1, original: 1, deleted: 1, reverted: 0 });
+    });
+
+    it('should only look up the items it lists', async () => {
+      const preview = await RevertService.previewRevert("test-shop", "job-1", 2);
+
+      expect((graphql.mock.calls[0] as any[])[1].variables.ids).toEqual(["gid://shopify/Product/1", "gid://shopify/Product/2"]);
+      expect(preview.pending).toBe(5);
+      expect(preview.counts).toEqual({ unchanged: 1, changed: 1, unknown: 0, original: 0, deleted: 0, reverted: 0 });
+    });
+
+    it('should fail rather than report items as deleted when the lookup comes back short', async () => {
+      graphql.mockResolvedValue({ json: async () => ({ data: { nodes: nodes.slice(0, 2) } }) });
+
+      await expect(RevertService.previewRevert("test-shop", "job-1")).rejects.toThrow("Couldn't load the current tags");
+    });
+  });
+
+  describe('revertBackup', () => {
+    it('should claim the items before queueing the revert job, so a second submit finds nothing', async () => {
+      (BackupService.claimItems as any).mockResolvedValueOnce(["gid://shopify/Product/1", "gid://shopify/Product/2"]);
+
+      await RevertService.revertBackup("test-shop", "job-1", { mode: "untouched" });
+
+      const revertJobId = (vi.mocked(BackupService.claimItems).mock.calls[0] as any[])[3];
+      expect(BackupService.claimItems).toHaveBeenCalledWith("test-shop", "job-1", backup.items.map(item => item.resourceId), revertJobId);
+      expect(bulkQueue.add).toHaveBeenCalledWith(REVERT_JOB, {
+        shop: "test-shop",
+        resourceType: "products",
+        backupJobId: "job-1",
+        mode: "untouched",
+        step: "init",
+        jobId: revertJobId,
+      });
+      // Nothing is compared or written from the request itself
+      expect(graphql).not.toHaveBeenCalled();
+      expect(BulkOperationService.runBulkMutation).not.toHaveBeenCalled();
+
+      (BackupService.claimItems as any).mockResolvedValueOnce([]);
+      await expect(RevertService.revertBackup("test-shop", "job-1", { mode: "untouched" })).rejects.toThrow("Nothing left to revert");
+      expect(bulkQueue.add).toHaveBeenCalledTimes(1);
+    });
+
+    it('should release the claimed items when the job cannot be queued', async () => {
+      (BackupService.claimItems as any).mockResolvedValue(["gid://shopify/Product/1"]);
+      vi.mocked(bulkQueue.add).mockRejectedValueOnce(new Error("Redis down"));
+
+      await expect(RevertService.revertBackup("test-shop", "job-1")).rejects.toThrow("Redis down");
+
+      const revertJobId = (vi.mocked(BackupService.claimItems).mock.calls[0] as any[])[3];
+      expect(BackupService.releaseItems).toHaveBeenCalledWith("test-shop", "job-1", revertJobId);
+    });
+  });
+
+  describe('processRevertJob', () => {
+    const jobData = { shop: "test-shop", resourceType: "products", backupJobId: "job-1", mode: "all", jobId: "revert-1" };
+
+    const claim = (ids: number[]) => backup.items
+      .filter(item => ids.includes(Number(item.resourceId.split("/").pop())))
+      .forEach(item => { item.revertJobId = "revert-1"; item.revertedAt = new Date(); });
+
+    beforeEach(() => {
+      const jsonl = nodes.filter(Boolean).map(node => JSON.stringify(node)).join("\n");
+      vi.stubGlobal("fetch", vi.fn().mockResolvedValue({ text: async () => jsonl }));
+    });
+
+    it('should query the current tags of every resource with a bulk query', async () => {
+      await RevertService.processRevertJob({ name: REVERT_JOB, data: { ...jobData, step: "init" } });
+
+      expect((vi.mocked(BulkOperationService.runBulkQuery).mock.calls[0] as any[])[1]).toContain("products");
+      expect(bulkQueue.add).toHaveBeenCalledWith(REVERT_JOB, expect.objectContaining({ step: "polling_query", operationId: "gid://shopify/BulkOperation/8" }), { delay: 5000 });
+    });
+
+    it('should only revert untouched items, release the others and back up the revert', async () => {
+      claim([1, 2, 3, 4, 5]);
+
+      await RevertService.processRevertJob({ name: REVERT_JOB, data: { ...jobData, mode: "untouched", step: "processing", resultUrl: "https://results" } });
+
+      expect(BulkOperationService.uploadMutationVariables).toHaveBeenCalledWith("test-shop", [
+        JSON.stringify({ input: { id: "gid://shopify/Product/1", tags: ["sale"] } }),
+      ]);
+      expect(BackupService.createBackup).toHaveBeenCalledWith(expect.objectContaining({
+        jobId: "revert-1",
+        revertOfJobId: "job-1",
+        items: [{ resourceId: "gid://shopify/Product/1", originalTags: ["Clearance"], appliedTags: ["sale"] }],
+      }));
+      expect(BackupService.releaseItems).toHaveBeenCalledWith("test-shop", "job-1", "revert-1", [
+        "gid://shopify/Product/2", "gid://shopify/Product/3", "gid://shopify/Product/4", "gid://shopify/Product/5",
+      ]);
+      expect(bulkQueue.add).toHaveBeenCalledWith(REVERT_JOB, expect.objectContaining({ step: "polling_mutation", count: 1 }), { delay: 5000 });
+    });
+
+    it('should revert only its own claimed items and make them revertable again in the reverted job', async () => {
+      (BackupService.getBackup as any).mockResolvedValue({ ...backup, revertOfJobId: "job-0" });
+      claim([2]);
+
+      await RevertService.processRevertJob({ name: REVERT_JOB, data: { ...jobData, mode: "selected", step: "processing", resultUrl: "https://results" } });
+
+      expect(BulkOperationService.uploadMutationVariables).toHaveBeenCalledWith("test-shop", [
+        JSON.stringify({ input: { id: "gid://shopify/Product/2", tags: ["sale"] } }),
+      ]);
+      expect(BackupService.markItemsReverted).toHaveBeenCalledWith("test-shop", "job-0", ["gid://shopify/Product/2"], false);
+    });
+
+    it('should wait while another bulk mutation holds the shop', async () => {
+      vi.mocked(BulkSchedulerService.acquireForStep).mockResolvedValueOnce(false);
+      claim([1]);
+
+      await RevertService.processRevertJob({ name: REVERT_JOB, data: { ...jobData, step: "processing", resultUrl: "https://results" } });
+
+      expect(BulkOperationService.runBulkMutation).not.toHaveBeenCalled();
+      expect(BackupService.releaseItems).not.toHaveBeenCalled();
+    });
+
+    it('should release the claimed items when the mutation fails', async () => {
+      (BulkOperationService.pollBulkOperation as any).mockResolvedValue({ status: "FAILED" });
+
+      await expect(RevertService.processRevertJob({ name: REVERT_JOB, data: { ...jobData, step: "polling_mutation", mutationOpId: "op", count: 1 } }))
+        .rejects.toThrow("Bulk Mutation Failed");
+
+      expect(BulkSchedulerService.releaseAll).toHaveBeenCalledWith("test-shop", "revert-1");
+      expect(BackupService.releaseItems).toHaveBeenCalledWith("test-shop", "job-1", "revert-1");
+    });
+
+    it('should log the result once the mutation completes', async () => {
+      (BulkOperationService.pollBulkOperation as any).mockResolvedValue({ status: "COMPLETED", url: "https://mutation-results" });
+      vi.mocked(JobResultService.recordMutationResult).mockResolvedValue({ succeeded: 1, failed: 0, failedIds: [] });
+
+      await RevertService.processRevertJob({ name: REVERT_JOB, data: { ...jobData, step: "polling_mutation", mutationOpId: "op", count: 1 } });
+
+      expect(BulkSchedulerService.release).toHaveBeenCalledWith("test-shop", "mutation", "revert-1");
+      expect(ActivityService.createLog).toHaveBeenCalledWith(expect.objectContaining({
+        action: "Revert",
+        detail: "Reverted 1 items from job job-1.",
+        status: "Success",
+      }));
+    });
+
+    it('should make items Shopify rejected revertable again', async () => {
+      (BulkOperationService.pollBulkOperation as any).mockResolvedValue({ status: "COMPLETED", url: "https://mutation-results" });
+      vi.mocked(JobResultService.recordMutationResult).mockResolvedValue({ succeeded: 1, failed: 1, failedIds: ["gid://shopify/Product/2"] });
+
+      await RevertService.processRevertJob({ name: REVERT_JOB, data: { ...jobData, step: "polling_mutation", mutationOpId: "op", count: 2 } });
+
+      expect(BackupService.releaseItems).toHaveBeenCalledWith("test-shop", "job-1", "revert-1", ["gid://shopify/Product/2"]);
+      expect(UsageService.recordOperation).toHaveBeenCalledWith("test-shop", 1);
+    });
+  });
+});
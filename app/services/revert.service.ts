@@ -1,87 +1,657 @@
-import { Backup } from "../models/Backup";
+import { BackupService } from "./backup.service";
+import { unauthenticated } from "../shopify.server";
 import { ActivityService } from "./activity.service";
-import { bulkQueue } from "../queue.server";
+import { JobControlService } from "./job-control.service";
+import { BulkSchedulerService } from "./bulk-scheduler.service";
+import { JobResultService } from "./job-result.service";
+import { UsageService } from "./usage.service";
+import { bulkQueue } from "../queues";
+import type { RevertItemStatus, RevertMode, RevertPreview, RevertPreviewItem, RevertSelection } from "~/types/revert.types";
 import { generateJobId } from "~/utils/id-generator";
-import { BulkOperationService } from "./bulk_operation.service";
+import { isSameTagSet } from "~/utils/tag-operation";
+import { snapshotProductFields } from "~/utils/product-field-operation";
+import { getResourceFields, parseBulkJsonl } from "~/utils/webhook-shape";
+import {
+    BulkOperationService,
+    METAFIELDS_DELETE_MUTATION,
+    METAFIELDS_SET_MUTATION,
+    PRODUCT_UPDATE_MUTATION,
+    VARIANTS_BULK_UPDATE_MUTATION
+} from "./bulk_operation.service";
+
+export const REVERT_JOB = "revert-backup";
+export const METAFIELD_REVERT_JOB = "revert-metafields";
+
+// Title field of each resource type a tag backup can hold
+const TITLE_FIELDS: Record<string, string> = {
+    products: "title",
+    customers: "displayName",
+    orders: "name",
+};
+
+// Connection listing the owners of a metafield backup, by backup resource type
+const METAFIELD_CONNECTIONS: Record<string, string> = {
+    products: "products",
+    variants: "productVariants",
+    customers: "customers",
+};
+
+// Restoring metafields may need two bulk mutations: values that existed are set back, values that didn't are deleted.
+// Shopify runs one bulk mutation per shop at a time, so the phases run one after another.
+type MetafieldRevertPhase = "set" | "delete";
 
 export class RevertService {
-    static async revertBackup(shop: string, jobId: string) {
-        const backup = await Backup.findOne({ shop, jobId });
+    /**
+     * Queue the restore of a job's backup. The items are claimed first, so a second submit finds
+     * nothing left to revert; the revert job releases the ones it skips or fails to restore.
+     */
+    static async revertBackup(shop: string, jobId: string, selection: RevertSelection = { mode: "all" }) {
+        const backup = await BackupService.getBackup(shop, jobId);
         if (!backup) {
             throw new Error("Backup not found for this job.");
         }
 
-        console.log(`Reverting job ${jobId} for ${shop}. Items: ${backup.items.length}`);
-
-        // We create a new Bulk Job to restore original tags
-        // We can reuse the "bulkQueue" but we need a custom processor or just use the generic "processing" step logic?
-        // Actually, we can just create a JSONL file and run mutation directly here (or queue it).
-        // Since it might be large, we should use the queue.
-        // We can create a "revert" job type in bulkQueue.
-        // Or just reuse `processBulkJob`? No, `processBulkJob` logic is specific to find/replace.
-        // We need a generic "Apply Mutations" job.
-
-        // Let's add a new job type or step to bulkQueue?
-        // Or simpler: Just handle it here if it's small, or spawn a job.
-        // Let's spawn a job with step='processing' and provide the resultUrl?
-        // No, 'processing' expects a resultUrl from a Query.
-        // Here we already have the data (backup.items).
-        // We can skip to "Mutation" phase.
-        // But `bulk.server.ts` expects `step = 'processing'` to parse JSONL.
-
-        // Let's create a specific "revert" job handler in `bulk.server.ts`?
-        // Or just implement the logic here and use `bulkQueue` to poll.
-
-        // 1. Create Mutation JSONL from Backup
-        const mutations = backup.items.map((item: any) => ({
-            id: item.resourceId,
-            tags: item.originalTags
-        }));
-
-        const mutationLines = mutations.map((m: any) => JSON.stringify({
-            input: { id: m.id, tags: m.tags }
-        }));
-        const mutationFileContent = mutationLines.join('\n');
-
-        // 2. Upload
-        const stagedUpload = await BulkOperationService.getStagedUploadUrl(shop);
-        const formData = new FormData();
-        stagedUpload.parameters.forEach((p: any) => formData.append(p.name, p.value));
-        formData.append("file", new Blob([mutationFileContent], { type: "text/jsonl" }));
-
-        await fetch(stagedUpload.url, { method: "POST", body: formData });
-
-        // 3. Run Mutation
-        const resourceType = backup.resourceType;
-        const mutationQuery = resourceType === 'products'
-            ? `mutation productUpdate($input: ProductInput!) { productUpdate(input: $input) { product { id } userErrors { message } } }`
-            : `mutation customerUpdate($input: CustomerInput!) { customerUpdate(input: $input) { customer { id } userErrors { message } } }`;
-
-        const mutationOp = await BulkOperationService.runBulkMutation(shop, mutationQuery, stagedUpload.parameters.find((p: any) => p.name === 'key').value);
-
-        // 4. Queue polling job
-        // Generate a new random jobId for the revert operation
+        const canCompare = RevertService.isTagBackup(backup);
+        if (selection.mode === "untouched" && !canCompare) {
+            throw new Error("Only tag changes can be checked for edits made after the job.");
+        }
+
+        const selectedIds = new Set(selection.resourceIds || []);
+        const pending = backup.items.filter((item: any) => !item.revertedAt
+            && (selection.mode !== "selected" || selectedIds.has(item.resourceId)));
+
         const revertJobId = generateJobId();
+        const resourceIds = pending.length > 0
+            ? await BackupService.claimItems(shop, jobId, pending.map((item: any) => item.resourceId), revertJobId)
+            : [];
+        if (resourceIds.length === 0) {
+            throw new Error("Nothing left to revert for this job.");
+        }
 
-        await bulkQueue.add("revert-job", {
-            shop,
-            resourceType,
-            step: 'polling_mutation',
-            mutationOpId: mutationOp.id,
-            count: mutations.length,
-            jobId: revertJobId,
-        }, { delay: 5000 });
+        console.log(`Reverting job ${jobId} for ${shop}. Items: ${resourceIds.length} of ${backup.items.length}`);
+        const isMetafieldBackup = backup.items.some((item: any) => item.originalMetafields?.length > 0);
+
+        try {
+            if (isMetafieldBackup) {
+                await bulkQueue.add(METAFIELD_REVERT_JOB, {
+                    shop,
+                    resourceType: backup.resourceType,
+                    backupJobId: jobId,
+                    phase: "set",
+                    step: "init",
+                    restored: 0,
+                    jobId: revertJobId,
+                });
+            } else {
+                // The current values are queried first, to back them up and skip deleted items
+                // (and for tags, items already back to their original tags)
+                await bulkQueue.add(REVERT_JOB, {
+                    shop,
+                    resourceType: backup.resourceType,
+                    backupJobId: jobId,
+                    mode: selection.mode,
+                    step: "init",
+                    ...(canCompare ? {} : { productFields: true }),
+                    jobId: revertJobId,
+                });
+            }
+        } catch (error) {
+            await BackupService.releaseItems(shop, jobId, revertJobId);
+            throw error;
+        }
 
         await ActivityService.createLog({
             shop,
-            resourceType,
+            resourceType: backup.resourceType,
             resourceId: "Bulk",
             jobId: revertJobId,
             action: "Revert",
-            detail: `Started revert for job ${jobId}. Operation: ${mutationOp.id}`,
+            detail: isMetafieldBackup
+                ? `Started restoring metafields for job ${jobId}`
+                : `Queued revert of ${resourceIds.length} items for job ${jobId}`,
             status: "Pending",
         });
 
         return { success: true, message: "Revert started" };
     }
+
+    /**
+     * Revert job for tag and product field backups: query the current values, then restore the claimed
+     * items that still exist (and for tags, still differ). The current values become the backup of the revert itself.
+     */
+    static async processRevertJob(job: any) {
+        const { shop, resourceType, backupJobId, mode = "all", step, operationId, mutationOpId, count } = job.data as {
+            shop: string; resourceType: string; backupJobId: string; mode?: RevertMode;
+            step: "init" | "polling_query" | "processing" | "polling_mutation";
+            operationId?: string; mutationOpId?: string; count?: number;
+        };
+        const revertJobId: string = job.data.jobId;
+        const log = (detail: string, status: string) => ActivityService.createLog({
+            shop,
+            resourceType,
+            resourceId: "Bulk",
+            jobId: revertJobId,
+            action: "Revert",
+            detail,
+            status,
+        });
+
+        try {
+            // --- STEP 1: Query the current values ---
+            if (step === "init") {
+                if (!(await BulkSchedulerService.acquireForStep(job, bulkQueue, "query"))) return;
+
+                const query = job.data.productFields
+                    ? RevertService.getCurrentProductsQuery()
+                    : RevertService.getCurrentTagsQuery(resourceType);
+                const bulkOp = await BulkOperationService.runBulkQuery(shop, query);
+                await bulkQueue.add(job.name, { ...job.data, step: "polling_query", operationId: bulkOp.id }, { delay: 5000 });
+                return;
+            }
+
+            // --- STEP 2: Poll the query ---
+            if (step === "polling_query") {
+                const bulkOp = await BulkOperationService.pollBulkOperation(shop, operationId!);
+                await JobControlService.recordProgress(shop, revertJobId, bulkOp);
+                if (bulkOp.status === "RUNNING" || bulkOp.status === "CREATED") {
+                    await bulkQueue.add(job.name, job.data, { delay: 5000 });
+                    return;
+                }
+                await BulkSchedulerService.release(shop, "query", revertJobId);
+                if (bulkOp.status === "COMPLETED") {
+                    // No URL means no resources are left
+                    await bulkQueue.add(job.name, { ...job.data, step: "processing", resultUrl: bulkOp.url || null }, { delay: 0 });
+                    return;
+                }
+                throw new Error(`Bulk Query Failed: ${bulkOp.status}`);
+            }
+
+            // --- STEP 3: Compare and start the mutation ---
+            if (step === "processing") {
+                if (!(await BulkSchedulerService.acquireForStep(job, bulkQueue, "mutation"))) return;
+
+                const backup = await BackupService.getBackup(shop, backupJobId);
+                if (!backup) {
+                    throw new Error("Backup not found for this job.");
+                }
+
+                const claimed = backup.items.filter((item: any) => item.revertJobId === revertJobId);
+                const current = job.data.resultUrl
+                    ? await RevertService.readCurrentRecords(job.data.resultUrl, new Set(claimed.map((item: any) => item.resourceId)))
+                    : new Map<string, any>();
+                let items: any[];
+                let backupItems: any[];
+                if (RevertService.isTagBackup(backup)) {
+                    const currentTags = new Map(Array.from(current, ([id, node]) => [id, RevertService.toTagState(node)]));
+                    const revertable = RevertService.compareTags(claimed, currentTags).filter(row => mode === "untouched"
+                        ? row.status === "unchanged"
+                        : row.status !== "original" && row.status !== "deleted");
+                    const revertableIds = new Set(revertable.map(row => row.resourceId));
+                    items = claimed.filter((item: any) => revertableIds.has(item.resourceId));
+                    backupItems = items.map((item: any) => ({
+                        resourceId: item.resourceId,
+                        originalTags: currentTags.get(item.resourceId)?.tags || [],
+                        appliedTags: item.originalTags,
+                    }));
+                } else {
+                    items = claimed.filter((item: any) => current.has(item.resourceId));
+                    backupItems = items.map((item: any) => ({
+                        resourceId: item.resourceId,
+                        originalFields: snapshotProductFields(item.originalFields, current.get(item.resourceId)),
+                    }));
+                }
+
+                const skippedIds = claimed
+                    .filter((item: any) => !items.includes(item))
+                    .map((item: any) => item.resourceId);
+                if (skippedIds.length > 0) {
+                    await BackupService.releaseItems(shop, backupJobId, revertJobId, skippedIds);
+                }
+
+                if (items.length === 0) {
+                    await BulkSchedulerService.release(shop, "mutation", revertJobId);
+                    await log(`Nothing left to revert for job ${backupJobId}.`, "Success");
+                    return;
+                }
+
+                await BackupService.createBackup({
+                    shop,
+                    jobId: revertJobId,
+                    resourceType,
+                    revertOfJobId: backupJobId,
+                    items: backupItems,
+                });
+
+                const resourceIds: string[] = items.map((item: any) => item.resourceId);
+                const { mutationLines, mutationQuery } = RevertService.getRevertMutation({ resourceType, items });
+                const uploadPath = await BulkOperationService.uploadMutationVariables(shop, mutationLines);
+                await JobResultService.trackMutation(shop, revertJobId, resourceType, resourceIds);
+                const mutationOp = await BulkOperationService.runBulkMutation(shop, mutationQuery, uploadPath);
+
+                // Undoing a revert makes the items of the job it reverted revertable again
+                if (backup.revertOfJobId) {
+                    await BackupService.markItemsReverted(shop, backup.revertOfJobId, resourceIds, false);
+                }
+
+                await bulkQueue.add(job.name, { ...job.data, step: "polling_mutation", mutationOpId: mutationOp.id, count: mutationLines.length }, { delay: 5000 });
+                await log(`Started revert of ${items.length} items for job ${backupJobId}. Operation: ${mutationOp.id}`, "Pending");
+                return;
+            }
+
+            // --- STEP 4: Poll the mutation ---
+            const bulkOp = await BulkOperationService.pollBulkOperation(shop, mutationOpId!);
+            await JobControlService.recordProgress(shop, revertJobId, bulkOp);
+            if (bulkOp.status === "RUNNING" || bulkOp.status === "CREATED") {
+                await bulkQueue.add(job.name, job.data, { delay: 5000 });
+                return;
+            }
+            await BulkSchedulerService.release(shop, "mutation", revertJobId);
+            if (bulkOp.status === "COMPLETED") {
+                const summary = await JobResultService.recordMutationResult(shop, revertJobId, resourceType, bulkOp.url, count || 0);
+                // Items Shopify rejected still have the job's values, so they can be reverted again
+                if (summary.failedIds.length > 0) {
+                    await BackupService.releaseItems(shop, backupJobId, revertJobId, summary.failedIds);
+                }
+                await UsageService.recordOperation(shop, summary.succeeded);
+                await log(`Reverted ${summary.succeeded} items from job ${backupJobId}.${JobResultService.describeFailures(summary)}`, JobResultService.getLogStatus(summary));
+                return;
+            }
+
+            throw new Error(`Bulk Mutation Failed: ${bulkOp.status}`);
+        } catch (error) {
+            console.error("Revert job error:", error);
+            await BulkSchedulerService.releaseAll(shop, revertJobId);
+            await BackupService.releaseItems(shop, backupJobId, revertJobId);
+            await log(`Failed: ${(error as Error).message}`, "Failed");
+            throw error;
+        }
+    }
+
+    /**
+     * Preview of a revert: the first `limit` items with their current state. Only those pending items are
+     * compared, so the counts cover the listed items; the revert job compares the rest when it runs.
+     */
+    static async previewRevert(shop: string, jobId: string, limit = 100): Promise<RevertPreview> {
+        const backup = await BackupService.getBackup(shop, jobId);
+        if (!backup) {
+            throw new Error("Backup not found for this job.");
+        }
+
+        const canCompare = RevertService.isTagBackup(backup);
+        const pending = backup.items.filter((item: any) => !item.revertedAt);
+        const shown = pending.slice(0, limit);
+        const reverted: RevertPreviewItem[] = backup.items
+            .filter((item: any) => item.revertedAt)
+            .map((item: any) => ({ resourceId: item.resourceId, status: "reverted" as const, originalTags: item.originalTags, currentTags: null }));
+        const rows: RevertPreviewItem[] = canCompare
+            ? RevertService.compareTags(shown, await RevertService.fetchCurrentTags(shop, shown.map((item: any) => item.resourceId)))
+            : shown.map((item: any) => ({ resourceId: item.resourceId, status: "unknown" as const, originalTags: item.originalTags, currentTags: null }));
+
+        const counts: Record<RevertItemStatus, number> = { unchanged: 0, changed: 0, unknown: 0, original: 0, deleted: 0, reverted: reverted.length };
+        rows.forEach(row => counts[row.status]++);
+
+        return {
+            jobId,
+            resourceType: backup.resourceType,
+            canCompare,
+            total: backup.items.length,
+            pending: pending.length,
+            counts,
+            items: [...rows, ...reverted].slice(0, limit),
+        };
+    }
+
+    /**
+     * Tag backups (no metafield or product field values) can be compared to the current tags
+     */
+    static isTagBackup(backup: any): boolean {
+        return !backup.items.some((item: any) => item.originalFields || item.originalMetafields?.length > 0);
+    }
+
+    /**
+     * Whether backed up items were edited after the job, given their current title and tags.
+     * Items missing from `current` no longer exist.
+     */
+    static compareTags(items: any[], current: Map<string, { title: string; tags: string[] }>): RevertPreviewItem[] {
+        return items.map(item => {
+            const node = current.get(item.resourceId);
+            const row = { resourceId: item.resourceId, title: node?.title, originalTags: item.originalTags, currentTags: node?.tags ?? null };
+
+            let status: RevertItemStatus;
+            if (!node) status = "deleted";
+            else if (isSameTagSet(node.tags, item.originalTags)) status = "original";
+            else if (!item.appliedTags) status = "unknown";
+            else status = isSameTagSet(node.tags, item.appliedTags) ? "unchanged" : "changed";
+
+            return { ...row, status };
+        });
+    }
+
+    /**
+     * Title and tags of resources by id, 250 per request. Deleted resources are missing from the map;
+     * a failed request throws rather than making its resources look deleted.
+     */
+    static async fetchCurrentTags(shop: string, ids: string[]): Promise<Map<string, { title: string; tags: string[] }>> {
+        const { admin } = await unauthenticated.admin(shop);
+        const current = new Map<string, { title: string; tags: string[] }>();
+
+        for (let i = 0; i < ids.length; i += 250) {
+            const batch = ids.slice(i, i + 250);
+            const response = await admin.graphql(
+                `#graphql
+                query revertNodes($ids: [ID!]!) {
+                    nodes(ids: $ids) {
+                        id
+                        ... on Product { title tags }
+                        ... on Customer { displayName tags }
+                        ... on Order { name tags }
+                    }
+                }`,
+                { variables: { ids: batch } }
+            );
+            const data = await response.json();
+            const nodes = data.data?.nodes;
+            if (!Array.isArray(nodes) || nodes.length !== batch.length) {
+                throw new Error("Couldn't load the current tags of the backed up items. Please try again.");
+            }
+            for (const node of nodes) {
+                if (node) current.set(node.id, RevertService.toTagState(node));
+            }
+        }
+        return current;
+    }
+
+    /**
+     * Bulk query listing every resource of the type with its title and tags
+     */
+    static getCurrentTagsQuery(resourceType: string): string {
+        return `
+        {
+            ${resourceType} {
+                edges {
+                    node {
+                        id
+                        ${TITLE_FIELDS[resourceType] || "title"}
+                        tags
+                    }
+                }
+            }
+        }`;
+    }
+
+    /**
+     * Bulk query listing every product with the fields a product field backup can hold, as the bulk product field job reads them
+     */
+    static getCurrentProductsQuery(): string {
+        return `
+        {
+            products {
+                edges {
+                    node {
+                        ${getResourceFields("products", "seo { title }")}
+                    }
+                }
+            }
+        }`;
+    }
+
+    /**
+     * Bulk query listing every owner of a metafield backup with the current value of each backed up metafield.
+     * A backup can hold several metafields, so each gets an alias from its position in `getMetafieldKeys`.
+     */
+    static getCurrentMetafieldsQuery(resourceType: string, items: any[]): string {
+        const metafields = RevertService.getMetafieldKeys(items)
+            .map(({ namespace, key }, index) => `metafield${index}: metafield(namespace: ${JSON.stringify(namespace)}, key: ${JSON.stringify(key)}) { value type }`);
+        return `
+        {
+            ${METAFIELD_CONNECTIONS[resourceType] || resourceType} {
+                edges {
+                    node {
+                        id
+                        ${metafields.join("\n                        ")}
+                    }
+                }
+            }
+        }`;
+    }
+
+    /**
+     * Distinct namespace/key pairs of the backed up metafields, in a stable order
+     */
+    static getMetafieldKeys(items: any[]): Array<{ namespace: string; key: string }> {
+        const keys = new Map<string, { namespace: string; key: string }>();
+        for (const item of items) {
+            for (const { namespace, key } of item.originalMetafields || []) {
+                keys.set(JSON.stringify([namespace, key]), { namespace, key });
+            }
+        }
+        return Array.from(keys.values());
+    }
+
+    /**
+     * Current values of the metafields an item's backup restores, in the backup's shape
+     */
+    static snapshotMetafields(item: any, record: any, keys: Array<{ namespace: string; key: string }>): any[] {
+        return item.originalMetafields.map((metafield: any) => {
+            const index = keys.findIndex(({ namespace, key }) => namespace === metafield.namespace && key === metafield.key);
+            const current = record[`metafield${index}`];
+            return { namespace: metafield.namespace, key: metafield.key, value: current?.value ?? null, type: current?.type || metafield.type };
+        });
+    }
+
+    /**
+     * The given resources from a bulk query result, by id. A completed query lists every resource,
+     * so ids missing from it were deleted.
+     */
+    private static async readCurrentRecords(resultUrl: string, ids: Set<string>): Promise<Map<string, any>> {
+        const response = await fetch(resultUrl);
+        const records = parseBulkJsonl(await response.text()).filter(record => ids.has(record.id));
+        return new Map(records.map(record => [record.id, record]));
+    }
+
+    private static toTagState(node: any): { title: string; tags: string[] } {
+        return { title: node.title || node.displayName || node.name || "", tags: node.tags || [] };
+    }
+
+    /**
+     * Mutation restoring a tag or product field backup: one JSONL line per backed up resource.
+     */
+    static getRevertMutation(backup: any): { mutationLines: string[]; mutationQuery: string } {
+        const items: any[] = backup.items;
+
+        if (items.some(item => item.originalFields)) {
+            const isVariantBackup = items.some(item => item.originalFields?.variants);
+            return {
+                mutationLines: items.map(item => JSON.stringify(isVariantBackup
+                    ? { productId: item.resourceId, variants: item.originalFields.variants }
+                    : { input: { id: item.resourceId, ...item.originalFields } })),
+                mutationQuery: isVariantBackup ? VARIANTS_BULK_UPDATE_MUTATION : PRODUCT_UPDATE_MUTATION,
+            };
+        }
+
+        return {
+            mutationLines: items.map(item => JSON.stringify({ input: { id: item.resourceId, tags: item.originalTags } })),
+            mutationQuery: BulkOperationService.getTagUpdateMutation(backup.resourceType),
+        };
+    }
+
+    /**
+     * Metafield revert job: query the current values to back them up, restore the values that existed
+     * (metafieldsSet), then delete the ones the job created.
+     */
+    static async processMetafieldRevertJob(job: any) {
+        const { shop, resourceType, backupJobId, phase, step, operationId, mutationOpId, restored = 0, failed = 0 } = job.data as {
+            shop: string; resourceType: string; backupJobId: string; phase: MetafieldRevertPhase;
+            step: "init" | "polling_query" | "start" | "polling"; operationId?: string; mutationOpId?: string;
+            restored?: number; failed?: number;
+        };
+        // Each phase keeps its own item results, so the delete phase doesn't replace those of the set phase
+        const resultType = phase === "set" ? resourceType : `${resourceType} (metafield deletes)`;
+        const log = (detail: string, status: string) => ActivityService.createLog({
+            shop,
+            resourceType,
+            resourceId: "Bulk",
+            jobId: job.data.jobId,
+            action: "Revert",
+            detail,
+            status,
+        });
+
+        const nextPhase = async (result: { succeeded: number; failed: number }) => {
+            const summary = { succeeded: restored + result.succeeded, failed: failed + result.failed, failedIds: [] };
+            if (phase === "set") {
+                await bulkQueue.add(job.name, { ...job.data, phase: "delete", step: "start", mutationOpId: undefined, restored: summary.succeeded, failed: summary.failed });
+                return;
+            }
+            await log(
+                `Restored metafields on ${summary.succeeded} items from job ${backupJobId}.${JobResultService.describeFailures(summary)}`,
+                JobResultService.getLogStatus(summary)
+            );
+        };
+
+        const getClaimedItems = async () => {
+            const backup = await BackupService.getBackup(shop, backupJobId);
+            if (!backup) {
+                throw new Error("Backup not found for this job.");
+            }
+            return { backup, items: backup.items.filter((item: any) => item.revertJobId === job.data.jobId) };
+        };
+
+        try {
+            if (step === "init") {
+                if (!(await BulkSchedulerService.acquireForStep(job, bulkQueue, "query"))) return;
+
+                const { items } = await getClaimedItems();
+                const bulkOp = await BulkOperationService.runBulkQuery(shop, RevertService.getCurrentMetafieldsQuery(resourceType, items));
+                await bulkQueue.add(job.name, { ...job.data, step: "polling_query", operationId: bulkOp.id }, { delay: 5000 });
+                return;
+            }
+
+            if (step === "polling_query") {
+                const bulkOp = await BulkOperationService.pollBulkOperation(shop, operationId!);
+                await JobControlService.recordProgress(shop, job.data.jobId, bulkOp);
+                if (bulkOp.status === "RUNNING" || bulkOp.status === "CREATED") {
+                    await bulkQueue.add(job.name, job.data, { delay: 5000 });
+                    return;
+                }
+                await BulkSchedulerService.release(shop, "query", job.data.jobId);
+                if (bulkOp.status === "COMPLETED") {
+                    // No URL means no owners are left
+                    await bulkQueue.add(job.name, { ...job.data, step: "start", resultUrl: bulkOp.url || null }, { delay: 0 });
+                    return;
+                }
+                throw new Error(`Bulk Query Failed: ${bulkOp.status}`);
+            }
+
+            if (step === "start") {
+                if (!(await BulkSchedulerService.acquireForStep(job, bulkQueue, "mutation"))) return;
+
+                const { backup, items: claimed } = await getClaimedItems();
+                let items = claimed;
+                if (phase === "set") {
+                    items = await RevertService.backupMetafieldRevert(job.data, backup, claimed);
+                }
+                const { mutationLines, resourceIds } = RevertService.getMetafieldRevertLines(items, phase);
+                if (mutationLines.length === 0) {
+                    await BulkSchedulerService.release(shop, "mutation", job.data.jobId);
+                    await nextPhase({ succeeded: 0, failed: 0 });
+                    return;
+                }
+
+                const uploadPath = await BulkOperationService.uploadMutationVariables(shop, mutationLines);
+                const mutation = phase === "set" ? METAFIELDS_SET_MUTATION : METAFIELDS_DELETE_MUTATION;
+                await JobResultService.trackMutation(shop, job.data.jobId, resultType, resourceIds);
+                const mutationOp = await BulkOperationService.runBulkMutation(shop, mutation, uploadPath);
+                await bulkQueue.add(job.name, { ...job.data, step: "polling", mutationOpId: mutationOp.id, count: mutationLines.length }, { delay: 5000 });
+                return;
+            }
+
+            const bulkOp = await BulkOperationService.pollBulkOperation(shop, mutationOpId!);
+            await JobControlService.recordProgress(shop, job.data.jobId, bulkOp);
+            if (bulkOp.status === "RUNNING" || bulkOp.status === "CREATED") {
+                await bulkQueue.add(job.name, job.data, { delay: 5000 });
+                return;
+            }
+            await BulkSchedulerService.release(shop, "mutation", job.data.jobId);
+            if (bulkOp.status === "COMPLETED") {
+                const summary = await JobResultService.recordMutationResult(shop, job.data.jobId, resultType, bulkOp.url, job.data.count || 0);
+                // Items with a rejected line keep the job's values; released, they also skip the delete phase
+                if (summary.failedIds.length > 0) {
+                    await BackupService.releaseItems(shop, backupJobId, job.data.jobId, summary.failedIds);
+                }
+                await UsageService.recordOperation(shop, summary.succeeded);
+                await nextPhase(summary);
+                return;
+            }
+
+            throw new Error(`Bulk Mutation Failed: ${bulkOp.status}`);
+        } catch (error) {
+            console.error("Metafield revert error:", error);
+            await BulkSchedulerService.releaseAll(shop, job.data.jobId);
+            await BackupService.releaseItems(shop, backupJobId, job.data.jobId);
+            await log(`Failed: ${(error as Error).message}`, "Failed");
+            throw error;
+        }
+    }
+
+    /**
+     * Back up the current metafield values of the claimed items that still exist, before the set phase
+     * changes them, and release the deleted ones. Returns the items left to restore.
+     */
+    private static async backupMetafieldRevert(data: any, backup: any, claimed: any[]): Promise<any[]> {
+        const { shop, resourceType, backupJobId, jobId: revertJobId } = data;
+        const current = data.resultUrl
+            ? await RevertService.readCurrentRecords(data.resultUrl, new Set(claimed.map((item: any) => item.resourceId)))
+            : new Map<string, any>();
+        const items = claimed.filter((item: any) => current.has(item.resourceId));
+
+        const deletedIds = claimed
+            .filter((item: any) => !current.has(item.resourceId))
+            .map((item: any) => item.resourceId);
+        if (deletedIds.length > 0) {
+            await BackupService.releaseItems(shop, backupJobId, revertJobId, deletedIds);
+        }
+        if (items.length === 0) return items;
+
+        const keys = RevertService.getMetafieldKeys(claimed);
+        await BackupService.createBackup({
+            shop,
+            jobId: revertJobId,
+            resourceType,
+            revertOfJobId: backupJobId,
+            items: items.map((item: any) => ({
+                resourceId: item.resourceId,
+                originalMetafields: RevertService.snapshotMetafields(item, current.get(item.resourceId), keys),
+            })),
+        });
+
+        // Undoing a revert makes the items of the job it reverted revertable again
+        if (backup.revertOfJobId) {
+            await BackupService.markItemsReverted(shop, backup.revertOfJobId, items.map((item: any) => item.resourceId), false);
+        }
+        return items;
+    }
+
+    /**
+     * Mutation variables for one phase, with the owner of each line: metafields that had a value are set back,
+     * metafields that didn't exist are deleted.
+     */
+    static getMetafieldRevertLines(items: any[], phase: MetafieldRevertPhase): { mutationLines: string[]; resourceIds: string[] } {
+        const mutationLines: string[] = [];
+        const resourceIds: string[] = [];
+        for (const item of items) {
+            for (const metafield of item.originalMetafields || []) {
+                const { namespace, key, value, type } = metafield;
+                const existed = value !== null && value !== undefined;
+                if (phase === "set" && existed) {
+                    mutationLines.push(JSON.stringify({ metafields: [{ ownerId: item.resourceId, namespace, key, value, type }] }));
+                    resourceIds.push(item.resourceId);
+                } else if (phase === "delete" && !existed) {
+                    mutationLines.push(JSON.stringify({ metafields: [{ ownerId: item.resourceId, namespace, key }] }));
+                    resourceIds.push(item.resourceId);
+                }
+            }
+        }
+        return { mutationLines, resourceIds };
+    }
 }
@@ -0,0 +1,185 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { ScheduleService } from './schedule.service';
+import { Schedule } from '../models/Schedule';
+import { bulkQueue, cleanerQueue, cronQueue } from '../queues';
+import { ActivityService } from './activity.service';
+import { BackfillService } from './backfill.service';
+import { UsageService } from './usage.service';
+
+vi.mock('../queues', () => ({
+  bulkQueue: { add: vi.fn() },
+  cleanerQueue: { add: vi.fn() },
+  cronQueue: { add: vi.fn(), upsertJobScheduler: vi.fn(), removeJobScheduler: vi.fn(), getJobScheduler: vi.fn() }
+}));
+
+vi.mock('../models/Schedule', () => ({
+  Schedule: {
+    find: vi.fn(),
+    findOne: vi.fn(),
+    findOneAndUpdate: vi.fn(),
+    findOneAndDelete: vi.fn(),
+    create: vi.fn(),
+    updateOne: vi.fn(),
+    replaceOne: vi.fn(),
+    deleteOne: vi.fn()
+  }
+}));
+
+vi.mock('./activity.service', () => ({
+  ActivityService: { createLog: vi.fn() }
+}));
+
+vi.mock('./backfill.service', () => ({
+  BackfillService: { startBackfill: vi.fn() }
+}));
+
+vi.mock('./usage.service', () => ({
+  UsageService: { checkQuota: vi.fn() }
+}));
+
+vi.mock('./tagger.service', () => ({
+  TaggerService: { getShopTimezone: vi.fn().mockResolvedValue("Europe/Berlin") }
+}));
+
+describe('ScheduleService', () => {
+  const baseSchedule = {
+    _id: "sched-1",
+    shop: "test-shop",
+    name: "Nightly VIP",
+    isEnabled: true,
+    frequency: "daily",
+    minute: 30,
+    hour: 2,
+    dayOfWeek: 1,
+    cronExpression: "",
+    taskType: "rules",
+    taggingRuleIds: ["rule-1", "rule-2"],
+    metafieldRuleIds: [],
+    bulkOperation: { resourceType: "products", operation: "add", findTag: "", replaceTag: "" },
+    cleanerTags: []
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    (UsageService.checkQuota as any).mockResolvedValue({ allowed: true });
+  });
+
+  describe('getCronPattern', () => {
+    it('should build patterns for each frequency', () => {
+      expect(ScheduleService.getCronPattern({ ...baseSchedule, frequency: "hourly" })).toBe("30 * * * *");
+      expect(ScheduleService.getCronPattern(baseSchedule)).toBe("30 2 * * *");
+      expect(ScheduleService.getCronPattern({ ...baseSchedule, frequency: "weekly", dayOfWeek: 0 })).toBe("30 2 * * 0");
+      expect(ScheduleService.getCronPattern({ ...baseSchedule, frequency: "cron", cronExpression: " 0  6 * * 1-5 " })).toBe("0 6 * * 1-5");
+    });
+  });
+
+  describe('validateSchedule', () => {
+    it('should reject malformed cron expressions and empty tasks', () => {
+      expect(ScheduleService.validateSchedule(baseSchedule)).toBeNull();
+      expect(ScheduleService.validateSchedule({ ...baseSchedule, frequency: "cron", cronExpression: "every day" })).toMatch(/5 fields/);
+      expect(ScheduleService.validateSchedule({ ...baseSchedule, frequency: "cron", cronExpression: "99 99 * * *" })).toMatch(/Invalid cron expression/);
+      expect(ScheduleService.validateSchedule({ ...baseSchedule, frequency: "cron", cronExpression: "*/15 9-17 * * MON-FRI" })).toBeNull();
+      expect(ScheduleService.validateSchedule({ ...baseSchedule, taggingRuleIds: [] })).toMatch(/at least one rule/);
+      expect(ScheduleService.validateSchedule({ ...baseSchedule, taskType: "cleaner" })).toMatch(/at least one tag/);
+    });
+  });
+
+  describe('saveSchedule', () => {
+    it('should register a job scheduler in the shop timezone', async () => {
+      (Schedule.create as any).mockResolvedValue(baseSchedule);
+
+      await ScheduleService.saveSchedule("test-shop", { ...baseSchedule, _id: undefined });
+
+      expect(cronQueue.upsertJobScheduler).toHaveBeenCalledWith(
+        "schedule-sched-1",
+        { pattern: "30 2 * * *", tz: "Europe/Berlin" },
+        { name: "scheduled-task", data: { shop: "test-shop", scheduleId: "sched-1" } }
+      );
+    });
+
+    it('should not keep a new schedule when its job scheduler is refused', async () => {
+      (Schedule.create as any).mockResolvedValue(baseSchedule);
+      vi.mocked(cronQueue.upsertJobScheduler).mockRejectedValueOnce(new Error("Invalid pattern"));
+
+      await expect(ScheduleService.saveSchedule("test-shop", { ...baseSchedule, _id: undefined })).rejects.toThrow("Invalid pattern");
+
+      expect(Schedule.deleteOne).toHaveBeenCalledWith({ shop: "test-shop", _id: "sched-1" });
+    });
+
+    it('should restore an edited schedule when its job scheduler is refused', async () => {
+      const previous = { ...baseSchedule, hour: 4 };
+      (Schedule.findOne as any).mockReturnValue({ lean: vi.fn().mockResolvedValue(previous) });
+      (Schedule.findOneAndUpdate as any).mockResolvedValue(baseSchedule);
+      vi.mocked(cronQueue.upsertJobScheduler).mockRejectedValueOnce(new Error("Invalid pattern"));
+
+      await expect(ScheduleService.saveSchedule("test-shop", baseSchedule)).rejects.toThrow("Invalid pattern");
+
+      expect(Schedule.replaceOne).toHaveBeenCalledWith({ shop: "test-shop", _id: "sched-1" }, previous);
+      expect(Schedule.deleteOne).not.toHaveBeenCalled();
+    });
+
+    it('should remove the job scheduler when disabled', async () => {
+      (Schedule.findOneAndUpdate as any).mockResolvedValue({ ...baseSchedule, isEnabled: false });
+
+      await ScheduleService.toggleSchedule("test-shop", "sched-1", false);
+
+      expect(cronQueue.removeJobScheduler).toHaveBeenCalledWith("schedule-sched-1");
+      expect(cronQueue.upsertJobScheduler).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('runSchedule', () => {
+    it('should start a backfill for every selected rule and log the run', async () => {
+      (Schedule.findOne as any).mockResolvedValue(baseSchedule);
+
+      await ScheduleService.runSchedule({ data: { shop: "test-shop", scheduleId: "sched-1" } });
+
+      expect(BackfillService.startBackfill).toHaveBeenCalledWith("test-shop", "tagging", "rule-1");
+      expect(BackfillService.startBackfill).toHaveBeenCalledWith("test-shop", "tagging", "rule-2");
+      expect(Schedule.updateOne).toHaveBeenCalledWith({ _id: "sched-1" }, expect.objectContaining({ lastStatus: "Success" }));
+      expect(ActivityService.createLog).toHaveBeenCalledWith(expect.objectContaining({
+        action: "Scheduled Run",
+        detail: "Nightly VIP: Queued 2 rule runs",
+        status: "Success"
+      }));
+    });
+
+    it('should queue saved bulk operations and cleaner presets', async () => {
+      (Schedule.findOne as any).mockResolvedValueOnce({
+        ...baseSchedule,
+        taskType: "bulk",
+        bulkOperation: { resourceType: "customers", operation: "replace", findTag: "old", replaceTag: "new" }
+      });
+      await ScheduleService.runSchedule({ data: { shop: "test-shop", scheduleId: "sched-1" } });
+
+      expect(bulkQueue.add).toHaveBeenCalledWith("bulk-tag-update", expect.objectContaining({
+        shop: "test-shop", resourceType: "customers", operation: "replace", findTag: "old", replaceTag: "new"
+      }));
+
+      (Schedule.findOne as any).mockResolvedValueOnce({ ...baseSchedule, taskType: "cleaner", cleanerTags: ["temp"] });
+      await ScheduleService.runSchedule({ data: { shop: "test-shop", scheduleId: "sched-1" } });
+
+      expect(cleanerQueue.add).toHaveBeenCalledWith("clean-tags", expect.objectContaining({ shop: "test-shop", tagsToRemove: ["temp"] }));
+    });
+
+    it('should record a failed run when over quota', async () => {
+      (Schedule.findOne as any).mockResolvedValue({ ...baseSchedule, taskType: "cleaner", cleanerTags: ["temp"] });
+      (UsageService.checkQuota as any).mockResolvedValue({ allowed: false, message: "Monthly quota exceeded." });
+
+      await ScheduleService.runSchedule({ data: { shop: "test-shop", scheduleId: "sched-1" } });
+
+      expect(cleanerQueue.add).not.toHaveBeenCalled();
+      expect(ActivityService.createLog).toHaveBeenCalledWith(expect.objectContaining({ status: "Failed" }));
+    });
+
+    it('should skip disabled schedules and drop schedulers of deleted ones', async () => {
+      (Schedule.findOne as any).mockResolvedValueOnce({ ...baseSchedule, isEnabled: false });
+      await ScheduleService.runSchedule({ data: { shop: "test-shop", scheduleId: "sched-1" } });
+      expect(BackfillService.startBackfill).not.toHaveBeenCalled();
+
+      (Schedule.findOne as any).mockResolvedValueOnce(null);
+      await ScheduleService.runSchedule({ data: { shop: "test-shop", scheduleId: "gone" } });
+      expect(cronQueue.removeJobScheduler).toHaveBeenCalledWith("schedule-gone");
+    });
+  });
+});
@@ -0,0 +1,241 @@
+import { parseExpression } from "cron-parser";
+import { bulkQueue, cleanerQueue, cronQueue } from "../queues";
+import { Schedule } from "../models/Schedule";
+import { ActivityService } from "./activity.service";
+import { BackfillService, type BackfillRuleKind } from "./backfill.service";
+import { TaggerService } from "./tagger.service";
+import { UsageService } from "./usage.service";
+import { generateJobId } from "~/utils/id-generator";
+
+export const SCHEDULED_TASK_JOB = "scheduled-task";
+
+
+/**
+ * Recurring automations. Each enabled schedule owns a BullMQ job scheduler on the
+ * cron queue that fires `scheduled-task` jobs in the shop's timezone.
+ */
+export class ScheduleService {
+    static async getSchedules(shop: string) {
+        const schedules = await Schedule.find({ shop }).sort({ createdAt: -1 }).lean();
+
+        return await Promise.all(schedules.map(async (schedule: any) => {
+            const scheduler = schedule.isEnabled
+                ? await cronQueue.getJobScheduler(ScheduleService.getSchedulerId(schedule._id)).catch(() => undefined)
+                : undefined;
+            return { ...schedule, nextRunAt: scheduler?.next ? new Date(scheduler.next).toISOString() : null };
+        }));
+    }
+
+    static async saveSchedule(shop: string, data: any) {
+        data = { ...data, cleanerTags: (data.cleanerTags || []).map((tag: string) => tag.trim()).filter(Boolean) };
+        const error = ScheduleService.validateSchedule(data);
+        if (error) {
+            throw new Error(error);
+        }
+
+        const { _id, ...fields } = data;
+        // Run status is owned by the worker
+        delete fields.shop;
+        delete fields.lastRunAt;
+        delete fields.lastStatus;
+        delete fields.lastMessage;
+        delete fields.nextRunAt;
+
+        const previous = _id ? await Schedule.findOne({ shop, _id }).lean() : null;
+        if (_id && !previous) {
+            throw new Error("Schedule not found.");
+        }
+
+        const schedule = _id
+            ? await Schedule.findOneAndUpdate({ shop, _id }, { ...fields, updatedAt: new Date() }, { new: true })
+            : await Schedule.create({ ...fields, shop });
+
+        if (!schedule) {
+            throw new Error("Schedule not found.");
+        }
+
+        // Don't keep a schedule whose job scheduler BullMQ refused
+        try {
+            await ScheduleService.syncScheduler(schedule);
+        } catch (error) {
+            if (previous) {
+                await Schedule.replaceOne({ shop, _id }, previous);
+            } else {
+                await Schedule.deleteOne({ shop, _id: schedule._id });
+            }
+            throw error;
+        }
+        return schedule;
+    }
+
+    static async toggleSchedule(shop: string, id: string, isEnabled: boolean) {
+        const schedule = await Schedule.findOneAndUpdate({ shop, _id: id }, { isEnabled, updatedAt: new Date() }, { new: true });
+        if (schedule) {
+            await ScheduleService.syncScheduler(schedule);
+        }
+    }
+
+    static async deleteSchedule(shop: string, id: string) {
+        await Schedule.findOneAndDelete({ shop, _id: id });
+        await cronQueue.removeJobScheduler(ScheduleService.getSchedulerId(id));
+    }
+
+    static async runNow(shop: string, id: string) {
+        await cronQueue.add(SCHEDULED_TASK_JOB, { shop, scheduleId: id, manual: true });
+    }
+
+    /**
+     * Cron pattern for a schedule, evaluated by BullMQ in the shop's timezone.
+     */
+    static getCronPattern(schedule: any): string {
+        const minute = schedule.minute ?? 0;
+        const hour = schedule.hour ?? 0;
+
+        switch (schedule.frequency) {
+            case 'hourly':
+                return `${minute} * * * *`;
+            case 'weekly':
+                return `${minute} ${hour} * * ${schedule.dayOfWeek ?? 1}`;
+            case 'cron':
+                return String(schedule.cronExpression || "").trim().replace(/\s+/g, " ");
+            default:
+                return `${minute} ${hour} * * *`;
+        }
+    }
+
+    static validateSchedule(data: any): string | null {
+        if (!data.name?.trim()) return "Schedule name is required";
+
+        if (data.frequency === 'cron') {
+            const pattern = ScheduleService.getCronPattern(data);
+            if (pattern.split(" ").length !== 5) {
+                return "Cron expression must have 5 fields: minute hour day-of-month month day-of-week";
+            }
+            // The parser BullMQ schedules with, so a saved pattern can't be refused later
+            try {
+                parseExpression(pattern);
+            } catch (error) {
+                return `Invalid cron expression: ${(error as Error).message}`;
+            }
+        }
+
+        switch (data.taskType) {
+            case 'rules':
+                if (!data.taggingRuleIds?.length && !data.metafieldRuleIds?.length) return "Select at least one rule to run";
+                break;
+            case 'bulk': {
+                const { operation, findTag, replaceTag } = data.bulkOperation || {};
+                if (!findTag?.trim()) return "Find tag is required";
+                if (operation !== 'remove' && !replaceTag?.trim()) return "Tag to add is required";
+                break;
+            }
+            case 'cleaner':
+                if (!data.cleanerTags?.length) return "Select at least one tag to remove";
+                break;
+            default:
+                return "Unknown task type";
+        }
+
+        return null;
+    }
+
+    /**
+     * Create, update or remove the BullMQ job scheduler behind a schedule.
+     */
+    static async syncScheduler(schedule: any) {
+        const schedulerId = ScheduleService.getSchedulerId(schedule._id);
+
+        if (!schedule.isEnabled) {
+            await cronQueue.removeJobScheduler(schedulerId);
+            return;
+        }
+
+        const tz = await TaggerService.getShopTimezone(schedule.shop);
+        await cronQueue.upsertJobScheduler(
+            schedulerId,
+            { pattern: ScheduleService.getCronPattern(schedule), tz },
+            { name: SCHEDULED_TASK_JOB, data: { shop: schedule.shop, scheduleId: String(schedule._id) } }
+        );
+    }
+
+    static async runSchedule(job: any) {
+        const { shop, scheduleId } = job.data;
+        const schedule = await Schedule.findOne({ shop, _id: scheduleId });
+
+        if (!schedule) {
+            // Schedule was deleted but its scheduler survived, stop it from firing again
+            await cronQueue.removeJobScheduler(ScheduleService.getSchedulerId(scheduleId));
+            return;
+        }
+
+        if (!schedule.isEnabled && !job.data.manual) return;
+
+        const log = (detail: string, status: "Success" | "Failed") => ActivityService.createLog({
+            shop,
+            resourceType: "Schedule",
+            resourceId: String(schedule._id),
+            action: "Scheduled Run",
+            detail: `${schedule.name}: ${detail}`,
+            jobId: generateJobId(),
+            status,
+        });
+
+        try {
+            const summary = await ScheduleService.runTask(schedule);
+            await Schedule.updateOne({ _id: schedule._id }, { lastRunAt: new Date(), lastStatus: "Success", lastMessage: summary });
+            await log(summary, "Success");
+        } catch (error) {
+            const message = (error as Error).message;
+            await Schedule.updateOne({ _id: schedule._id }, { lastRunAt: new Date(), lastStatus: "Failed", lastMessage: message });
+            await log(`Failed: ${message}`, "Failed");
+        }
+    }
+
+    /**
+     * Queue the schedule's work. Each queued job logs its own progress under a new job id.
+     */
+    private static async runTask(schedule: any): Promise<string> {
+        const shop = schedule.shop;
+
+        if (schedule.taskType === 'rules') {
+            const rules: Array<{ kind: BackfillRuleKind; id: string }> = [
+                ...(schedule.taggingRuleIds || []).map((id: string) => ({ kind: "tagging" as const, id })),
+                ...(schedule.metafieldRuleIds || []).map((id: string) => ({ kind: "metafield" as const, id })),
+            ];
+
+            const skipped: string[] = [];
+            for (const rule of rules) {
+                try {
+                    await BackfillService.startBackfill(shop, rule.kind, rule.id);
+                } catch (error) {
+                    skipped.push((error as Error).message);
+                }
+            }
+
+            if (skipped.length === rules.length) {
+                throw new Error(skipped[0] || "No rules to run");
+            }
+
+            const started = rules.length - skipped.length;
+            return `Queued ${started} rule run${started === 1 ? "" : "s"}` + (skipped.length ? ` (${skipped.length} skipped: ${skipped[0]})` : "");
+        }
+
+        const quotaCheck = await UsageService.checkQuota(shop, 1);
+        if (!quotaCheck.allowed) {
+            throw new Error(quotaCheck.message || "Monthly quota exceeded.");
+        }
+
+        if (schedule.taskType === 'bulk') {
+            const { resourceType, operation, findTag, replaceTag } = schedule.bulkOperation;
+            await bulkQueue.add("bulk-tag-update", { shop, resourceType, operation, findTag, replaceTag, jobId: generateJobId() });
+            return `Queued bulk ${operation} on ${resourceType} tagged '${findTag}'`;
+        }
+
+        await cleanerQueue.add("clean-tags", { shop, tagsToRemove: schedule.cleanerTags, jobId: generateJobId() });
+        return `Queued cleanup of ${schedule.cleanerTags.length} tag${schedule.cleanerTags.length === 1 ? "" : "s"}`;
+    }
+
+    private static getSchedulerId(scheduleId: any) {
+        return `schedule-${scheduleId}`;
+    }
+}
@@ -0,0 +1,107 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { TagAnalyticsService } from './tag-analytics.service';
+import { TagScanReport } from '../models/TagScanReport';
+import { TagScanUsage } from '../models/TagScanUsage';
+import { TaggingRule } from '../models/TaggingRule';
+import { MetafieldRule } from '../models/MetafieldRule';
+import { cleanerQueue } from '../queues';
+
+vi.mock('../models/TagScanReport', () => ({
+  TagScanReport: { findOne: vi.fn() }
+}));
+
+vi.mock('../models/TagScanUsage', () => ({
+  TagScanUsage: { find: vi.fn() }
+}));
+
+vi.mock('../models/TaggingRule', () => ({
+  TaggingRule: { find: vi.fn() }
+}));
+
+vi.mock('../models/MetafieldRule', () => ({
+  MetafieldRule: { find: vi.fn() }
+}));
+
+vi.mock('../queues', () => ({
+  cleanerQueue: { add: vi.fn() }
+}));
+
+// Mongoose queries are awaited after chaining .sort()/.lean()
+const query = (value: any) => ({
+  sort: () => query(value),
+  lean: async () => value,
+});
+
+const usage = (tag: string, total: number) => ({ tag, products: total, customers: 0, orders: 0, total });
+
+describe('TagAnalyticsService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(TagScanReport.findOne).mockReturnValue(query({ jobId: "scan-1", completedAt: new Date("2026-10-01T00:00:00Z") }) as any);
+    vi.mocked(TagScanUsage.find).mockReturnValue(query([
+      { ...usage("Summer Sale", 40), firstSeen: new Date("2024-05-01T00:00:00Z"), lastSeen: new Date("2026-09-30T00:00:00Z") },
+      usage("vip", 12),
+      usage("old-stock", 2),
+      usage("sumer", 1),
+      usage("preorder", 1),
+    ]) as any);
+    vi.mocked(TaggingRule.find).mockReturnValue(query([{
+      _id: "rule-1",
+      name: "Sale items",
+      conditions: [{ field: "tags", operator: "contains", value: "sale" }],
+      groups: [{ logic: "OR", conditions: [], groups: [{ logic: "AND", conditions: [{ field: "tags", operator: "not_equals", value: "Preorder" }] }] }],
+    }]) as any);
+    vi.mocked(MetafieldRule.find).mockReturnValue(query([{
+      _id: "rule-2",
+      name: "VIP badge",
+      conditions: [{ field: "tags", operator: "in", value: "vip, gold" }, { field: "vendor", operator: "equals", value: "sumer" }],
+    }]) as any);
+  });
+
+  it('should list tags with usage dates and the rules whose conditions reference them', async () => {
+    const report = await TagAnalyticsService.getReport("test-shop");
+
+    expect(TagScanUsage.find).toHaveBeenCalledWith({ shop: "test-shop", jobId: "scan-1" });
+    expect(report?.uniqueTags).toBe(5);
+    expect(report?.rows[0]).toEqual({
+      tag: "Summer Sale",
+      products: 40,
+      customers: 0,
+      orders: 0,
+      total: 40,
+      firstSeen: "2024-05-01T00:00:00.000Z",
+      lastSeen: "2026-09-30T00:00:00.000Z",
+      isRare: false,
+      rules: [{ id: "rule-1", name: "Sale items", kind: "tagging" }],
+    });
+    expect(report?.rows.find(row => row.tag === "vip")?.rules).toEqual([{ id: "rule-2", name: "VIP badge", kind: "metafield" }]);
+    expect(report?.rows.find(row => row.tag === "preorder")?.rules).toEqual([{ id: "rule-1", name: "Sale items", kind: "tagging" }]);
+  });
+
+  it('should flag rare tags and only offer to remove the ones no rule references', async () => {
+    const report = await TagAnalyticsService.getReport("test-shop", { filter: "rare" });
+
+    expect(report?.rows.map(row => row.tag)).toEqual(["old-stock", "sumer", "preorder"]);
+    expect(report?.rareCount).toBe(3);
+    expect(report?.removableCount).toBe(2);
+    expect(await TagAnalyticsService.getRemovableRareTags("test-shop")).toEqual({ tags: ["old-stock", "sumer"], affectedCount: 3 });
+  });
+
+  it('should queue the rare tag cleanup in batches of 100 tags', async () => {
+    const tags = Array.from({ length: 150 }, (_, i) => `tag-${i}`);
+
+    const jobIds = await TagAnalyticsService.queueRareTagCleanup("test-shop", tags);
+
+    expect(jobIds).toHaveLength(2);
+    expect(cleanerQueue.add).toHaveBeenCalledTimes(2);
+    const [name, data] = vi.mocked(cleanerQueue.add).mock.calls[1] as any[];
+    expect(name).toBe("clean-tags");
+    expect(data.tagsToRemove).toEqual(tags.slice(100));
+  });
+
+  it('should return no report before a scan completed', async () => {
+    vi.mocked(TagScanReport.findOne).mockReturnValue(query(null) as any);
+
+    expect(await TagAnalyticsService.getReport("test-shop")).toBeNull();
+  });
+});
@@ -0,0 +1,176 @@
+import { MetafieldRule } from "../models/MetafieldRule";
+import { TaggingRule } from "../models/TaggingRule";
+import { TagScanReport } from "../models/TagScanReport";
+import { TagScanUsage } from "../models/TagScanUsage";
+import { cleanerQueue } from "../queues";
+import type { TagAnalyticsFilter, TagAnalyticsRow, TagRuleReference, TagUsage } from "~/types/cleaner.types";
+import { generateJobId } from "~/utils/id-generator";
+import { testRegex } from "~/utils/regex.server";
+
+// Tags on this many items or fewer are rare
+export const RARE_TAG_MAX_USES = 2;
+
+// Tags per cleanup job, keeps the "tag:a OR tag:b" search query short
+const RARE_CLEANUP_BATCH = 100;
+
+const PAGE_SIZE = 50;
+
+// Negative operators reference the same tags as their positive form
+const POSITIVE_OPERATORS: Record<string, string> = {
+    not_equals: "equals",
+    not_contains: "contains",
+    not_in: "in",
+};
+
+interface TagCondition {
+    rule: TagRuleReference;
+    operator: string;
+    value: string;
+}
+
+/**
+ * Whether a tag condition picks out this tag, e.g. `tags contains "sale"` references 'Summer Sale'
+ */
+function conditionMatchesTag(condition: TagCondition, tag: string): boolean {
+    const operator = POSITIVE_OPERATORS[condition.operator] || condition.operator;
+    const value = String(condition.value).toLowerCase();
+    const lowerTag = tag.toLowerCase();
+    if (!value) return false;
+
+    switch (operator) {
+        case "equals":
+            return lowerTag === value;
+        case "contains":
+            return lowerTag.includes(value);
+        case "starts_with":
+            return lowerTag.startsWith(value);
+        case "ends_with":
+            return lowerTag.endsWith(value);
+        case "in":
+            return value.split(",").map(option => option.trim()).includes(lowerTag);
+        case "matches_regex":
+            return testRegex(condition.value, tag);
+        default:
+            // is_empty, count_greater_than... don't name a tag
+            return false;
+    }
+}
+
+export class TagAnalyticsService {
+    /**
+     * Every tag of the latest completed scan with its usage, filtered and paginated
+     */
+    static async getReport(shop: string, options: { filter?: TagAnalyticsFilter; search?: string; page?: number } = {}) {
+        const { filter = "all", search = "", page = 1 } = options;
+        const report = await TagScanReport.findOne({ shop, status: "Completed" }).sort({ createdAt: -1 }).lean<any>();
+        if (!report) return null;
+
+        const rows = await TagAnalyticsService.toRows(shop, await TagAnalyticsService.getUsage(shop, report.jobId));
+        const rare = rows.filter(row => row.isRare);
+        const removable = rare.filter(row => row.rules.length === 0);
+
+        const needle = search.trim().toLowerCase();
+        const filtered = rows.filter(row => {
+            if (filter === "rare" && !row.isRare) return false;
+            if (filter === "unreferenced" && row.rules.length > 0) return false;
+            return !needle || row.tag.toLowerCase().includes(needle);
+        });
+
+        return {
+            jobId: report.jobId,
+            completedAt: report.completedAt ? new Date(report.completedAt).toISOString() : undefined,
+            uniqueTags: rows.length,
+            rareCount: rare.length,
+            removableCount: removable.length,
+            removableUsage: removable.reduce((sum, row) => sum + row.total, 0),
+            rows: filtered.slice((page - 1) * PAGE_SIZE, page * PAGE_SIZE),
+            totalCount: filtered.length,
+            totalPages: Math.max(1, Math.ceil(filtered.length / PAGE_SIZE)),
+            currentPage: page,
+        };
+    }
+
+    /**
+     * Rare tags of the latest completed scan. Tags referenced by a rule are kept, since removing them would change what the rule does.
+     */
+    static async getRemovableRareTags(shop: string) {
+        const report = await TagScanReport.findOne({ shop, status: "Completed" }).sort({ createdAt: -1 }).lean<any>();
+        if (!report) return { tags: [] as string[], affectedCount: 0 };
+
+        const rows = await TagAnalyticsService.toRows(shop, await TagAnalyticsService.getUsage(shop, report.jobId));
+        const removable = rows.filter(row => row.isRare && row.rules.length === 0);
+        return {
+            tags: removable.map(row => row.tag),
+            affectedCount: removable.reduce((sum, row) => sum + row.total, 0),
+        };
+    }
+
+    /**
+     * Queue cleanup jobs removing the given tags, in batches. Returns the job ids.
+     */
+    static async queueRareTagCleanup(shop: string, tags: string[]): Promise<string[]> {
+        const jobIds: string[] = [];
+        for (let i = 0; i < tags.length; i += RARE_CLEANUP_BATCH) {
+            const jobId = generateJobId();
+            await cleanerQueue.add("clean-tags", {
+                shop,
+                tagsToRemove: tags.slice(i, i + RARE_CLEANUP_BATCH),
+                jobId,
+            });
+            jobIds.push(jobId);
+        }
+        return jobIds;
+    }
+
+    /**
+     * Tag conditions of the shop's Smart Tagger and metafield rules, nested groups included
+     */
+    static async getTagConditions(shop: string): Promise<TagCondition[]> {
+        const [taggingRules, metafieldRules] = await Promise.all([
+            TaggingRule.find({ shop }, { name: 1, conditions: 1, groups: 1 }).lean<any[]>(),
+            MetafieldRule.find({ shop }, { name: 1, conditions: 1, groups: 1 }).lean<any[]>(),
+        ]);
+
+        const conditions: TagCondition[] = [];
+        const collect = (rule: TagRuleReference, group: { conditions?: any[]; groups?: any[] }) => {
+            (group.conditions || [])
+                .filter(condition => condition.field === "tags" || String(condition.field).endsWith(".tags"))
+                .forEach(condition => conditions.push({ rule, operator: condition.operator, value: condition.value }));
+            (group.groups || []).forEach(nested => collect(rule, nested));
+        };
+
+        taggingRules.forEach(rule => collect({ id: rule._id.toString(), name: rule.name, kind: "tagging" }, rule));
+        metafieldRules.forEach(rule => collect({ id: rule._id.toString(), name: rule.name, kind: "metafield" }, rule));
+        return conditions;
+    }
+
+    /**
+     * Tag counts of a scan, most used first
+     */
+    private static async getUsage(shop: string, jobId: string): Promise<TagUsage[]> {
+        return TagScanUsage.find({ shop, jobId }).sort({ total: -1 }).lean<TagUsage[]>();
+    }
+
+    private static async toRows(shop: string, tags: TagUsage[]): Promise<TagAnalyticsRow[]> {
+        const conditions = await TagAnalyticsService.getTagConditions(shop);
+
+        return tags.map(entry => {
+            const rules = new Map<string, TagRuleReference>();
+            conditions
+                .filter(condition => conditionMatchesTag(condition, entry.tag))
+                .forEach(condition => rules.set(condition.rule.id, condition.rule));
+
+            return {
+                tag: entry.tag,
+                products: entry.products,
+                customers: entry.customers,
+                orders: entry.orders,
+                total: entry.total,
+                firstSeen: entry.firstSeen ? new Date(entry.firstSeen).toISOString() : undefined,
+                lastSeen: entry.lastSeen ? new Date(entry.lastSeen).toISOString() : undefined,
+                isRare: entry.total <= RARE_TAG_MAX_USES,
+                rules: [...rules.values()],
+            };
+        });
+    }
+}
@@ -0,0 +1,59 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { TagPolicyService } from './tag-policy.service';
+import { TagPolicy } from '../models/TagPolicy';
+import { DEFAULT_TAG_POLICY } from '~/utils/tag-policy';
+
+vi.mock('../models/TagPolicy', () => ({
+  TagPolicy: { findOne: vi.fn(), findOneAndUpdate: vi.fn() }
+}));
+
+const savedPolicy = (policy: any) => {
+  vi.mocked(TagPolicy.findOne).mockReturnValue({ lean: async () => policy } as any);
+};
+
+describe('TagPolicyService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    savedPolicy(null);
+  });
+
+  it('should use the default policy until the shop saves one', async () => {
+    expect(await TagPolicyService.getPolicy("test-shop")).toEqual(DEFAULT_TAG_POLICY);
+
+    const violations = await TagPolicyService.checkTags("test-shop", ["summer!!", "Giảm giá", "a".repeat(31)]);
+    expect(violations).toEqual([
+      { tag: "summer!!", rules: ["characters"], suggestion: "summer" },
+      { tag: "a".repeat(31), rules: ["length"], suggestion: "a".repeat(30) },
+    ]);
+  });
+
+  it('should suggest a kebab-case spelling and skip allowed tags', async () => {
+    savedPolicy({ characterSet: "ascii", maxLength: null, casing: "kebab", forbiddenPrefixes: [], allowList: ["VIP"] });
+
+    const violations = await TagPolicyService.checkTags("test-shop", ["Free Shipping!", "Café_Latte", "vip", "summer-sale"]);
+
+    expect(violations).toEqual([
+      { tag: "Free Shipping!", rules: ["characters", "casing"], suggestion: "free-shipping" },
+      { tag: "Café_Latte", rules: ["characters", "casing"], suggestion: "cafe-latte" },
+    ]);
+  });
+
+  it('should flag forbidden prefixes without a suggestion', async () => {
+    savedPolicy({ characterSet: "any", maxLength: 30, casing: "any", forbiddenPrefixes: ["tmp-"], allowList: [] });
+
+    expect(await TagPolicyService.checkTags("test-shop", ["TMP-import", "import"])).toEqual([
+      { tag: "TMP-import", rules: ["prefix"] },
+    ]);
+  });
+
+  it('should reject a maximum length Shopify does not support', async () => {
+    await expect(TagPolicyService.savePolicy("test-shop", { maxLength: 300 })).rejects.toThrow("255");
+
+    await TagPolicyService.savePolicy("test-shop", { casing: "title", forbiddenPrefixes: "tmp-, test_", maxLength: "" });
+    expect(TagPolicy.findOneAndUpdate).toHaveBeenCalledWith(
+      { shop: "test-shop" },
+      expect.objectContaining({ characterSet: "latin", maxLength: null, casing: "title", forbiddenPrefixes: ["tmp-", "test_"] }),
+      { upsert: true }
+    );
+  });
+});
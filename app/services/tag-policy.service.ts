@@ -0,0 +1,36 @@
+import { TagPolicy } from "../models/TagPolicy";
+import type { TagPolicyRules, TagPolicyViolation } from "~/types/cleaner.types";
+import { DEFAULT_TAG_POLICY, findPolicyViolations, toTagPolicy } from "~/utils/tag-policy";
+
+export class TagPolicyService {
+    /**
+     * The shop's tag policy, or the default one if it never saved its own
+     */
+    static async getPolicy(shop: string): Promise<TagPolicyRules> {
+        const policy = await TagPolicy.findOne({ shop }).lean<any>();
+        return policy ? toTagPolicy(policy) : { ...DEFAULT_TAG_POLICY };
+    }
+
+    static async savePolicy(shop: string, data: any): Promise<TagPolicyRules> {
+        const policy = toTagPolicy(data);
+        if (policy.maxLength !== null && policy.maxLength > 255) {
+            throw new Error("Shopify tags can't be longer than 255 characters.");
+        }
+
+        await TagPolicy.findOneAndUpdate(
+            { shop },
+            { ...policy, updatedAt: new Date() },
+            { upsert: true }
+        );
+        return policy;
+    }
+
+    /**
+     * Tags about to be written that break the shop's policy. Used to warn, never to block the write.
+     */
+    static async checkTags(shop: string, tags: string[]): Promise<TagPolicyViolation[]> {
+        if (tags.length === 0) return [];
+        const policy = await TagPolicyService.getPolicy(shop);
+        return findPolicyViolations([...new Set(tags)], policy);
+    }
+}
@@ -0,0 +1,186 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { TagScanService, TAG_SCAN_JOB } from './tag-scan.service';
+import { TagScanReport } from '../models/TagScanReport';
+import { TagScanUsage } from '../models/TagScanUsage';
+import { cleanerQueue } from '../queues';
+import { ActivityService } from './activity.service';
+import { JobControlService } from './job-control.service';
+
+vi.mock('../models/TagScanReport', () => ({
+  TagScanReport: { findOne: vi.fn(), create: vi.fn(), updateOne: vi.fn() }
+}));
+
+vi.mock('../models/TagScanUsage', () => ({
+  TagScanUsage: { bulkWrite: vi.fn(), updateMany: vi.fn(), find: vi.fn() }
+}));
+
+vi.mock('../queues', () => ({
+  cleanerQueue: { add: vi.fn() }
+}));
+
+vi.mock('./activity.service', () => ({
+  ActivityService: { createLog: vi.fn() }
+}));
+
+vi.mock('./bulk-scheduler.service', () => ({
+  BulkSchedulerService: { acquireForStep: vi.fn().mockResolvedValue(true), release: vi.fn(), releaseAll: vi.fn() }
+}));
+
+vi.mock('./bulk_operation.service', () => ({
+  BulkOperationService: { runBulkQuery: vi.fn(), pollBulkOperation: vi.fn() }
+}));
+
+vi.mock('../models/TagPolicy', () => ({
+  TagPolicy: { findOne: () => ({ lean: async () => null }) }
+}));
+
+vi.mock('./job-control.service', () => ({
+  JobControlService: { recordProgress: vi.fn(), getJobStates: vi.fn() }
+}));
+
+// Mongoose queries are awaited after chaining .sort()/.lean()
+const query = (value: any) => ({
+  sort: () => query(value),
+  lean: async () => value,
+});
+
+const emptyReport = () => ({ shop: "test-shop", jobId: "scan-1", previewItems: [], itemsScanned: 0 });
+
+describe('TagScanService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(TagScanUsage.find).mockReturnValue(query([]) as any);
+  });
+
+  it('should reuse a scan that is still running', async () => {
+    vi.mocked(TagScanReport.findOne).mockResolvedValue({ jobId: "scan-1" });
+
+    expect(await TagScanService.startScan("test-shop")).toBe("scan-1");
+    expect(cleanerQueue.add).not.toHaveBeenCalled();
+  });
+
+  it('should set the tag counts of one resource type, once per item', async () => {
+    vi.mocked(TagScanReport.findOne).mockReturnValue(query({ ...emptyReport(), itemsScanned: 2, processedResources: ["products"] }) as any);
+
+    await TagScanService.addResourceTags("test-shop", "scan-1", "customers", [
+      { id: "gid://shopify/Customer/1", tags: ["Sale", "vip", "vip"], createdAt: "2024-03-01T00:00:00Z", updatedAt: "2026-01-01T00:00:00Z" },
+      { id: "gid://shopify/Customer/2", tags: ["vip"], createdAt: "2025-06-01T00:00:00Z", updatedAt: "2026-02-01T00:00:00Z" },
+      { id: "gid://shopify/Customer/3", tags: [] },
+    ]);
+
+    const writes = vi.mocked(TagScanUsage.bulkWrite).mock.calls[0][0] as any[];
+    expect(writes).toEqual([
+      {
+        updateOne: {
+          filter: { shop: "test-shop", jobId: "scan-1", tag: "Sale" },
+          update: { $set: { customers: 1 }, $min: { firstSeen: new Date("2024-03-01T00:00:00Z") }, $max: { lastSeen: new Date("2026-01-01T00:00:00Z") } },
+          upsert: true,
+        },
+      },
+      {
+        updateOne: {
+          filter: { shop: "test-shop", jobId: "scan-1", tag: "vip" },
+          update: { $set: { customers: 2 }, $min: { firstSeen: new Date("2024-03-01T00:00:00Z") }, $max: { lastSeen: new Date("2026-02-01T00:00:00Z") } },
+          upsert: true,
+        },
+      },
+    ]);
+
+    const [filter, update] = vi.mocked(TagScanReport.updateOne).mock.calls[0] as any[];
+    expect(filter).toEqual({ shop: "test-shop", jobId: "scan-1", processedResources: { $ne: "customers" } });
+    expect(update.$addToSet).toEqual({ processedResources: "customers" });
+    expect(update.itemsScanned).toBe(5);
+    expect(update["resourceCounts.customers"]).toBe(3);
+    expect(update.previewItems).toHaveLength(2);
+  });
+
+  it('should not count a resource type twice when its step is retried', async () => {
+    vi.mocked(TagScanReport.findOne).mockReturnValue(query({ ...emptyReport(), processedResources: ["products"] }) as any);
+
+    await TagScanService.addResourceTags("test-shop", "scan-1", "products", [
+      { id: "gid://shopify/Product/1", tags: ["Sale"] },
+    ]);
+
+    expect(TagScanUsage.bulkWrite).not.toHaveBeenCalled();
+    expect(TagScanReport.updateOne).not.toHaveBeenCalled();
+  });
+
+  it('should flag duplicate and malformed tags with their usage when the scan completes', async () => {
+    vi.mocked(TagScanReport.findOne).mockReturnValue(query(emptyReport()) as any);
+    vi.mocked(TagScanUsage.find).mockReturnValue(query([
+      { tag: "Sale", total: 5 },
+      { tag: "sale", total: 2 },
+      { tag: "summer!!", total: 1 },
+      { tag: "clean", total: 9 },
+    ]) as any);
+
+    const report = await TagScanService.completeScan("test-shop", "scan-1");
+
+    expect(report.duplicates).toEqual(["Sale", "sale"]);
+    expect(report.similarGroups).toEqual([{ tags: ["Sale", "sale"], confidence: 1 }]);
+    expect(report.malformed).toEqual(["summer!!"]);
+    expect(report.policyViolations).toEqual([{ tag: "summer!!", rules: ["characters"], suggestion: "summer" }]);
+    expect(report.flaggedUsage).toEqual([{ tag: "Sale", total: 5 }, { tag: "sale", total: 2 }, { tag: "summer!!", total: 1 }]);
+    expect(TagScanUsage.updateMany).toHaveBeenCalledWith(
+      { shop: "test-shop", jobId: "scan-1" },
+      [{ $set: { total: { $add: ["$products", "$customers", "$orders"] } } }]
+    );
+    expect(TagScanReport.updateOne).toHaveBeenCalledWith(
+      { shop: "test-shop", jobId: "scan-1" },
+      expect.objectContaining({ status: "Completed", uniqueTags: 4, $unset: { resourceType: 1 } })
+    );
+  });
+
+  it('should group near-duplicate tags with a confidence score', async () => {
+    vi.mocked(TagScanReport.findOne).mockReturnValue(query(emptyReport()) as any);
+    vi.mocked(TagScanUsage.find).mockReturnValue(query([
+      { tag: "free-shipping", total: 9 },
+      { tag: "Free Shipping", total: 4 },
+      { tag: "freeshipping", total: 1 },
+      { tag: "T-Shirts", total: 8 },
+      { tag: "Tshirt", total: 3 },
+      { tag: "cafe", total: 2 },
+      { tag: "café", total: 2 },
+      { tag: "accessories", total: 6 },
+      { tag: "accesories", total: 1 },
+      { tag: "sale-2023", total: 5 },
+      { tag: "sale-2024", total: 5 },
+      { tag: "red", total: 3 },
+      { tag: "bed", total: 3 },
+    ]) as any);
+
+    const report = await TagScanService.completeScan("test-shop", "scan-1");
+
+    expect(report.similarGroups).toEqual([
+      { tags: ["free-shipping", "Free Shipping", "freeshipping"], confidence: 0.9 },
+      { tags: ["T-Shirts", "Tshirt"], confidence: 0.9 },
+      { tags: ["cafe", "café"], confidence: 0.9 },
+      { tags: ["accessories", "accesories"], confidence: 0.8 },
+    ]);
+    expect(report.duplicates).not.toContain("sale-2023");
+    expect(report.duplicates).not.toContain("red");
+  });
+
+  it('should scan the next resource type, then complete after orders', async () => {
+    vi.mocked(TagScanReport.findOne).mockReturnValue(query(emptyReport()) as any);
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue({ text: async () => '{"id":"gid://shopify/Product/1","tags":["Sale"]}\n' }));
+
+    const data = { shop: "test-shop", jobId: "scan-1", resourceType: "products", step: "processing", resultUrl: "https://example.com/result.jsonl" };
+    await TagScanService.processScanJob({ name: TAG_SCAN_JOB, data });
+    expect(cleanerQueue.add).toHaveBeenCalledWith(TAG_SCAN_JOB, { shop: "test-shop", jobId: "scan-1", resourceType: "customers" }, { delay: 0 });
+
+    await TagScanService.processScanJob({ name: TAG_SCAN_JOB, data: { ...data, resourceType: "orders", resultUrl: null } });
+    expect(ActivityService.createLog).toHaveBeenCalledWith(expect.objectContaining({ action: "Tag Scan", status: "Success" }));
+  });
+
+  it('should report a scan cancelled from the Activity Log as cancelled', async () => {
+    vi.mocked(TagScanReport.findOne).mockReturnValue(query({ ...emptyReport(), status: "Pending", createdAt: new Date() }) as any);
+    vi.mocked(JobControlService.getJobStates).mockResolvedValue({ "scan-1": { state: "cancelled" } } as any);
+
+    const scan = await TagScanService.getLatestReport("test-shop");
+
+    expect(scan?.status).toBe("Cancelled");
+    expect(scan?.results).toBeUndefined();
+    expect(TagScanReport.updateOne).toHaveBeenCalledWith({ shop: "test-shop", jobId: "scan-1" }, { status: "Cancelled" });
+  });
+});
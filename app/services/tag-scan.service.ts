@@ -0,0 +1,241 @@
+import { TagScanReport } from "../models/TagScanReport";
+import { TagScanUsage } from "../models/TagScanUsage";
+import { cleanerQueue } from "../queues";
+import { ActivityService } from "./activity.service";
+import { BulkSchedulerService } from "./bulk-scheduler.service";
+import { BulkOperationService } from "./bulk_operation.service";
+import { JobControlService } from "./job-control.service";
+import { TagPolicyService } from "./tag-policy.service";
+import type { TagScanResourceType, TagScanSummary, TagUsage } from "~/types/cleaner.types";
+import { generateJobId } from "~/utils/id-generator";
+import { findPolicyViolations } from "~/utils/tag-policy";
+import { findSimilarTagGroups } from "~/utils/tag-similarity";
+import { parseBulkJsonl } from "~/utils/webhook-shape";
+
+export const TAG_SCAN_JOB = "scan-tags";
+
+// Scanned in this order, one bulk query each
+export const TAG_SCAN_RESOURCES: TagScanResourceType[] = ["products", "customers", "orders"];
+
+const PREVIEW_ITEMS = 10;
+
+// Tag counts written per bulkWrite
+const USAGE_BATCH_SIZE = 1000;
+
+export class TagScanService {
+    /**
+     * Queue a scan of every product, customer and order. A scan that is still running is reused.
+     */
+    static async startScan(shop: string): Promise<string> {
+        const running = await TagScanReport.findOne({ shop, status: "Pending" });
+        if (running) return running.jobId;
+
+        const jobId = generateJobId();
+        const resourceType = TAG_SCAN_RESOURCES[0];
+        await TagScanReport.create({ shop, jobId, resourceType });
+        await cleanerQueue.add(TAG_SCAN_JOB, { shop, jobId, resourceType });
+        return jobId;
+    }
+
+    static async processScanJob(job: any) {
+        const { shop, jobId, resourceType, step = "init", operationId } = job.data;
+        const log = (detail: string, status: string) => ActivityService.createLog({
+            shop,
+            resourceType: "Mixed",
+            resourceId: "Bulk",
+            action: "Tag Scan",
+            detail,
+            jobId,
+            status,
+        });
+        console.log(`Processing tag scan for ${shop}: ${resourceType} [Step: ${step}]`);
+
+        try {
+            // --- STEP 1: INIT (Start Query) ---
+            if (step === "init") {
+                if (!(await BulkSchedulerService.acquireForStep(job, cleanerQueue, "query"))) return;
+
+                const bulkOp = await BulkOperationService.runBulkQuery(shop, `{ ${resourceType} { edges { node { id tags createdAt updatedAt } } } }`);
+                await cleanerQueue.add(job.name, { ...job.data, step: "polling_query", operationId: bulkOp.id }, { delay: 5000 });
+                await TagScanReport.updateOne({ shop, jobId }, { resourceType });
+                await log(`Scanning tags of all ${resourceType}: ${bulkOp.id}`, "Pending");
+                return;
+            }
+
+            // --- STEP 2: POLLING QUERY ---
+            if (step === "polling_query") {
+                const bulkOp = await BulkOperationService.pollBulkOperation(shop, operationId);
+                await JobControlService.recordProgress(shop, jobId, bulkOp);
+
+                if (bulkOp.status === "RUNNING" || bulkOp.status === "CREATED") {
+                    await cleanerQueue.add(job.name, job.data, { delay: 5000 });
+                    return;
+                }
+                await BulkSchedulerService.release(shop, "query", jobId);
+
+                if (bulkOp.status === "COMPLETED") {
+                    // No URL means the shop has no items of this type
+                    await cleanerQueue.add(job.name, { ...job.data, step: "processing", resultUrl: bulkOp.url || null }, { delay: 0 });
+                    return;
+                }
+
+                throw new Error(`Bulk Query Failed: ${bulkOp.status} - ${bulkOp.errorCode}`);
+            }
+
+            // --- STEP 3: COUNT TAGS ---
+            if (step === "processing") {
+                const records = job.data.resultUrl
+                    ? parseBulkJsonl(await (await fetch(job.data.resultUrl)).text())
+                    : [];
+                await TagScanService.addResourceTags(shop, jobId, resourceType, records);
+
+                const next = TAG_SCAN_RESOURCES[TAG_SCAN_RESOURCES.indexOf(resourceType) + 1];
+                if (next) {
+                    await cleanerQueue.add(job.name, { shop, jobId, resourceType: next }, { delay: 0 });
+                    return;
+                }
+
+                const report = await TagScanService.completeScan(shop, jobId);
+                await log(
+                    `Scanned ${report.itemsScanned} items: ${report.uniqueTags} unique tags, ${report.duplicates.length} duplicates, ${report.malformed.length} malformed`,
+                    "Success"
+                );
+            }
+        } catch (error) {
+            console.error("Tag scan error:", error);
+            await BulkSchedulerService.releaseAll(shop, jobId);
+            await TagScanReport.updateOne({ shop, jobId }, { status: "Failed", error: (error as Error).message });
+            await log(`Failed: ${(error as Error).message}`, "Failed");
+            throw error;
+        }
+    }
+
+    /**
+     * Add one resource type's tag counts to the scan, once
+     */
+    static async addResourceTags(shop: string, jobId: string, resourceType: TagScanResourceType, records: any[]) {
+        const report = await TagScanReport.findOne({ shop, jobId }).lean<any>();
+        if (!report) {
+            throw new Error("Scan report was deleted before the scan finished");
+        }
+        // A retried step finds its counts already added
+        if (report.processedResources?.includes(resourceType)) return;
+
+        const usage = new Map<string, { count: number; firstSeen?: string; lastSeen?: string }>();
+        const previewItems = [...report.previewItems];
+
+        for (const record of records) {
+            const tags: string[] = [...new Set<string>(record.tags || [])];
+            for (const tag of tags) {
+                const entry = usage.get(tag) || { count: 0 };
+                entry.count++;
+                if (record.createdAt && (!entry.firstSeen || new Date(record.createdAt) < new Date(entry.firstSeen))) {
+                    entry.firstSeen = record.createdAt;
+                }
+                if (record.updatedAt && (!entry.lastSeen || new Date(record.updatedAt) > new Date(entry.lastSeen))) {
+                    entry.lastSeen = record.updatedAt;
+                }
+                usage.set(tag, entry);
+            }
+            if (tags.length > 0 && previewItems.length < PREVIEW_ITEMS) {
+                previewItems.push({ id: record.id, tags });
+            }
+        }
+
+        // The count of this resource type is set rather than added, so a step failing halfway can write it again
+        const writes = [...usage].map(([tag, entry]) => ({
+            updateOne: {
+                filter: { shop, jobId, tag },
+                update: {
+                    $set: { [resourceType]: entry.count },
+                    ...(entry.firstSeen && { $min: { firstSeen: new Date(entry.firstSeen) } }),
+                    ...(entry.lastSeen && { $max: { lastSeen: new Date(entry.lastSeen) } }),
+                },
+                upsert: true,
+            },
+        }));
+        for (let i = 0; i < writes.length; i += USAGE_BATCH_SIZE) {
+            await TagScanUsage.bulkWrite(writes.slice(i, i + USAGE_BATCH_SIZE), { ordered: false });
+        }
+
+        await TagScanReport.updateOne({ shop, jobId, processedResources: { $ne: resourceType } }, {
+            itemsScanned: report.itemsScanned + records.length,
+            [`resourceCounts.${resourceType}`]: records.length,
+            previewItems,
+            $addToSet: { processedResources: resourceType },
+        });
+    }
+
+    /**
+     * Flag near-duplicate tags and tags breaking the shop's tag policy and mark the scan completed
+     */
+    static async completeScan(shop: string, jobId: string) {
+        const report = await TagScanReport.findOne({ shop, jobId }).lean<any>();
+        if (!report) {
+            throw new Error("Scan report was deleted before the scan finished");
+        }
+
+        await TagScanUsage.updateMany({ shop, jobId }, [{ $set: { total: { $add: ["$products", "$customers", "$orders"] } } }]);
+        const usage = await TagScanUsage.find({ shop, jobId }, { tag: 1, total: 1 }).sort({ total: -1 }).lean<TagUsage[]>();
+
+        const uniqueTags = usage.map(entry => entry.tag);
+        const similarGroups = findSimilarTagGroups(uniqueTags);
+        const duplicates = similarGroups.flatMap(group => group.tags);
+        const policyViolations = findPolicyViolations(uniqueTags, await TagPolicyService.getPolicy(shop));
+        const malformed = policyViolations.map(violation => violation.tag);
+        const flagged = new Set([...duplicates, ...malformed]);
+
+        const update = {
+            status: "Completed",
+            uniqueTags: usage.length,
+            duplicates,
+            malformed,
+            similarGroups,
+            policyViolations,
+            flaggedUsage: usage
+                .filter(entry => flagged.has(entry.tag))
+                .map(entry => ({ tag: entry.tag, total: entry.total })),
+            completedAt: new Date(),
+        };
+        await TagScanReport.updateOne({ shop, jobId }, { ...update, $unset: { resourceType: 1 } });
+        return { ...report, ...update };
+    }
+
+    /**
+     * The shop's latest scan, with its results once completed
+     */
+    static async getLatestReport(shop: string): Promise<TagScanSummary | null> {
+        const report = await TagScanReport.findOne({ shop }).sort({ createdAt: -1 }).lean<any>();
+        if (!report) return null;
+
+        if (report.status === "Pending") {
+            const jobStates = await JobControlService.getJobStates(shop, [report.jobId]);
+            if (jobStates[report.jobId]?.state === "cancelled") {
+                await TagScanReport.updateOne({ shop, jobId: report.jobId }, { status: "Cancelled" });
+                report.status = "Cancelled";
+            }
+        }
+
+        return {
+            jobId: report.jobId,
+            status: report.status,
+            resourceType: report.resourceType,
+            itemsScanned: report.itemsScanned,
+            error: report.error,
+            createdAt: new Date(report.createdAt).toISOString(),
+            completedAt: report.completedAt ? new Date(report.completedAt).toISOString() : undefined,
+            results: report.status === "Completed"
+                ? {
+                    duplicates: report.duplicates,
+                    malformed: report.malformed,
+                    similarGroups: report.similarGroups,
+                    policyViolations: report.policyViolations,
+                    totalScannedTags: report.uniqueTags,
+                    itemsScanned: report.itemsScanned,
+                    previewItems: report.previewItems,
+                    usage: Object.fromEntries(report.flaggedUsage.map((entry: any) => [entry.tag, entry.total])),
+                }
+                : undefined,
+        };
+    }
+}
@@ -1,7 +1,10 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { TaggerService } from './tagger.service';
 import { TaggingRule } from '../models/TaggingRule';
+import { MetafieldRule } from '../models/MetafieldRule';
+import { unauthenticated } from '../shopify.server';
 import { ActivityService } from './activity.service';
+import { WebhookGuardService } from './webhook-guard.service';
 
 // Mock Mongoose Model
 vi.mock('../models/TaggingRule', () => ({
@@ -11,6 +14,7 @@ vi.mock('../models/TaggingRule', () => ({
     findOneAndUpdate: vi.fn(),
     create: vi.fn(),
     findOneAndDelete: vi.fn(),
+    updateOne: vi.fn(),
   }
 }));
 
@@ -20,6 +24,25 @@ vi.mock('../models/MetafieldRule', () => ({
   }
 }));
 
+vi.mock('../models/ShopConfig', () => ({
+  ShopConfig: {
+    findOne: vi.fn().mockResolvedValue({ ianaTimezone: "UTC" }),
+  }
+}));
+
+vi.mock('../shopify.server', () => ({
+  unauthenticated: {
+    admin: vi.fn(),
+  }
+}));
+
+vi.mock('./webhook-guard.service', () => ({
+  WebhookGuardService: {
+    isOwnTagEcho: vi.fn().mockResolvedValue(false),
+    recordTagWrite: vi.fn(),
+  }
+}));
+
 // Mock ActivityService
 vi.mock('./activity.service', () => ({
   ActivityService: {
@@ -63,7 +86,7 @@ describe('TaggerService', () => {
         tags: ["VIP"],
         isEnabled: true
       }];
-      (TaggingRule.find as any).mockResolvedValue(rules);
+      (TaggingRule.find as any).mockReturnValue({ sort: vi.fn().mockResolvedValue(rules) });
 
       const order = { id: 123, total_price: "100" };
 
@@ -87,9 +110,9 @@ describe('TaggerService', () => {
         tags: ["VIP"],
         isEnabled: true
       }];
-      (TaggingRule.find as any).mockResolvedValue(rules);
+      (TaggingRule.find as any).mockReturnValue({ sort: vi.fn().mockResolvedValue(rules) });
 
-      const order = { id: 123, total_price: "100" };
+      const order = { id: 123, total_price: "100", tags: "VIP" };
 
       await (TaggerService as any).evaluateTaggingRules(mockAdmin, "test-shop", order, "orders");
 
@@ -113,7 +136,7 @@ describe('TaggerService', () => {
           isEnabled: true
         }
       ];
-      (TaggingRule.find as any).mockResolvedValue(rules);
+      (TaggingRule.find as any).mockReturnValue({ sort: vi.fn().mockResolvedValue(rules) });
 
       const order = { id: 123, total_price: "100" };
 
@@ -137,7 +160,7 @@ describe('TaggerService', () => {
         tags: ["VIP"],
         isEnabled: true
       }];
-      (TaggingRule.find as any).mockResolvedValue(rules);
+      (TaggingRule.find as any).mockReturnValue({ sort: vi.fn().mockResolvedValue(rules) });
 
       const resource = { id: 123, total_price: "100", customer: { orders_count: 2 } };
 
@@ -159,7 +182,7 @@ describe('TaggerService', () => {
         tags: ["VIP"],
         isEnabled: true
       }];
-      (TaggingRule.find as any).mockResolvedValue(rules);
+      (TaggingRule.find as any).mockReturnValue({ sort: vi.fn().mockResolvedValue(rules) });
 
       const resource = { id: 123, total_price: "100", customer: { orders_count: 2 } };
 
@@ -167,6 +190,343 @@ describe('TaggerService', () => {
 
       expect(mockAdmin.graphql).not.toHaveBeenCalledWith(expect.stringContaining("tagsAdd"), expect.anything());
     });
+
+    it('should remove tags when a remove action rule matches', async () => {
+      const rules = [{
+        name: "Refunded cleanup",
+        conditions: [{ field: "financial_status", operator: "equals", value: "refunded" }],
+        tags: [],
+        actions: [{ type: "remove", tags: ["vip-order"] }],
+        isEnabled: true
+      }];
+      (TaggingRule.find as any).mockReturnValue({ sort: vi.fn().mockResolvedValue(rules) });
+
+      const order = { id: 123, financial_status: "refunded", tags: "vip-order, gift" };
+
+      await (TaggerService as any).evaluateTaggingRules(mockAdmin, "test-shop", order, "orders");
+
+      expect(mockAdmin.graphql).toHaveBeenCalledWith(expect.stringContaining("tagsRemove"), expect.objectContaining({
+        variables: { id: "gid://shopify/Order/123", tags: ["vip-order"] }
+      }));
+      expect(mockAdmin.graphql).not.toHaveBeenCalledWith(expect.stringContaining("tagsAdd"), expect.anything());
+    });
+
+    it('should do nothing when a remove action rule does NOT match', async () => {
+      const rules = [{
+        name: "Refunded cleanup",
+        conditions: [{ field: "financial_status", operator: "equals", value: "refunded" }],
+        tags: [],
+        actions: [{ type: "remove", tags: ["vip-order"] }],
+        isEnabled: true
+      }];
+      (TaggingRule.find as any).mockReturnValue({ sort: vi.fn().mockResolvedValue(rules) });
+
+      const order = { id: 123, financial_status: "paid" };
+
+      await (TaggerService as any).evaluateTaggingRules(mockAdmin, "test-shop", order, "orders");
+
+      expect(mockAdmin.graphql).not.toHaveBeenCalled();
+    });
+
+    it('should never auto-remove sticky tags', async () => {
+      const rules = [{
+        name: "Sticky VIP",
+        conditions: [{ field: "total_price", operator: "greater_than", value: "150" }],
+        tags: ["VIP"],
+        actions: [{ type: "add_sticky", tags: ["VIP"] }],
+        isEnabled: true
+      }];
+      (TaggingRule.find as any).mockReturnValue({ sort: vi.fn().mockResolvedValue(rules) });
+
+      const order = { id: 123, total_price: "100" };
+
+      await (TaggerService as any).evaluateTaggingRules(mockAdmin, "test-shop", order, "orders");
+
+      expect(mockAdmin.graphql).not.toHaveBeenCalledWith(expect.stringContaining("tagsRemove"), expect.anything());
+    });
+
+    it('should let the highest-priority matching rule win tag conflicts', async () => {
+      // Mongo returns rules sorted by priority (desc)
+      const rules = [
+        {
+          name: "Refunded cleanup",
+          priority: 10,
+          conditions: [{ field: "financial_status", operator: "equals", value: "refunded" }],
+          tags: [],
+          actions: [{ type: "remove", tags: ["vip-order"] }],
+          isEnabled: true
+        },
+        {
+          name: "VIP Order",
+          priority: 1,
+          conditions: [{ field: "total_price", operator: "greater_than", value: "50" }],
+          tags: ["vip-order"],
+          isEnabled: true
+        }
+      ];
+      (TaggingRule.find as any).mockReturnValue({ sort: vi.fn().mockResolvedValue(rules) });
+
+      const order = { id: 123, total_price: "100", financial_status: "refunded", tags: "vip-order" };
+
+      await (TaggerService as any).evaluateTaggingRules(mockAdmin, "test-shop", order, "orders");
+
+      expect(TaggingRule.find).toHaveBeenCalledWith({ shop: "test-shop", resourceType: "orders", isEnabled: true });
+      expect(mockAdmin.graphql).toHaveBeenCalledWith(expect.stringContaining("tagsRemove"), expect.objectContaining({
+        variables: { id: "gid://shopify/Order/123", tags: ["vip-order"] }
+      }));
+      expect(mockAdmin.graphql).not.toHaveBeenCalledWith(expect.stringContaining("tagsAdd"), expect.anything());
+    });
+
+    it('should write and log nothing when the resource already has the right tags', async () => {
+      const rules = [
+        {
+          name: "VIP Order",
+          conditions: [{ field: "total_price", operator: "greater_than", value: "50" }],
+          tags: ["VIP"],
+          isEnabled: true
+        },
+        {
+          name: "Big Order",
+          conditions: [{ field: "total_price", operator: "greater_than", value: "500" }],
+          tags: ["big"],
+          isEnabled: true
+        }
+      ];
+      (TaggingRule.find as any).mockReturnValue({ sort: vi.fn().mockResolvedValue(rules) });
+
+      const order = { id: 123, total_price: "100", tags: "vip, gift" };
+
+      expect(await (TaggerService as any).evaluateTaggingRules(mockAdmin, "test-shop", order, "orders")).toBeNull();
+      expect(mockAdmin.graphql).not.toHaveBeenCalled();
+      expect(WebhookGuardService.recordTagWrite).not.toHaveBeenCalled();
+      expect(ActivityService.createLog).not.toHaveBeenCalled();
+    });
+
+    it('should record the expected tags before adding and removing in one pass', async () => {
+      const rules = [
+        {
+          name: "VIP Order",
+          conditions: [{ field: "total_price", operator: "greater_than", value: "50" }],
+          tags: ["VIP"],
+          isEnabled: true
+        },
+        {
+          name: "Big Order",
+          conditions: [{ field: "total_price", operator: "greater_than", value: "500" }],
+          tags: ["big"],
+          isEnabled: true
+        }
+      ];
+      (TaggingRule.find as any).mockReturnValue({ sort: vi.fn().mockResolvedValue(rules) });
+
+      const order = { id: 123, total_price: "100", tags: "big" };
+
+      await (TaggerService as any).evaluateTaggingRules(mockAdmin, "test-shop", order, "orders");
+
+      expect(WebhookGuardService.recordTagWrite).toHaveBeenCalledWith(
+        "test-shop", "gid://shopify/Order/123", order, { added: ["VIP"], removed: ["big"] }
+      );
+      expect(vi.mocked(WebhookGuardService.recordTagWrite).mock.invocationCallOrder[0])
+        .toBeLessThan(mockAdmin.graphql.mock.invocationCallOrder[0]);
+      expect(mockAdmin.graphql).toHaveBeenCalledTimes(2);
+    });
+
+    it('should skip lower-priority rules after a matching rule with stopProcessing', async () => {
+      const rules = [
+        {
+          name: "Wholesale",
+          priority: 5,
+          stopProcessing: true,
+          conditions: [{ field: "tags", operator: "contains", value: "wholesale" }],
+          tags: ["b2b"],
+          isEnabled: true
+        },
+        {
+          name: "VIP Order",
+          priority: 1,
+          conditions: [{ field: "total_price", operator: "greater_than", value: "50" }],
+          tags: ["VIP"],
+          isEnabled: true
+        }
+      ];
+      (TaggingRule.find as any).mockReturnValue({ sort: vi.fn().mockResolvedValue(rules) });
+
+      const order = { id: 123, total_price: "100", tags: "wholesale" };
+
+      await (TaggerService as any).evaluateTaggingRules(mockAdmin, "test-shop", order, "orders");
+
+      expect(mockAdmin.graphql).toHaveBeenCalledTimes(1);
+      expect(mockAdmin.graphql).toHaveBeenCalledWith(expect.stringContaining("tagsAdd"), expect.objectContaining({
+        variables: { id: "gid://shopify/Order/123", tags: ["b2b"] }
+      }));
+    });
+  });
+
+  describe('product rules', () => {
+    const product = {
+      id: 42,
+      title: "Tee",
+      images: [],
+      variants: [
+        { price: "20.00", compare_at_price: "25.00", sku: "TEE-S", inventory_quantity: 1 },
+        { price: "20.00", compare_at_price: null, sku: "TEE-M", inventory_quantity: 2 }
+      ]
+    };
+
+    it('should normalize aggregate product fields', () => {
+      const normalized = TaggerService.normalizeProductPayload(product);
+
+      expect(normalized.price).toBe("20.00");
+      expect(normalized.total_inventory).toBe(3);
+      expect(normalized.on_sale).toBe(true);
+      expect(normalized.image_count).toBe(0);
+      expect(TaggerService.checkConditions(normalized, [{ field: "variants.sku", operator: "equals", value: "TEE-M" }])).toBe(true);
+    });
+
+    it('should tag products from products/update webhooks', async () => {
+      const rules = [
+        {
+          name: "Low Stock",
+          conditions: [{ field: "total_inventory", operator: "less_than", value: "5" }],
+          tags: ["low-stock"],
+          isEnabled: true
+        }
+      ];
+      (TaggingRule.find as any).mockReturnValue({ sort: vi.fn().mockResolvedValue(rules) });
+      (MetafieldRule.find as any).mockResolvedValue([]);
+      (unauthenticated.admin as any).mockResolvedValue({ admin: mockAdmin });
+
+      await TaggerService.processWebhookJob({ data: { shop: "test-shop", topic: "PRODUCTS_UPDATE", payload: product } });
+
+      expect(TaggingRule.find).toHaveBeenCalledWith({ shop: "test-shop", resourceType: "products", isEnabled: true });
+      expect(mockAdmin.graphql).toHaveBeenCalledWith(expect.stringContaining("tagsAdd"), expect.objectContaining({
+        variables: { id: "gid://shopify/Product/42", tags: ["low-stock"] }
+      }));
+      expect(WebhookGuardService.recordTagWrite).toHaveBeenCalledWith(
+        "test-shop", "gid://shopify/Product/42", product, { added: ["low-stock"], removed: [] }
+      );
+    });
+
+    it('should skip updates caused only by tags the app wrote', async () => {
+      (WebhookGuardService.isOwnTagEcho as any).mockResolvedValueOnce(true);
+      (unauthenticated.admin as any).mockResolvedValue({ admin: mockAdmin });
+
+      await TaggerService.processWebhookJob({ data: { shop: "test-shop", topic: "PRODUCTS_UPDATE", payload: product } });
+
+      expect(WebhookGuardService.isOwnTagEcho).toHaveBeenCalledWith("test-shop", "gid://shopify/Product/42", product);
+      expect(TaggingRule.find).not.toHaveBeenCalled();
+      expect(mockAdmin.graphql).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('simulateRule', () => {
+    const mockOrders = (nodes: any[]) => {
+      (unauthenticated.admin as any).mockResolvedValue({ admin: mockAdmin });
+      mockAdmin.graphql.mockResolvedValue({
+        json: async () => ({ data: { orders: { edges: nodes.map(node => ({ node })) } } })
+      });
+    };
+
+    it('should evaluate order rules against webhook-shaped records', async () => {
+      mockOrders([
+        { id: "gid://shopify/Order/1", name: "#1001", tags: [], totalPriceSet: { shopMoney: { amount: "250.00" } }, shippingAddress: { countryCodeV2: "US" } },
+        { id: "gid://shopify/Order/2", name: "#1002", tags: ["VIP"], totalPriceSet: { shopMoney: { amount: "20.00" } }, shippingAddress: { countryCodeV2: "CA" } }
+      ]);
+      const rule = {
+        resourceType: "orders",
+        conditionLogic: "OR",
+        conditions: [
+          { field: "total_price", operator: "greater_than", value: "100" },
+          { field: "shipping_address.country_code", operator: "equals", value: "DE" }
+        ],
+        tags: ["VIP"]
+      };
+
+      const result = await TaggerService.simulateRule("test-shop", rule);
+
+      expect(mockAdmin.graphql).toHaveBeenCalledWith(expect.stringContaining("orders(first: 10, reverse: true)"));
+      expect(result.records[0]).toMatchObject({ title: "#1001", matched: true, tagsAdded: ["VIP"], tagsRemoved: [] });
+      expect(result.records[0].evaluation.conditions.map(c => c.passed)).toEqual([true, false]);
+      expect(result.records[0].evaluation.conditions[1].actual).toBe("US");
+      // Not matching any more: the plain "add" tag would be taken back
+      expect(result.records[1]).toMatchObject({ matched: false, tagsAdded: [], tagsRemoved: ["VIP"] });
+    });
+
+    it('should compare tags case-insensitively like a live run', async () => {
+      mockOrders([
+        { id: "gid://shopify/Order/1", name: "#1001", tags: ["vip"], totalPriceSet: { shopMoney: { amount: "250.00" } } },
+        { id: "gid://shopify/Order/2", name: "#1002", tags: ["Vip"], totalPriceSet: { shopMoney: { amount: "20.00" } } }
+      ]);
+      const rule = { resourceType: "orders", conditions: [{ field: "total_price", operator: "greater_than", value: "100" }], tags: ["VIP"] };
+
+      const result = await TaggerService.simulateRule("test-shop", rule);
+
+      expect(result.records[0]).toMatchObject({ matched: true, tagsAdded: [], tagsRemoved: [] });
+      expect(result.records[1]).toMatchObject({ matched: false, tagsAdded: [], tagsRemoved: ["VIP"] });
+    });
+
+    it('should report nested group results', () => {
+      const result = TaggerService.explainGroup({ total_price: "50", tags: "wholesale" }, {
+        logic: 'AND',
+        conditions: [{ field: "total_price", operator: "greater_than", value: "10" }],
+        groups: [{ logic: 'NOT', conditions: [{ field: "tags", operator: "contains", value: "wholesale" }] }]
+      });
+
+      expect(result.passed).toBe(false);
+      expect(result.conditions[0].passed).toBe(true);
+      expect(result.groups[0]).toMatchObject({ logic: 'NOT', passed: false });
+      expect(result.groups[0].conditions[0].passed).toBe(true);
+    });
+  });
+
+  describe('reorderRules', () => {
+    it('should assign descending priorities from the top of the list', async () => {
+      await TaggerService.reorderRules("test-shop", ["a", "b", "c"]);
+
+      expect(TaggingRule.updateOne).toHaveBeenCalledWith({ shop: "test-shop", _id: "a" }, { priority: 3 });
+      expect(TaggingRule.updateOne).toHaveBeenCalledWith({ shop: "test-shop", _id: "b" }, { priority: 2 });
+      expect(TaggingRule.updateOne).toHaveBeenCalledWith({ shop: "test-shop", _id: "c" }, { priority: 1 });
+    });
+  });
+
+  describe('saveRule', () => {
+    it('should reject unsafe or invalid regex patterns, including in nested groups', async () => {
+      const rule = {
+        name: "Regex",
+        resourceType: "orders",
+        conditions: [{ field: "email", operator: "matches_regex", value: "@acme\\.com$" }],
+        groups: [{ logic: "OR", conditions: [{ field: "note", operator: "matches_regex", value: "(a+)+$" }] }],
+        actions: [{ type: "add", tags: ["acme"] }]
+      };
+
+      await expect(TaggerService.saveRule("test-shop", rule)).rejects.toThrow('Invalid pattern for "note"');
+      await expect(TaggerService.saveRule("test-shop", { ...rule, groups: [], conditions: [{ field: "email", operator: "matches_regex", value: "([a-z" }] }))
+        .rejects.toThrow('Invalid pattern for "email"');
+      for (const value of ["^(a|a)*$", "^(\\w|\\d)*$"]) {
+        await expect(TaggerService.saveRule("test-shop", { ...rule, groups: [], conditions: [{ field: "email", operator: "matches_regex", value }] }))
+          .rejects.toThrow("Repeated alternatives");
+      }
+      expect(TaggingRule.create).not.toHaveBeenCalled();
+    });
+
+    it('should save days of week as full day names and reject ambiguous ones', async () => {
+      const rule = {
+        name: "Weekend",
+        resourceType: "orders",
+        conditions: [{ field: "created_at", operator: "day_of_week", value: "Sat, 0" }],
+        groups: [{ logic: "OR" as const, conditions: [{ field: "processed_at", operator: "day_of_week", value: "fri" }] }],
+        tags: ["weekend"]
+      };
+
+      await TaggerService.saveRule("test-shop", rule);
+
+      expect(TaggingRule.create).toHaveBeenCalledWith(expect.objectContaining({
+        conditions: [{ field: "created_at", operator: "day_of_week", value: "saturday,sunday" }],
+        groups: [{ logic: "OR", conditions: [{ field: "processed_at", operator: "day_of_week", value: "friday" }] }],
+      }));
+      await expect(TaggerService.saveRule("test-shop", { ...rule, conditions: [{ field: "created_at", operator: "day_of_week", value: "s" }] }))
+        .rejects.toThrow('Invalid days for "created_at"');
+    });
   });
 
   describe('checkConditions Operators', () => {
@@ -1,16 +1,49 @@
 import { unauthenticated } from "../shopify.server";
 import { ActivityService } from "./activity.service";
+import { WebhookGuardService } from "./webhook-guard.service";
 import { TaggingRule } from "../models/TaggingRule";
 import { MetafieldRule } from "../models/MetafieldRule";
+import { ShopConfig } from "../models/ShopConfig";
+import type {
+    Condition,
+    ConditionGroup,
+    ConditionGroupResult,
+    ConditionLogic,
+    SimulationRecord,
+    SimulationResult,
+    TaggerResourceType
+} from "../types/tagger.types";
+import { describeTagAction, getAddedTags, getRuleActions } from "../utils/rule-actions";
+import { normalizeConditions, validateConditions } from "../utils/condition-validation";
+import { testRegex } from "../utils/regex.server";
+import { createTagLookup } from "../utils/tag-operation";
+import { checkDateCondition, type DateContext } from "../utils/date-conditions";
+import { getResourceFields, toWebhookShape } from "../utils/webhook-shape";
 
 interface WebhookPayload {
     id: number | string;
     [key: string]: any;
 }
 
+// Evaluation order: highest priority first, newest first on ties
+const RULE_ORDER = { priority: -1, createdAt: -1 } as const;
+
+const RESOURCE_NAMES: Record<TaggerResourceType, string> = {
+    orders: 'Order',
+    customers: 'Customer',
+    products: 'Product',
+};
+
+// Update topics that our own tag writes trigger again
+const UPDATE_TOPICS: Record<string, TaggerResourceType> = {
+    ORDERS_UPDATED: 'orders',
+    CUSTOMERS_UPDATE: 'customers',
+    PRODUCTS_UPDATE: 'products',
+};
+
 export class TaggerService {
     static async getRules(shop: string) {
-        return await TaggingRule.find({ shop }).sort({ createdAt: -1 });
+        return await TaggingRule.find({ shop }).sort(RULE_ORDER);
     }
 
     static async getLibraryRules() {
@@ -24,6 +57,17 @@ export class TaggerService {
     }
 
     static async saveRule(shop: string, data: any) {
+        const conditionError = validateConditions(data.conditions, data.groups);
+        if (conditionError) {
+            throw new Error(conditionError);
+        }
+        data = normalizeConditions(data);
+
+        if (data.actions) {
+            // Keep the legacy `tags` field in sync for list views and older readers
+            data = { ...data, tags: getAddedTags(data.actions) };
+        }
+
         if (data._id) {
             return await TaggingRule.findOneAndUpdate(
                 { shop, _id: data._id },
@@ -38,6 +82,15 @@ export class TaggerService {
         }
     }
 
+    /**
+     * Persist a new evaluation order. `ids` is the full list, top (highest priority) first.
+     */
+    static async reorderRules(shop: string, ids: string[]) {
+        await Promise.all(ids.map((id, index) =>
+            TaggingRule.updateOne({ shop, _id: id }, { priority: ids.length - index })
+        ));
+    }
+
     static async toggleRule(shop: string, id: string, isEnabled: boolean) {
         return await TaggingRule.findOneAndUpdate(
             { shop, _id: id },
@@ -50,6 +103,14 @@ export class TaggerService {
         return await TaggingRule.findOneAndDelete({ shop, _id: id });
     }
 
+    /**
+     * IANA timezone of the shop, used by date operators. Falls back to UTC.
+     */
+    static async getShopTimezone(shop: string): Promise<string> {
+        const config = await ShopConfig.findOne({ shop });
+        return config?.ianaTimezone || "UTC";
+    }
+
     static async processWebhookJob(job: any) {
         const { shop, topic, payload } = job.data;
         console.log(`Processing webhook ${topic} for ${shop}`);
@@ -60,26 +121,32 @@ export class TaggerService {
                 throw new Error(`Could not get admin client for ${shop}`);
             }
 
+            // 0. Skip the update our own tagsAdd/tagsRemove just caused
+            const updatedResource = UPDATE_TOPICS[topic];
+            const updatedGid = updatedResource && `gid://shopify/${RESOURCE_NAMES[updatedResource]}/${payload.id}`;
+            if (updatedGid && await WebhookGuardService.isOwnTagEcho(shop, updatedGid, payload)) {
+                console.log(`Skipping ${topic} for ${updatedGid}: only app-written tags changed`);
+                return;
+            }
+
+            const context: DateContext = { timezone: await TaggerService.getShopTimezone(shop) };
+
             // 1. Xử lý Tagging Rules (Smart Tagger - Dynamic Logic)
             if (topic === "ORDERS_CREATE" || topic === "ORDERS_UPDATED") {
-                await TaggerService.evaluateTaggingRules(admin, shop, payload, "orders");
+                await TaggerService.evaluateTaggingRules(admin, shop, payload, "orders", context);
             } else if (topic === "CUSTOMERS_UPDATE") { // Note: CUSTOMERS_CREATE usually doesn't have much data yet, but we can support it if needed
-                await TaggerService.evaluateTaggingRules(admin, shop, payload, "customers");
+                await TaggerService.evaluateTaggingRules(admin, shop, payload, "customers", context);
+            } else if (topic === "PRODUCTS_CREATE" || topic === "PRODUCTS_UPDATE") {
+                await TaggerService.evaluateTaggingRules(admin, shop, TaggerService.normalizeProductPayload(payload), "products", context, payload);
             }
 
             // 2. Xử lý Metafield Rules (NEW Logic)
             if (topic === "PRODUCTS_CREATE" || topic === "PRODUCTS_UPDATE") {
-                // Chuẩn hóa payload sản phẩm một chút để dễ truy cập
-                const normalizedPayload = {
-                    ...payload,
-                    price: payload.variants?.[0]?.price, // Flatten price để dễ đặt rule
-                    sku: payload.variants?.[0]?.sku,
-                    inventory: payload.variants?.[0]?.inventory_quantity
-                };
-                await TaggerService.evaluateMetafieldRules(admin, shop, normalizedPayload, "products");
+                const normalizedPayload = TaggerService.normalizeProductPayload(payload);
+                await TaggerService.evaluateMetafieldRules(admin, shop, normalizedPayload, "products", context);
             }
             else if (topic === "CUSTOMERS_CREATE" || topic === "CUSTOMERS_UPDATE") {
-                await TaggerService.evaluateMetafieldRules(admin, shop, payload, "customers");
+                await TaggerService.evaluateMetafieldRules(admin, shop, payload, "customers", context);
             }
 
         } catch (error) {
@@ -96,68 +163,121 @@ export class TaggerService {
         }
     }
 
+    /**
+     * Chuẩn hóa payload sản phẩm: flatten biến thể đầu tiên (legacy) và thêm
+     * các field tổng hợp từ mọi biến thể để dễ đặt rule (low-stock, on-sale, no-image).
+     * Field dạng `variants.sku` vẫn được so khớp trên từng biến thể.
+     */
+    public static normalizeProductPayload(payload: any) {
+        const variants: any[] = payload.variants || [];
+        return {
+            ...payload,
+            price: variants[0]?.price, // Flatten price để dễ đặt rule
+            sku: variants[0]?.sku,
+            inventory: variants[0]?.inventory_quantity,
+            compare_at_price: variants[0]?.compare_at_price,
+            total_inventory: variants.reduce((sum, v) => sum + (Number(v.inventory_quantity) || 0), 0),
+            on_sale: variants.some(v => parseFloat(v.compare_at_price) > parseFloat(v.price)),
+            image_count: payload.images?.length || 0,
+        };
+    }
+
+    /**
+     * Apply the shop's tagging rules to a webhook resource. Only tags the resource doesn't have yet are
+     * added and only tags it has are removed; nothing is written or logged when its tags already match.
+     * `payload` is the webhook as received, used to recognise the updates our own write triggers.
+     */
     private static async evaluateTaggingRules(
         admin: any,
         shop: string,
         resource: any,
-        resourceType: "orders" | "customers"
-    ) {
-        const rules = await TaggingRule.find({ shop, resourceType, isEnabled: true });
-        if (rules.length === 0) return;
-
-        const tagsToAdd = new Set<string>();
-        const tagsToRemove = new Set<string>();
+        resourceType: TaggerResourceType,
+        context: DateContext = {},
+        payload: WebhookPayload = resource
+    ): Promise<{ added: string[]; removed: string[] } | null> {
+        const rules = await TaggingRule.find({ shop, resourceType, isEnabled: true }).sort(RULE_ORDER);
+        if (rules.length === 0) return null;
+
+        // Tag -> decision of the highest-priority matching rule that mentions it
+        const decisions = new Map<string, 'add' | 'remove'>();
+        const autoRemove = new Set<string>(); // "add" tags of rules that no longer match
         const logs: any[] = [];
 
-        // 1. Calculate Tags to Add vs Remove
+        // 1. Walk rules in priority order, first matching rule to claim a tag wins
         for (const rule of rules) {
-            const isMatch = TaggerService.checkConditions(resource, rule.conditions, rule.conditionLogic || 'AND');
+            const isMatch = TaggerService.checkConditions(resource, rule.conditions, rule.conditionLogic || 'AND', rule.groups, context);
+            const actions = getRuleActions(rule);
 
             if (isMatch) {
-                rule.tags.forEach((t: string) => tagsToAdd.add(t));
+                for (const action of actions) {
+                    for (const tag of action.tags) {
+                        if (!decisions.has(tag)) {
+                            decisions.set(tag, action.type === 'remove' ? 'remove' : 'add');
+                        }
+                    }
+                }
                 logs.push({
                     shop,
-                    resourceType: resourceType === 'orders' ? 'Order' : 'Customer',
+                    resourceType: RESOURCE_NAMES[resourceType],
                     resourceId: resource.id.toString(),
-                    action: 'Add Tag',
-                    detail: `Rule '${rule.name}' matched. Tags: ${rule.tags.join(', ')}`,
+                    action: 'Smart Tag Applied',
+                    detail: `Rule '${rule.name}' matched. ${actions.map(describeTagAction).join('; ')}`,
                     status: 'Success',
                 });
+
+                if (rule.stopProcessing) break;
             } else {
-                // If rule doesn't match, we should remove these tags
-                // UNLESS they are added by another matching rule (handled later by Set difference)
-                rule.tags.forEach((t: string) => tagsToRemove.add(t));
+                // Only plain "add" tags are taken back when the rule stops matching.
+                // Sticky tags stay, remove actions do nothing.
+                actions
+                    .filter(action => action.type === 'add')
+                    .forEach(action => action.tags.forEach((t: string) => autoRemove.add(t)));
             }
         }
 
-        // 2. Resolve Conflicts: If a tag is in both Add and Remove, Add wins.
-        for (const tag of tagsToAdd) {
-            tagsToRemove.delete(tag);
+        // 2. Resolve Conflicts: matching rules decide, automatic removal only fills the gaps
+        const tagsToAdd = new Set<string>();
+        const tagsToRemove = new Set<string>();
+        for (const [tag, decision] of decisions) {
+            (decision === 'add' ? tagsToAdd : tagsToRemove).add(tag);
         }
+        for (const tag of autoRemove) {
+            if (!decisions.has(tag)) tagsToRemove.add(tag);
+        }
+
+        // 3. Diff against the tags the resource has now (Shopify compares tags case-insensitively)
+        const hasTag = createTagLookup(resource.tags);
+        const added = Array.from(tagsToAdd).filter(tag => !hasTag(tag));
+        const removed = Array.from(tagsToRemove).filter(tag => hasTag(tag));
+        if (added.length === 0 && removed.length === 0) return null;
 
-        // 3. Execute GraphQL Mutations
-        const resourceGid = `gid://shopify/${resourceType === 'orders' ? 'Order' : 'Customer'}/${resource.id}`;
+        // 4. Remember the tag sets our writes produce before making them, so their update webhooks are skipped
+        const resourceGid = `gid://shopify/${RESOURCE_NAMES[resourceType]}/${resource.id}`;
+        await WebhookGuardService.recordTagWrite(shop, resourceGid, payload, { added, removed });
 
-        if (tagsToAdd.size > 0) {
-            await TaggerService.addTags(admin, resourceGid, Array.from(tagsToAdd));
+        // 5. Execute GraphQL Mutations
+        if (added.length > 0) {
+            await TaggerService.addTags(admin, resourceGid, added);
         }
 
-        if (tagsToRemove.size > 0) {
-            await TaggerService.removeTags(admin, resourceGid, Array.from(tagsToRemove));
+        if (removed.length > 0) {
+            await TaggerService.removeTags(admin, resourceGid, removed);
             logs.push({
                 shop,
-                resourceType: resourceType === 'orders' ? 'Order' : 'Customer',
+                resourceType: RESOURCE_NAMES[resourceType],
                 resourceId: resource.id.toString(),
                 action: 'Remove Tag',
-                detail: `Tags removed: ${Array.from(tagsToRemove).join(', ')}`,
+                detail: `Tags removed: ${removed.join(', ')}`,
                 status: 'Success',
             });
         }
 
-        // 4. Save Logs
+        // 6. Save Logs
         for (const log of logs) {
             await ActivityService.createLog(log);
         }
+
+        return { added, removed };
     }
 
     private static async addTags(admin: any, id: string, tags: string[]) {
@@ -190,7 +310,8 @@ export class TaggerService {
         admin: any,
         shop: string,
         resource: WebhookPayload,
-        resourceType: "products" | "customers"
+        resourceType: "products" | "customers",
+        context: DateContext = {}
     ) {
 
         const rules = await MetafieldRule.find({
@@ -207,7 +328,7 @@ export class TaggerService {
         const mutationsToRun: any[] = [];
 
         for (const rule of rules) {
-            const isMatch = TaggerService.checkConditions(resource, rule.conditions, rule.conditionLogic || 'AND');
+            const isMatch = TaggerService.checkConditions(resource, rule.conditions, rule.conditionLogic || 'AND', rule.groups, context);
 
             if (isMatch) {
                 const ownerId = resourceType === "products"
@@ -284,67 +405,153 @@ export class TaggerService {
         }
     }
 
-    public static checkConditions(resource: any, conditions: any[], logic: 'AND' | 'OR' = 'AND'): boolean {
-        if (!conditions || conditions.length === 0) {
+    public static checkConditions(
+        resource: any,
+        conditions: any[],
+        logic: ConditionLogic = 'AND',
+        groups: ConditionGroup[] = [],
+        context: DateContext = {}
+    ): boolean {
+        // Flat rules are just a single top-level group
+        return TaggerService.checkGroup(resource, { logic, conditions, groups }, context);
+    }
+
+    /**
+     * Evaluate conditions against a record fetched through GraphQL (e.g. a bulk query row),
+     * after converting it to the webhook shape rules are written against.
+     */
+    public static checkRecordConditions(
+        resourceType: TaggerResourceType,
+        node: any,
+        rule: { conditions?: any[]; conditionLogic?: ConditionLogic; groups?: ConditionGroup[] },
+        context: DateContext = {}
+    ): boolean {
+        const shaped = toWebhookShape(resourceType, node);
+        const resource = resourceType === "products" ? TaggerService.normalizeProductPayload(shaped) : shaped;
+        return TaggerService.checkConditions(resource, rule.conditions || [], rule.conditionLogic || 'AND', rule.groups, context);
+    }
+
+    /**
+     * Evaluate a condition group recursively.
+     * AND: every child passes, OR: any child passes, NOT: no child passes.
+     */
+    public static checkGroup(resource: any, group: ConditionGroup, context: DateContext = {}): boolean {
+        const conditions = group.conditions || [];
+        const groups = group.groups || [];
+
+        if (conditions.length === 0 && groups.length === 0) {
             return true;
         }
 
-        const checkSingleValue = (resourceValue: any, targetValue: any, operator: string): boolean => {
-            const numResource = parseFloat(resourceValue);
-            const numTarget = parseFloat(targetValue);
-            const isNumberCompare = !isNaN(numResource) && !isNaN(numTarget);
-
-            switch (operator) {
-                case 'equals':
-                    return String(resourceValue).toLowerCase() === String(targetValue).toLowerCase();
-                case 'not_equals':
-                    return String(resourceValue).toLowerCase() !== String(targetValue).toLowerCase();
-                case 'contains':
-                    return String(resourceValue).toLowerCase().includes(String(targetValue).toLowerCase());
-                case 'starts_with':
-                    return String(resourceValue).toLowerCase().startsWith(String(targetValue).toLowerCase());
-                case 'ends_with':
-                    return String(resourceValue).toLowerCase().endsWith(String(targetValue).toLowerCase());
-                case 'greater_than':
-                    return isNumberCompare && numResource > numTarget;
-                case 'less_than':
-                    return isNumberCompare && numResource < numTarget;
-                case 'in':
-                    const options = String(targetValue).split(',').map(s => s.trim().toLowerCase());
-                    return options.includes(String(resourceValue).toLowerCase());
-                case 'not_in':
-                    const notOptions = String(targetValue).split(',').map(s => s.trim().toLowerCase());
-                    return !notOptions.includes(String(resourceValue).toLowerCase());
-                case 'is_empty':
-                    return !resourceValue || String(resourceValue).trim() === "";
-                case 'is_not_empty':
-                    return !!resourceValue && String(resourceValue).trim() !== "";
-                default:
-                    return false;
-            }
-        };
-
-        const check = (condition: any) => {
-            const resourceValue = TaggerService.getNestedValue(resource, condition.field);
-            const targetValue = condition.value;
+        // Lazy checks so AND/OR can short-circuit
+        const checks: Array<() => boolean> = [
+            ...conditions.map(condition => () => TaggerService.checkCondition(resource, condition, context)),
+            ...groups.map(subGroup => () => TaggerService.checkGroup(resource, subGroup, context)),
+        ];
+
+        switch (group.logic) {
+            case 'OR':
+                return checks.some(check => check());
+            case 'NOT':
+                return !checks.some(check => check());
+            default:
+                return checks.every(check => check());
+        }
+    }
 
-            if (Array.isArray(resourceValue)) {
-                // If the field matches multiple values (e.g. line_items.sku), check if ANY matches
-                // Unless operator is is_empty/is_not_empty which checks the array itself? 
-                // Actually for is_empty, if array is empty it's empty.
-                if (condition.operator === 'is_empty') return resourceValue.length === 0;
-                if (condition.operator === 'is_not_empty') return resourceValue.length > 0;
+    private static checkCondition(resource: any, condition: Condition, context: DateContext = {}): boolean {
+        const resourceValue = TaggerService.getNestedValue(resource, condition.field);
+        const targetValue = condition.value;
+
+        // Operators on the list as a whole; a single value counts as a list of one
+        const values = Array.isArray(resourceValue) ? resourceValue : (resourceValue === "" || resourceValue == null ? [] : [resourceValue]);
+        const numTarget = parseFloat(targetValue);
+        switch (condition.operator) {
+            case 'all_in': {
+                const options = String(targetValue).split(',').map(s => s.trim().toLowerCase());
+                return values.length > 0 && values.every(val => options.includes(String(val).toLowerCase()));
+            }
+            case 'count_greater_than':
+                return !isNaN(numTarget) && values.length > numTarget;
+            case 'count_less_than':
+                return !isNaN(numTarget) && values.length < numTarget;
+            case 'sum_greater_than':
+            case 'sum_less_than': {
+                if (isNaN(numTarget)) return false;
+                const sum = values.reduce((total: number, val: any) => total + (parseFloat(val) || 0), 0);
+                return condition.operator === 'sum_greater_than' ? sum > numTarget : sum < numTarget;
+            }
+        }
 
-                return resourceValue.some(val => checkSingleValue(val, targetValue, condition.operator));
+        if (Array.isArray(resourceValue)) {
+            // If the field matches multiple values (e.g. line_items.sku), check if ANY matches
+            // Unless operator is is_empty/is_not_empty which checks the array itself? 
+            // Actually for is_empty, if array is empty it's empty.
+            if (condition.operator === 'is_empty') return resourceValue.length === 0;
+            if (condition.operator === 'is_not_empty') return resourceValue.length > 0;
+            // Negative match: no element may contain the value
+            if (condition.operator === 'not_contains') {
+                return resourceValue.every(val => TaggerService.checkSingleValue(val, targetValue, condition.operator, context));
             }
 
-            return checkSingleValue(resourceValue, targetValue, condition.operator);
-        };
+            return resourceValue.some(val => TaggerService.checkSingleValue(val, targetValue, condition.operator, context));
+        }
 
-        if (logic === 'OR') {
-            return conditions.some(check);
-        } else {
-            return conditions.every(check);
+        return TaggerService.checkSingleValue(resourceValue, targetValue, condition.operator, context);
+    }
+
+    private static checkSingleValue(resourceValue: any, targetValue: any, operator: string, context: DateContext = {}): boolean {
+        const numResource = parseFloat(resourceValue);
+        const numTarget = parseFloat(targetValue);
+        const isNumberCompare = !isNaN(numResource) && !isNaN(numTarget);
+
+        switch (operator) {
+            case 'equals':
+                return String(resourceValue).toLowerCase() === String(targetValue).toLowerCase();
+            case 'not_equals':
+                return String(resourceValue).toLowerCase() !== String(targetValue).toLowerCase();
+            case 'contains':
+                return String(resourceValue).toLowerCase().includes(String(targetValue).toLowerCase());
+            case 'not_contains':
+                return !String(resourceValue).toLowerCase().includes(String(targetValue).toLowerCase());
+            case 'starts_with':
+                return String(resourceValue).toLowerCase().startsWith(String(targetValue).toLowerCase());
+            case 'ends_with':
+                return String(resourceValue).toLowerCase().endsWith(String(targetValue).toLowerCase());
+            case 'greater_than':
+                return isNumberCompare && numResource > numTarget;
+            case 'less_than':
+                return isNumberCompare && numResource < numTarget;
+            case 'greater_or_equal':
+                return isNumberCompare && numResource >= numTarget;
+            case 'less_or_equal':
+                return isNumberCompare && numResource <= numTarget;
+            case 'between': {
+                // "min,max", inclusive
+                const [min, max] = String(targetValue).split(',').map(s => parseFloat(s));
+                return !isNaN(numResource) && !isNaN(min) && !isNaN(max) && numResource >= min && numResource <= max;
+            }
+            case 'matches_regex':
+                return testRegex(String(targetValue), String(resourceValue ?? ""));
+            case 'in':
+                const options = String(targetValue).split(',').map(s => s.trim().toLowerCase());
+                return options.includes(String(resourceValue).toLowerCase());
+            case 'not_in':
+                const notOptions = String(targetValue).split(',').map(s => s.trim().toLowerCase());
+                return !notOptions.includes(String(resourceValue).toLowerCase());
+            case 'is_empty':
+                return !resourceValue || String(resourceValue).trim() === "";
+            case 'is_not_empty':
+                return !!resourceValue && String(resourceValue).trim() !== "";
+            case 'within_last':
+            case 'older_than':
+            case 'before':
+            case 'after':
+            case 'day_of_week':
+            case 'hour_of_day':
+                return checkDateCondition(resourceValue, targetValue, operator, context);
+            default:
+                return false;
         }
     }
 
@@ -380,62 +587,102 @@ export class TaggerService {
         }
     }
 
-    static async simulateRule(shop: string, rule: any, sampleSize: number = 10) {
+    /**
+     * Dry-run a tagging or metafield rule (saved or not) against the most recent records
+     * of its resource type. Metafield rules are recognised by their `definition`.
+     */
+    static async simulateRule(shop: string, rule: any, sampleSize: number = 10): Promise<SimulationResult> {
         const { admin } = await unauthenticated.admin(shop);
-        const resourceType = rule.resourceType || "products"; // Default to products if not specified
-
-        // Fetch recent items
-        const query = `
+        const resourceType: TaggerResourceType = rule.resourceType || "products";
+        const context: DateContext = { timezone: await TaggerService.getShopTimezone(shop) };
+        const definition = rule.definition;
+
+        const extraFields = definition
+            ? `metafield(namespace: ${JSON.stringify(definition.namespace)}, key: ${JSON.stringify(definition.key)}) { value }`
+            : "";
+        const query = `#graphql
         {
             ${resourceType}(first: ${sampleSize}, reverse: true) {
-                nodes {
-                    id
-                    title
-                    tags
-                    vendor
-                    productType
-                    totalInventory
-                    priceRangeV2 {
-                        minVariantPrice {
-                            amount
-                        }
-                    }
-                    variants(first: 1) {
-                        nodes {
-                            price
-                            sku
-                            inventoryQuantity
-                        }
+                edges {
+                    node {
+                        ${getResourceFields(resourceType, extraFields)}
                     }
-                    # Add other fields commonly used in rules
                 }
             }
         }`;
 
         const response = await admin.graphql(query);
         const data = await response.json();
-        const items = data.data[resourceType].nodes;
-
-        const matchedItems: any[] = [];
-
-        for (const item of items) {
-            // Normalize item for checkConditions
-            const normalizedItem = {
-                ...item,
-                price: item.variants?.nodes?.[0]?.price || item.priceRangeV2?.minVariantPrice?.amount,
-                sku: item.variants?.nodes?.[0]?.sku,
-                inventory: item.variants?.nodes?.[0]?.inventoryQuantity || item.totalInventory
+        const nodes = data.data[resourceType].edges.map((edge: any) => edge.node);
+        const actions = getRuleActions(rule);
+
+        const records = nodes.map((node: any): SimulationRecord => {
+            const shaped = toWebhookShape(resourceType, node);
+            const resource = resourceType === "products" ? TaggerService.normalizeProductPayload(shaped) : shaped;
+            const evaluation = TaggerService.explainGroup(resource, {
+                logic: rule.conditionLogic || 'AND',
+                conditions: rule.conditions || [],
+                groups: rule.groups || [],
+            }, context);
+            const matched = evaluation.passed;
+
+            const record: SimulationRecord = {
+                id: node.id,
+                title: node.title || node.name || node.displayName || node.email || node.id,
+                matched,
+                evaluation,
+                tagsAdded: [],
+                tagsRemoved: [],
             };
 
-            if (TaggerService.checkConditions(normalizedItem, rule.conditions)) {
-                matchedItems.push({
-                    id: item.id,
-                    title: item.title,
-                    reason: "Matches conditions"
-                });
+            if (definition) {
+                const before = node.metafield?.value ?? null;
+                if (matched && before !== definition.value) {
+                    record.metafield = { namespace: definition.namespace, key: definition.key, before, after: definition.value };
+                }
+                return record;
             }
+
+            // Same semantics as a webhook run of this single rule
+            const hasTag = createTagLookup(node.tags);
+            for (const action of actions) {
+                for (const tag of action.tags) {
+                    if (matched && action.type !== 'remove' && !hasTag(tag)) {
+                        record.tagsAdded.push(tag);
+                    } else if (hasTag(tag) && (matched ? action.type === 'remove' : action.type === 'add')) {
+                        record.tagsRemoved.push(tag);
+                    }
+                }
+            }
+            return record;
+        });
+
+        return { resourceType, records };
+    }
+
+    /**
+     * Like `checkGroup`, but evaluates every condition and reports the value it was compared against.
+     */
+    public static explainGroup(resource: any, group: ConditionGroup, context: DateContext = {}): ConditionGroupResult {
+        const conditions = (group.conditions || []).map(({ field, operator, value }) => ({
+            field,
+            operator,
+            value,
+            actual: TaggerService.getNestedValue(resource, field),
+            passed: TaggerService.checkCondition(resource, { field, operator, value }, context),
+        }));
+        const groups = (group.groups || []).map(subGroup => TaggerService.explainGroup(resource, subGroup, context));
+        const results = [...conditions, ...groups].map(result => result.passed);
+
+        let passed = true;
+        if (results.length > 0) {
+            passed = group.logic === 'OR'
+                ? results.some(Boolean)
+                : group.logic === 'NOT'
+                    ? !results.some(Boolean)
+                    : results.every(Boolean);
         }
 
-        return matchedItems;
+        return { logic: group.logic, passed, conditions, groups };
     }
 }
\ No newline at end of file
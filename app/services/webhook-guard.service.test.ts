@@ -0,0 +1,82 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { WebhookGuardService } from './webhook-guard.service';
+import { AppTagWrite } from '../models/AppTagWrite';
+import { WebhookDelivery } from '../models/WebhookDelivery';
+
+vi.mock('../models/WebhookDelivery', () => ({
+  WebhookDelivery: { updateOne: vi.fn(), deleteOne: vi.fn() }
+}));
+
+vi.mock('../models/AppTagWrite', () => ({
+  AppTagWrite: { updateOne: vi.fn(), findOne: vi.fn() }
+}));
+
+describe('WebhookGuardService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('claimDelivery', () => {
+    it('should accept a delivery only the first time its webhook id is seen', async () => {
+      (WebhookDelivery.updateOne as any).mockResolvedValueOnce({ upsertedCount: 1 });
+      (WebhookDelivery.updateOne as any).mockResolvedValueOnce({ upsertedCount: 0 });
+
+      expect(await WebhookGuardService.claimDelivery("test-shop", "ORDERS_UPDATED", "wh-1")).toBe(true);
+      expect(await WebhookGuardService.claimDelivery("test-shop", "ORDERS_UPDATED", "wh-1")).toBe(false);
+      expect(WebhookDelivery.updateOne).toHaveBeenCalledWith(
+        { webhookId: "wh-1" },
+        { $setOnInsert: expect.objectContaining({ shop: "test-shop", topic: "ORDERS_UPDATED" }) },
+        { upsert: true }
+      );
+    });
+
+    it('should accept deliveries without a webhook id', async () => {
+      expect(await WebhookGuardService.claimDelivery("test-shop", "ORDERS_UPDATED", null)).toBe(true);
+      expect(WebhookDelivery.updateOne).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('tag write echoes', () => {
+    const order = { id: 1, total_price: "100.00", tags: "Wholesale", updated_at: "2025-01-01T10:00:00Z" };
+
+    const recordAndLoad = async () => {
+      await WebhookGuardService.recordTagWrite("test-shop", "gid://shopify/Order/1", order, { added: ["VIP"], removed: ["wholesale"] });
+      const [, update] = (AppTagWrite.updateOne as any).mock.calls[0];
+      (AppTagWrite.findOne as any).mockResolvedValue(update);
+      return update;
+    };
+
+    it('should store the expected tag set after the write', async () => {
+      const update = await recordAndLoad();
+      expect(update.tags).toEqual(["vip"]);
+      // After tagsAdd, before tagsRemove
+      expect(update.intermediateTags).toEqual(["vip", "wholesale"]);
+    });
+
+    it('should recognise the update between adding and removing tags', async () => {
+      await recordAndLoad();
+      const echo = { ...order, tags: "Wholesale, VIP", updated_at: "2025-01-01T10:00:03Z" };
+
+      expect(await WebhookGuardService.isOwnTagEcho("test-shop", "gid://shopify/Order/1", echo)).toBe(true);
+    });
+
+    it('should recognise the update that only carries our tags', async () => {
+      await recordAndLoad();
+      const echo = { ...order, tags: "VIP", updated_at: "2025-01-01T10:00:05Z" };
+
+      expect(await WebhookGuardService.isOwnTagEcho("test-shop", "gid://shopify/Order/1", echo)).toBe(true);
+    });
+
+    it('should process updates with other changes or different tags', async () => {
+      await recordAndLoad();
+
+      expect(await WebhookGuardService.isOwnTagEcho("test-shop", "gid://shopify/Order/1", { ...order, tags: "VIP", total_price: "80.00" })).toBe(false);
+      expect(await WebhookGuardService.isOwnTagEcho("test-shop", "gid://shopify/Order/1", { ...order, tags: "VIP, rush" })).toBe(false);
+    });
+
+    it('should process updates when the app wrote nothing', async () => {
+      (AppTagWrite.findOne as any).mockResolvedValue(null);
+      expect(await WebhookGuardService.isOwnTagEcho("test-shop", "gid://shopify/Order/1", order)).toBe(false);
+    });
+  });
+});
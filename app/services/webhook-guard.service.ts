@@ -0,0 +1,81 @@
+import { createHash } from "crypto";
+import { AppTagWrite } from "../models/AppTagWrite";
+import { WebhookDelivery } from "../models/WebhookDelivery";
+
+// Fields that change on every write and say nothing about what the merchant changed
+const VOLATILE_FIELDS = new Set(["tags", "updated_at"]);
+
+/**
+ * Keeps webhook processing idempotent: each delivery is queued once, and updates
+ * caused only by tags the app wrote itself are not processed again.
+ */
+export class WebhookGuardService {
+    /**
+     * Record a delivery. Returns false if this webhook id was already seen (a Shopify retry).
+     */
+    static async claimDelivery(shop: string, topic: string, webhookId?: string | null): Promise<boolean> {
+        if (!webhookId) return true;
+
+        const result = await WebhookDelivery.updateOne(
+            { webhookId },
+            { $setOnInsert: { shop, topic, receivedAt: new Date() } },
+            { upsert: true }
+        );
+        return result.upsertedCount > 0;
+    }
+
+    /**
+     * Forget a delivery that could not be queued, so Shopify's retry is accepted.
+     */
+    static async releaseDelivery(webhookId?: string | null) {
+        if (!webhookId) return;
+        await WebhookDelivery.deleteOne({ webhookId });
+    }
+
+    /**
+     * Remember the tag sets a resource will have after the app's tag write. Tags are added before
+     * others are removed, so a write doing both triggers an update for each step.
+     */
+    static async recordTagWrite(shop: string, resourceId: string, payload: any, changes: { added: string[]; removed: string[] }) {
+        const tags = new Set(WebhookGuardService.normalizeTags(payload.tags));
+        changes.added.forEach(tag => tags.add(tag.trim().toLowerCase()));
+        const afterAdd = Array.from(tags).sort();
+        changes.removed.forEach(tag => tags.delete(tag.trim().toLowerCase()));
+
+        const isTwoStep = changes.added.length > 0 && changes.removed.length > 0;
+        await AppTagWrite.updateOne(
+            { shop, resourceId },
+            {
+                tags: Array.from(tags).sort(),
+                intermediateTags: isTwoStep ? afterAdd : [],
+                fingerprint: WebhookGuardService.getFingerprint(payload),
+                createdAt: new Date(),
+            },
+            { upsert: true }
+        );
+    }
+
+    /**
+     * True when the update carries exactly the tags the app wrote and nothing else changed.
+     */
+    static async isOwnTagEcho(shop: string, resourceId: string, payload: any): Promise<boolean> {
+        const write = await AppTagWrite.findOne({ shop, resourceId });
+        if (!write) return false;
+
+        const tags = WebhookGuardService.normalizeTags(payload.tags);
+        const isExpected = (expected: string[]) => tags.length === expected.length && tags.every((tag, index) => tag === expected[index]);
+        const sameTags = isExpected(write.tags) || (write.intermediateTags?.length > 0 && isExpected(write.intermediateTags));
+        return sameTags && write.fingerprint === WebhookGuardService.getFingerprint(payload);
+    }
+
+    static getFingerprint(payload: any): string {
+        const stable = JSON.stringify(payload, (key, value) => VOLATILE_FIELDS.has(key) ? undefined : value);
+        return createHash("sha1").update(stable).digest("hex");
+    }
+
+    // Webhooks send tags as "a, b"; Shopify compares tags case-insensitively
+    private static normalizeTags(tags: string | string[] | undefined): string[] {
+        const list = Array.isArray(tags) ? tags : String(tags || "").split(",");
+        return Array.from(new Set(list.map(tag => tag.trim().toLowerCase()).filter(Boolean))).sort();
+    }
+}
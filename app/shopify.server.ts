@@ -40,6 +40,7 @@ const shopify = shopifyApp({
               }
               currencyCode
               timezoneAbbreviation
+              ianaTimezone
               billingAddress {
                 country
               }
@@ -58,6 +59,7 @@ const shopify = shopifyApp({
             shop: session.shop,
             accessToken: session.accessToken,
             currencyCode: shopInfo.currencyCode || "USD",
+            ianaTimezone: shopInfo.ianaTimezone || "UTC",
             email: shopInfo.email || "",
             shopName: shopInfo.name || "",
             isActive: true,
@@ -1,14 +1,53 @@
+import type { TagPolicyViolation } from "./cleaner.types";
+import type { MetafieldDefinition } from "./metafield.types";
+import type { Condition, ConditionGroup, ConditionLogic } from "./tagger.types";
+
+export type TagMatchMode = 'exact' | 'wildcard' | 'regex';
+
+/**
+ * How a bulk job picks its records:
+ * - tags: items having the operation's find tags (the default)
+ * - query: a Shopify search query, e.g. `vendor:Acme AND inventory_total:<=0`
+ * - conditions: every item is evaluated against rule-engine conditions
+ */
+export type BulkTargetMode = 'tags' | 'query' | 'conditions';
+
+export interface BulkTarget {
+  mode: BulkTargetMode;
+  searchQuery: string;
+  conditions: Condition[];
+  conditionLogic: ConditionLogic;
+  groups: ConditionGroup[];
+}
+
 export interface BulkOperationData {
   resourceType: 'products' | 'customers' | 'orders';
   operation: 'replace' | 'add' | 'remove';
   findTag: string;
   replaceTag: string;
+  matchMode?: TagMatchMode;
+  addTags?: string;
+}
+
+/**
+ * A bulk tag operation with its tag lists parsed.
+ * - replace: every tag matching one of `findTags` becomes `replaceTag` (wildcard `*` / regex `$1` captures are substituted)
+ * - remove: every tag matching one of `findTags` is removed
+ * - add: `addTags` are added to items having any of `findTags` (or to every item when `findTags` is empty)
+ */
+export interface TagOperation {
+  operation: BulkOperationData['operation'];
+  matchMode: TagMatchMode;
+  findTags: string[];
+  replaceTag: string;
+  addTags: string[];
 }
 
 export interface BulkPreview {
   id: string;
   title?: string;
-  tags: string[];
+  before: string[];
+  after: string[];
 }
 
 export interface BulkActionData {
@@ -17,14 +56,75 @@ export interface BulkActionData {
   preview?: BulkPreview[];
   resourceType?: string;
   operation?: string;
+  matchMode?: TagMatchMode;
+  targetMode?: BulkTargetMode;
+  searchQuery?: string;
   findTag?: string;
   replaceTag?: string;
+  addTags?: string;
+  // Written tags breaking the shop's tag policy
+  policyViolations?: TagPolicyViolation[];
+  message?: string;
+  current?: number;
+  limit?: number | null;
+  jobId?: string;
+}
+
+export type MetafieldBulkResourceType = 'products' | 'variants' | 'customers';
+
+/**
+ * - set: write the value on every targeted item
+ * - update: only change items that already have the metafield
+ * - delete: remove the metafield from targeted items that have it
+ */
+export type MetafieldBulkOperation = 'set' | 'update' | 'delete';
+
+export interface MetafieldOperation {
+  operation: MetafieldBulkOperation;
+  namespace: string;
+  key: string;
+  valueType: MetafieldDefinition['valueType'];
+  value: string;
+}
+
+// A single value before/after, e.g. a metafield or product field
+export interface ValuePreview {
+  id: string;
+  title?: string;
+  before: string | null;
+  after: string | null;
+}
+
+export interface MetafieldActionData {
+  status?: 'queued' | 'preview' | 'quota_exceeded' | 'error';
+  count?: number;
+  preview?: ValuePreview[];
+  resourceType?: string;
   message?: string;
   current?: number;
   limit?: number | null;
   jobId?: string;
 }
 
+export type ProductField = 'price' | 'compare_at_price' | 'vendor' | 'product_type' | 'status' | 'seo_title';
+
+// Price fields can be adjusted; every other field is only `set`
+export type ProductFieldAdjustment = 'set' | 'clear' | 'increase_percent' | 'decrease_percent' | 'increase_amount' | 'decrease_amount';
+
+export interface ProductFieldOperation {
+  field: ProductField;
+  adjustment: ProductFieldAdjustment;
+  value: string;
+}
+
+export interface ProductFieldActionData {
+  status?: 'field_queued' | 'field_preview' | 'quota_exceeded' | 'error';
+  count?: number;
+  preview?: ValuePreview[];
+  message?: string;
+  jobId?: string;
+}
+
 export interface UsageData {
   count: number;
   period: string;
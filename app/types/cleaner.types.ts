@@ -9,10 +9,100 @@ export interface ScanResults {
   totalScannedTags: number;
   itemsScanned: number;
   previewItems?: TagItem[];
+  // Near-duplicate tags that can be merged into one, most confident first
+  similarGroups?: TagSimilarityGroup[];
+  // Tags breaking the shop's tag policy, with a compliant spelling when one exists
+  policyViolations?: TagPolicyViolation[];
+  // Items using each duplicate or malformed tag
+  usage?: Record<string, number>;
+}
+
+/**
+ * - any: no restriction
+ * - letters: letters of any alphabet, digits, spaces, hyphens and underscores
+ * - latin: like letters, Latin alphabet only (accents allowed)
+ * - ascii: a-z, digits, spaces, hyphens and underscores
+ */
+export type TagCharacterSet = 'any' | 'letters' | 'latin' | 'ascii';
+
+// kebab: 'free-shipping', title: 'Free Shipping'
+export type TagCasing = 'any' | 'lower' | 'kebab' | 'title';
+
+// A shop's rules for tag spelling. Tags on the allow list are never flagged.
+export interface TagPolicyRules {
+  characterSet: TagCharacterSet;
+  maxLength: number | null;
+  casing: TagCasing;
+  forbiddenPrefixes: string[];
+  allowList: string[];
+}
+
+export type TagPolicyRule = 'characters' | 'length' | 'casing' | 'prefix';
+
+export interface TagPolicyViolation {
+  tag: string;
+  rules: TagPolicyRule[];
+  // Normalized spelling that meets the policy, if the tag can be fixed automatically
+  suggestion?: string;
+}
+
+// Tags that are probably the same tag, with a confidence from 0 to 1
+export interface TagSimilarityGroup {
+  tags: string[];
+  confidence: number;
+}
+
+// Variants rewritten to the canonical tag by a merge job
+export interface TagMerge {
+  canonical: string;
+  variants: string[];
+}
+
+export type TagScanResourceType = 'products' | 'customers' | 'orders';
+
+// Items using a tag, per resource type
+export interface TagUsage {
+  tag: string;
+  products: number;
+  customers: number;
+  orders: number;
+  total: number;
+  firstSeen?: string;
+  lastSeen?: string;
+}
+
+export type TagRuleKind = 'tagging' | 'metafield';
+
+// A Smart Tagger or metafield rule with a tag condition matching the tag
+export interface TagRuleReference {
+  id: string;
+  name: string;
+  kind: TagRuleKind;
+}
+
+export interface TagAnalyticsRow extends TagUsage {
+  isRare: boolean;
+  rules: TagRuleReference[];
+}
+
+export type TagAnalyticsFilter = 'all' | 'rare' | 'unreferenced';
+
+export type TagScanStatus = 'Pending' | 'Completed' | 'Failed' | 'Cancelled';
+
+export interface TagScanSummary {
+  jobId: string;
+  status: TagScanStatus;
+  resourceType?: TagScanResourceType;
+  itemsScanned: number;
+  error?: string;
+  createdAt: string;
+  completedAt?: string;
+  // Set once the scan completed
+  results?: ScanResults;
 }
 
 export interface CleanerActionData {
-  status?: 'scanned' | 'queued' | 'quota_exceeded';
+  status?: 'scanning' | 'queued' | 'policy_saved' | 'quota_exceeded' | 'error';
   results?: ScanResults;
   count?: number;
   jobId?: string;
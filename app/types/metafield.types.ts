@@ -1,4 +1,4 @@
-import type { Condition } from "./tagger.types";
+import type { Condition, ConditionGroup, ConditionLogic } from "./tagger.types";
 
 export interface MetafieldDefinition {
   namespace: string;
@@ -13,7 +13,8 @@ export interface MetafieldRule {
   name: string;
   resourceType: 'products' | 'customers';
   conditions: Condition[];
-  conditionLogic: 'AND' | 'OR';
+  conditionLogic: ConditionLogic;
+  groups?: ConditionGroup[];
   definition: MetafieldDefinition;
   isEnabled: boolean;
   shop?: string;
@@ -26,7 +27,8 @@ export interface MetafieldFormData {
   name: string;
   resourceType: 'products' | 'customers';
   conditions: Condition[];
-  conditionLogic: 'AND' | 'OR';
+  conditionLogic: ConditionLogic;
+  groups: ConditionGroup[];
   definition: MetafieldDefinition;
   isEnabled: boolean;
 }
@@ -36,5 +38,6 @@ export interface MetafieldFormErrors {
   namespace?: string;
   key?: string;
   value?: string;
+  conditions?: string;
   common?: string;
 }
@@ -0,0 +1,37 @@
+// Where a backed up item stands now, compared to what the job wrote:
+// - unchanged: still has the tags the job wrote
+// - changed: edited again after the job ran
+// - unknown: older backup without the job's tags, or not a tag backup
+// - original: already has its original tags, nothing to restore
+// - deleted: no longer exists in Shopify
+// - reverted: restored by an earlier revert
+export type RevertItemStatus = 'unchanged' | 'changed' | 'unknown' | 'original' | 'deleted' | 'reverted';
+
+// all: every item that still differs, untouched: only items not edited since the job, selected: the given ids
+export type RevertMode = 'all' | 'untouched' | 'selected';
+
+export interface RevertSelection {
+  mode: RevertMode;
+  resourceIds?: string[];
+}
+
+export interface RevertPreviewItem {
+  resourceId: string;
+  title?: string;
+  status: RevertItemStatus;
+  originalTags: string[];
+  currentTags: string[] | null;
+}
+
+export interface RevertPreview {
+  jobId: string;
+  resourceType: string;
+  // Only tag backups can be compared to the resources' current state
+  canCompare: boolean;
+  total: number;
+  // Items not reverted yet
+  pending: number;
+  // Statuses of the listed items only; `reverted` covers the whole backup
+  counts: Record<RevertItemStatus, number>;
+  items: RevertPreviewItem[];
+}
@@ -0,0 +1,29 @@
+import type { BulkOperationData } from "./bulk.types";
+
+export type ScheduleFrequency = 'hourly' | 'daily' | 'weekly' | 'cron';
+
+// rules: re-run tagging/metafield rules on existing data, bulk: a saved bulk tag operation, cleaner: remove tags
+export type ScheduleTaskType = 'rules' | 'bulk' | 'cleaner';
+
+export interface Schedule {
+  _id?: string;
+  shop?: string;
+  name: string;
+  isEnabled: boolean;
+  frequency: ScheduleFrequency;
+  minute: number;
+  hour: number;
+  dayOfWeek: number; // 0 = Sunday
+  cronExpression: string;
+  taskType: ScheduleTaskType;
+  taggingRuleIds: string[];
+  metafieldRuleIds: string[];
+  bulkOperation: BulkOperationData;
+  cleanerTags: string[];
+  lastRunAt?: string;
+  lastStatus?: 'Success' | 'Failed';
+  lastMessage?: string;
+  nextRunAt?: string | null;
+}
+
+export type ScheduleFormData = Omit<Schedule, 'shop' | 'lastRunAt' | 'lastStatus' | 'lastMessage' | 'nextRunAt'>;
@@ -4,13 +4,44 @@ export interface Condition {
   value: string;
 }
 
+export type ConditionLogic = 'AND' | 'OR' | 'NOT';
+
+/**
+ * A nested block of conditions with its own logic.
+ * NOT passes only when none of its conditions or sub-groups pass.
+ */
+export interface ConditionGroup {
+  logic: ConditionLogic;
+  conditions: Condition[];
+  groups?: ConditionGroup[];
+}
+
+/**
+ * What a rule does to tags when it matches.
+ * - add: added on match, removed again when the rule stops matching
+ * - add_sticky: added on match, never auto-removed
+ * - remove: removed on match
+ */
+export type TagActionType = 'add' | 'add_sticky' | 'remove';
+
+export interface TagAction {
+  type: TagActionType;
+  tags: string[];
+}
+
+export type TaggerResourceType = 'orders' | 'customers' | 'products';
+
 export interface TaggingRule {
   _id?: string;
   name: string;
-  resourceType: 'orders' | 'customers';
+  resourceType: TaggerResourceType;
   conditions: Condition[];
-  conditionLogic: 'AND' | 'OR';
-  tags: string[];
+  conditionLogic: ConditionLogic;
+  groups?: ConditionGroup[];
+  tags: string[]; // Legacy: rules without `actions` add these tags
+  actions?: TagAction[];
+  priority?: number;
+  stopProcessing?: boolean;
   isEnabled: boolean;
   shop?: string;
   createdAt?: Date;
@@ -20,10 +51,12 @@ export interface TaggingRule {
 export interface TaggerFormData {
   _id?: string;
   name: string;
-  resourceType: 'orders' | 'customers';
+  resourceType: TaggerResourceType;
   conditions: Condition[];
-  conditionLogic: 'AND' | 'OR';
-  tags: string[];
+  conditionLogic: ConditionLogic;
+  groups: ConditionGroup[];
+  actions: TagAction[];
+  stopProcessing: boolean;
   isEnabled: boolean;
 }
 
@@ -31,6 +64,41 @@ export interface TaggerFormErrors {
   name?: string;
   resourceType?: string;
   conditions?: string;
-  tags?: string;
+  actions?: string;
   common?: string;
 }
+
+export interface ConditionResult extends Condition {
+  actual: any; // Value found on the record
+  passed: boolean;
+}
+
+export interface ConditionGroupResult {
+  logic: ConditionLogic;
+  passed: boolean;
+  conditions: ConditionResult[];
+  groups: ConditionGroupResult[];
+}
+
+/**
+ * Outcome of running a tagging or metafield rule against one existing record.
+ */
+export interface SimulationRecord {
+  id: string;
+  title: string;
+  matched: boolean;
+  evaluation: ConditionGroupResult;
+  tagsAdded: string[];
+  tagsRemoved: string[];
+  metafield?: {
+    namespace: string;
+    key: string;
+    before: string | null;
+    after: string;
+  };
+}
+
+export interface SimulationResult {
+  resourceType: TaggerResourceType;
+  records: SimulationRecord[];
+}
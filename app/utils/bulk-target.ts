@@ -0,0 +1,68 @@
+import type { BulkTarget, BulkTargetMode } from "~/types/bulk.types";
+import type { Condition, ConditionGroup, ConditionLogic } from "~/types/tagger.types";
+import { validateConditions } from "~/utils/condition-validation";
+
+const MAX_SEARCH_QUERY_LENGTH = 1000;
+
+type BulkTargetInput = {
+  targetMode?: BulkTargetMode;
+  searchQuery?: string;
+  conditions?: Condition[];
+  conditionLogic?: ConditionLogic;
+  groups?: ConditionGroup[];
+};
+
+/**
+ * Quote a value for Shopify search syntax, so tags with spaces, quotes or colons match literally.
+ * `summer sale` -> `"summer sale"`, `12" vinyl` -> `"12\" vinyl"`
+ */
+export const quoteSearchValue = (value: string): string =>
+  `"${value.replace(/(["\\])/g, "\\$1")}"`;
+
+/**
+ * AND together search queries, ignoring empty ones
+ */
+export const combineSearchQueries = (...queries: string[]): string => {
+  const parts = queries.map(query => query.trim()).filter(Boolean);
+  if (parts.length <= 1) return parts[0] || "";
+  return parts.map(query => `(${query})`).join(" AND ");
+};
+
+/**
+ * Build a BulkTarget from job data. Jobs without `targetMode` target by tag.
+ */
+export function toBulkTarget(data: BulkTargetInput): BulkTarget {
+  return {
+    mode: data.targetMode || "tags",
+    searchQuery: (data.searchQuery || "").trim(),
+    conditions: data.conditions || [],
+    conditionLogic: data.conditionLogic || "AND",
+    groups: data.groups || [],
+  };
+}
+
+/**
+ * Why a target can't be used, or null if it is fine.
+ */
+export function validateBulkTarget(target: BulkTarget): string | null {
+  if (target.mode === "query") {
+    if (!target.searchQuery) return "Enter a search query";
+    if (target.searchQuery.length > MAX_SEARCH_QUERY_LENGTH) {
+      return `Search query must be at most ${MAX_SEARCH_QUERY_LENGTH} characters`;
+    }
+  }
+  if (target.mode === "conditions") {
+    if (target.conditions.length === 0 && target.groups.length === 0) return "Add at least one condition";
+    return validateConditions(target.conditions, target.groups);
+  }
+  return null;
+}
+
+export const describeBulkTarget = (target: BulkTarget): string => {
+  if (target.mode === "query") return ` matching "${target.searchQuery}"`;
+  if (target.mode === "conditions") {
+    const count = target.conditions.length + target.groups.length;
+    return ` matching ${count} condition${count === 1 ? "" : "s"}`;
+  }
+  return "";
+};
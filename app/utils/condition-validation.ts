@@ -0,0 +1,66 @@
+import type { Condition, ConditionGroup } from "~/types/tagger.types";
+import { normalizeWeekdays } from "~/utils/date-conditions";
+
+const MAX_PATTERN_LENGTH = 200;
+
+// Nested quantifiers such as (a+)+ or (\w*)* can backtrack exponentially on webhook payloads
+const NESTED_QUANTIFIER = /\((?:[^()\\]|\\.)*[+*}](?:[^()\\]|\\.)*\)\s*[+*{]/;
+
+// Repeated alternation such as (a|a)* or (\w|\d)+ backtracks the same way when the branches overlap
+const QUANTIFIED_ALTERNATION = /\((?:[^()\\]|\\.)*\|(?:[^()\\]|\\.)*\)\s*[+*{]/;
+
+/**
+ * Why a `matches_regex` pattern can't be used, or null if it is fine.
+ */
+export function getRegexError(pattern: string): string | null {
+  if (!pattern) return "Pattern is required";
+  if (pattern.length > MAX_PATTERN_LENGTH) return `Pattern must be at most ${MAX_PATTERN_LENGTH} characters`;
+  if (NESTED_QUANTIFIER.test(pattern)) return "Nested quantifiers like (a+)+ are not allowed";
+  if (QUANTIFIED_ALTERNATION.test(pattern)) return "Repeated alternatives like (a|b)* are not allowed, use a character class like [ab]* instead";
+
+  try {
+    new RegExp(pattern, "i");
+  } catch (error) {
+    return (error as Error).message;
+  }
+  return null;
+}
+
+/**
+ * First invalid regex or day of week condition in a rule (including nested groups), or null.
+ */
+export function validateConditions(conditions: Condition[] = [], groups: ConditionGroup[] = []): string | null {
+  for (const condition of conditions) {
+    if (condition.operator === "matches_regex") {
+      const error = getRegexError(condition.value);
+      if (error) return `Invalid pattern for "${condition.field}": ${error}`;
+    }
+    if (condition.operator === "day_of_week" && !normalizeWeekdays(condition.value)) {
+      return `Invalid days for "${condition.field}": use day names like monday,saturday`;
+    }
+  }
+
+  for (const group of groups) {
+    const error = validateConditions(group.conditions, group.groups);
+    if (error) return error;
+  }
+
+  return null;
+}
+
+/**
+ * A rule's conditions (including nested groups) as they are saved: `day_of_week` values become full
+ * day names, so evaluation compares them exactly. Call after validateConditions.
+ */
+export function normalizeConditions<T extends { conditions?: Condition[]; groups?: ConditionGroup[] }>(rule: T): T {
+  const normalized = { ...rule };
+  if (rule.conditions) {
+    normalized.conditions = rule.conditions.map(condition => condition.operator === "day_of_week"
+      ? { ...condition, value: normalizeWeekdays(condition.value) ?? condition.value }
+      : condition);
+  }
+  if (rule.groups) {
+    normalized.groups = rule.groups.map(group => normalizeConditions(group));
+  }
+  return normalized;
+}
@@ -0,0 +1,122 @@
+/**
+ * Date-aware condition operators. Calendar comparisons (before/after, day of week,
+ * hour of day) use the shop's timezone, relative ones (within_last/older_than) use `now`.
+ */
+
+export const DATE_OPERATORS = ["within_last", "older_than", "before", "after", "day_of_week", "hour_of_day"];
+
+export const WEEKDAYS = ["sunday", "monday", "tuesday", "wednesday", "thursday", "friday", "saturday"];
+
+const DURATION_UNITS: Record<string, number> = {
+  minute: 60 * 1000,
+  hour: 60 * 60 * 1000,
+  day: 24 * 60 * 60 * 1000,
+  week: 7 * 24 * 60 * 60 * 1000,
+  month: 30 * 24 * 60 * 60 * 1000,
+};
+
+export interface DateContext {
+  timezone?: string; // IANA name, e.g. "America/New_York"
+  now?: Date;
+}
+
+/**
+ * "30 days", "12 hours", "2 weeks" (a bare number means days). Returns milliseconds or null.
+ */
+export function parseDuration(value: string): number | null {
+  const match = String(value).trim().toLowerCase().match(/^(\d+(?:\.\d+)?)\s*([a-z]*)$/);
+  if (!match) return null;
+
+  const unit = (match[2] || "day").replace(/s$/, "");
+  const size = DURATION_UNITS[unit];
+  return size ? parseFloat(match[1]) * size : null;
+}
+
+/**
+ * Local calendar date (YYYY-MM-DD), weekday and hour of a date in the given timezone.
+ */
+export function getZonedParts(date: Date, timezone = "UTC") {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat("en-US", {
+      timeZone: timezone,
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      weekday: "long",
+      hour: "2-digit",
+      hourCycle: "h23",
+    }).formatToParts(date).map(part => [part.type, part.value])
+  );
+
+  return {
+    date: `${parts.year}-${parts.month}-${parts.day}`,
+    weekday: parts.weekday.toLowerCase(),
+    hour: parseInt(parts.hour, 10),
+  };
+}
+
+/**
+ * Full weekday name for a day value: a name, an abbreviation of at least three letters ("sat", "tues")
+ * or an index with 0 = Sunday. Null when it doesn't name exactly one day.
+ */
+export function toWeekday(value: string): string | null {
+  const day = String(value).trim().toLowerCase();
+  if (/^[0-6]$/.test(day)) return WEEKDAYS[Number(day)];
+  if (day.length < 3) return null;
+  return WEEKDAYS.find(weekday => weekday.startsWith(day)) || null;
+}
+
+/**
+ * A `day_of_week` value as comma separated full day names, the form rules are saved in.
+ * Null when any of the days isn't recognized.
+ */
+export function normalizeWeekdays(value: string): string | null {
+  const days = String(value).split(",").map(day => day.trim()).filter(Boolean).map(toWeekday);
+  if (days.length === 0 || days.some(day => day === null)) return null;
+  return Array.from(new Set(days)).join(",");
+}
+
+function matchesHour(hour: number, target: string): boolean {
+  return String(target).split(",").some(part => {
+    const [start, end] = part.split("-").map(s => parseInt(s.trim(), 10));
+    if (isNaN(start)) return false;
+    if (end === undefined || isNaN(end)) return hour === start;
+    // "22-6" wraps around midnight
+    return start <= end ? hour >= start && hour <= end : hour >= start || hour <= end;
+  });
+}
+
+export function checkDateCondition(resourceValue: any, targetValue: any, operator: string, context: DateContext = {}): boolean {
+  if (!resourceValue) return false;
+  const date = new Date(resourceValue);
+  if (isNaN(date.getTime())) return false;
+
+  const now = context.now || new Date();
+  const timezone = context.timezone || "UTC";
+
+  switch (operator) {
+    case "within_last":
+    case "older_than": {
+      const duration = parseDuration(targetValue);
+      if (duration === null) return false;
+      const age = now.getTime() - date.getTime();
+      return operator === "within_last" ? age >= 0 && age <= duration : age > duration;
+    }
+    case "before":
+    case "after": {
+      const target = String(targetValue).trim();
+      if (!/^\d{4}-\d{2}-\d{2}$/.test(target)) return false;
+      const local = getZonedParts(date, timezone).date;
+      return operator === "before" ? local < target : local > target;
+    }
+    case "day_of_week": {
+      // Rules saved before values were normalized may still hold abbreviations
+      const days = String(targetValue).split(",").map(toWeekday);
+      return days.includes(getZonedParts(date, timezone).weekday);
+    }
+    case "hour_of_day":
+      return matchesHour(getZonedParts(date, timezone).hour, targetValue);
+    default:
+      return false;
+  }
+}
@@ -0,0 +1,23 @@
+import type { Condition, ConditionGroup } from "~/types/tagger.types";
+
+const describeCondition = (c: Condition) => `${c.field} ${c.operator} ${c.value}`;
+
+/**
+ * Human readable summary of a condition group, e.g.
+ * "(country equals CA OR country equals US) AND NOT (tags contains wholesale)"
+ */
+export const describeConditionGroup = (group: ConditionGroup, isRoot = true): string => {
+  const parts = [
+    ...(group.conditions || []).map(describeCondition),
+    ...(group.groups || []).map(subGroup => describeConditionGroup(subGroup, false)),
+  ];
+
+  if (parts.length === 0) return "";
+
+  if (group.logic === 'NOT') {
+    return `NOT (${parts.join(" OR ")})`;
+  }
+
+  const joined = parts.join(` ${group.logic || 'AND'} `);
+  return isRoot || parts.length === 1 ? joined : `(${joined})`;
+};
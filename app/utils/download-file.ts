@@ -0,0 +1,13 @@
+/**
+ * Download a file served by one of the app's resource routes. App Bridge adds the session
+ * token to `fetch`, which a plain link inside the embedded admin wouldn't carry.
+ */
+export async function downloadFile(url: string, filename: string) {
+  const response = await fetch(url);
+  const objectUrl = URL.createObjectURL(await response.blob());
+  const link = document.createElement("a");
+  link.href = objectUrl;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(objectUrl);
+}
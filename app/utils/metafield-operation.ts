@@ -0,0 +1,59 @@
+import type { MetafieldBulkOperation, MetafieldOperation } from "~/types/bulk.types";
+
+// Same rule as the Metafield Manager form
+const SHOPIFY_KEY_REGEX = /^[a-zA-Z0-9_-]{3,255}$/;
+
+type MetafieldOperationInput = Partial<MetafieldOperation>;
+
+export function toMetafieldOperation(data: MetafieldOperationInput): MetafieldOperation {
+  return {
+    operation: (data.operation || "set") as MetafieldBulkOperation,
+    namespace: (data.namespace || "").trim(),
+    key: (data.key || "").trim(),
+    valueType: data.valueType || "single_line_text_field",
+    value: data.operation === "delete" ? "" : (data.value ?? ""),
+  };
+}
+
+/**
+ * Why a metafield operation can't run, or null if it is fine.
+ */
+export function validateMetafieldOperation(op: MetafieldOperation): string | null {
+  if (!SHOPIFY_KEY_REGEX.test(op.namespace)) return "Namespace must be 3-255 chars, alphanumeric, no spaces.";
+  if (!SHOPIFY_KEY_REGEX.test(op.key)) return "Key must be 3-255 chars, alphanumeric, no spaces.";
+  if (op.operation === "delete") return null;
+
+  if (!op.value.trim()) return "Value is required";
+  if (op.valueType === "number_integer" && !/^-?\d+$/.test(op.value.trim())) return "Value must be a whole number";
+  if (op.valueType === "number_decimal" && !/^-?\d+(\.\d+)?$/.test(op.value.trim())) return "Value must be a decimal number";
+  if (op.valueType === "json") {
+    try {
+      JSON.parse(op.value);
+    } catch {
+      return "Value must be valid JSON";
+    }
+  }
+  return null;
+}
+
+/**
+ * Value the metafield ends up with (null = deleted / not set), or undefined when the item is left alone.
+ * `current` is the value fetched by the bulk query (null when the item has no such metafield).
+ */
+export function planMetafieldChange(current: string | null, op: MetafieldOperation): string | null | undefined {
+  if (op.operation === "delete") {
+    return current === null ? undefined : null;
+  }
+  if (op.operation === "update" && current === null) return undefined;
+  return current === op.value ? undefined : op.value;
+}
+
+/**
+ * Short human readable summary for activity logs
+ */
+export function describeMetafieldOperation(op: MetafieldOperation): string {
+  const field = `${op.namespace}.${op.key}`;
+  if (op.operation === "delete") return `Delete ${field}`;
+  if (op.operation === "update") return `Change existing ${field} to '${op.value}'`;
+  return `Set ${field} to '${op.value}'`;
+}
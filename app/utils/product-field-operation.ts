@@ -0,0 +1,194 @@
+import type { ProductField, ProductFieldAdjustment, ProductFieldOperation } from "~/types/bulk.types";
+
+export const VARIANT_FIELDS: ProductField[] = ["price", "compare_at_price"];
+
+const PRODUCT_STATUSES = ["ACTIVE", "DRAFT", "ARCHIVED"];
+
+const FIELD_LABELS: Record<ProductField, string> = {
+  price: "price",
+  compare_at_price: "compare-at price",
+  vendor: "vendor",
+  product_type: "product type",
+  status: "status",
+  seo_title: "SEO title",
+};
+
+// Variant price field in the bulk query result / ProductVariantsBulkInput
+const VARIANT_KEYS: Record<string, "price" | "compareAtPrice"> = {
+  price: "price",
+  compare_at_price: "compareAtPrice",
+};
+
+export const isVariantField = (field: ProductField) => VARIANT_FIELDS.includes(field);
+
+export function toProductFieldOperation(data: Partial<ProductFieldOperation>): ProductFieldOperation {
+  const field = data.field || "price";
+  return {
+    field,
+    adjustment: isVariantField(field) ? (data.adjustment || "set") : "set",
+    value: (data.value ?? "").trim(),
+  };
+}
+
+/**
+ * Why a product field operation can't run, or null if it is fine.
+ */
+export function validateProductFieldOperation(op: ProductFieldOperation): string | null {
+  if (isVariantField(op.field)) {
+    if (op.adjustment === "clear") {
+      return op.field === "price" ? "Price can't be cleared" : null;
+    }
+    if (!/^\d+(\.\d+)?$/.test(op.value)) return "Enter a positive number";
+    if (op.adjustment === "decrease_percent" && Number(op.value) > 100) return "A decrease can't be more than 100%";
+    return null;
+  }
+  if (op.field === "status") {
+    return PRODUCT_STATUSES.includes(op.value) ? null : "Status must be active, draft or archived";
+  }
+  if (op.field === "seo_title" && !op.value) return "Enter an SEO title template";
+  return null;
+}
+
+const formatMoney = (amount: number) => (Math.round(amount * 100) / 100).toFixed(2);
+
+/**
+ * New value of a price field, or undefined when the variant is left alone.
+ * Adjustments need a current value, so variants without a compare-at price are skipped.
+ */
+export function adjustPrice(current: string | null | undefined, adjustment: ProductFieldAdjustment, value: string): string | null | undefined {
+  if (adjustment === "clear") return current == null ? undefined : null;
+
+  const amount = Number(value);
+  if (adjustment === "set") return formatMoney(amount);
+  if (current == null || current === "") return undefined;
+
+  const base = Number(current);
+  const adjusted = {
+    increase_percent: base * (1 + amount / 100),
+    decrease_percent: base * (1 - amount / 100),
+    increase_amount: base + amount,
+    decrease_amount: base - amount,
+  }[adjustment];
+  return formatMoney(Math.max(0, adjusted));
+}
+
+/**
+ * Fill `{{title}}`, `{{vendor}}` and `{{product_type}}` of an SEO title template
+ */
+export function renderSeoTitle(template: string, product: any): string {
+  const values: Record<string, string> = {
+    title: product.title || "",
+    vendor: product.vendor || "",
+    product_type: product.productType || "",
+  };
+  return template
+    .replace(/\{\{\s*(\w+)\s*\}\}/g, (match, name) => name in values ? values[name] : match)
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+const getProductValue = (product: any, field: ProductField): string => {
+  if (field === "vendor") return product.vendor || "";
+  if (field === "product_type") return product.productType || "";
+  if (field === "status") return product.status || "";
+  return product.seo?.title || "";
+};
+
+export interface ProductFieldChange {
+  // productUpdate input, for product level fields
+  productInput?: Record<string, any>;
+  // productVariantsBulkUpdate variants, for price fields
+  variants?: Array<Record<string, any>>;
+  // Values to restore on revert, in the same shape
+  original: Record<string, any>;
+  before: string;
+  after: string;
+}
+
+/**
+ * The change a product gets from the operation, or null when nothing changes.
+ * `product` is a bulk query row with its variants attached (see `parseBulkJsonl`).
+ */
+export function planProductFieldChange(product: any, op: ProductFieldOperation): ProductFieldChange | null {
+  if (isVariantField(op.field)) {
+    const key = VARIANT_KEYS[op.field];
+    const variants: Array<Record<string, any>> = [];
+    const originals: Array<Record<string, any>> = [];
+
+    for (const variant of product.variants || []) {
+      const next = adjustPrice(variant[key], op.adjustment, op.value);
+      if (next === undefined || next === variant[key]) continue;
+      variants.push({ id: variant.id, [key]: next });
+      originals.push({ id: variant.id, [key]: variant[key] ?? null });
+    }
+    if (variants.length === 0) return null;
+
+    const format = (list: Array<Record<string, any>>) => list.map(variant => variant[key] ?? "none").join(", ");
+    return {
+      variants,
+      original: { variants: originals },
+      before: format(originals),
+      after: format(variants),
+    };
+  }
+
+  const before = getProductValue(product, op.field);
+  const after = op.field === "seo_title" ? renderSeoTitle(op.value, product) : op.value;
+  if (before === after) return null;
+
+  const toInput = (value: string) => {
+    if (op.field === "vendor") return { vendor: value };
+    if (op.field === "product_type") return { productType: value };
+    if (op.field === "status") return { status: value };
+    return { seo: { title: value } };
+  };
+
+  return {
+    productInput: { id: product.id, ...toInput(after) },
+    original: toInput(before),
+    before,
+    after,
+  };
+}
+
+/**
+ * Current values of the fields a backup restores, in the backup's shape, so restoring a backup can be undone.
+ * Variants deleted since the job are left out.
+ */
+export function snapshotProductFields(original: Record<string, any>, product: any): Record<string, any> {
+  if (original.variants) {
+    const current = new Map<string, any>((product.variants || []).map((variant: any) => [variant.id, variant]));
+    return {
+      variants: original.variants
+        .filter((variant: any) => current.has(variant.id))
+        .map((variant: any) => {
+          const snapshot: Record<string, any> = { id: variant.id };
+          for (const key of Object.keys(variant)) {
+            if (key !== "id") snapshot[key] = current.get(variant.id)[key] ?? null;
+          }
+          return snapshot;
+        }),
+    };
+  }
+
+  return Object.fromEntries(Object.keys(original).map(key => [
+    key,
+    key === "seo" ? { title: product.seo?.title || "" } : product[key] || "",
+  ]));
+}
+
+/**
+ * Short human readable summary for activity logs
+ */
+export function describeProductFieldOperation(op: ProductFieldOperation): string {
+  const label = FIELD_LABELS[op.field];
+  const descriptions: Record<ProductFieldAdjustment, string> = {
+    set: `Set ${label} to '${op.value}'`,
+    clear: `Clear ${label}`,
+    increase_percent: `Increase ${label} by ${op.value}%`,
+    decrease_percent: `Decrease ${label} by ${op.value}%`,
+    increase_amount: `Increase ${label} by ${op.value}`,
+    decrease_amount: `Decrease ${label} by ${op.value}`,
+  };
+  return descriptions[op.adjustment];
+}
@@ -0,0 +1,49 @@
+import vm from "node:vm";
+
+// Longest a user pattern may run on one value before it counts as no match
+export const REGEX_TIMEOUT_MS = 50;
+
+// Characters of a resource value a `matches_regex` condition looks at
+export const MAX_REGEX_INPUT = 500;
+
+const context = vm.createContext({});
+const script = new vm.Script("run()");
+
+/**
+ * Run `fn` and throw if it takes longer than `timeoutMs`. A regex can't be interrupted from the
+ * same thread, but V8 stops anything started from a vm script once its timeout passes.
+ */
+export function runWithTimeout<T>(fn: () => T, timeoutMs = REGEX_TIMEOUT_MS): T {
+  context.run = fn;
+  try {
+    return script.runInContext(context, { timeout: timeoutMs });
+  } catch (error: any) {
+    // Errors thrown by the vm come from another realm, so check the code rather than instanceof
+    if (error?.code === "ERR_SCRIPT_EXECUTION_TIMEOUT") {
+      throw new Error(`Pattern took longer than ${timeoutMs}ms`);
+    }
+    throw error;
+  } finally {
+    context.run = undefined;
+  }
+}
+
+/**
+ * Case-insensitive test of a user pattern against the first MAX_REGEX_INPUT characters of a value.
+ * Invalid patterns and patterns running out of time count as no match.
+ */
+export function testRegex(pattern: string, value: string): boolean {
+  let regex: RegExp;
+  try {
+    regex = new RegExp(pattern, "i");
+  } catch (e) {
+    return false;
+  }
+
+  try {
+    return runWithTimeout(() => regex.test(value.slice(0, MAX_REGEX_INPUT)));
+  } catch (error) {
+    console.warn(`Regex /${pattern}/ skipped: ${(error as Error).message}`);
+    return false;
+  }
+}
@@ -0,0 +1,31 @@
+import type { TagAction } from "~/types/tagger.types";
+
+/**
+ * Resolve the tag actions of a rule.
+ * Rules created before actions existed only have `tags`, which behave as a single "add" action.
+ */
+export const getRuleActions = (rule: { actions?: TagAction[]; tags?: string[] }): TagAction[] => {
+  if (rule.actions && rule.actions.length > 0) {
+    return rule.actions;
+  }
+  return [{ type: 'add', tags: rule.tags || [] }];
+};
+
+/**
+ * Tags a rule can add (add + add_sticky), used to keep the legacy `tags` field in sync
+ */
+export const getAddedTags = (actions: TagAction[]): string[] => {
+  const tags = actions
+    .filter(action => action.type !== 'remove')
+    .flatMap(action => action.tags);
+  return Array.from(new Set(tags));
+};
+
+export const describeTagAction = (action: TagAction): string => {
+  const labels: Record<TagAction['type'], string> = {
+    add: "Add",
+    add_sticky: "Add (sticky)",
+    remove: "Remove",
+  };
+  return `${labels[action.type]}: ${action.tags.join(", ")}`;
+};
@@ -5,7 +5,7 @@ import { ActivityService } from "../services/activity.service";
 // --- TAGGING RULES (SMART TAGS) ---
 
 const TAGGER_RULES = [
-  // --- SIMPLE (15) ---
+  // --- SIMPLE (18) ---
   {
     name: "High Value Order",
     resourceType: "orders",
@@ -126,6 +126,30 @@ const TAGGER_RULES = [
     tags: ["new-customer"],
     priority: 1
   },
+  {
+    name: "Low Stock",
+    resourceType: "products",
+    conditionLogic: "AND",
+    conditions: [{ field: "total_inventory", operator: "less_than", value: "5" }],
+    tags: ["low-stock"],
+    priority: 1
+  },
+  {
+    name: "On Sale",
+    resourceType: "products",
+    conditionLogic: "AND",
+    conditions: [{ field: "on_sale", operator: "equals", value: "true" }],
+    tags: ["on-sale"],
+    priority: 1
+  },
+  {
+    name: "Missing Image",
+    resourceType: "products",
+    conditionLogic: "AND",
+    conditions: [{ field: "image_count", operator: "equals", value: "0" }],
+    tags: ["no-image"],
+    priority: 1
+  },
 
   // --- MEDIUM (10) ---
   {
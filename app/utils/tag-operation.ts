@@ -0,0 +1,179 @@
+import type { BulkOperationData, BulkPreview, TagMatchMode, TagOperation } from "~/types/bulk.types";
+import { quoteSearchValue } from "~/utils/bulk-target";
+import { getRegexError } from "~/utils/condition-validation";
+
+type TagOperationInput = Partial<Omit<BulkOperationData, 'addTags'>> & {
+  findTags?: string[];
+  addTags?: string | string[];
+};
+
+const escapeRegex = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+/**
+ * Split a comma separated tag list (Shopify tags can't contain commas), dropping blanks and duplicates.
+ */
+export const parseTagList = (value?: string | string[] | null): string[] => {
+  const tags = (Array.isArray(value) ? value : (value || "").split(","))
+    .map(tag => tag.trim())
+    .filter(Boolean);
+  return uniqueTags(tags);
+};
+
+const uniqueTags = (tags: string[]): string[] => {
+  const seen = new Set<string>();
+  return tags.filter(tag => {
+    const key = tag.toLowerCase();
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+};
+
+/**
+ * Build a TagOperation from form fields or job data.
+ * Jobs queued before multi-tag support (and saved schedules) only have `findTag`/`replaceTag`,
+ * where an "add" operation adds `replaceTag` to items tagged `findTag`.
+ */
+export function toTagOperation(data: TagOperationInput): TagOperation {
+  const operation = data.operation || "replace";
+  const matchMode: TagMatchMode = data.matchMode || "exact";
+
+  // A regex may legitimately contain commas, so it is always a single pattern
+  const findTags = data.findTags?.length
+    ? parseTagList(data.findTags)
+    : matchMode === "regex"
+      ? [data.findTag?.trim() || ""].filter(Boolean)
+      : parseTagList(data.findTag);
+
+  const addTags = operation === "add"
+    ? parseTagList(data.addTags && data.addTags.length ? data.addTags : data.replaceTag)
+    : [];
+
+  return {
+    operation,
+    matchMode,
+    findTags,
+    replaceTag: operation === "replace" ? (data.replaceTag || "").trim() : "",
+    addTags,
+  };
+}
+
+/**
+ * Why a tag operation can't run, or null if it is fine.
+ */
+export function validateTagOperation(op: TagOperation): string | null {
+  if (op.operation !== "add" && op.findTags.length === 0) return "Enter at least one tag to find";
+  if (op.operation === "replace" && !op.replaceTag) return "Enter the replacement tag";
+  if (op.operation === "add" && op.addTags.length === 0) return "Enter at least one tag to add";
+
+  if (op.matchMode === "regex") {
+    for (const pattern of op.findTags) {
+      const error = getRegexError(pattern);
+      if (error) return `Invalid pattern "${pattern}": ${error}`;
+    }
+  }
+  return null;
+}
+
+const toMatcher = (pattern: string, matchMode: TagMatchMode): RegExp => {
+  if (matchMode === "regex") return new RegExp(pattern, "i");
+  if (matchMode === "wildcard") {
+    return new RegExp(`^${pattern.split("*").map(escapeRegex).join("(.*)")}$`, "i");
+  }
+  return new RegExp(`^${escapeRegex(pattern)}$`, "i");
+};
+
+/**
+ * Turn each `*` of a wildcard replacement into the capture of the matching `*` in the find pattern.
+ * "archive-summer-2024-*" -> "archive-summer-2024-$1"
+ */
+const toWildcardReplacement = (replacement: string): string => {
+  let group = 0;
+  return replacement
+    .replace(/\$/g, "$$$$")
+    .replace(/\*/g, () => `$${++group}`);
+};
+
+/**
+ * Shopify search query narrowing the items an operation can touch, or "" to scan every item.
+ * Wildcard and regex patterns can't be expressed in search syntax, so those are filtered after the query.
+ */
+export function buildTagSearchQuery(op: TagOperation): string {
+  if (op.matchMode !== "exact" || op.findTags.length === 0) return "";
+  return op.findTags.map(tag => `tag:${quoteSearchValue(tag)}`).join(" OR ");
+}
+
+/**
+ * The tags an item ends up with after the operation (duplicates collapsed case-insensitively).
+ */
+export function applyTagOperation(tags: string[], op: TagOperation): string[] {
+  const matchers = op.findTags.map(pattern => toMatcher(pattern, op.matchMode));
+  const findMatcher = (tag: string) => matchers.find(matcher => matcher.test(tag));
+
+  if (op.operation === "add") {
+    if (matchers.length > 0 && !tags.some(findMatcher)) return tags;
+    return uniqueTags([...tags, ...op.addTags]);
+  }
+
+  if (op.operation === "remove") {
+    return tags.filter(tag => !findMatcher(tag));
+  }
+
+  // Replacements go after the untouched tags, as the single-tag replace always did
+  const replacement = op.matchMode === "wildcard" ? toWildcardReplacement(op.replaceTag) : op.replaceTag;
+  const kept: string[] = [];
+  const replaced: string[] = [];
+  for (const tag of tags) {
+    const matcher = findMatcher(tag);
+    if (!matcher) {
+      kept.push(tag);
+    } else {
+      replaced.push(op.matchMode === "exact" ? op.replaceTag : tag.replace(matcher, replacement).trim());
+    }
+  }
+  return uniqueTags([...kept, ...replaced.filter(Boolean)]);
+}
+
+export const hasTagChanges = (before: string[], after: string[]): boolean =>
+  before.length !== after.length || before.some((tag, index) => tag !== after[index]);
+
+/**
+ * Same tags ignoring order and case, since Shopify doesn't keep either
+ */
+export const isSameTagSet = (a: string[], b: string[]): boolean => {
+  const normalize = (tags: string[]) => Array.from(new Set(tags.map(tag => tag.trim().toLowerCase()))).sort().join("\n");
+  return normalize(a) === normalize(b);
+};
+
+/**
+ * Whether a resource has a tag, ignoring case and surrounding spaces as Shopify does
+ */
+export const createTagLookup = (tags?: string | string[] | null): ((tag: string) => boolean) => {
+  const lookup = new Set(parseTagList(tags).map(tag => tag.toLowerCase()));
+  return (tag: string) => lookup.has(tag.trim().toLowerCase());
+};
+
+/**
+ * Tags an operation writes. Wildcard and regex replacements depend on each item,
+ * so only the ones seen in the preview are known.
+ */
+export function getTagsToWrite(op: TagOperation, preview: BulkPreview[] = []): string[] {
+  if (op.operation === "remove") return [];
+  if (op.operation === "add") return op.addTags;
+  if (op.matchMode === "exact") return op.replaceTag ? [op.replaceTag] : [];
+  return uniqueTags(preview.flatMap(item => item.after.filter(tag => !item.before.includes(tag))));
+}
+
+/**
+ * Short human readable summary for activity logs
+ */
+export function describeTagOperation(op: TagOperation): string {
+  const find = op.findTags.map(tag => `'${tag}'`).join(", ");
+  const mode = op.matchMode === "exact" ? "" : ` (${op.matchMode})`;
+  if (op.operation === "add") {
+    const target = find ? `items tagged ${find}${mode}` : "all items";
+    return `Add ${op.addTags.map(tag => `'${tag}'`).join(", ")} to ${target}`;
+  }
+  if (op.operation === "remove") return `Remove ${find}${mode}`;
+  return `Replace ${find}${mode} with '${op.replaceTag}'`;
+}
@@ -0,0 +1,107 @@
+import type { TagCasing, TagCharacterSet, TagPolicyRule, TagPolicyRules, TagPolicyViolation } from "~/types/cleaner.types";
+import { parseTagList } from "~/utils/tag-operation";
+
+// Same checks the Data Cleaner always ran: Latin letters (accents allowed), at most 30 characters
+export const DEFAULT_TAG_POLICY: TagPolicyRules = {
+  characterSet: "latin",
+  maxLength: 30,
+  casing: "any",
+  forbiddenPrefixes: [],
+  allowList: [],
+};
+
+export const TAG_POLICY_RULE_LABELS: Record<TagPolicyRule, string> = {
+  characters: "Special characters",
+  length: "Too long",
+  casing: "Wrong casing",
+  prefix: "Forbidden prefix",
+};
+
+const CHARACTER_SETS: TagCharacterSet[] = ["any", "letters", "latin", "ascii"];
+const CASINGS: TagCasing[] = ["any", "lower", "kebab", "title"];
+
+// Characters outside each set
+const DISALLOWED_CHARACTERS: Record<Exclude<TagCharacterSet, "any">, RegExp> = {
+  letters: /[^\p{L}\p{M}\p{N}\s\-_]/gu,
+  latin: /[^\p{Script=Latin}\p{M}\p{N}\s\-_]/gu,
+  ascii: /[^a-zA-Z0-9\s\-_]/g,
+};
+
+/**
+ * Policy from form input or a saved document, falling back to the defaults for missing fields
+ */
+export function toTagPolicy(data: any): TagPolicyRules {
+  const maxLength = data?.maxLength === null || data?.maxLength === "" ? null : Number(data?.maxLength);
+  return {
+    characterSet: CHARACTER_SETS.includes(data?.characterSet) ? data.characterSet : DEFAULT_TAG_POLICY.characterSet,
+    maxLength: maxLength === null ? null : Number.isInteger(maxLength) && maxLength > 0 ? maxLength : DEFAULT_TAG_POLICY.maxLength,
+    casing: CASINGS.includes(data?.casing) ? data.casing : DEFAULT_TAG_POLICY.casing,
+    forbiddenPrefixes: parseTagList(data?.forbiddenPrefixes),
+    allowList: parseTagList(data?.allowList),
+  };
+}
+
+const applyCasing = (tag: string, casing: TagCasing): string => {
+  if (casing === "lower") return tag.toLowerCase();
+  if (casing === "kebab") {
+    return tag.toLowerCase().replace(/[\s_]+/g, "-").replace(/-+/g, "-").replace(/^-|-$/g, "");
+  }
+  if (casing === "title") {
+    return tag.split(" ").map(word => word.charAt(0).toUpperCase() + word.slice(1).toLowerCase()).join(" ");
+  }
+  return tag;
+};
+
+const hasDisallowedCharacters = (tag: string, characterSet: TagCharacterSet) => {
+  if (characterSet === "any") return false;
+  const pattern = DISALLOWED_CHARACTERS[characterSet];
+  pattern.lastIndex = 0;
+  return pattern.test(tag);
+};
+
+/**
+ * Rules a tag breaks, empty when it meets the policy or is on the allow list
+ */
+export function checkTag(tag: string, policy: TagPolicyRules): TagPolicyRule[] {
+  if (policy.allowList.some(allowed => allowed.toLowerCase() === tag.toLowerCase())) return [];
+
+  const rules: TagPolicyRule[] = [];
+  if (hasDisallowedCharacters(tag, policy.characterSet)) rules.push("characters");
+  if (policy.maxLength && tag.length > policy.maxLength) rules.push("length");
+  if (policy.casing !== "any" && applyCasing(tag, policy.casing) !== tag) rules.push("casing");
+  if (policy.forbiddenPrefixes.some(prefix => tag.toLowerCase().startsWith(prefix.toLowerCase()))) rules.push("prefix");
+  return rules;
+}
+
+/**
+ * Closest spelling of a tag that meets the policy: special characters dropped, casing applied,
+ * cut to the maximum length. Undefined when the tag can't be fixed this way (e.g. a forbidden prefix).
+ */
+export function normalizeTagToPolicy(tag: string, policy: TagPolicyRules): string | undefined {
+  let normalized = tag.trim();
+  if (policy.characterSet === "ascii") {
+    normalized = normalized.normalize("NFD").replace(/\p{M}/gu, "").replace(/đ/g, "d").replace(/Đ/g, "D");
+  }
+  if (policy.characterSet !== "any") {
+    normalized = normalized.replace(/['’"`]/g, "").replace(DISALLOWED_CHARACTERS[policy.characterSet], " ");
+  }
+  normalized = applyCasing(normalized.replace(/\s+/g, " ").trim(), policy.casing);
+  if (policy.maxLength) {
+    normalized = normalized.slice(0, policy.maxLength).replace(/[\s\-_]+$/, "");
+  }
+
+  if (!normalized || normalized === tag || checkTag(normalized, policy).length > 0) return undefined;
+  return normalized;
+}
+
+/**
+ * Tags breaking the policy, with a compliant spelling when one exists
+ */
+export function findPolicyViolations(tags: string[], policy: TagPolicyRules): TagPolicyViolation[] {
+  return tags.flatMap(tag => {
+    const rules = checkTag(tag, policy);
+    if (rules.length === 0) return [];
+    const suggestion = normalizeTagToPolicy(tag, policy);
+    return [suggestion ? { tag, rules, suggestion } : { tag, rules }];
+  });
+}
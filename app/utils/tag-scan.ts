@@ -0,0 +1,26 @@
+import type { TagMerge } from "~/types/cleaner.types";
+
+/**
+ * Merges from form input: a canonical tag and the variants rewritten to it, skipping empty groups
+ */
+export function toTagMerges(raw: any): TagMerge[] {
+  if (!Array.isArray(raw)) return [];
+  return raw
+    .map(merge => {
+      const canonical = String(merge?.canonical || "").trim();
+      const variants = Array.isArray(merge?.variants)
+        ? [...new Set<string>(merge.variants.map(String))].filter(variant => variant !== canonical)
+        : [];
+      return { canonical, variants };
+    })
+    .filter(merge => merge.canonical && merge.variants.length > 0);
+}
+
+/**
+ * Tags of an item after replacing every merged variant with its canonical tag
+ */
+export function mergeTags(tags: string[], merges: TagMerge[]): string[] {
+  const canonicalOf = new Map<string, string>();
+  merges.forEach(merge => merge.variants.forEach(variant => canonicalOf.set(variant, merge.canonical)));
+  return [...new Set(tags.map(tag => canonicalOf.get(tag) || tag))];
+}
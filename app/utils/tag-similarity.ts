@@ -0,0 +1,160 @@
+import type { TagSimilarityGroup } from "~/types/cleaner.types";
+
+// Tags whose keys differ only by casing and spacing are certain duplicates
+const EXACT_CONFIDENCE = 1;
+// Same key once separators, accents and plurals are ignored ('free-shipping' vs 'Free Shipping', 'cafe' vs 'café')
+const NORMALIZED_CONFIDENCE = 0.9;
+// Typo matches below this are too likely to be different tags ('size-s' vs 'size-m')
+const MIN_CONFIDENCE = 0.75;
+// Shorter keys are too easy to confuse ('red' vs 'bed')
+const MIN_FUZZY_LENGTH = 5;
+// Typo matching compares every pair, so only the most used tags take part
+const MAX_FUZZY_KEYS = 5000;
+
+const SEPARATOR_PATTERN = /[\s\-_./]+/;
+
+const stripDiacritics = (value: string) =>
+  value.normalize("NFD").replace(/[\u0300-\u036f]/g, "").replace(/đ/g, "d").replace(/Đ/g, "D");
+
+// 'boxes' → 'box', 'berries' → 'berry', 'shirts' → 'shirt'; short words and 'ss' endings are kept
+const singularize = (word: string) => {
+  if (word.length <= 3 || word.endsWith("ss")) return word;
+  if (word.endsWith("ies")) return `${word.slice(0, -3)}y`;
+  if (/(x|z|ch|sh|ss)es$/.test(word)) return word.slice(0, -2);
+  if (word.endsWith("s")) return word.slice(0, -1);
+  return word;
+};
+
+// Casing and spacing only: 'Sale ' and 'sale'
+const toLooseKey = (tag: string) => tag.trim().toLowerCase().replace(/\s+/g, " ");
+
+/**
+ * Comparison key of a tag: lowercase, without accents, separators or plural endings.
+ * 'Free-Shipping', 'free shipping' and 'freeshipping' share the key 'freeshipping'.
+ */
+export function normalizeTag(tag: string): string {
+  return stripDiacritics(tag.trim().toLowerCase())
+    .split(SEPARATOR_PATTERN)
+    .filter(Boolean)
+    .map(singularize)
+    .join("");
+}
+
+/**
+ * Edits (insert, delete, substitute, swap neighbours) turning one key into the other,
+ * or `maxDistance + 1` once it's known to be larger
+ */
+export function tagDistance(a: string, b: string, maxDistance: number): number {
+  if (Math.abs(a.length - b.length) > maxDistance) return maxDistance + 1;
+
+  let previous2: number[] = [];
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let value = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, previous2[j - 2] + 1);
+      }
+      current.push(value);
+      rowMin = Math.min(rowMin, value);
+    }
+    if (rowMin > maxDistance) return maxDistance + 1;
+    previous2 = previous;
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+// Longer keys tolerate more typos
+const maxDistanceFor = (length: number) => (length >= 9 ? 2 : 1);
+
+const digitsOf = (key: string) => key.replace(/\D/g, "");
+
+/**
+ * Confidence that two comparison keys are the same tag with a typo, 0 when they aren't.
+ * Keys with different numbers ('sale2023' vs 'sale2024') never match.
+ */
+function fuzzyConfidence(a: string, b: string): number {
+  const length = Math.max(a.length, b.length);
+  if (Math.min(a.length, b.length) < MIN_FUZZY_LENGTH || digitsOf(a) !== digitsOf(b)) return 0;
+
+  const maxDistance = maxDistanceFor(length);
+  const distance = tagDistance(a, b, maxDistance);
+  if (distance > maxDistance) return 0;
+
+  const confidence = NORMALIZED_CONFIDENCE * (1 - distance / length);
+  return confidence >= MIN_CONFIDENCE ? confidence : 0;
+}
+
+/**
+ * Groups of tags that are probably the same tag, each with the confidence of its weakest match.
+ * `uniqueTags` should be ordered by usage: tags keep that order within a group, and typo matching
+ * only looks at the most used ones. Groups are returned most confident first.
+ */
+export function findSimilarTagGroups(uniqueTags: string[]): TagSimilarityGroup[] {
+  // Tags sharing a comparison key
+  const byKey = new Map<string, string[]>();
+  uniqueTags.forEach(tag => {
+    const key = normalizeTag(tag);
+    if (!key) return;
+    byKey.set(key, [...(byKey.get(key) || []), tag]);
+  });
+
+  const keys = [...byKey.keys()];
+  const parent = keys.map((_, index) => index);
+  const find = (index: number): number => {
+    while (parent[index] !== index) {
+      parent[index] = parent[parent[index]];
+      index = parent[index];
+    }
+    return index;
+  };
+
+  // Confidence of each key's own spellings, then lowered by the typo matches joining keys
+  const confidence = keys.map((key): number => {
+    const tags = byKey.get(key) || [];
+    return new Set(tags.map(toLooseKey)).size === 1 ? EXACT_CONFIDENCE : NORMALIZED_CONFIDENCE;
+  });
+
+  // Compare keys of similar length only, shortest first
+  const candidates = keys
+    .map((key, index) => ({ key, index }))
+    .slice(0, MAX_FUZZY_KEYS)
+    .filter(({ key }) => key.length >= MIN_FUZZY_LENGTH)
+    .sort((a, b) => a.key.length - b.key.length);
+
+  for (let i = 0; i < candidates.length; i++) {
+    for (let j = i + 1; j < candidates.length; j++) {
+      const a = candidates[i];
+      const b = candidates[j];
+      if (b.key.length - a.key.length > maxDistanceFor(b.key.length)) break;
+
+      const match = fuzzyConfidence(a.key, b.key);
+      if (!match) continue;
+
+      const rootA = find(a.index);
+      const rootB = find(b.index);
+      const joined = Math.min(confidence[rootA], confidence[rootB], match);
+      parent[rootB] = rootA;
+      confidence[rootA] = joined;
+    }
+  }
+
+  const groups = new Map<number, string[]>();
+  keys.forEach((key, index) => {
+    const root = find(index);
+    groups.set(root, [...(groups.get(root) || []), ...(byKey.get(key) || [])]);
+  });
+
+  const order = new Map(uniqueTags.map((tag, index) => [tag, index]));
+  return [...groups.entries()]
+    .filter(([, tags]) => tags.length > 1)
+    .map(([root, tags]) => ({
+      tags: tags.sort((a, b) => (order.get(a) || 0) - (order.get(b) || 0)),
+      confidence: Math.round(confidence[root] * 100) / 100,
+    }))
+    .sort((a, b) => b.confidence - a.confidence || b.tags.length - a.tags.length);
+}
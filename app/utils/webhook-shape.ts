@@ -0,0 +1,216 @@
+import type { TaggerResourceType } from "~/types/tagger.types";
+
+/**
+ * Rules are written against webhook (REST) payload fields, e.g. `total_price` or
+ * `variants.sku`. Records fetched through the Admin GraphQL API are converted to
+ * that shape so `TaggerService.checkConditions` evaluates them the same way.
+ */
+
+const RESOURCE_FIELDS: Record<TaggerResourceType, string> = {
+  products: `
+    id
+    title
+    handle
+    productType
+    vendor
+    status
+    tags
+    createdAt
+    updatedAt
+    mediaCount { count }
+    variants(first: 100) {
+      edges {
+        node {
+          id
+          price
+          compareAtPrice
+          sku
+          inventoryQuantity
+        }
+      }
+    }`,
+  customers: `
+    id
+    email
+    state
+    verifiedEmail
+    tags
+    createdAt
+    updatedAt
+    numberOfOrders
+    amountSpent { amount }
+    emailMarketingConsent { marketingState }
+    displayName
+    lastOrder { processedAt }
+    defaultAddress { city countryCodeV2 provinceCode zip }`,
+  orders: `
+    id
+    name
+    email
+    tags
+    createdAt
+    updatedAt
+    processedAt
+    currencyCode
+    sourceName
+    totalWeight
+    discountCodes
+    paymentGatewayNames
+    displayFinancialStatus
+    displayFulfillmentStatus
+    totalPriceSet { shopMoney { amount } }
+    subtotalPriceSet { shopMoney { amount } }
+    shippingLine { title }
+    shippingAddress { city countryCodeV2 provinceCode zip }
+    customer { numberOfOrders lastOrder { processedAt } }
+    lineItems(first: 100) {
+      edges {
+        node {
+          id
+          sku
+          vendor
+          name
+          title
+          quantity
+        }
+      }
+    }`,
+};
+
+// Child rows of a bulk query JSONL, keyed by GID type
+const CHILD_CONNECTIONS: Record<string, string> = {
+  ProductVariant: "variants",
+  LineItem: "lineItems",
+};
+
+/**
+ * GraphQL selection for a resource, optionally with extra fields (e.g. a metafield).
+ */
+export function getResourceFields(resourceType: TaggerResourceType, extraFields = ""): string {
+  return `${RESOURCE_FIELDS[resourceType]}
+    ${extraFields}`;
+}
+
+/**
+ * Rebuild parent records from a bulk query JSONL file.
+ * Nested connection rows come after their parent with a `__parentId`.
+ */
+export function parseBulkJsonl(jsonlText: string): any[] {
+  const parents = new Map<string, any>();
+
+  for (const line of jsonlText.split("\n")) {
+    if (line.trim() === "") continue;
+    const row = JSON.parse(line);
+
+    if (row.__parentId) {
+      const parent = parents.get(row.__parentId);
+      const key = CHILD_CONNECTIONS[getGidType(row.id)];
+      if (parent && key) {
+        parent[key] = [...(parent[key] || []), row];
+      }
+      continue;
+    }
+
+    parents.set(row.id, row);
+  }
+
+  return Array.from(parents.values());
+}
+
+/**
+ * Convert a GraphQL node (regular or bulk) into the webhook payload shape.
+ */
+export function toWebhookShape(resourceType: TaggerResourceType, node: any): any {
+  const base = {
+    id: getLegacyId(node.id),
+    admin_graphql_api_id: node.id,
+    email: node.email,
+    tags: (node.tags || []).join(", "),
+    created_at: node.createdAt,
+    updated_at: node.updatedAt,
+  };
+
+  if (resourceType === "products") {
+    return {
+      ...base,
+      title: node.title,
+      handle: node.handle,
+      product_type: node.productType,
+      vendor: node.vendor,
+      status: node.status?.toLowerCase(),
+      images: Array.from({ length: node.mediaCount?.count || 0 }, () => ({})),
+      variants: connectionNodes(node.variants).map((variant: any) => ({
+        id: getLegacyId(variant.id),
+        price: variant.price,
+        compare_at_price: variant.compareAtPrice,
+        sku: variant.sku,
+        inventory_quantity: variant.inventoryQuantity,
+      })),
+    };
+  }
+
+  if (resourceType === "customers") {
+    return {
+      ...base,
+      state: node.state?.toLowerCase(),
+      verified_email: node.verifiedEmail,
+      orders_count: Number(node.numberOfOrders || 0),
+      last_order_date: node.lastOrder?.processedAt,
+      total_spent: node.amountSpent?.amount,
+      accepts_marketing: node.emailMarketingConsent?.marketingState === "SUBSCRIBED",
+      default_address: node.defaultAddress && toAddress(node.defaultAddress),
+    };
+  }
+
+  return {
+    ...base,
+    name: node.name,
+    processed_at: node.processedAt,
+    currency: node.currencyCode,
+    source_name: node.sourceName,
+    total_weight: node.totalWeight,
+    total_price: node.totalPriceSet?.shopMoney?.amount,
+    subtotal_price: node.subtotalPriceSet?.shopMoney?.amount,
+    financial_status: node.displayFinancialStatus?.toLowerCase(),
+    fulfillment_status: node.displayFulfillmentStatus?.toLowerCase(),
+    gateway: node.paymentGatewayNames?.[0],
+    discount_codes: (node.discountCodes || []).map((code: string) => ({ code })),
+    shipping_lines: node.shippingLine ? [{ title: node.shippingLine.title }] : [],
+    shipping_address: node.shippingAddress && toAddress(node.shippingAddress),
+    customer: node.customer && {
+      orders_count: Number(node.customer.numberOfOrders || 0),
+      last_order_date: node.customer.lastOrder?.processedAt,
+    },
+    line_items: connectionNodes(node.lineItems).map((item: any) => ({
+      id: getLegacyId(item.id),
+      sku: item.sku,
+      vendor: item.vendor,
+      name: item.name,
+      title: item.title,
+      quantity: item.quantity,
+    })),
+  };
+}
+
+function toAddress(address: any) {
+  return {
+    city: address.city,
+    country_code: address.countryCodeV2,
+    province_code: address.provinceCode,
+    zip: address.zip,
+  };
+}
+
+// Nested connections arrive as `{ edges: [{ node }] }` from regular queries, or as arrays from `parseBulkJsonl`
+function connectionNodes(connection: any): any[] {
+  if (Array.isArray(connection)) return connection;
+  return connection?.edges?.map((edge: any) => edge.node) || [];
+}
+
+function getGidType(gid: string): string {
+  return gid?.split("/")[3] || "";
+}
+
+function getLegacyId(gid: string): string {
+  return gid?.split("/").pop() || "";
+}
@@ -1,6 +1,11 @@
-import { describe, it, expect } from "vitest";
+import { describe, it, expect, vi } from "vitest";
 import { TaggerService } from "~/services/tagger.service";
 
+// shopify.server needs the app's environment variables at import time
+vi.mock("~/shopify.server", () => ({
+    unauthenticated: { admin: vi.fn() }
+}));
+
 describe("TaggerService.checkConditions", () => {
     it("should return true when conditions are empty", () => {
         expect(TaggerService.checkConditions({}, [])).toBe(true);
@@ -67,6 +72,127 @@ describe("TaggerService.checkConditions", () => {
         });
     });
 
+    describe("Operator: not_contains", () => {
+        it("should match when no value contains the text", () => {
+            const conditions = [{ field: "line_items.sku", operator: "not_contains", value: "gift" }];
+            expect(TaggerService.checkConditions({ line_items: [{ sku: "SHIRT-1" }, { sku: "HAT-2" }] }, conditions)).toBe(true);
+            expect(TaggerService.checkConditions({ line_items: [{ sku: "SHIRT-1" }, { sku: "GIFT-CARD" }] }, conditions)).toBe(false);
+            expect(TaggerService.checkConditions({ tags: "wholesale, vip" }, [{ field: "tags", operator: "not_contains", value: "vip" }])).toBe(false);
+        });
+    });
+
+    describe("Range Operators", () => {
+        it("should include the boundary for greater_or_equal and less_or_equal", () => {
+            const atLeast = [{ field: "total_price", operator: "greater_or_equal", value: "100" }];
+            const atMost = [{ field: "total_price", operator: "less_or_equal", value: "100" }];
+            expect(TaggerService.checkConditions({ total_price: "100.00" }, atLeast)).toBe(true);
+            expect(TaggerService.checkConditions({ total_price: "99.99" }, atLeast)).toBe(false);
+            expect(TaggerService.checkConditions({ total_price: "100.00" }, atMost)).toBe(true);
+            expect(TaggerService.checkConditions({ total_price: "100.01" }, atMost)).toBe(false);
+        });
+
+        it("should match between inclusively and reject malformed ranges", () => {
+            const conditions = [{ field: "total_price", operator: "between", value: "50, 100" }];
+            expect(TaggerService.checkConditions({ total_price: "50" }, conditions)).toBe(true);
+            expect(TaggerService.checkConditions({ total_price: "100" }, conditions)).toBe(true);
+            expect(TaggerService.checkConditions({ total_price: "100.5" }, conditions)).toBe(false);
+            expect(TaggerService.checkConditions({ total_price: "75" }, [{ field: "total_price", operator: "between", value: "50" }])).toBe(false);
+        });
+    });
+
+    describe("Operator: matches_regex", () => {
+        it("should match case-insensitively", () => {
+            const conditions = [{ field: "email", operator: "matches_regex", value: "@(acme|globex)\\.com$" }];
+            expect(TaggerService.checkConditions({ email: "buyer@ACME.com" }, conditions)).toBe(true);
+            expect(TaggerService.checkConditions({ email: "buyer@acme.co" }, conditions)).toBe(false);
+        });
+
+        it("should not match with an invalid pattern", () => {
+            const conditions = [{ field: "email", operator: "matches_regex", value: "([a-z" }];
+            expect(TaggerService.checkConditions({ email: "a@b.com" }, conditions)).toBe(false);
+        });
+
+        it("should give up on a catastrophic pattern instead of blocking", () => {
+            // Saved before validation rejected repeated alternation
+            const conditions = [{ field: "note", operator: "matches_regex", value: "^(a|a)*$" }];
+            const startedAt = Date.now();
+            expect(TaggerService.checkConditions({ note: `${"a".repeat(40)}b` }, conditions)).toBe(false);
+            expect(Date.now() - startedAt).toBeLessThan(1000);
+        });
+    });
+
+    describe("List Operators", () => {
+        const order = {
+            line_items: [
+                { vendor: "Nike", quantity: 2 },
+                { vendor: "Adidas", quantity: 3 }
+            ]
+        };
+
+        it("should require every item to be in the list for all_in", () => {
+            expect(TaggerService.checkConditions(order, [{ field: "line_items.vendor", operator: "all_in", value: "nike, adidas" }])).toBe(true);
+            expect(TaggerService.checkConditions(order, [{ field: "line_items.vendor", operator: "all_in", value: "Nike" }])).toBe(false);
+            expect(TaggerService.checkConditions({ line_items: [] }, [{ field: "line_items.vendor", operator: "all_in", value: "Nike" }])).toBe(false);
+        });
+
+        it("should count items", () => {
+            expect(TaggerService.checkConditions(order, [{ field: "line_items", operator: "count_greater_than", value: "1" }])).toBe(true);
+            expect(TaggerService.checkConditions(order, [{ field: "line_items", operator: "count_less_than", value: "2" }])).toBe(false);
+        });
+
+        it("should sum item values", () => {
+            expect(TaggerService.checkConditions(order, [{ field: "line_items.quantity", operator: "sum_greater_than", value: "4" }])).toBe(true);
+            expect(TaggerService.checkConditions(order, [{ field: "line_items.quantity", operator: "sum_less_than", value: "5" }])).toBe(false);
+        });
+    });
+
+    describe("Date Operators", () => {
+        const now = new Date("2025-06-15T12:00:00Z"); // Sunday
+        const context = { timezone: "America/New_York", now };
+
+        it("should compare relative durations with within_last and older_than", () => {
+            const recent = [{ field: "created_at", operator: "within_last", value: "30 days" }];
+            const stale = [{ field: "customer.last_order_date", operator: "older_than", value: "90 days" }];
+
+            expect(TaggerService.checkConditions({ created_at: "2025-06-01T00:00:00Z" }, recent, "AND", [], context)).toBe(true);
+            expect(TaggerService.checkConditions({ created_at: "2025-04-01T00:00:00Z" }, recent, "AND", [], context)).toBe(false);
+            expect(TaggerService.checkConditions({ customer: { last_order_date: "2025-01-01T00:00:00Z" } }, stale, "AND", [], context)).toBe(true);
+            expect(TaggerService.checkConditions({ customer: { last_order_date: "" } }, stale, "AND", [], context)).toBe(false);
+        });
+
+        it("should compare calendar dates in the shop timezone", () => {
+            // 02:00 UTC on the 10th is still the 9th in New York
+            const resource = { processed_at: "2025-06-10T02:00:00Z" };
+            const before = [{ field: "processed_at", operator: "before", value: "2025-06-10" }];
+            const after = [{ field: "processed_at", operator: "after", value: "2025-06-09" }];
+
+            expect(TaggerService.checkConditions(resource, before, "AND", [], context)).toBe(true);
+            expect(TaggerService.checkConditions(resource, after, "AND", [], context)).toBe(false);
+            expect(TaggerService.checkConditions(resource, after)).toBe(true); // UTC
+        });
+
+        it("should match day_of_week and hour_of_day in the shop timezone", () => {
+            // Saturday 23:30 in New York, already Sunday in UTC
+            const resource = { created_at: "2025-06-15T03:30:00Z" };
+            const weekend = [{ field: "created_at", operator: "day_of_week", value: "saturday,sunday" }];
+            const saturday = [{ field: "created_at", operator: "day_of_week", value: "sat" }];
+            const lateNight = [{ field: "created_at", operator: "hour_of_day", value: "22-6" }];
+
+            expect(TaggerService.checkConditions(resource, weekend, "AND", [], context)).toBe(true);
+            expect(TaggerService.checkConditions(resource, saturday, "AND", [], context)).toBe(true);
+            expect(TaggerService.checkConditions(resource, saturday)).toBe(false);
+            // A single letter could be two days, so it matches none
+            expect(TaggerService.checkConditions(resource, [{ field: "created_at", operator: "day_of_week", value: "s" }], "AND", [], context)).toBe(false);
+            expect(TaggerService.checkConditions(resource, lateNight, "AND", [], context)).toBe(true);
+        });
+
+        it("should not match invalid dates or values", () => {
+            const conditions = [{ field: "created_at", operator: "within_last", value: "soon" }];
+            expect(TaggerService.checkConditions({ created_at: "2025-06-14T00:00:00Z" }, conditions, "AND", [], context)).toBe(false);
+            expect(TaggerService.checkConditions({ created_at: "not a date" }, [{ field: "created_at", operator: "after", value: "2020-01-01" }])).toBe(false);
+        });
+    });
+
     describe("Nested Fields", () => {
         it("should resolve nested properties", () => {
             const conditions = [{ field: "address.city", operator: "equals", value: "New York" }];
@@ -91,4 +217,63 @@ describe("TaggerService.checkConditions", () => {
             expect(TaggerService.checkConditions({ vendor: "Adidas", price: 150 }, conditions)).toBe(false);
         });
     });
+
+    describe("Nested Condition Groups", () => {
+        // (country = CA OR country = US) AND total_price > 200 AND NOT tags contains wholesale
+        const conditions = [{ field: "total_price", operator: "greater_than", value: "200" }];
+        const groups = [
+            {
+                logic: "OR" as const,
+                conditions: [
+                    { field: "shipping_address.country_code", operator: "equals", value: "CA" },
+                    { field: "shipping_address.country_code", operator: "equals", value: "US" }
+                ]
+            },
+            {
+                logic: "NOT" as const,
+                conditions: [{ field: "tags", operator: "contains", value: "wholesale" }]
+            }
+        ];
+
+        it("should match when every group passes", () => {
+            const order = { total_price: "250", shipping_address: { country_code: "CA" }, tags: "vip" };
+            expect(TaggerService.checkConditions(order, conditions, "AND", groups)).toBe(true);
+        });
+
+        it("should fail when the OR group fails", () => {
+            const order = { total_price: "250", shipping_address: { country_code: "FR" }, tags: "vip" };
+            expect(TaggerService.checkConditions(order, conditions, "AND", groups)).toBe(false);
+        });
+
+        it("should fail when the NOT group matches", () => {
+            const order = { total_price: "250", shipping_address: { country_code: "US" }, tags: "wholesale, vip" };
+            expect(TaggerService.checkConditions(order, conditions, "AND", groups)).toBe(false);
+        });
+
+        it("should evaluate groups nested inside groups", () => {
+            const nested = [{
+                logic: "OR" as const,
+                conditions: [{ field: "vendor", operator: "equals", value: "Nike" }],
+                groups: [{
+                    logic: "AND" as const,
+                    conditions: [
+                        { field: "vendor", operator: "equals", value: "Adidas" },
+                        { field: "price", operator: "greater_than", value: "100" }
+                    ]
+                }]
+            }];
+            expect(TaggerService.checkConditions({ vendor: "Adidas", price: 150 }, [], "AND", nested)).toBe(true);
+            expect(TaggerService.checkConditions({ vendor: "Adidas", price: 50 }, [], "AND", nested)).toBe(false);
+        });
+
+        it("should support NOT as the top-level logic", () => {
+            const notConditions = [{ field: "vendor", operator: "equals", value: "Nike" }];
+            expect(TaggerService.checkConditions({ vendor: "Adidas" }, notConditions, "NOT")).toBe(true);
+            expect(TaggerService.checkConditions({ vendor: "Nike" }, notConditions, "NOT")).toBe(false);
+        });
+
+        it("should treat an empty group as passing", () => {
+            expect(TaggerService.checkConditions({}, [], "AND", [{ logic: "OR", conditions: [] }])).toBe(true);
+        });
+    });
 });